@@ -0,0 +1,3442 @@
+// Generated from openapi.json by scripts/generate-api.mjs. Do not edit by hand.
+
+/** pending: invited and not yet accepted */
+export type MemberStatus = 'active' | 'inactive' | 'suspended' | 'pending';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface PageMeta {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+export interface Member {
+  id: number;
+  username: string;
+  fullName?: string | null;
+  nickname?: string | null;
+  email: string;
+  phone?: string | null;
+  status: MemberStatus;
+  /** Reason given for the last status change */
+  statusReason?: string | null;
+  isVirtual: boolean;
+  /** llm, workflow or bot for virtual members */
+  agentType?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  /** Set when the member is soft-deleted */
+  deletedAt?: string | null;
+}
+
+export interface MemberList {
+  data: Member[];
+  meta?: PageMeta;
+}
+
+export interface MemberCreate {
+  username: string;
+  fullName?: string | null;
+  nickname?: string | null;
+  email: string;
+  phone?: string | null;
+  isVirtual: boolean;
+  agentType?: string | null;
+  status: MemberStatus;
+}
+
+export interface MemberUpdate {
+  fullName: string | null;
+  nickname: string | null;
+  phone: string | null;
+  email: string;
+}
+
+export interface MemberStatusChange {
+  status: MemberStatus;
+  reason: string;
+}
+
+export interface MemberDraft {
+  username: string;
+  email: string;
+  fullName: string | null;
+  nickname: string | null;
+  phone: string | null;
+  /** Unvalidated; checked by the import dry-run */
+  status: string;
+  isVirtual: boolean;
+  agentType: string | null;
+}
+
+export interface MemberImport {
+  members: MemberDraft[];
+}
+
+export interface ImportRowError {
+  /** Zero-based index into the submitted rows */
+  row: number;
+  field: string;
+  message: string;
+}
+
+export interface ImportValidation {
+  errors: ImportRowError[];
+}
+
+export interface BatchResult {
+  results: ({
+  index: number;
+  id?: number;
+  error?: string;
+})[];
+}
+
+export interface Role {
+  id: number;
+  /** 0 for global roles */
+  orgId: number;
+  code: string;
+  name: string;
+  description: string | null;
+  /** Position held within an org */
+  isPosition: boolean;
+  active: boolean;
+  permissions: string[];
+}
+
+export interface RoleList {
+  data: Role[];
+  meta?: PageMeta;
+}
+
+export interface RoleInput {
+  orgId: number;
+  code: string;
+  name: string;
+  description: string | null;
+  isPosition: boolean;
+  active: boolean;
+  permissions?: string[];
+}
+
+export interface RolePermissions {
+  permissions: string[];
+}
+
+export interface OrgUnit {
+  id: number;
+  name: string;
+  type: string;
+  description: string | null;
+  tenantId: number;
+  parentId: number | null;
+  memberCount: number;
+}
+
+export interface OrgList {
+  data: OrgUnit[];
+  meta?: PageMeta;
+}
+
+export interface OrgCreate {
+  name: string;
+  type: string;
+  description: string | null;
+  parentId: number | null;
+}
+
+export interface OrgMove {
+  parentId: number | null;
+}
+
+export interface Assignment {
+  id: number;
+  memberId: number;
+  orgId: number;
+  roleId: number | null;
+  isPrimary: boolean;
+}
+
+export interface AssignmentList {
+  data: Assignment[];
+}
+
+export interface AssignmentCreate {
+  memberId: number;
+  orgId: number;
+  roleId: number | null;
+  isPrimary: boolean;
+}
+
+export interface AssignmentUpdate {
+  isPrimary: boolean;
+}
+
+export interface OrgMemberAssignment extends Assignment {
+  member: Member;
+}
+
+export interface OrgMemberList {
+  data: OrgMemberAssignment[];
+}
+
+export interface AgentConfig {
+  ownerId: number | null;
+  model: string | null;
+  capabilities: string[];
+  scopes: string[];
+}
+
+export interface Agent extends Member {
+  config: AgentConfig;
+  activeTokens: number;
+}
+
+export interface AgentList {
+  data: Agent[];
+  meta?: PageMeta;
+}
+
+export interface AgentCreate {
+  username: string;
+  fullName: string | null;
+  email: string;
+  status: MemberStatus;
+  agentType: string;
+  config: AgentConfig;
+}
+
+export interface AgentToken {
+  id: number;
+  memberId: number;
+  name: string;
+  prefix: string;
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  /** Only present in the issuance response */
+  secret?: string;
+}
+
+export interface AgentTokenList {
+  data: AgentToken[];
+}
+
+export interface TokenIssue {
+  name: string;
+  expiresInDays: number | null;
+}
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export type AuditEntityType = 'member' | 'role' | 'org' | 'assignment' | 'agent' | 'agent_token' | 'invitation' | 'identity_provider' | 'member_mfa';
+
+export interface AuditEvent {
+  id: number;
+  tenantId: number;
+  actor: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: number;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  timestamp: string;
+}
+
+export interface AuditEventList {
+  data: AuditEvent[];
+  meta?: PageMeta;
+}
+
+export interface StatusCount {
+  status: MemberStatus;
+  count: number;
+}
+
+export interface TypeCount {
+  /** human, or the agentType of a virtual member */
+  type: string;
+  count: number;
+}
+
+export interface GrowthPoint {
+  /** YYYY-MM */
+  month: string;
+  added: number;
+  /** Members at the end of the month */
+  total: number;
+}
+
+export interface OrgCount {
+  orgId: number;
+  name: string;
+  memberCount: number;
+}
+
+export interface DashboardStats {
+  totalMembers: number;
+  activeAgents: number;
+  orgUnits: number;
+  byStatus: StatusCount[];
+  byType: TypeCount[];
+  growth: GrowthPoint[];
+  byOrg: OrgCount[];
+  /** Latest audit events, newest first */
+  recentChanges: AuditEvent[];
+  /** Invitations sent and not yet accepted, expired or revoked */
+  pendingInvitations: number;
+  pendingAccessRequests: number;
+}
+
+export interface LabelOverride {
+  /** BCP 47 tag, e.g. zh-CN */
+  locale: string;
+  /** Message catalog key, e.g. members.title */
+  key: string;
+  text: string;
+}
+
+export interface LabelOverrideList {
+  data: LabelOverride[];
+}
+
+export type InvitationStatus = 'pending' | 'accepted' | 'expired' | 'revoked';
+
+export interface Invitation {
+  id: number;
+  email: string;
+  /** The pending member created for the invitee */
+  memberId: number;
+  orgId: number;
+  roleId: number | null;
+  status: InvitationStatus;
+  invitedBy: string;
+  createdAt: string;
+  expiresAt: string;
+  acceptedAt: string | null;
+  /** Only present when the invitation is created or resent */
+  token?: string;
+}
+
+export interface InvitationList {
+  data: Invitation[];
+}
+
+export interface InvitationCreate {
+  email: string;
+  fullName?: string | null;
+  orgId: number;
+  roleId: number | null;
+}
+
+export interface InvitationPreview {
+  email: string;
+  fullName: string | null;
+  suggestedUsername: string;
+  tenantName: string;
+  orgName: string;
+  roleName: string | null;
+  invitedBy: string;
+  expiresAt: string;
+}
+
+export interface InvitationAccept {
+  token: string;
+  username: string;
+  password: string;
+  fullName: string | null;
+  nickname: string | null;
+  phone: string | null;
+}
+
+export type AccessRequestStatus = 'pending' | 'approved' | 'declined';
+
+export interface AccessRequest {
+  id: number;
+  email: string;
+  fullName: string;
+  message: string | null;
+  status: AccessRequestStatus;
+  createdAt: string;
+}
+
+export interface AccessRequestList {
+  data: AccessRequest[];
+}
+
+export interface AccessRequestCreate {
+  email: string;
+  fullName: string;
+  message: string | null;
+}
+
+export interface AccessRequestDecision {
+  status: 'approved' | 'declined';
+}
+
+export type SsoProtocol = 'oidc' | 'saml';
+
+/** Names of the IdP claims (OIDC) or attributes (SAML) each member field is read from */
+export interface ClaimMapping {
+  username: string;
+  email: string;
+  fullName: string | null;
+  nickname: string | null;
+  phone: string | null;
+}
+
+export interface IdentityProviderInput {
+  name: string;
+  protocol: SsoProtocol;
+  issuer: string;
+  /** Where the browser is sent to sign in; for SAML, the server's SP-initiated login URL */
+  authorizationEndpoint: string;
+  tokenEndpoint: string | null;
+  clientId: string;
+  scopes: string[];
+  claimMapping: ClaimMapping;
+  /** Create a member on first sign-in when none matches the email */
+  jitProvisioning: boolean;
+  defaultOrgId: number | null;
+  defaultRoleId: number | null;
+  enabled: boolean;
+}
+
+export interface IdentityProvider extends IdentityProviderInput {
+  id: number;
+}
+
+export interface IdentityProviderList {
+  data: IdentityProvider[];
+}
+
+/** What the sign-in screen needs to start a login; no secrets */
+export interface SsoProvider {
+  id: number;
+  name: string;
+  protocol: SsoProtocol;
+  authorizationEndpoint: string;
+  clientId: string;
+  scopes: string[];
+}
+
+export interface SsoProviderList {
+  data: SsoProvider[];
+}
+
+export interface SsoCallback {
+  tenantId: number;
+  providerId: number;
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+}
+
+export interface TenantSettings {
+  /** agentType values new virtual members may use */
+  allowedAgentTypes: ('llm' | 'workflow' | 'bot')[];
+  /** Optional member fields that become mandatory on create */
+  requiredMemberFields: ('fullName' | 'nickname' | 'phone')[];
+  /** Regular expression a new username must fully match; null allows any */
+  usernamePattern: string | null;
+  /** Domains a new member's email must belong to; empty allows any */
+  emailDomains: string[];
+  defaultMemberStatus: MemberStatus;
+  /** Codes of roles whose holders must sign in with a second factor, e.g. ADMIN */
+  mfaRequiredRoles: string[];
+}
+
+export interface Health {
+  status: 'ok';
+  version: string;
+}
+
+export interface Tenant {
+  id: number;
+  name: string;
+}
+
+export interface TenantList {
+  data: Tenant[];
+}
+
+export interface LoginRequest {
+  username: string;
+  password: string;
+  tenantId: number;
+}
+
+export interface AuthSession {
+  accessToken: string;
+  refreshToken?: string;
+  /** Seconds until access_token expires */
+  expiresIn?: number;
+}
+
+export interface PermissionGrant {
+  /** resource:action */
+  permission: string;
+  /** Units the grant applies to, sub-units included; null when it is tenant-wide */
+  orgIds: number[] | null;
+}
+
+export interface CurrentUser {
+  username: string;
+  fullName: string | null;
+  /** Effective permissions in the current tenant */
+  permissions: PermissionGrant[];
+}
+
+export interface LoginResponse extends AuthSession, CurrentUser {
+}
+
+export interface MfaEnrollment {
+  /** Base32 TOTP secret for typing into an authenticator app */
+  secret: string;
+  /** otpauth://totp/ URI, usually shown as a QR code */
+  otpauthUri: string;
+}
+
+/** The second factor still owed. enrollment is set when the tenant requires MFA and the member has none yet; the first valid code completes it */
+export interface MfaChallenge {
+  /** Proves the password step; send it with a code to /auth/mfa/verify */
+  mfaToken: string;
+  /** Seconds until mfa_token expires */
+  expiresIn: number;
+  enrollment: MfaEnrollment | null;
+}
+
+/** Exactly one of session and mfa_challenge is set */
+export interface LoginResult {
+  session: LoginResponse | null;
+  mfaChallenge: MfaChallenge | null;
+}
+
+export interface MfaVerify {
+  mfaToken: string;
+  /** Authenticator code, or an unused recovery code */
+  code: string;
+}
+
+export interface MfaLoginResponse extends LoginResponse {
+  /** Set when this sign-in completed a required enrollment; shown only once */
+  recoveryCodes: string[] | null;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  enrolledAt: string | null;
+  recoveryCodesRemaining: number;
+  /** The tenant's MFA policy covers one of the member's roles */
+  required: boolean;
+}
+
+export interface MfaCode {
+  /** Current authenticator code */
+  code: string;
+}
+
+export interface MfaRecoveryCodes {
+  /** Single-use codes replacing any issued before; shown only once */
+  recoveryCodes: string[];
+}
+
+export type LoginMethod = 'password' | 'sso' | 'invitation';
+
+export interface LoginEvent {
+  id: number;
+  timestamp: string;
+  method: LoginMethod;
+  success: boolean;
+  failureReason: string | null;
+  /** A second factor was verified */
+  mfa: boolean;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export interface LoginEventList {
+  data: LoginEvent[];
+  meta: PageMeta;
+}
+
+export interface RefreshRequest {
+  refreshToken: string;
+}
+
+export interface FieldError {
+  /** Request property the message applies to */
+  field: string;
+  message: string;
+}
+
+export interface ErrorBody {
+  message: string;
+  /** Machine-readable reason, e.g. duplicate_username */
+  code?: string;
+  errors?: FieldError[];
+}
+
+/** Shapes as they appear on the wire, for schemas that use snake_case */
+export namespace Wire {
+  export interface PageMeta {
+    page: number;
+    page_size: number;
+    total: number;
+    total_pages: number;
+  }
+
+  export interface MemberList {
+    data: Member[];
+    meta?: Wire.PageMeta;
+  }
+
+  export interface Role {
+    id: number;
+    /** 0 for global roles */
+    org_id: number;
+    code: string;
+    name: string;
+    description: string | null;
+    /** Position held within an org */
+    is_position: boolean;
+    active: boolean;
+    permissions: string[];
+  }
+
+  export interface RoleList {
+    data: Wire.Role[];
+    meta?: Wire.PageMeta;
+  }
+
+  export interface RoleInput {
+    org_id: number;
+    code: string;
+    name: string;
+    description: string | null;
+    is_position: boolean;
+    active: boolean;
+    permissions?: string[];
+  }
+
+  export interface OrgList {
+    data: OrgUnit[];
+    meta?: Wire.PageMeta;
+  }
+
+  export interface AgentList {
+    data: Agent[];
+    meta?: Wire.PageMeta;
+  }
+
+  export interface AuditEventList {
+    data: AuditEvent[];
+    meta?: Wire.PageMeta;
+  }
+
+  export interface Invitation {
+    id: number;
+    email: string;
+    /** The pending member created for the invitee */
+    member_id: number;
+    org_id: number;
+    role_id: number | null;
+    status: InvitationStatus;
+    invited_by: string;
+    created_at: string;
+    expires_at: string;
+    accepted_at: string | null;
+    /** Only present when the invitation is created or resent */
+    token?: string;
+  }
+
+  export interface InvitationList {
+    data: Wire.Invitation[];
+  }
+
+  export interface InvitationCreate {
+    email: string;
+    full_name?: string | null;
+    org_id: number;
+    role_id: number | null;
+  }
+
+  export interface InvitationPreview {
+    email: string;
+    full_name: string | null;
+    suggested_username: string;
+    tenant_name: string;
+    org_name: string;
+    role_name: string | null;
+    invited_by: string;
+    expires_at: string;
+  }
+
+  export interface InvitationAccept {
+    token: string;
+    username: string;
+    password: string;
+    full_name: string | null;
+    nickname: string | null;
+    phone: string | null;
+  }
+
+  export interface AccessRequest {
+    id: number;
+    email: string;
+    full_name: string;
+    message: string | null;
+    status: AccessRequestStatus;
+    created_at: string;
+  }
+
+  export interface AccessRequestList {
+    data: Wire.AccessRequest[];
+  }
+
+  export interface AccessRequestCreate {
+    email: string;
+    full_name: string;
+    message: string | null;
+  }
+
+  /** Names of the IdP claims (OIDC) or attributes (SAML) each member field is read from */
+  export interface ClaimMapping {
+    username: string;
+    email: string;
+    full_name: string | null;
+    nickname: string | null;
+    phone: string | null;
+  }
+
+  export interface IdentityProviderInput {
+    name: string;
+    protocol: SsoProtocol;
+    issuer: string;
+    /** Where the browser is sent to sign in; for SAML, the server's SP-initiated login URL */
+    authorization_endpoint: string;
+    token_endpoint: string | null;
+    client_id: string;
+    scopes: string[];
+    claim_mapping: Wire.ClaimMapping;
+    /** Create a member on first sign-in when none matches the email */
+    jit_provisioning: boolean;
+    default_org_id: number | null;
+    default_role_id: number | null;
+    enabled: boolean;
+  }
+
+  export interface IdentityProvider extends Wire.IdentityProviderInput {
+    id: number;
+  }
+
+  export interface IdentityProviderList {
+    data: Wire.IdentityProvider[];
+  }
+
+  /** What the sign-in screen needs to start a login; no secrets */
+  export interface SsoProvider {
+    id: number;
+    name: string;
+    protocol: SsoProtocol;
+    authorization_endpoint: string;
+    client_id: string;
+    scopes: string[];
+  }
+
+  export interface SsoProviderList {
+    data: Wire.SsoProvider[];
+  }
+
+  export interface SsoCallback {
+    tenant_id: number;
+    provider_id: number;
+    code: string;
+    code_verifier: string;
+    redirect_uri: string;
+  }
+
+  export interface TenantSettings {
+    /** agentType values new virtual members may use */
+    allowed_agent_types: ('llm' | 'workflow' | 'bot')[];
+    /** Optional member fields that become mandatory on create */
+    required_member_fields: ('fullName' | 'nickname' | 'phone')[];
+    /** Regular expression a new username must fully match; null allows any */
+    username_pattern: string | null;
+    /** Domains a new member's email must belong to; empty allows any */
+    email_domains: string[];
+    default_member_status: MemberStatus;
+    /** Codes of roles whose holders must sign in with a second factor, e.g. ADMIN */
+    mfa_required_roles: string[];
+  }
+
+  export interface AuthSession {
+    access_token: string;
+    refresh_token?: string;
+    /** Seconds until access_token expires */
+    expires_in?: number;
+  }
+
+  export interface PermissionGrant {
+    /** resource:action */
+    permission: string;
+    /** Units the grant applies to, sub-units included; null when it is tenant-wide */
+    org_ids: number[] | null;
+  }
+
+  export interface CurrentUser {
+    username: string;
+    full_name: string | null;
+    /** Effective permissions in the current tenant */
+    permissions: Wire.PermissionGrant[];
+  }
+
+  export interface LoginResponse extends Wire.AuthSession, Wire.CurrentUser {
+  }
+
+  export interface MfaEnrollment {
+    /** Base32 TOTP secret for typing into an authenticator app */
+    secret: string;
+    /** otpauth://totp/ URI, usually shown as a QR code */
+    otpauth_uri: string;
+  }
+
+  /** The second factor still owed. enrollment is set when the tenant requires MFA and the member has none yet; the first valid code completes it */
+  export interface MfaChallenge {
+    /** Proves the password step; send it with a code to /auth/mfa/verify */
+    mfa_token: string;
+    /** Seconds until mfa_token expires */
+    expires_in: number;
+    enrollment: Wire.MfaEnrollment | null;
+  }
+
+  /** Exactly one of session and mfa_challenge is set */
+  export interface LoginResult {
+    session: Wire.LoginResponse | null;
+    mfa_challenge: Wire.MfaChallenge | null;
+  }
+
+  export interface MfaVerify {
+    mfa_token: string;
+    /** Authenticator code, or an unused recovery code */
+    code: string;
+  }
+
+  export interface MfaLoginResponse extends Wire.LoginResponse {
+    /** Set when this sign-in completed a required enrollment; shown only once */
+    recovery_codes: string[] | null;
+  }
+
+  export interface MfaStatus {
+    enabled: boolean;
+    enrolled_at: string | null;
+    recovery_codes_remaining: number;
+    /** The tenant's MFA policy covers one of the member's roles */
+    required: boolean;
+  }
+
+  export interface MfaRecoveryCodes {
+    /** Single-use codes replacing any issued before; shown only once */
+    recovery_codes: string[];
+  }
+
+  export interface LoginEvent {
+    id: number;
+    timestamp: string;
+    method: LoginMethod;
+    success: boolean;
+    failure_reason: string | null;
+    /** A second factor was verified */
+    mfa: boolean;
+    ip_address: string | null;
+    user_agent: string | null;
+  }
+
+  export interface LoginEventList {
+    data: Wire.LoginEvent[];
+    meta: Wire.PageMeta;
+  }
+
+  export interface RefreshRequest {
+    refresh_token: string;
+  }
+}
+
+export interface GetSsoProvidersQuery {
+  tenantId?: number;
+}
+
+export interface GetInvitationsQuery {
+  status?: InvitationStatus;
+}
+
+export interface GetInvitationByTokenQuery {
+  token?: string;
+}
+
+export interface GetAccessRequestsQuery {
+  status?: AccessRequestStatus;
+}
+
+export interface GetMembersQuery {
+  status?: MemberStatus;
+  keyword?: string;
+  isVirtual?: boolean;
+  agentType?: string;
+  orgId?: number;
+  roleId?: number;
+  createdFrom?: string;
+  createdTo?: string;
+  updatedFrom?: string;
+  updatedTo?: string;
+  hasPhone?: boolean;
+  hasNickname?: boolean;
+  page?: number;
+  pageSize?: number;
+  sortBy?: 'name' | 'status' | 'createdAt';
+  sortOrder?: SortOrder;
+}
+
+export interface GetMemberHistoryQuery {
+  page?: number;
+  pageSize?: number;
+}
+
+export interface GetMemberLoginsQuery {
+  page?: number;
+  pageSize?: number;
+}
+
+export interface GetAgentsQuery {
+  agentType?: string;
+}
+
+export interface GetAuditEventsQuery {
+  actor?: string;
+  entityType?: AuditEntityType;
+  entityId?: number;
+  action?: AuditAction;
+  from?: string;
+  to?: string;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  $ref?: string;
+  allOf?: JsonSchema[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: (string | number)[];
+  format?: string;
+  nullable?: boolean;
+  description?: string;
+  minimum?: number;
+  maximum?: number;
+}
+
+export type SchemaName = 'MemberStatus' | 'SortOrder' | 'PageMeta' | 'Member' | 'MemberList' | 'MemberCreate' | 'MemberUpdate' | 'MemberStatusChange' | 'MemberDraft' | 'MemberImport' | 'ImportRowError' | 'ImportValidation' | 'BatchResult' | 'Role' | 'RoleList' | 'RoleInput' | 'RolePermissions' | 'OrgUnit' | 'OrgList' | 'OrgCreate' | 'OrgMove' | 'Assignment' | 'AssignmentList' | 'AssignmentCreate' | 'AssignmentUpdate' | 'OrgMemberAssignment' | 'OrgMemberList' | 'AgentConfig' | 'Agent' | 'AgentList' | 'AgentCreate' | 'AgentToken' | 'AgentTokenList' | 'TokenIssue' | 'AuditAction' | 'AuditEntityType' | 'AuditEvent' | 'AuditEventList' | 'StatusCount' | 'TypeCount' | 'GrowthPoint' | 'OrgCount' | 'DashboardStats' | 'LabelOverride' | 'LabelOverrideList' | 'InvitationStatus' | 'Invitation' | 'InvitationList' | 'InvitationCreate' | 'InvitationPreview' | 'InvitationAccept' | 'AccessRequestStatus' | 'AccessRequest' | 'AccessRequestList' | 'AccessRequestCreate' | 'AccessRequestDecision' | 'SsoProtocol' | 'ClaimMapping' | 'IdentityProviderInput' | 'IdentityProvider' | 'IdentityProviderList' | 'SsoProvider' | 'SsoProviderList' | 'SsoCallback' | 'TenantSettings' | 'Health' | 'Tenant' | 'TenantList' | 'LoginRequest' | 'AuthSession' | 'PermissionGrant' | 'CurrentUser' | 'LoginResponse' | 'MfaEnrollment' | 'MfaChallenge' | 'LoginResult' | 'MfaVerify' | 'MfaLoginResponse' | 'MfaStatus' | 'MfaCode' | 'MfaRecoveryCodes' | 'LoginMethod' | 'LoginEvent' | 'LoginEventList' | 'RefreshRequest' | 'FieldError' | 'ErrorBody';
+
+export const SCHEMAS: Record<SchemaName, JsonSchema> = {
+  "MemberStatus": {
+    "type": "string",
+    "enum": [
+      "active",
+      "inactive",
+      "suspended",
+      "pending"
+    ],
+    "description": "pending: invited and not yet accepted"
+  },
+  "SortOrder": {
+    "type": "string",
+    "enum": [
+      "asc",
+      "desc"
+    ]
+  },
+  "PageMeta": {
+    "type": "object",
+    "properties": {
+      "page": {
+        "type": "integer"
+      },
+      "page_size": {
+        "type": "integer"
+      },
+      "total": {
+        "type": "integer"
+      },
+      "total_pages": {
+        "type": "integer"
+      }
+    },
+    "required": [
+      "page",
+      "page_size",
+      "total",
+      "total_pages"
+    ]
+  },
+  "Member": {
+    "type": "object",
+    "properties": {
+      "id": {
+        "type": "integer"
+      },
+      "username": {
+        "type": "string"
+      },
+      "fullName": {
+        "type": "string",
+        "nullable": true
+      },
+      "nickname": {
+        "type": "string",
+        "nullable": true
+      },
+      "email": {
+        "type": "string"
+      },
+      "phone": {
+        "type": "string",
+        "nullable": true
+      },
+      "status": {
+        "$ref": "#/components/schemas/MemberStatus"
+      },
+      "statusReason": {
+        "type": "string",
+        "description": "Reason given for the last status change",
+        "nullable": true
+      },
+      "isVirtual": {
+        "type": "boolean"
+      },
+      "agentType": {
+        "type": "string",
+        "description": "llm, workflow or bot for virtual members",
+        "nullable": true
+      },
+      "createdAt": {
+        "type": "string",
+        "format": "date-time"
+      },
+      "updatedAt": {
+        "type": "string",
+        "format": "date-time"
+      },
+      "deletedAt": {
+        "type": "string",
+        "format": "date-time",
+        "description": "Set when the member is soft-deleted",
+        "nullable": true
+      }
+    },
+    "required": [
+      "id",
+      "username",
+      "email",
+      "status",
+      "isVirtual",
+      "createdAt",
+      "updatedAt"
+    ]
+  },
+  "MemberList": {
+    "type": "object",
+    "properties": {
+      "data": {
+        "type": "array",
+        "items": {
+          "$ref": "#/components/schemas/Member"
+        }
+      },
+      "meta": {
+        "$ref": "#/components/schemas/PageMeta"
+      }
+    },
+    "required": [
+      "data"
+    ]
+  },
+  "MemberCreate": {
+    "type": "object",
+    "properties": {
+      "username": {
+        "type": "string"
+      },
+      "fullName": {
+        "type": "string",
+        "nullable": true
+      },
+      "nickname": {
+        "type": "string",
+        "nullable": true
+      },
+      "email": {
+        "type": "string"
+      },
+      "phone": {
+        "type": "string",
+        "nullable": true
+      },
+      "isVirtual": {
+        "type": "boolean"
+      },
+      "agentType": {
+        "type": "string",
+        "nullable": true
+      },
+      "status": {
+        "$ref": "#/components/schemas/MemberStatus"
+      }
+    },
+    "required": [
+      "username",
+      "email",
+      "isVirtual",
+      "status"
+    ]
+  },
+  "MemberUpdate": {
+    "type": "object",
+    "properties": {
+      "fullName": {
+        "type": "string",
+        "nullable": true
+      },
+      "nickname": {
+        "type": "string",
+        "nullable": true
+      },
+      "phone": {
+        "type": "string",
+        "nullable": true
+      },
+      "email": {
+        "type": "string"
+      }
+    },
+    "required": [
+      "fullName",
+      "nickname",
+      "phone",
+      "email"
+    ]
+  },
+  "MemberStatusChange": {
+    "type": "object",
+    "properties": {
+      "status": {
+        "$ref": "#/components/schemas/MemberStatus"
+      },
+      "reason": {
+        "type": "string"
+      }
+    },
+    "required": [
+      "status",
+      "reason"
+    ]
+  },
+  "MemberDraft": {
+    "type": "object",
+    "properties": {
+      "username": {
+        "type": "string"
+      },
+      "email": {
+        "type": "string"
+      },
+      "fullName": {
+        "type": "string",
+        "nullable": true
+      },
+      "nickname": {
+        "type": "string",
+        "nullable": true
+      },
+      "phone": {
+        "type": "string",
+        "nullable": true
+      },
+      "status": {
+        "type": "string",
+        "description": "Unvalidated; checked by the import dry-run"
+      },
+      "isVirtual": {
+        "type": "boolean"
+      },
+      "agentType": {
+        "type": "string",
+        "nullable": true
+      }
+    },
+    "required": [
+      "username",
+      "email",
+      "fullName",
+      "nickname",
+      "phone",
+      "status",
+      "isVirtual",
+      "agentType"
+    ]
+  },
+  "MemberImport": {
+    "type": "object",
+    "properties": {
+      "members": {
+        "type": "array",
+        "items": {
+          "$ref": "#/components/schemas/MemberDraft"
+        }
+      }
+    },
+    "required": [
+      "members"
+    ]
+  },
+  "ImportRowError": {
+    "type": "object",
+    "properties": {
+      "row": {
+        "type": "integer",
+        "description": "Zero-based index into the submitted rows"
+      },
+      "field": {
+        "type": "string"
+      },
+      "message": {
+        "type": "string"
+      }
+    },
+    "required": [
+      "row",
+      "field",
+      "message"
+    ]
+  },
+  "ImportValidation": {
+    "type": "object",
+    "properties": {
+      "errors": {
+        "type": "array",
+        "items": {
+          "$ref": "#/components/schemas/ImportRowError"
+        }
+      }
+    },
+    "required": [
+      "errors"
+    ]
+  },
+  "BatchResult": {
+    "type": "object",
+    "properties": {
+      "results": {
+        "type": "array",
+        "items": {
+          "type": "object",
+          "properties": {
+            "index": {
+              "type": "integer"
+            },
+            "id": {
+              "type": "integer"
+            },
+            "error": {
+              "type": "string"
+            }
+          },
+          "required": [
+            "index"
+          ]
+        }
+      }
+    },
+    "required": [
+      "results"
+    ]
+  },
+  "Role": {
+    "type": "object",
+    "properties": {
+      "id": {
+        "type": "integer"
+      },
+      "org_id": {
+        "type": "integer",
+        "description": "0 for global roles"
+      },
+      "code": {
+        "type": "string"
+      },
+      "name": {
+        "type": "string"
+      },
+      "description": {
+        "type": "string",
+        "nullable": true
+      },
+      "is_position": {
+        "type": "boolean",
+        "description": "Position held within an org"
+      },
+      "active": {
+        "type": "boolean"
+      },
+      "permissions": {
+        "type": "array",
+        "items": {
+          "type": "string",
+          "description": "resource:action"
+        }
+      }
+    },
+    "required": [
+      "id",
+      "org_id",
+      "code",
+      "name",
+      "description",
+      "is_position",
+      "active",
+      "permissions"
+    ]
+  },
+  "RoleList": {
+    "type": "object",
+    "properties": {
+      "data": {
+        "type": "array",
+        "items": {
+          "$ref": "#/components/schemas/Role"
+        }
+      },
+      "meta": {
+        "$ref": "#/components/schemas/PageMeta"
+      }
+    },
+    "required": [
+      "data"
+    ]
+  },
+  "RoleInput": {
+    "type": "object",
+    "properties": {
+      "org_id": {
+        "type": "integer"
+      },
+      "code": {
+        "type": "string"
+      },
+      "name": {
+        "type": "string"
+      },
+      "description": {
+        "type": "string",
+        "nullable": true
+      },
+      "is_position": {
+        "type": "boolean"
+      },
+      "active": {
+        "type": "boolean"
+      },
+      "permissions": {
+        "type": "array",
+        "items": {
+          "type": "string"
+        }
+      }
+    },
+    "required": [
+      "org_id",
+      "code",
+      "name",
+      "description",
+      "is_position",
+      "active"
+    ]
+  },
+  "RolePermissions": {
+    "type": "object",
+    "properties": {
+      "permissions": {
+        "type": "array",
+        "items": {
+          "type": "string"
+        }
+      }
+    },
+    "required": [
+      "permissions"
+    ]
+  },
+  "OrgUnit": {
+    "type": "object",
+    "properties": {
+      "id": {
+        "type": "integer"
+      },
+      "name": {
+        "type": "string"
+      },
+      "type": {
+        "type": "string"
+      },
+      "description": {
+        "type": "string",
+        "nullable": true
+      },
+      "tenantId": {
+        "type": "integer"
+      },
+      "parentId": {
+        "type": "integer",
+        "nullable": true
+      },
+      "memberCount": {
+        "type": "integer"
+      }
+    },
+    "required": [
+      "id",
+      "name",
+      "type",
+      "description",
+      "tenantId",
+      "parentId",
+      "memberCount"
+    ]
+  },
+  "OrgList": {
+    "type": "object",
+    "properties": {
+      "data": {
+        "type": "array",
+        "items": {
+          "$ref": "#/components/schemas/OrgUnit"
+        }
+      },
+      "meta": {
+        "$ref": "#/components/schemas/PageMeta"
+      }
+    },
+    "required": [
+      "data"
+    ]
+  },
+  "OrgCreate": {
+    "type": "object",
+    "properties": {
+      "name": {
+        "type": "string"
+      },
+      "type": {
+        "type": "string"
+      },
+      "description": {
+        "type": "string",
+        "nullable": true
+      },
+      "parentId": {
+        "type": "integer",
+        "nullable": true
+      }
+    },
+    "required": [
+      "name",
+      "type",
+      "description",
+      "parentId"
+    ]
+  },
+  "OrgMove": {
+    "type": "object",
+    "properties": {
+      "parentId": {
+        "type": "integer",
+        "nullable": true
+      }
+    },
+    "required": [
+      "parentId"
+    ]
+  },
+  "Assignment": {
+    "type": "object",
+    "properties": {
+      "id": {
+        "type": "integer"
+      },
+      "memberId": {
+        "type": "integer"
+      },
+      "orgId": {
+        "type": "integer"
+      },
+      "roleId": {
+        "type": "integer",
+        "nullable": true
+      },
+      "isPrimary": {
+        "type": "boolean"
+      }
+    },
+    "required": [
+      "id",
+      "memberId",
+      "orgId",
+      "roleId",
+      "isPrimary"
+    ]
+  },
+  "AssignmentList": {
+    "type": "object",
+    "properties": {
+      "data": {
+        "type": "array",
+        "items": {
+          "$ref": "#/components/schemas/Assignment"
+        }
+      }
+    },
+    "required": [
+      "data"
+    ]
+  },
+  "AssignmentCreate": {
+    "type": "object",
+    "properties": {
+      "memberId": {
+        "type": "integer"
+      },
+      "orgId": {
+        "type": "integer"
+      },
+      "roleId": {
+        "type": "integer",
+        "nullable": true
+      },
+      "isPrimary": {
+        "type": "boolean"
+      }
+    },
+    "required": [
+      "memberId",
+      "orgId",
+      "roleId",
+      "isPrimary"
+    ]
+  },
+  "AssignmentUpdate": {
+    "type": "object",
+    "properties": {
+      "isPrimary": {
+        "type": "boolean"
+      }
+    },
+    "required": [
+      "isPrimary"
+    ]
+  },
+  "OrgMemberAssignment": {
+    "allOf": [
+      {
+        "$ref": "#/components/schemas/Assignment"
+      },
+      {
+        "type": "object",
+        "properties": {
+          "member": {
+            "$ref": "#/components/schemas/Member"
+          }
+        },
+        "required": [
+          "member"
+        ]
+      }
+    ]
+  },
+  "OrgMemberList": {
+    "type": "object",
+    "properties": {
+      "data": {
+        "type": "array",
+        "items": {
+          "$ref": "#/components/schemas/OrgMemberAssignment"
+        }
+      }
+    },
+    "required": [
+      "data"
+    ]
+  },
+  "AgentConfig": {
+    "type": "object",
+    "properties": {
+      "ownerId": {
+        "type": "integer",
+        "nullable": true
+      },
+      "model": {
+        "type": "string",
+        "nullable": true
+      },
+      "capabilities": {
+        "type": "array",
+        "items": {
+          "type": "string"
+        }
+      },
+      "scopes": {
+        "type": "array",
+        "items": {
+          "type": "string"
+        }
+      }
+    },
+    "required": [
+      "ownerId",
+      "model",
+      "capabilities",
+      "scopes"
+    ]
+  },
+  "Agent": {
+    "allOf": [
+      {
+        "$ref": "#/components/schemas/Member"
+      },
+      {
+        "type": "object",
+        "properties": {
+          "config": {
+            "$ref": "#/components/schemas/AgentConfig"
+          },
+          "activeTokens": {
+            "type": "integer"
+          }
+        },
+        "required": [
+          "config",
+          "activeTokens"
+        ]
+      }
+    ]
+  },
+  "AgentList": {
+    "type": "object",
+    "properties": {
+      "data": {
+        "type": "array",
+        "items": {
+          "$ref": "#/components/schemas/Agent"
+        }
+      },
+      "meta": {
+        "$ref": "#/components/schemas/PageMeta"
+      }
+    },
+    "required": [
+      "data"
+    ]
+  },
+  "AgentCreate": {
+    "type": "object",
+    "properties": {
+      "username": {
+        "type": "string"
+      },
+      "fullName": {
+        "type": "string",
+        "nullable": true
+      },
+      "email": {
+        "type": "string"
+      },
+      "status": {
+        "$ref": "#/components/schemas/MemberStatus"
+      },
+      "agentType": {
+        "type": "string"
+      },
+      "config": {
+        "$ref": "#/components/schemas/AgentConfig"
+      }
+    },
+    "required": [
+      "username",
+      "fullName",
+      "email",
+      "status",
+      "agentType",
+      "config"
+    ]
+  },
+  "AgentToken": {
+    "type": "object",
+    "properties": {
+      "id": {
+        "type": "integer"
+      },
+      "memberId": {
+        "type": "integer"
+      },
+      "name": {
+        "type": "string"
+      },
+      "prefix": {
+        "type": "string"
+      },
+      "createdAt": {
+        "type": "string",
+        "format": "date-time"
+      },
+      "expiresAt": {
+        "type": "string",
+        "format": "date-time",
+        "nullable": true
+      },
+      "lastUsedAt": {
+        "type": "string",
+        "format": "date-time",
+        "nullable": true
+      },
+      "revokedAt": {
+        "type": "string",
+        "format": "date-time",
+        "nullable": true
+      },
+      "secret": {
+        "type": "string",
+        "description": "Only present in the issuance response"
+      }
+    },
+    "required": [
+      "id",
+      "memberId",
+      "name",
+      "prefix",
+      "createdAt",
+      "expiresAt",
+      "lastUsedAt",
+      "revokedAt"
+    ]
+  },
+  "AgentTokenList": {
+    "type": "object",
+    "properties": {
+      "data": {
+        "type": "array",
+        "items": {
+          "$ref": "#/components/schemas/AgentToken"
+        }
+      }
+    },
+    "required": [
+      "data"
+    ]
+  },
+  "TokenIssue": {
+    "type": "object",
+    "properties": {
+      "name": {
+        "type": "string"
+      },
+      "expiresInDays": {
+        "type": "integer",
+        "nullable": true
+      }
+    },
+    "required": [
+      "name",
+      "expiresInDays"
+    ]
+  },
+  "AuditAction": {
+    "type": "string",
+    "enum": [
+      "create",
+      "update",
+      "delete"
+    ]
+  },
+  "AuditEntityType": {
+    "type": "string",
+    "enum": [
+      "member",
+      "role",
+      "org",
+      "assignment",
+      "agent",
+      "agent_token",
+      "invitation",
+      "identity_provider",
+      "member_mfa"
+    ]
+  },
+  "AuditEvent": {
+    "type": "object",
+    "properties": {
+      "id": {
+        "type": "integer"
+      },
+      "tenantId": {
+        "type": "integer"
+      },
+      "actor": {
+        "type": "string"
+      },
+      "action": {
+        "$ref": "#/components/schemas/AuditAction"
+      },
+      "entityType": {
+        "$ref": "#/components/schemas/AuditEntityType"
+      },
+      "entityId": {
+        "type": "integer"
+      },
+      "before": {
+        "type": "object",
+        "additionalProperties": true,
+        "nullable": true
+      },
+      "after": {
+        "type": "object",
+        "additionalProperties": true,
+        "nullable": true
+      },
+      "timestamp": {
+        "type": "string",
+        "format": "date-time"
+      }
+    },
+    "required": [
+      "id",
+      "tenantId",
+      "actor",
+      "action",
+      "entityType",
+      "entityId",
+      "before",
+      "after",
+      "timestamp"
+    ]
+  },
+  "AuditEventList": {
+    "type": "object",
+    "properties": {
+      "data": {
+        "type": "array",
+        "items": {
+          "$ref": "#/components/schemas/AuditEvent"
+        }
+      },
+      "meta": {
+        "$ref": "#/components/schemas/PageMeta"
+      }
+    },
+    "required": [
+      "data"
+    ]
+  },
+  "StatusCount": {
+    "type": "object",
+    "properties": {
+      "status": {
+        "$ref": "#/components/schemas/MemberStatus"
+      },
+      "count": {
+        "type": "integer"
+      }
+    },
+    "required": [
+      "status",
+      "count"
+    ]
+  },
+  "TypeCount": {
+    "type": "object",
+    "properties": {
+      "type": {
+        "type": "string",
+        "description": "human, or the agentType of a virtual member"
+      },
+      "count": {
+        "type": "integer"
+      }
+    },
+    "required": [
+      "type",
+      "count"
+    ]
+  },
+  "GrowthPoint": {
+    "type": "object",
+    "properties": {
+      "month": {
+        "type": "string",
+        "description": "YYYY-MM"
+      },
+      "added": {
+        "type": "integer"
+      },
+      "total": {
+        "type": "integer",
+        "description": "Members at the end of the month"
+      }
+    },
+    "required": [
+      "month",
+      "added",
+      "total"
+    ]
+  },
+  "OrgCount": {
+    "type": "object",
+    "properties": {
+      "orgId": {
+        "type": "integer"
+      },
+      "name": {
+        "type": "string"
+      },
+      "memberCount": {
+        "type": "integer"
+      }
+    },
+    "required": [
+      "orgId",
+      "name",
+      "memberCount"
+    ]
+  },
+  "DashboardStats": {
+    "type": "object",
+    "properties": {
+      "totalMembers": {
+        "type": "integer"
+      },
+      "activeAgents": {
+        "type": "integer"
+      },
+      "orgUnits": {
+        "type": "integer"
+      },
+      "byStatus": {
+        "type": "array",
+        "items": {
+          "$ref": "#/components/schemas/StatusCount"
+        }
+      },
+      "byType": {
+        "type": "array",
+        "items": {
+          "$ref": "#/components/schemas/TypeCount"
+        }
+      },
+      "growth": {
+        "type": "array",
+        "items": {
+          "$ref": "#/components/schemas/GrowthPoint"
+        }
+      },
+      "byOrg": {
+        "type": "array",
+        "items": {
+          "$ref": "#/components/schemas/OrgCount"
+        }
+      },
+      "recentChanges": {
+        "type": "array",
+        "items": {
+          "$ref": "#/components/schemas/AuditEvent"
+        },
+        "description": "Latest audit events, newest first"
+      },
+      "pendingInvitations": {
+        "type": "integer",
+        "description": "Invitations sent and not yet accepted, expired or revoked"
+      },
+      "pendingAccessRequests": {
+        "type": "integer"
+      }
+    },
+    "required": [
+      "totalMembers",
+      "activeAgents",
+      "orgUnits",
+      "byStatus",
+      "byType",
+      "growth",
+      "byOrg",
+      "recentChanges",
+      "pendingInvitations",
+      "pendingAccessRequests"
+    ]
+  },
+  "LabelOverride": {
+    "type": "object",
+    "properties": {
+      "locale": {
+        "type": "string",
+        "description": "BCP 47 tag, e.g. zh-CN"
+      },
+      "key": {
+        "type": "string",
+        "description": "Message catalog key, e.g. members.title"
+      },
+      "text": {
+        "type": "string"
+      }
+    },
+    "required": [
+      "locale",
+      "key",
+      "text"
+    ]
+  },
+  "LabelOverrideList": {
+    "type": "object",
+    "properties": {
+      "data": {
+        "type": "array",
+        "items": {
+          "$ref": "#/components/schemas/LabelOverride"
+        }
+      }
+    },
+    "required": [
+      "data"
+    ]
+  },
+  "InvitationStatus": {
+    "type": "string",
+    "enum": [
+      "pending",
+      "accepted",
+      "expired",
+      "revoked"
+    ]
+  },
+  "Invitation": {
+    "type": "object",
+    "properties": {
+      "id": {
+        "type": "integer"
+      },
+      "email": {
+        "type": "string"
+      },
+      "member_id": {
+        "type": "integer",
+        "description": "The pending member created for the invitee"
+      },
+      "org_id": {
+        "type": "integer"
+      },
+      "role_id": {
+        "type": "integer",
+        "nullable": true
+      },
+      "status": {
+        "$ref": "#/components/schemas/InvitationStatus"
+      },
+      "invited_by": {
+        "type": "string"
+      },
+      "created_at": {
+        "type": "string",
+        "format": "date-time"
+      },
+      "expires_at": {
+        "type": "string",
+        "format": "date-time"
+      },
+      "accepted_at": {
+        "type": "string",
+        "format": "date-time",
+        "nullable": true
+      },
+      "token": {
+        "type": "string",
+        "description": "Only present when the invitation is created or resent"
+      }
+    },
+    "required": [
+      "id",
+      "email",
+      "member_id",
+      "org_id",
+      "role_id",
+      "status",
+      "invited_by",
+      "created_at",
+      "expires_at",
+      "accepted_at"
+    ]
+  },
+  "InvitationList": {
+    "type": "object",
+    "properties": {
+      "data": {
+        "type": "array",
+        "items": {
+          "$ref": "#/components/schemas/Invitation"
+        }
+      }
+    },
+    "required": [
+      "data"
+    ]
+  },
+  "InvitationCreate": {
+    "type": "object",
+    "properties": {
+      "email": {
+        "type": "string"
+      },
+      "full_name": {
+        "type": "string",
+        "nullable": true
+      },
+      "org_id": {
+        "type": "integer"
+      },
+      "role_id": {
+        "type": "integer",
+        "nullable": true
+      }
+    },
+    "required": [
+      "email",
+      "org_id",
+      "role_id"
+    ]
+  },
+  "InvitationPreview": {
+    "type": "object",
+    "properties": {
+      "email": {
+        "type": "string"
+      },
+      "full_name": {
+        "type": "string",
+        "nullable": true
+      },
+      "suggested_username": {
+        "type": "string"
+      },
+      "tenant_name": {
+        "type": "string"
+      },
+      "org_name": {
+        "type": "string"
+      },
+      "role_name": {
+        "type": "string",
+        "nullable": true
+      },
+      "invited_by": {
+        "type": "string"
+      },
+      "expires_at": {
+        "type": "string",
+        "format": "date-time"
+      }
+    },
+    "required": [
+      "email",
+      "full_name",
+      "suggested_username",
+      "tenant_name",
+      "org_name",
+      "role_name",
+      "invited_by",
+      "expires_at"
+    ]
+  },
+  "InvitationAccept": {
+    "type": "object",
+    "properties": {
+      "token": {
+        "type": "string"
+      },
+      "username": {
+        "type": "string"
+      },
+      "password": {
+        "type": "string"
+      },
+      "full_name": {
+        "type": "string",
+        "nullable": true
+      },
+      "nickname": {
+        "type": "string",
+        "nullable": true
+      },
+      "phone": {
+        "type": "string",
+        "nullable": true
+      }
+    },
+    "required": [
+      "token",
+      "username",
+      "password",
+      "full_name",
+      "nickname",
+      "phone"
+    ]
+  },
+  "AccessRequestStatus": {
+    "type": "string",
+    "enum": [
+      "pending",
+      "approved",
+      "declined"
+    ]
+  },
+  "AccessRequest": {
+    "type": "object",
+    "properties": {
+      "id": {
+        "type": "integer"
+      },
+      "email": {
+        "type": "string"
+      },
+      "full_name": {
+        "type": "string"
+      },
+      "message": {
+        "type": "string",
+        "nullable": true
+      },
+      "status": {
+        "$ref": "#/components/schemas/AccessRequestStatus"
+      },
+      "created_at": {
+        "type": "string",
+        "format": "date-time"
+      }
+    },
+    "required": [
+      "id",
+      "email",
+      "full_name",
+      "message",
+      "status",
+      "created_at"
+    ]
+  },
+  "AccessRequestList": {
+    "type": "object",
+    "properties": {
+      "data": {
+        "type": "array",
+        "items": {
+          "$ref": "#/components/schemas/AccessRequest"
+        }
+      }
+    },
+    "required": [
+      "data"
+    ]
+  },
+  "AccessRequestCreate": {
+    "type": "object",
+    "properties": {
+      "email": {
+        "type": "string"
+      },
+      "full_name": {
+        "type": "string"
+      },
+      "message": {
+        "type": "string",
+        "nullable": true
+      }
+    },
+    "required": [
+      "email",
+      "full_name",
+      "message"
+    ]
+  },
+  "AccessRequestDecision": {
+    "type": "object",
+    "properties": {
+      "status": {
+        "type": "string",
+        "enum": [
+          "approved",
+          "declined"
+        ]
+      }
+    },
+    "required": [
+      "status"
+    ]
+  },
+  "SsoProtocol": {
+    "type": "string",
+    "enum": [
+      "oidc",
+      "saml"
+    ]
+  },
+  "ClaimMapping": {
+    "type": "object",
+    "properties": {
+      "username": {
+        "type": "string"
+      },
+      "email": {
+        "type": "string"
+      },
+      "full_name": {
+        "type": "string",
+        "nullable": true
+      },
+      "nickname": {
+        "type": "string",
+        "nullable": true
+      },
+      "phone": {
+        "type": "string",
+        "nullable": true
+      }
+    },
+    "required": [
+      "username",
+      "email",
+      "full_name",
+      "nickname",
+      "phone"
+    ],
+    "description": "Names of the IdP claims (OIDC) or attributes (SAML) each member field is read from"
+  },
+  "IdentityProviderInput": {
+    "type": "object",
+    "properties": {
+      "name": {
+        "type": "string"
+      },
+      "protocol": {
+        "$ref": "#/components/schemas/SsoProtocol"
+      },
+      "issuer": {
+        "type": "string"
+      },
+      "authorization_endpoint": {
+        "type": "string",
+        "description": "Where the browser is sent to sign in; for SAML, the server's SP-initiated login URL"
+      },
+      "token_endpoint": {
+        "type": "string",
+        "nullable": true
+      },
+      "client_id": {
+        "type": "string"
+      },
+      "scopes": {
+        "type": "array",
+        "items": {
+          "type": "string"
+        }
+      },
+      "claim_mapping": {
+        "$ref": "#/components/schemas/ClaimMapping"
+      },
+      "jit_provisioning": {
+        "type": "boolean",
+        "description": "Create a member on first sign-in when none matches the email"
+      },
+      "default_org_id": {
+        "type": "integer",
+        "nullable": true
+      },
+      "default_role_id": {
+        "type": "integer",
+        "nullable": true
+      },
+      "enabled": {
+        "type": "boolean"
+      }
+    },
+    "required": [
+      "name",
+      "protocol",
+      "issuer",
+      "authorization_endpoint",
+      "token_endpoint",
+      "client_id",
+      "scopes",
+      "claim_mapping",
+      "jit_provisioning",
+      "default_org_id",
+      "default_role_id",
+      "enabled"
+    ]
+  },
+  "IdentityProvider": {
+    "allOf": [
+      {
+        "type": "object",
+        "properties": {
+          "id": {
+            "type": "integer"
+          }
+        },
+        "required": [
+          "id"
+        ]
+      },
+      {
+        "$ref": "#/components/schemas/IdentityProviderInput"
+      }
+    ]
+  },
+  "IdentityProviderList": {
+    "type": "object",
+    "properties": {
+      "data": {
+        "type": "array",
+        "items": {
+          "$ref": "#/components/schemas/IdentityProvider"
+        }
+      }
+    },
+    "required": [
+      "data"
+    ]
+  },
+  "SsoProvider": {
+    "type": "object",
+    "properties": {
+      "id": {
+        "type": "integer"
+      },
+      "name": {
+        "type": "string"
+      },
+      "protocol": {
+        "$ref": "#/components/schemas/SsoProtocol"
+      },
+      "authorization_endpoint": {
+        "type": "string"
+      },
+      "client_id": {
+        "type": "string"
+      },
+      "scopes": {
+        "type": "array",
+        "items": {
+          "type": "string"
+        }
+      }
+    },
+    "required": [
+      "id",
+      "name",
+      "protocol",
+      "authorization_endpoint",
+      "client_id",
+      "scopes"
+    ],
+    "description": "What the sign-in screen needs to start a login; no secrets"
+  },
+  "SsoProviderList": {
+    "type": "object",
+    "properties": {
+      "data": {
+        "type": "array",
+        "items": {
+          "$ref": "#/components/schemas/SsoProvider"
+        }
+      }
+    },
+    "required": [
+      "data"
+    ]
+  },
+  "SsoCallback": {
+    "type": "object",
+    "properties": {
+      "tenant_id": {
+        "type": "integer"
+      },
+      "provider_id": {
+        "type": "integer"
+      },
+      "code": {
+        "type": "string"
+      },
+      "code_verifier": {
+        "type": "string"
+      },
+      "redirect_uri": {
+        "type": "string"
+      }
+    },
+    "required": [
+      "tenant_id",
+      "provider_id",
+      "code",
+      "code_verifier",
+      "redirect_uri"
+    ]
+  },
+  "TenantSettings": {
+    "type": "object",
+    "properties": {
+      "allowed_agent_types": {
+        "type": "array",
+        "items": {
+          "type": "string",
+          "enum": [
+            "llm",
+            "workflow",
+            "bot"
+          ]
+        },
+        "description": "agentType values new virtual members may use"
+      },
+      "required_member_fields": {
+        "type": "array",
+        "items": {
+          "type": "string",
+          "enum": [
+            "fullName",
+            "nickname",
+            "phone"
+          ]
+        },
+        "description": "Optional member fields that become mandatory on create"
+      },
+      "username_pattern": {
+        "type": "string",
+        "description": "Regular expression a new username must fully match; null allows any",
+        "nullable": true
+      },
+      "email_domains": {
+        "type": "array",
+        "items": {
+          "type": "string"
+        },
+        "description": "Domains a new member's email must belong to; empty allows any"
+      },
+      "default_member_status": {
+        "$ref": "#/components/schemas/MemberStatus"
+      },
+      "mfa_required_roles": {
+        "type": "array",
+        "items": {
+          "type": "string"
+        },
+        "description": "Codes of roles whose holders must sign in with a second factor, e.g. ADMIN"
+      }
+    },
+    "required": [
+      "allowed_agent_types",
+      "required_member_fields",
+      "username_pattern",
+      "email_domains",
+      "default_member_status",
+      "mfa_required_roles"
+    ]
+  },
+  "Health": {
+    "type": "object",
+    "properties": {
+      "status": {
+        "type": "string",
+        "enum": [
+          "ok"
+        ]
+      },
+      "version": {
+        "type": "string"
+      }
+    },
+    "required": [
+      "status",
+      "version"
+    ]
+  },
+  "Tenant": {
+    "type": "object",
+    "properties": {
+      "id": {
+        "type": "integer"
+      },
+      "name": {
+        "type": "string"
+      }
+    },
+    "required": [
+      "id",
+      "name"
+    ]
+  },
+  "TenantList": {
+    "type": "object",
+    "properties": {
+      "data": {
+        "type": "array",
+        "items": {
+          "$ref": "#/components/schemas/Tenant"
+        }
+      }
+    },
+    "required": [
+      "data"
+    ]
+  },
+  "LoginRequest": {
+    "type": "object",
+    "properties": {
+      "username": {
+        "type": "string"
+      },
+      "password": {
+        "type": "string"
+      },
+      "tenantId": {
+        "type": "integer"
+      }
+    },
+    "required": [
+      "username",
+      "password",
+      "tenantId"
+    ]
+  },
+  "AuthSession": {
+    "type": "object",
+    "properties": {
+      "access_token": {
+        "type": "string"
+      },
+      "refresh_token": {
+        "type": "string"
+      },
+      "expires_in": {
+        "type": "integer",
+        "description": "Seconds until access_token expires"
+      }
+    },
+    "required": [
+      "access_token"
+    ]
+  },
+  "PermissionGrant": {
+    "type": "object",
+    "properties": {
+      "permission": {
+        "type": "string",
+        "description": "resource:action"
+      },
+      "org_ids": {
+        "type": "array",
+        "items": {
+          "type": "integer"
+        },
+        "description": "Units the grant applies to, sub-units included; null when it is tenant-wide",
+        "nullable": true
+      }
+    },
+    "required": [
+      "permission",
+      "org_ids"
+    ]
+  },
+  "CurrentUser": {
+    "type": "object",
+    "properties": {
+      "username": {
+        "type": "string"
+      },
+      "full_name": {
+        "type": "string",
+        "nullable": true
+      },
+      "permissions": {
+        "type": "array",
+        "items": {
+          "$ref": "#/components/schemas/PermissionGrant"
+        },
+        "description": "Effective permissions in the current tenant"
+      }
+    },
+    "required": [
+      "username",
+      "full_name",
+      "permissions"
+    ]
+  },
+  "LoginResponse": {
+    "allOf": [
+      {
+        "$ref": "#/components/schemas/AuthSession"
+      },
+      {
+        "$ref": "#/components/schemas/CurrentUser"
+      }
+    ]
+  },
+  "MfaEnrollment": {
+    "type": "object",
+    "properties": {
+      "secret": {
+        "type": "string",
+        "description": "Base32 TOTP secret for typing into an authenticator app"
+      },
+      "otpauth_uri": {
+        "type": "string",
+        "description": "otpauth://totp/ URI, usually shown as a QR code"
+      }
+    },
+    "required": [
+      "secret",
+      "otpauth_uri"
+    ]
+  },
+  "MfaChallenge": {
+    "type": "object",
+    "properties": {
+      "mfa_token": {
+        "type": "string",
+        "description": "Proves the password step; send it with a code to /auth/mfa/verify"
+      },
+      "expires_in": {
+        "type": "integer",
+        "description": "Seconds until mfa_token expires"
+      },
+      "enrollment": {
+        "$ref": "#/components/schemas/MfaEnrollment",
+        "nullable": true
+      }
+    },
+    "required": [
+      "mfa_token",
+      "expires_in",
+      "enrollment"
+    ],
+    "description": "The second factor still owed. enrollment is set when the tenant requires MFA and the member has none yet; the first valid code completes it"
+  },
+  "LoginResult": {
+    "type": "object",
+    "properties": {
+      "session": {
+        "$ref": "#/components/schemas/LoginResponse",
+        "nullable": true
+      },
+      "mfa_challenge": {
+        "$ref": "#/components/schemas/MfaChallenge",
+        "nullable": true
+      }
+    },
+    "required": [
+      "session",
+      "mfa_challenge"
+    ],
+    "description": "Exactly one of session and mfa_challenge is set"
+  },
+  "MfaVerify": {
+    "type": "object",
+    "properties": {
+      "mfa_token": {
+        "type": "string"
+      },
+      "code": {
+        "type": "string",
+        "description": "Authenticator code, or an unused recovery code"
+      }
+    },
+    "required": [
+      "mfa_token",
+      "code"
+    ]
+  },
+  "MfaLoginResponse": {
+    "allOf": [
+      {
+        "type": "object",
+        "properties": {
+          "recovery_codes": {
+            "type": "array",
+            "items": {
+              "type": "string"
+            },
+            "description": "Set when this sign-in completed a required enrollment; shown only once",
+            "nullable": true
+          }
+        },
+        "required": [
+          "recovery_codes"
+        ]
+      },
+      {
+        "$ref": "#/components/schemas/LoginResponse"
+      }
+    ]
+  },
+  "MfaStatus": {
+    "type": "object",
+    "properties": {
+      "enabled": {
+        "type": "boolean"
+      },
+      "enrolled_at": {
+        "type": "string",
+        "format": "date-time",
+        "nullable": true
+      },
+      "recovery_codes_remaining": {
+        "type": "integer"
+      },
+      "required": {
+        "type": "boolean",
+        "description": "The tenant's MFA policy covers one of the member's roles"
+      }
+    },
+    "required": [
+      "enabled",
+      "enrolled_at",
+      "recovery_codes_remaining",
+      "required"
+    ]
+  },
+  "MfaCode": {
+    "type": "object",
+    "properties": {
+      "code": {
+        "type": "string",
+        "description": "Current authenticator code"
+      }
+    },
+    "required": [
+      "code"
+    ]
+  },
+  "MfaRecoveryCodes": {
+    "type": "object",
+    "properties": {
+      "recovery_codes": {
+        "type": "array",
+        "items": {
+          "type": "string"
+        },
+        "description": "Single-use codes replacing any issued before; shown only once"
+      }
+    },
+    "required": [
+      "recovery_codes"
+    ]
+  },
+  "LoginMethod": {
+    "type": "string",
+    "enum": [
+      "password",
+      "sso",
+      "invitation"
+    ]
+  },
+  "LoginEvent": {
+    "type": "object",
+    "properties": {
+      "id": {
+        "type": "integer"
+      },
+      "timestamp": {
+        "type": "string",
+        "format": "date-time"
+      },
+      "method": {
+        "$ref": "#/components/schemas/LoginMethod"
+      },
+      "success": {
+        "type": "boolean"
+      },
+      "failure_reason": {
+        "type": "string",
+        "nullable": true
+      },
+      "mfa": {
+        "type": "boolean",
+        "description": "A second factor was verified"
+      },
+      "ip_address": {
+        "type": "string",
+        "nullable": true
+      },
+      "user_agent": {
+        "type": "string",
+        "nullable": true
+      }
+    },
+    "required": [
+      "id",
+      "timestamp",
+      "method",
+      "success",
+      "failure_reason",
+      "mfa",
+      "ip_address",
+      "user_agent"
+    ]
+  },
+  "LoginEventList": {
+    "type": "object",
+    "properties": {
+      "data": {
+        "type": "array",
+        "items": {
+          "$ref": "#/components/schemas/LoginEvent"
+        }
+      },
+      "meta": {
+        "$ref": "#/components/schemas/PageMeta"
+      }
+    },
+    "required": [
+      "data",
+      "meta"
+    ]
+  },
+  "RefreshRequest": {
+    "type": "object",
+    "properties": {
+      "refresh_token": {
+        "type": "string"
+      }
+    },
+    "required": [
+      "refresh_token"
+    ]
+  },
+  "FieldError": {
+    "type": "object",
+    "properties": {
+      "field": {
+        "type": "string",
+        "description": "Request property the message applies to"
+      },
+      "message": {
+        "type": "string"
+      }
+    },
+    "required": [
+      "field",
+      "message"
+    ]
+  },
+  "ErrorBody": {
+    "type": "object",
+    "properties": {
+      "message": {
+        "type": "string"
+      },
+      "code": {
+        "type": "string",
+        "description": "Machine-readable reason, e.g. duplicate_username"
+      },
+      "errors": {
+        "type": "array",
+        "items": {
+          "$ref": "#/components/schemas/FieldError"
+        }
+      }
+    },
+    "required": [
+      "message"
+    ]
+  }
+};
+
+export type OperationId =
+  | 'login'
+  | 'exchangeRefreshToken'
+  | 'getSsoProviders'
+  | 'completeSsoLogin'
+  | 'verifyMfaLogin'
+  | 'getMfaStatus'
+  | 'startMfaEnrollment'
+  | 'confirmMfaEnrollment'
+  | 'regenerateRecoveryCodes'
+  | 'disableMfa'
+  | 'getCurrentUser'
+  | 'getDashboardStats'
+  | 'getInvitations'
+  | 'createInvitation'
+  | 'resendInvitation'
+  | 'revokeInvitation'
+  | 'getInvitationByToken'
+  | 'acceptInvitation'
+  | 'getAccessRequests'
+  | 'createAccessRequest'
+  | 'decideAccessRequest'
+  | 'getHealth'
+  | 'getIdentityProviders'
+  | 'createIdentityProvider'
+  | 'updateIdentityProvider'
+  | 'deleteIdentityProvider'
+  | 'getTenantSettings'
+  | 'updateTenantSettings'
+  | 'getTenants'
+  | 'getLabelOverrides'
+  | 'replaceLabelOverrides'
+  | 'getMembers'
+  | 'createMember'
+  | 'validateMemberImport'
+  | 'createMembersBatch'
+  | 'getMember'
+  | 'updateMember'
+  | 'patchMemberStatus'
+  | 'deleteMember'
+  | 'getMemberHistory'
+  | 'getMemberLogins'
+  | 'getMemberMfa'
+  | 'resetMemberMfa'
+  | 'getMemberAssignments'
+  | 'getRoles'
+  | 'createRole'
+  | 'updateRole'
+  | 'updateRolePermissions'
+  | 'getOrgs'
+  | 'createOrg'
+  | 'moveOrg'
+  | 'getOrgMembers'
+  | 'getAssignments'
+  | 'createAssignment'
+  | 'setPrimaryAssignment'
+  | 'deleteAssignment'
+  | 'getAgents'
+  | 'createAgent'
+  | 'getAgent'
+  | 'updateAgentConfig'
+  | 'getAgentTokens'
+  | 'issueAgentToken'
+  | 'revokeAgentToken'
+  | 'getAuditEvents';
+
+export interface Operation {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  path: string;
+  /** camelCase query param name to its wire name */
+  query: Record<string, string>;
+  body: SchemaName | null;
+  response: SchemaName | null;
+}
+
+export const OPERATIONS: Record<OperationId, Operation> = {
+  login: { method: 'POST', path: '/auth/login', query: {}, body: 'LoginRequest', response: 'LoginResult' },
+  exchangeRefreshToken: { method: 'POST', path: '/auth/refresh', query: {}, body: 'RefreshRequest', response: 'AuthSession' },
+  getSsoProviders: { method: 'GET', path: '/auth/providers', query: { tenantId: 'tenant_id' }, body: null, response: 'SsoProviderList' },
+  completeSsoLogin: { method: 'POST', path: '/auth/sso/callback', query: {}, body: 'SsoCallback', response: 'LoginResponse' },
+  verifyMfaLogin: { method: 'POST', path: '/auth/mfa/verify', query: {}, body: 'MfaVerify', response: 'MfaLoginResponse' },
+  getMfaStatus: { method: 'GET', path: '/auth/mfa', query: {}, body: null, response: 'MfaStatus' },
+  startMfaEnrollment: { method: 'POST', path: '/auth/mfa/enrollment', query: {}, body: null, response: 'MfaEnrollment' },
+  confirmMfaEnrollment: { method: 'POST', path: '/auth/mfa/enrollment/confirm', query: {}, body: 'MfaCode', response: 'MfaRecoveryCodes' },
+  regenerateRecoveryCodes: { method: 'POST', path: '/auth/mfa/recovery-codes', query: {}, body: 'MfaCode', response: 'MfaRecoveryCodes' },
+  disableMfa: { method: 'POST', path: '/auth/mfa/disable', query: {}, body: 'MfaCode', response: null },
+  getCurrentUser: { method: 'GET', path: '/auth/me', query: {}, body: null, response: 'CurrentUser' },
+  getDashboardStats: { method: 'GET', path: '/stats', query: {}, body: null, response: 'DashboardStats' },
+  getInvitations: { method: 'GET', path: '/invitations', query: { status: 'status' }, body: null, response: 'InvitationList' },
+  createInvitation: { method: 'POST', path: '/invitations', query: {}, body: 'InvitationCreate', response: 'Invitation' },
+  resendInvitation: { method: 'POST', path: '/invitations/{id}/resend', query: {}, body: null, response: 'Invitation' },
+  revokeInvitation: { method: 'POST', path: '/invitations/{id}/revoke', query: {}, body: null, response: 'Invitation' },
+  getInvitationByToken: { method: 'GET', path: '/invitations/lookup', query: { token: 'token' }, body: null, response: 'InvitationPreview' },
+  acceptInvitation: { method: 'POST', path: '/invitations/accept', query: {}, body: 'InvitationAccept', response: 'LoginResponse' },
+  getAccessRequests: { method: 'GET', path: '/access-requests', query: { status: 'status' }, body: null, response: 'AccessRequestList' },
+  createAccessRequest: { method: 'POST', path: '/access-requests', query: {}, body: 'AccessRequestCreate', response: 'AccessRequest' },
+  decideAccessRequest: { method: 'PATCH', path: '/access-requests/{id}', query: {}, body: 'AccessRequestDecision', response: 'AccessRequest' },
+  getHealth: { method: 'GET', path: '/health', query: {}, body: null, response: 'Health' },
+  getIdentityProviders: { method: 'GET', path: '/identity-providers', query: {}, body: null, response: 'IdentityProviderList' },
+  createIdentityProvider: { method: 'POST', path: '/identity-providers', query: {}, body: 'IdentityProviderInput', response: 'IdentityProvider' },
+  updateIdentityProvider: { method: 'PUT', path: '/identity-providers/{id}', query: {}, body: 'IdentityProviderInput', response: 'IdentityProvider' },
+  deleteIdentityProvider: { method: 'DELETE', path: '/identity-providers/{id}', query: {}, body: null, response: null },
+  getTenantSettings: { method: 'GET', path: '/settings', query: {}, body: null, response: 'TenantSettings' },
+  updateTenantSettings: { method: 'PUT', path: '/settings', query: {}, body: 'TenantSettings', response: 'TenantSettings' },
+  getTenants: { method: 'GET', path: '/tenants', query: {}, body: null, response: 'TenantList' },
+  getLabelOverrides: { method: 'GET', path: '/localization/overrides', query: {}, body: null, response: 'LabelOverrideList' },
+  replaceLabelOverrides: { method: 'PUT', path: '/localization/overrides', query: {}, body: 'LabelOverrideList', response: 'LabelOverrideList' },
+  getMembers: { method: 'GET', path: '/members', query: { status: 'status', keyword: 'keyword', isVirtual: 'is_virtual', agentType: 'agent_type', orgId: 'org_id', roleId: 'role_id', createdFrom: 'created_from', createdTo: 'created_to', updatedFrom: 'updated_from', updatedTo: 'updated_to', hasPhone: 'has_phone', hasNickname: 'has_nickname', page: 'page', pageSize: 'page_size', sortBy: 'sort_by', sortOrder: 'sort_order' }, body: null, response: 'MemberList' },
+  createMember: { method: 'POST', path: '/members', query: {}, body: 'MemberCreate', response: 'Member' },
+  validateMemberImport: { method: 'POST', path: '/members/import/validate', query: {}, body: 'MemberImport', response: 'ImportValidation' },
+  createMembersBatch: { method: 'POST', path: '/members/batch', query: {}, body: 'MemberImport', response: 'BatchResult' },
+  getMember: { method: 'GET', path: '/members/{id}', query: {}, body: null, response: 'Member' },
+  updateMember: { method: 'PUT', path: '/members/{id}', query: {}, body: 'MemberUpdate', response: 'Member' },
+  patchMemberStatus: { method: 'PATCH', path: '/members/{id}', query: {}, body: 'MemberStatusChange', response: 'Member' },
+  deleteMember: { method: 'DELETE', path: '/members/{id}', query: {}, body: null, response: null },
+  getMemberHistory: { method: 'GET', path: '/members/{id}/history', query: { page: 'page', pageSize: 'page_size' }, body: null, response: 'AuditEventList' },
+  getMemberLogins: { method: 'GET', path: '/members/{id}/logins', query: { page: 'page', pageSize: 'page_size' }, body: null, response: 'LoginEventList' },
+  getMemberMfa: { method: 'GET', path: '/members/{id}/mfa', query: {}, body: null, response: 'MfaStatus' },
+  resetMemberMfa: { method: 'DELETE', path: '/members/{id}/mfa', query: {}, body: null, response: null },
+  getMemberAssignments: { method: 'GET', path: '/members/{memberId}/assignments', query: {}, body: null, response: 'AssignmentList' },
+  getRoles: { method: 'GET', path: '/roles', query: {}, body: null, response: 'RoleList' },
+  createRole: { method: 'POST', path: '/roles', query: {}, body: 'RoleInput', response: 'Role' },
+  updateRole: { method: 'PUT', path: '/roles/{id}', query: {}, body: 'RoleInput', response: 'Role' },
+  updateRolePermissions: { method: 'PUT', path: '/roles/{id}/permissions', query: {}, body: 'RolePermissions', response: 'Role' },
+  getOrgs: { method: 'GET', path: '/orgs', query: {}, body: null, response: 'OrgList' },
+  createOrg: { method: 'POST', path: '/orgs', query: {}, body: 'OrgCreate', response: 'OrgUnit' },
+  moveOrg: { method: 'PATCH', path: '/orgs/{id}', query: {}, body: 'OrgMove', response: 'OrgUnit' },
+  getOrgMembers: { method: 'GET', path: '/orgs/{orgId}/members', query: {}, body: null, response: 'OrgMemberList' },
+  getAssignments: { method: 'GET', path: '/assignments', query: {}, body: null, response: 'AssignmentList' },
+  createAssignment: { method: 'POST', path: '/assignments', query: {}, body: 'AssignmentCreate', response: 'Assignment' },
+  setPrimaryAssignment: { method: 'PATCH', path: '/assignments/{id}', query: {}, body: 'AssignmentUpdate', response: 'Assignment' },
+  deleteAssignment: { method: 'DELETE', path: '/assignments/{id}', query: {}, body: null, response: null },
+  getAgents: { method: 'GET', path: '/agents', query: { agentType: 'agentType' }, body: null, response: 'AgentList' },
+  createAgent: { method: 'POST', path: '/agents', query: {}, body: 'AgentCreate', response: 'Agent' },
+  getAgent: { method: 'GET', path: '/agents/{memberId}', query: {}, body: null, response: 'Agent' },
+  updateAgentConfig: { method: 'PUT', path: '/agents/{memberId}', query: {}, body: 'AgentConfig', response: 'Agent' },
+  getAgentTokens: { method: 'GET', path: '/agents/{memberId}/tokens', query: {}, body: null, response: 'AgentTokenList' },
+  issueAgentToken: { method: 'POST', path: '/agents/{memberId}/tokens', query: {}, body: 'TokenIssue', response: 'AgentToken' },
+  revokeAgentToken: { method: 'DELETE', path: '/agents/{memberId}/tokens/{tokenId}', query: {}, body: null, response: null },
+  getAuditEvents: { method: 'GET', path: '/audit-events', query: { actor: 'actor', entityType: 'entityType', entityId: 'entityId', action: 'action', from: 'from', to: 'to', page: 'page', pageSize: 'page_size' }, body: null, response: 'AuditEventList' },
+};
+
+export interface CallArgs {
+  path?: Record<string, string | number>;
+  query?: object;
+  body?: unknown;
+}
+
+/** One method per operation; subclasses implement transport, casing and validation in `call` */
+export abstract class GeneratedApiClient {
+  protected abstract call(operationId: OperationId, args?: CallArgs): Promise<any>;
+
+  /** POST /auth/login: Sign in with username and password; may ask for a second factor */
+  login(body: LoginRequest): Promise<LoginResult> {
+    return this.call('login', { body });
+  }
+
+  /** POST /auth/refresh: Exchange a refresh token for a new session */
+  exchangeRefreshToken(body: RefreshRequest): Promise<AuthSession> {
+    return this.call('exchangeRefreshToken', { body });
+  }
+
+  /** GET /auth/providers: Enabled identity providers of a tenant; needs no session */
+  getSsoProviders(query: GetSsoProvidersQuery = {}): Promise<SsoProviderList> {
+    return this.call('getSsoProviders', { query });
+  }
+
+  /** POST /auth/sso/callback: Exchange an authorization code (with its PKCE verifier) for a session */
+  completeSsoLogin(body: SsoCallback): Promise<LoginResponse> {
+    return this.call('completeSsoLogin', { body });
+  }
+
+  /** POST /auth/mfa/verify: Finish a sign-in with an authenticator or recovery code */
+  verifyMfaLogin(body: MfaVerify): Promise<MfaLoginResponse> {
+    return this.call('verifyMfaLogin', { body });
+  }
+
+  /** GET /auth/mfa: Second-factor status of the current user */
+  getMfaStatus(): Promise<MfaStatus> {
+    return this.call('getMfaStatus');
+  }
+
+  /** POST /auth/mfa/enrollment: Start TOTP enrollment for the current user, replacing any unfinished one */
+  startMfaEnrollment(): Promise<MfaEnrollment> {
+    return this.call('startMfaEnrollment');
+  }
+
+  /** POST /auth/mfa/enrollment/confirm: Turn on MFA by proving the authenticator works */
+  confirmMfaEnrollment(body: MfaCode): Promise<MfaRecoveryCodes> {
+    return this.call('confirmMfaEnrollment', { body });
+  }
+
+  /** POST /auth/mfa/recovery-codes: Replace the current user's recovery codes */
+  regenerateRecoveryCodes(body: MfaCode): Promise<MfaRecoveryCodes> {
+    return this.call('regenerateRecoveryCodes', { body });
+  }
+
+  /** POST /auth/mfa/disable: Turn off MFA for the current user */
+  disableMfa(body: MfaCode): Promise<void> {
+    return this.call('disableMfa', { body });
+  }
+
+  /** GET /auth/me: Current user for the bearer token */
+  getCurrentUser(): Promise<CurrentUser> {
+    return this.call('getCurrentUser');
+  }
+
+  /** GET /stats: Directory metrics for the dashboard */
+  getDashboardStats(): Promise<DashboardStats> {
+    return this.call('getDashboardStats');
+  }
+
+  /** GET /invitations: Invitations of the current tenant, newest first */
+  getInvitations(query: GetInvitationsQuery = {}): Promise<InvitationList> {
+    return this.call('getInvitations', { query });
+  }
+
+  /** POST /invitations: Invite a new member by email */
+  createInvitation(body: InvitationCreate): Promise<Invitation> {
+    return this.call('createInvitation', { body });
+  }
+
+  /** POST /invitations/{id}/resend: Issue a fresh link and expiry for an invitation */
+  resendInvitation(id: number): Promise<Invitation> {
+    return this.call('resendInvitation', { path: { id } });
+  }
+
+  /** POST /invitations/{id}/revoke: Revoke an invitation and remove its pending member */
+  revokeInvitation(id: number): Promise<Invitation> {
+    return this.call('revokeInvitation', { path: { id } });
+  }
+
+  /** GET /invitations/lookup: What an invitation link grants; needs no session */
+  getInvitationByToken(query: GetInvitationByTokenQuery = {}): Promise<InvitationPreview> {
+    return this.call('getInvitationByToken', { query });
+  }
+
+  /** POST /invitations/accept: Accept an invitation and sign in as the new member */
+  acceptInvitation(body: InvitationAccept): Promise<LoginResponse> {
+    return this.call('acceptInvitation', { body });
+  }
+
+  /** GET /access-requests: Requests to join the current tenant, newest first */
+  getAccessRequests(query: GetAccessRequestsQuery = {}): Promise<AccessRequestList> {
+    return this.call('getAccessRequests', { query });
+  }
+
+  /** POST /access-requests: Ask to join a tenant; needs no session */
+  createAccessRequest(body: AccessRequestCreate): Promise<AccessRequest> {
+    return this.call('createAccessRequest', { body });
+  }
+
+  /** PATCH /access-requests/{id}: Approve or decline an access request */
+  decideAccessRequest(id: number, body: AccessRequestDecision): Promise<AccessRequest> {
+    return this.call('decideAccessRequest', { path: { id }, body });
+  }
+
+  /** GET /health: Liveness check; needs no session */
+  getHealth(): Promise<Health> {
+    return this.call('getHealth');
+  }
+
+  /** GET /identity-providers: Identity providers configured for the current tenant */
+  getIdentityProviders(): Promise<IdentityProviderList> {
+    return this.call('getIdentityProviders');
+  }
+
+  /** POST /identity-providers: Add an identity provider */
+  createIdentityProvider(body: IdentityProviderInput): Promise<IdentityProvider> {
+    return this.call('createIdentityProvider', { body });
+  }
+
+  /** PUT /identity-providers/{id}: Replace an identity provider's configuration */
+  updateIdentityProvider(id: number, body: IdentityProviderInput): Promise<IdentityProvider> {
+    return this.call('updateIdentityProvider', { path: { id }, body });
+  }
+
+  /** DELETE /identity-providers/{id}: Remove an identity provider */
+  deleteIdentityProvider(id: number): Promise<void> {
+    return this.call('deleteIdentityProvider', { path: { id } });
+  }
+
+  /** GET /settings: Member policy of the current tenant */
+  getTenantSettings(): Promise<TenantSettings> {
+    return this.call('getTenantSettings');
+  }
+
+  /** PUT /settings: Replace the current tenant's member policy */
+  updateTenantSettings(body: TenantSettings): Promise<TenantSettings> {
+    return this.call('updateTenantSettings', { body });
+  }
+
+  /** GET /tenants: Tenants the current user can access */
+  getTenants(): Promise<TenantList> {
+    return this.call('getTenants');
+  }
+
+  /** GET /localization/overrides: Label overrides of the current tenant, all locales */
+  getLabelOverrides(): Promise<LabelOverrideList> {
+    return this.call('getLabelOverrides');
+  }
+
+  /** PUT /localization/overrides: Replace the current tenant's label overrides */
+  replaceLabelOverrides(body: LabelOverrideList): Promise<LabelOverrideList> {
+    return this.call('replaceLabelOverrides', { body });
+  }
+
+  /** GET /members: List members */
+  getMembers(query: GetMembersQuery = {}): Promise<MemberList> {
+    return this.call('getMembers', { query });
+  }
+
+  /** POST /members: Create a member */
+  createMember(body: MemberCreate): Promise<Member> {
+    return this.call('createMember', { body });
+  }
+
+  /** POST /members/import/validate: Dry-run validation of an import */
+  validateMemberImport(body: MemberImport): Promise<ImportValidation> {
+    return this.call('validateMemberImport', { body });
+  }
+
+  /** POST /members/batch: Create members in one batch */
+  createMembersBatch(body: MemberImport): Promise<BatchResult> {
+    return this.call('createMembersBatch', { body });
+  }
+
+  /** GET /members/{id}: Get a member */
+  getMember(id: number): Promise<Member> {
+    return this.call('getMember', { path: { id } });
+  }
+
+  /** PUT /members/{id}: Update member profile fields */
+  updateMember(id: number, body: MemberUpdate): Promise<Member> {
+    return this.call('updateMember', { path: { id }, body });
+  }
+
+  /** PATCH /members/{id}: Change member status with a reason */
+  patchMemberStatus(id: number, body: MemberStatusChange): Promise<Member> {
+    return this.call('patchMemberStatus', { path: { id }, body });
+  }
+
+  /** DELETE /members/{id}: Soft-delete a member */
+  deleteMember(id: number): Promise<void> {
+    return this.call('deleteMember', { path: { id } });
+  }
+
+  /** GET /members/{id}/history: Audit events about a member, its assignments, tokens and invitation; newest first */
+  getMemberHistory(id: number, query: GetMemberHistoryQuery = {}): Promise<AuditEventList> {
+    return this.call('getMemberHistory', { path: { id }, query });
+  }
+
+  /** GET /members/{id}/logins: A member's sign-in attempts, newest first */
+  getMemberLogins(id: number, query: GetMemberLoginsQuery = {}): Promise<LoginEventList> {
+    return this.call('getMemberLogins', { path: { id }, query });
+  }
+
+  /** GET /members/{id}/mfa: A member's second-factor status */
+  getMemberMfa(id: number): Promise<MfaStatus> {
+    return this.call('getMemberMfa', { path: { id } });
+  }
+
+  /** DELETE /members/{id}/mfa: Remove a member's authenticator and recovery codes so they enroll again */
+  resetMemberMfa(id: number): Promise<void> {
+    return this.call('resetMemberMfa', { path: { id } });
+  }
+
+  /** GET /members/{memberId}/assignments: Org assignments of a member */
+  getMemberAssignments(memberId: number): Promise<AssignmentList> {
+    return this.call('getMemberAssignments', { path: { memberId } });
+  }
+
+  /** GET /roles: List roles */
+  getRoles(): Promise<RoleList> {
+    return this.call('getRoles');
+  }
+
+  /** POST /roles: Create a role */
+  createRole(body: RoleInput): Promise<Role> {
+    return this.call('createRole', { body });
+  }
+
+  /** PUT /roles/{id}: Update a role */
+  updateRole(id: number, body: RoleInput): Promise<Role> {
+    return this.call('updateRole', { path: { id }, body });
+  }
+
+  /** PUT /roles/{id}/permissions: Replace role permissions */
+  updateRolePermissions(id: number, body: RolePermissions): Promise<Role> {
+    return this.call('updateRolePermissions', { path: { id }, body });
+  }
+
+  /** GET /orgs: List org units */
+  getOrgs(): Promise<OrgList> {
+    return this.call('getOrgs');
+  }
+
+  /** POST /orgs: Create an org unit */
+  createOrg(body: OrgCreate): Promise<OrgUnit> {
+    return this.call('createOrg', { body });
+  }
+
+  /** PATCH /orgs/{id}: Move an org unit under a new parent */
+  moveOrg(id: number, body: OrgMove): Promise<OrgUnit> {
+    return this.call('moveOrg', { path: { id }, body });
+  }
+
+  /** GET /orgs/{orgId}/members: Members assigned to an org unit */
+  getOrgMembers(orgId: number): Promise<OrgMemberList> {
+    return this.call('getOrgMembers', { path: { orgId } });
+  }
+
+  /** GET /assignments: All assignments in the tenant */
+  getAssignments(): Promise<AssignmentList> {
+    return this.call('getAssignments');
+  }
+
+  /** POST /assignments: Assign a member to an org unit */
+  createAssignment(body: AssignmentCreate): Promise<Assignment> {
+    return this.call('createAssignment', { body });
+  }
+
+  /** PATCH /assignments/{id}: Mark an assignment as the member's primary org */
+  setPrimaryAssignment(id: number, body: AssignmentUpdate): Promise<Assignment> {
+    return this.call('setPrimaryAssignment', { path: { id }, body });
+  }
+
+  /** DELETE /assignments/{id}: Remove an assignment */
+  deleteAssignment(id: number): Promise<void> {
+    return this.call('deleteAssignment', { path: { id } });
+  }
+
+  /** GET /agents: List virtual members with their configuration */
+  getAgents(query: GetAgentsQuery = {}): Promise<AgentList> {
+    return this.call('getAgents', { query });
+  }
+
+  /** POST /agents: Provision a virtual member */
+  createAgent(body: AgentCreate): Promise<Agent> {
+    return this.call('createAgent', { body });
+  }
+
+  /** GET /agents/{memberId}: A virtual member with its configuration */
+  getAgent(memberId: number): Promise<Agent> {
+    return this.call('getAgent', { path: { memberId } });
+  }
+
+  /** PUT /agents/{memberId}: Replace agent configuration */
+  updateAgentConfig(memberId: number, body: AgentConfig): Promise<Agent> {
+    return this.call('updateAgentConfig', { path: { memberId }, body });
+  }
+
+  /** GET /agents/{memberId}/tokens: List agent API tokens */
+  getAgentTokens(memberId: number): Promise<AgentTokenList> {
+    return this.call('getAgentTokens', { path: { memberId } });
+  }
+
+  /** POST /agents/{memberId}/tokens: Issue an agent API token */
+  issueAgentToken(memberId: number, body: TokenIssue): Promise<AgentToken> {
+    return this.call('issueAgentToken', { path: { memberId }, body });
+  }
+
+  /** DELETE /agents/{memberId}/tokens/{tokenId}: Revoke an agent API token */
+  revokeAgentToken(memberId: number, tokenId: number): Promise<void> {
+    return this.call('revokeAgentToken', { path: { memberId, tokenId } });
+  }
+
+  /** GET /audit-events: Search the audit trail */
+  getAuditEvents(query: GetAuditEventsQuery = {}): Promise<AuditEventList> {
+    return this.call('getAuditEvents', { query });
+  }
+}
@@ -1,662 +1,9147 @@
-import React, { useState, useEffect, useContext, createContext } from 'react';
+import React, { useState, useEffect, useContext, createContext, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
 import { 
   Users, Shield, Building2, LayoutDashboard, LogOut, 
   Search, Plus, MoreVertical, Filter, ChevronLeft, ChevronRight,
   Bot, Globe, FileText, Activity, Settings as SettingsIcon, Lock,
-  Menu, X
+  Menu, X, ChevronDown, ArrowUp, ArrowDown, ArrowUpDown, Pencil, Ban, PowerOff, RotateCcw, Trash2,
+  Copy, KeyRound, Upload, Download, AlertTriangle, CheckCircle2, Info, RefreshCw, FlaskConical,
+  Bookmark, Link2, SlidersHorizontal, Languages, Mail, Smartphone
 } from 'lucide-react';
+import { QRCodeSVG } from 'qrcode.react';
+import { GeneratedApiClient, OPERATIONS, SCHEMAS } from './api.generated';
+import type {
+  DashboardStats, ErrorBody, GrowthPoint, LabelOverride, Member, MemberStatus, PermissionGrant, Role, OrgUnit, PageMeta, SortOrder, Tenant, TenantSettings, Agent, AgentConfig, AgentToken,
+  Assignment, OrgMemberAssignment, AuditAction, AuditEntityType, AuditEvent, AuthSession, CurrentUser, LoginResponse,
+  Invitation, InvitationAccept, InvitationPreview, InvitationStatus, AccessRequest, IdentityProvider, IdentityProviderInput, SsoProvider,
+  MfaChallenge, MfaEnrollment, MfaLoginResponse, MfaStatus, LoginEvent,
+  GetMembersQuery, GetAuditEventsQuery, Health, CallArgs, JsonSchema, OperationId, SchemaName, Wire,
+} from './api.generated';
 
 // --- Types based on OpenAPI Schema ---
+// Wire types and the client base class are generated from openapi.json (`npm run generate:api`)
 
-interface Member {
-  id: number;
-  username: string;
-  fullName: string | null;
-  nickname: string | null;
-  email: string;
-  phone: string | null;
-  status: 'active' | 'inactive' | 'suspended';
-  isVirtual: boolean;
-  agentType?: string | null;
-  createdAt: string;
-  updatedAt: string;
-}
+// Permission codes are `${resource}:${action}`, e.g. members:read
+const PERMISSION_RESOURCES = ['members', 'roles', 'orgs', 'agents'] as const;
+const PERMISSION_ACTIONS = ['read', 'write', 'delete', 'assign'] as const;
+type PermissionResource = typeof PERMISSION_RESOURCES[number];
+type PermissionAction = typeof PERMISSION_ACTIONS[number];
+const ALL_PERMISSIONS = PERMISSION_RESOURCES.flatMap(r => PERMISSION_ACTIONS.map(a => `${r}:${a}`));
 
-interface Role {
-  id: number;
-  org_id: number;
-  code: string;
-  name: string;
-  description: string | null;
-  is_position: boolean;
-  active: boolean;
+type OrgType = 'company' | 'dept' | 'team';
+
+type AgentType = 'llm' | 'workflow' | 'bot';
+
+const AGENT_TYPES: AgentType[] = ['llm', 'workflow', 'bot'];
+
+// Optional member fields a tenant can make mandatory for new members
+type RequirableMemberField = TenantSettings['requiredMemberFields'][number];
+
+const REQUIRABLE_MEMBER_FIELDS: RequirableMemberField[] = ['fullName', 'nickname', 'phone'];
+
+const AUDIT_ENTITY_TYPES: AuditEntityType[] = [
+  'member', 'role', 'org', 'assignment', 'agent', 'agent_token', 'invitation', 'identity_provider', 'member_mfa',
+];
+
+// Field-level changes between two snapshots; values compared structurally
+const diffFields = (before: Record<string, any> | null, after: Record<string, any> | null) => {
+  const keys = Array.from(new Set([...Object.keys(before || {}), ...Object.keys(after || {})])).sort();
+  return keys
+    .map(field => ({ field, before: before?.[field], after: after?.[field] }))
+    .filter(d => JSON.stringify(d.before) !== JSON.stringify(d.after));
+};
+
+// --- Org Tree Helpers ---
+
+interface OrgNode extends OrgUnit {
+  children: OrgNode[];
+  depth: number;
 }
 
-interface OrgUnit {
-  id: number;
+const buildOrgTree = (orgs: OrgUnit[]): OrgNode[] => {
+  const build = (parentId: number | null, depth: number): OrgNode[] =>
+    orgs
+      .filter(o => o.parentId === parentId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(o => ({ ...o, depth, children: build(o.id, depth + 1) }));
+  // Units whose parent is missing (e.g. filtered out) are treated as roots
+  const ids = new Set(orgs.map(o => o.id));
+  const orphans = orgs.filter(o => o.parentId !== null && !ids.has(o.parentId));
+  return [...build(null, 0), ...orphans.map(o => ({ ...o, depth: 0, children: build(o.id, 1) }))];
+};
+
+type OrgLink = Pick<OrgUnit, 'id' | 'parentId'>;
+
+const orgPath = <T extends OrgLink>(orgs: T[], id: number): T[] => {
+  const path: T[] = [];
+  let current = orgs.find(o => o.id === id);
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    current = orgs.find(o => o.id === current!.parentId);
+  }
+  return path;
+};
+
+// True when `id` is `ancestorId` itself or sits anywhere below it
+const isInSubtree = (orgs: OrgLink[], ancestorId: number, id: number | null) =>
+  id !== null && orgPath(orgs, id).some(o => o.id === ancestorId);
+
+// Roles usable inside an org: global ones plus those defined on the org or any ancestor
+const applicableRoles = (roles: Role[], orgs: OrgLink[], orgId: number) => {
+  const lineage = orgPath(orgs, orgId).map(o => o.id);
+  return roles.filter(r => r.active && (r.orgId === 0 || lineage.includes(r.orgId)));
+};
+
+const subtreeMemberCount = (node: OrgNode): number =>
+  node.memberCount + node.children.reduce((sum, c) => sum + subtreeMemberCount(c), 0);
+
+// --- Import / Export Helpers ---
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF or LF line endings
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [], field = '', quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { row.push(field); field = ''; }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field); rows.push(row); row = []; field = '';
+    } else field += ch;
+  }
+  if (field || row.length) { row.push(field); rows.push(row); }
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+const toCsv = (headers: string[], rows: Record<string, any>[]) => {
+  const escape = (v: any) => {
+    const s = v === undefined || v === null ? '' : typeof v === 'object' ? JSON.stringify(v) : String(v);
+    return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  return [headers.join(','), ...rows.map(r => headers.map(h => escape(r[h])).join(','))].join('\r\n');
+};
+
+const downloadFile = (filename: string, content: BlobPart, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+interface ExportSheet {
   name: string;
-  type: string;
-  description: string | null;
-  tenantId: number;
+  headers: string[];
+  rows: Record<string, any>[];
 }
 
-interface PageMeta {
-  page: number;
-  page_size: number;
-  total: number;
-  total_pages: number;
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let c = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) c = CRC32_TABLE[(c ^ data[i]) & 0xFF] ^ (c >>> 8);
+  return (c ^ 0xFFFFFFFF) >>> 0;
+};
+
+// Uncompressed ("stored") ZIP archive; enough for OOXML containers
+const zipStore = (files: { name: string, data: Uint8Array }[]) => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  const DOS_DATE = (0 << 9) | (1 << 5) | 1; // 1980-01-01
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const crc = crc32(file.data);
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(12, DOS_DATE, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, file.data.length, true);
+    local.setUint32(22, file.data.length, true);
+    local.setUint16(26, name.length, true);
+    parts.push(new Uint8Array(local.buffer), name, file.data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint16(14, DOS_DATE, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, file.data.length, true);
+    entry.setUint32(24, file.data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+    offset += 30 + name.length + file.data.length;
+  });
+
+  const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const all = [...parts, ...central, new Uint8Array(end.buffer)];
+  const out = new Uint8Array(all.reduce((sum, p) => sum + p.length, 0));
+  let pos = 0;
+  all.forEach(p => { out.set(p, pos); pos += p.length; });
+  return out;
+};
+
+const xmlEscape = (s: string) =>
+  s.replace(/[<>&"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;' }[c]!))
+    // Control characters other than tab/newline are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+const columnName = (index: number) => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  return name;
+};
+
+// SpreadsheetML workbook with one worksheet per sheet; header row is bold
+const buildXlsx = (sheets: ExportSheet[]) => {
+  const encoder = new TextEncoder();
+  const cell = (value: any, ref: string, style = 0) => {
+    const s = style ? ` s="${style}"` : '';
+    if (value === null || value === undefined || value === '') return '';
+    if (typeof value === 'number' && isFinite(value)) return `<c r="${ref}"${s}><v>${value}</v></c>`;
+    if (typeof value === 'boolean') return `<c r="${ref}"${s} t="b"><v>${value ? 1 : 0}</v></c>`;
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${xmlEscape(text)}</t></is></c>`;
+  };
+  const sheetXml = (sheet: ExportSheet) => {
+    const rows = [
+      sheet.headers.map((h, c) => cell(h, `${columnName(c)}1`, 1)).join(''),
+      ...sheet.rows.map((r, i) => sheet.headers.map((h, c) => cell(r[h], `${columnName(c)}${i + 2}`)).join('')),
+    ];
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>'
+      + rows.map((cells, i) => `<row r="${i + 1}">${cells}</row>`).join('')
+      + '</sheetData></worksheet>';
+  };
+  const safeName = (name: string) => name.replace(/[\[\]:*?\/\\]/g, ' ').substring(0, 31);
+
+  const files: Record<string, string> = {
+    '[Content_Types].xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+      + '<Default Extension="xml" ContentType="application/xml"/>'
+      + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+      + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+      + sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+      + '</Types>',
+    '_rels/.rels': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+      + '</Relationships>',
+    'xl/workbook.xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>'
+      + sheets.map((s, i) => `<sheet name="${xmlEscape(safeName(s.name))}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')
+      + '</sheets></workbook>',
+    'xl/_rels/workbook.xml.rels': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+      + sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')
+      + `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`
+      + '</Relationships>',
+    'xl/styles.xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+      + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+      + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+      + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+      + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+      + '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>'
+      + '</styleSheet>',
+  };
+  sheets.forEach((s, i) => { files[`xl/worksheets/sheet${i + 1}.xml`] = sheetXml(s); });
+  return zipStore(Object.entries(files).map(([name, xml]) => ({ name, data: encoder.encode(xml) })));
+};
+
+type ImportField = 'username' | 'fullName' | 'nickname' | 'email' | 'phone' | 'status' | 'isVirtual' | 'agentType';
+
+const IMPORT_FIELDS: { key: ImportField, required?: boolean }[] = [
+  { key: 'username', required: true },
+  { key: 'email', required: true },
+  { key: 'fullName' },
+  { key: 'nickname' },
+  { key: 'phone' },
+  { key: 'status' },
+  { key: 'isVirtual' },
+  { key: 'agentType' },
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Statuses an admin can set; 'pending' is only ever reached by inviting someone
+const MEMBER_STATUSES: MemberStatus[] = ['active', 'inactive', 'suspended'];
+
+interface ImportRowError {
+  row: number;
+  field: ImportField;
+  message: string;
 }
 
-interface ApiResponse<T> {
-  data: T;
-  meta?: PageMeta;
+type MemberDraft = Pick<Member, 'username' | 'fullName' | 'nickname' | 'email' | 'phone' | 'status' | 'isVirtual' | 'agentType'>;
+
+// Turns a mapped source row into a member payload; blanks become null, status defaults to active
+const toMemberDraft = (values: Partial<Record<ImportField, string>>): MemberDraft => {
+  const text = (v?: string) => (v ?? '').trim() || null;
+  const isVirtual = ['true', 'yes', '1', 'y'].includes((values.isVirtual || '').trim().toLowerCase());
+  return {
+    username: (values.username || '').trim(),
+    email: (values.email || '').trim(),
+    fullName: text(values.fullName),
+    nickname: text(values.nickname),
+    phone: text(values.phone),
+    status: ((values.status || '').trim().toLowerCase() || 'active') as MemberStatus,
+    isVirtual,
+    agentType: isVirtual ? text(values.agentType)?.toLowerCase() || null : null,
+  };
+};
+
+// Shared by the import dry-run and the mock server so both report the same errors
+const validateMemberDrafts = (drafts: MemberDraft[], existingUsernames: Set<string>): ImportRowError[] => {
+  const errors: ImportRowError[] = [];
+  const seen = new Map<string, number>();
+  drafts.forEach((d, row) => {
+    const key = d.username.toLowerCase();
+    if (!d.username) errors.push({ row, field: 'username', message: 'Username is required' });
+    else if (existingUsernames.has(key)) errors.push({ row, field: 'username', message: `Username "${d.username}" already exists` });
+    else if (seen.has(key)) errors.push({ row, field: 'username', message: `Duplicate of row ${seen.get(key)! + 1}` });
+    else seen.set(key, row);
+    if (!d.email) errors.push({ row, field: 'email', message: 'Email is required' });
+    else if (!EMAIL_PATTERN.test(d.email)) errors.push({ row, field: 'email', message: `"${d.email}" is not a valid email` });
+    if (!MEMBER_STATUSES.includes(d.status)) errors.push({ row, field: 'status', message: `Status must be one of ${MEMBER_STATUSES.join(', ')}` });
+    if (d.isVirtual && !AGENT_TYPES.includes(d.agentType as AgentType)) {
+      errors.push({ row, field: 'agentType', message: `Agent type must be one of ${AGENT_TYPES.join(', ')}` });
+    }
+  });
+  return errors;
+};
+
+// --- Errors ---
+
+type ApiErrorKind = 'network' | 'validation' | 'unauthorized' | 'forbidden' | 'not_found' | 'conflict' | 'server';
+
+const ERROR_KIND_MESSAGES: Record<ApiErrorKind, string> = {
+  network: 'Could not reach the server. Check your connection and try again.',
+  validation: 'Some fields need attention.',
+  unauthorized: 'Your session has expired. Sign in again to continue.',
+  forbidden: "You don't have permission to do that.",
+  not_found: 'The record no longer exists. It may have been removed by someone else.',
+  conflict: 'This change conflicts with existing data.',
+  server: 'The server ran into a problem. Try again in a moment.',
+};
+
+const STATUS_ERROR_KINDS: Record<number, ApiErrorKind> = {
+  400: 'validation', 401: 'unauthorized', 403: 'forbidden', 404: 'not_found', 409: 'conflict', 422: 'validation',
+};
+
+// Every failed API call surfaces as an ApiError; `fieldErrors` is keyed by camelCase form field
+class ApiError extends Error {
+  constructor(public kind: ApiErrorKind, message = ERROR_KIND_MESSAGES[kind], public fieldErrors: Record<string, string> = {}, public status?: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
 }
 
+const apiErrorFromBody = (status: number, body: ErrorBody | null): ApiError => {
+  const kind = STATUS_ERROR_KINDS[status] || (status >= 500 ? 'server' : 'validation');
+  const fieldErrors = Object.fromEntries((body?.errors || []).map(e => [toCamelCase(e.field), e.message]));
+  return new ApiError(kind, body?.message || ERROR_KIND_MESSAGES[kind], fieldErrors, status);
+};
+
+// Normalizes anything a handler caught; non-API exceptions are reported as server errors
+const toApiError = (err: unknown): ApiError => {
+  if (err instanceof ApiError) return err;
+  return new ApiError('server', err instanceof Error && err.message ? err.message : undefined);
+};
+
 // --- API & Mock Service ---
 
-const API_BASE_URL = 'http://localhost:8080/v2';
 const DEFAULT_TENANT_ID = 1;
 
-const MockData = {
-  members: [
-    { id: 101, username: 'admin', fullName: 'System Administrator', nickname: 'SysAdmin', email: 'admin@sys.com', status: 'active', isVirtual: false, createdAt: '2023-01-01T10:00:00Z', updatedAt: '2023-01-01T10:00:00Z' },
-    { id: 102, username: 'sarah.connor', fullName: 'Sarah Connor', nickname: 'Sarah', email: 'sarah@resistance.com', status: 'active', isVirtual: false, createdAt: '2023-02-15T14:30:00Z', updatedAt: '2023-02-15T14:30:00Z' },
-    { id: 103, username: 't800_bot', fullName: 'Model 101', nickname: 'Arnold', email: 't800@skynet.com', status: 'active', isVirtual: true, agentType: 'bot', createdAt: '2023-03-10T09:00:00Z', updatedAt: '2023-03-10T09:00:00Z' },
-    { id: 104, username: 'john.doe', fullName: 'John Doe', nickname: 'JD', email: 'john@corp.com', status: 'inactive', isVirtual: false, createdAt: '2023-05-20T11:15:00Z', updatedAt: '2023-06-01T10:00:00Z' },
-    { id: 105, username: 'gpt_helper', fullName: 'Support Assistant', nickname: 'GPT-4', email: 'ai@support.com', status: 'active', isVirtual: true, agentType: 'llm', createdAt: '2023-07-01T08:00:00Z', updatedAt: '2023-07-01T08:00:00Z' },
-  ] as Member[],
-  roles: [
-    { id: 1, org_id: 0, code: 'ADMIN', name: 'Administrator', description: 'Full system access', is_position: false, active: true },
-    { id: 2, org_id: 10, code: 'MGR', name: 'Manager', description: 'Department manager', is_position: true, active: true },
-    { id: 3, org_id: 10, code: 'DEV', name: 'Developer', description: 'Software engineer', is_position: true, active: true },
-  ] as Role[],
-  orgs: [
-    { id: 10, tenantId: 1, name: 'Headquarters', type: 'company', description: 'Main Office' },
-    { id: 11, tenantId: 1, name: 'R&D Department', type: 'dept', description: 'Research and Development' },
-    { id: 12, tenantId: 1, name: 'Sales Team A', type: 'team', description: 'North America Sales' },
-  ] as OrgUnit[]
-};
-
-class ApiService {
-  private token: string | null = localStorage.getItem('auth_token');
-  private tenantId: number = parseInt(localStorage.getItem('tenant_id') || '1');
-  public useMock: boolean = true; // Default to mock for demo
+// A named API server the app can talk to when mock mode is off
+interface ConnectionProfile {
+  id: string;
+  name: string;
+  baseUrl: string;
+}
 
-  setToken(token: string) {
-    this.token = token;
-    localStorage.setItem('auth_token', token);
+const DEFAULT_CONNECTION_PROFILES: ConnectionProfile[] = [
+  { id: 'local', name: 'Local', baseUrl: 'http://localhost:8080/v2' },
+];
+
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+// Second-factor state of one username; the secret leaves the server only once, during enrollment
+interface MockMfaRecord {
+  secret: string | null;
+  // Issued by an enrollment that has not been confirmed with a code yet
+  pendingSecret: string | null;
+  enrolledAt: string | null;
+  // Unused recovery codes; each is removed when spent
+  recoveryCodes: string[];
+}
+
+interface MockTenantData {
+  members: Member[];
+  roles: Wire.Role[];
+  orgs: Omit<OrgUnit, 'memberCount'>[];
+  assignments: Assignment[];
+  agentConfigs: Record<number, AgentConfig>;
+  agentTokens: AgentToken[];
+  auditEvents: AuditEvent[];
+  labelOverrides: LabelOverride[];
+  settings: Wire.TenantSettings;
+  // The token is kept server-side only; responses carry it just once, when it is issued
+  invitations: (Wire.Invitation & { token: string })[];
+  accessRequests: Wire.AccessRequest[];
+  identityProviders: Wire.IdentityProvider[];
+  // Keyed by username, so a deleted member's record must be dropped before the name is reused
+  mfa: Record<string, MockMfaRecord>;
+  loginEvents: (Wire.LoginEvent & { member_id: number })[];
+}
+
+const DEFAULT_TENANT_SETTINGS: Wire.TenantSettings = {
+  allowed_agent_types: ['llm', 'workflow', 'bot'],
+  required_member_fields: [],
+  username_pattern: null,
+  email_domains: [],
+  default_member_status: 'active',
+  mfa_required_roles: [],
+};
+
+const emptyTenantData = (): MockTenantData => ({
+  members: [], roles: [], orgs: [], assignments: [], agentConfigs: {}, agentTokens: [], auditEvents: [], labelOverrides: [],
+  settings: DEFAULT_TENANT_SETTINGS, invitations: [], accessRequests: [], identityProviders: [], mfa: {}, loginEvents: [],
+});
+
+const INVITATION_TTL_DAYS = 7;
+const MIN_PASSWORD_LENGTH = 8;
+
+const MFA_CHALLENGE_TTL_MS = 5 * 60_000;
+// Wrong codes allowed per challenge before the password has to be entered again
+const MFA_MAX_ATTEMPTS = 5;
+const RECOVERY_CODE_COUNT = 10;
+
+// Seeded providers point at the stand-in IdP the app serves itself in mock mode (see MockIdpPage)
+const MOCK_IDP_AUTHORIZE_PATH = '/mock-idp/authorize';
+
+// Seed timestamps relative to first load, so the demo invitation is still open
+const daysFromNow = (days: number) => new Date(Date.now() + days * 86400000).toISOString();
+
+const MockTenants: Tenant[] = [
+  { id: 1, name: 'Acme Corporation' },
+  { id: 2, name: 'Globex Industries' },
+];
+
+// Keyed by tenant id; the mock server only ever sees the active tenant's partition
+const MockData: Record<number, MockTenantData> = {
+  1: {
+    members: [
+      { id: 101, username: 'admin', fullName: 'System Administrator', nickname: 'SysAdmin', email: 'admin@sys.com', status: 'active', isVirtual: false, createdAt: '2023-01-01T10:00:00Z', updatedAt: '2023-01-01T10:00:00Z' },
+      { id: 102, username: 'sarah.connor', fullName: 'Sarah Connor', nickname: 'Sarah', email: 'sarah@resistance.com', status: 'active', isVirtual: false, createdAt: '2023-02-15T14:30:00Z', updatedAt: '2023-02-15T14:30:00Z' },
+      { id: 103, username: 't800_bot', fullName: 'Model 101', nickname: 'Arnold', email: 't800@skynet.com', status: 'active', isVirtual: true, agentType: 'bot', createdAt: '2023-03-10T09:00:00Z', updatedAt: '2023-03-10T09:00:00Z' },
+      { id: 104, username: 'john.doe', fullName: 'John Doe', nickname: 'JD', email: 'john@corp.com', status: 'inactive', isVirtual: false, createdAt: '2023-05-20T11:15:00Z', updatedAt: '2023-06-01T10:00:00Z' },
+      { id: 105, username: 'gpt_helper', fullName: 'Support Assistant', nickname: 'GPT-4', email: 'ai@support.com', status: 'active', isVirtual: true, agentType: 'llm', createdAt: '2023-07-01T08:00:00Z', updatedAt: '2023-07-01T08:00:00Z' },
+      { id: 106, username: 'kyle.reese', fullName: 'Kyle Reese', nickname: null, email: 'kyle@resistance.com', phone: null, status: 'pending', isVirtual: false, createdAt: daysFromNow(-2), updatedAt: daysFromNow(-2) },
+      { id: 107, username: 'miles.dyson', fullName: null, nickname: null, email: 'miles@cyberdyne.com', phone: null, status: 'pending', isVirtual: false, createdAt: '2023-09-01T09:00:00Z', updatedAt: '2023-09-01T09:00:00Z' },
+    ] as Member[],
+    roles: [
+      { id: 1, org_id: 0, code: 'ADMIN', name: 'Administrator', description: 'Full system access', is_position: false, active: true,
+        permissions: ALL_PERMISSIONS },
+      { id: 2, org_id: 10, code: 'MGR', name: 'Manager', description: 'Department manager', is_position: true, active: true,
+        permissions: ['members:read', 'members:write', 'roles:read', 'roles:assign', 'orgs:read'] },
+      { id: 3, org_id: 10, code: 'DEV', name: 'Developer', description: 'Software engineer', is_position: true, active: true,
+        permissions: ['members:read', 'orgs:read', 'agents:read'] },
+    ] as Wire.Role[],
+    orgs: [
+      { id: 10, tenantId: 1, parentId: null, name: 'Headquarters', type: 'company', description: 'Main Office' },
+      { id: 11, tenantId: 1, parentId: 10, name: 'R&D Department', type: 'dept', description: 'Research and Development' },
+      { id: 13, tenantId: 1, parentId: 11, name: 'Platform Team', type: 'team', description: 'Core platform and infrastructure' },
+      { id: 14, tenantId: 1, parentId: 10, name: 'Sales Department', type: 'dept', description: 'Global Sales' },
+      { id: 12, tenantId: 1, parentId: 14, name: 'Sales Team A', type: 'team', description: 'North America Sales' },
+    ] as Omit<OrgUnit, 'memberCount'>[],
+    assignments: [
+      { id: 1, memberId: 101, orgId: 10, roleId: 1, isPrimary: true },
+      { id: 2, memberId: 102, orgId: 11, roleId: 2, isPrimary: true },
+      { id: 3, memberId: 103, orgId: 13, roleId: 3, isPrimary: true },
+      { id: 4, memberId: 104, orgId: 12, roleId: 2, isPrimary: true },
+      { id: 5, memberId: 105, orgId: 11, roleId: 3, isPrimary: true },
+    ] as Assignment[],
+    agentConfigs: {
+      103: { ownerId: 102, model: 'rule-engine v2', capabilities: ['notifications'], scopes: ['members:read'] },
+      105: { ownerId: 101, model: 'gpt-4o @ api.openai.com', capabilities: ['chat', 'summarize'], scopes: ['members:read', 'orgs:read'] },
+    } as Record<number, AgentConfig>,
+    agentTokens: [
+      { id: 1, memberId: 105, name: 'support-widget', prefix: 'mat_3f9a', createdAt: '2023-07-02T09:00:00Z', expiresAt: null, lastUsedAt: '2023-09-14T16:20:00Z', revokedAt: null },
+    ] as AgentToken[],
+    auditEvents: [
+      { id: 1, tenantId: 1, actor: 'admin', action: 'create', entityType: 'member', entityId: 105, before: null,
+        after: { id: 105, username: 'gpt_helper', fullName: 'Support Assistant', email: 'ai@support.com', status: 'active', isVirtual: true, agentType: 'llm' },
+        timestamp: '2023-07-01T08:00:00Z' },
+      { id: 2, tenantId: 1, actor: 'sarah.connor', action: 'update', entityType: 'member', entityId: 104,
+        before: { status: 'active', statusReason: null }, after: { status: 'inactive', statusReason: 'Extended leave' },
+        timestamp: '2023-06-01T10:00:00Z' },
+      { id: 3, tenantId: 1, actor: 'admin', action: 'create', entityType: 'assignment', entityId: 2, before: null,
+        after: { id: 2, memberId: 102, orgId: 11, roleId: 2, isPrimary: true }, timestamp: '2023-02-15T14:35:00Z' },
+      { id: 4, tenantId: 1, actor: 'sarah.connor', action: 'update', entityType: 'member', entityId: 102,
+        before: { nickname: null, updatedAt: '2023-02-15T14:30:00Z' }, after: { nickname: 'Sarah', updatedAt: '2023-02-15T15:10:00Z' },
+        timestamp: '2023-02-15T15:10:00Z' },
+    ] as AuditEvent[],
+    labelOverrides: [],
+    settings: { ...DEFAULT_TENANT_SETTINGS, mfa_required_roles: ['ADMIN'] },
+    // The widely published demo secret, so any authenticator app can produce Sarah's codes
+    mfa: {
+      'sarah.connor': { secret: 'JBSWY3DPEHPK3PXP', pendingSecret: null, enrolledAt: '2023-03-01T09:00:00Z',
+        recoveryCodes: ['3f9a-71c2', '8be0-44d1', 'c51e-9a07', '06d4-e3b8', '7a2f-1c95'] },
+    },
+    loginEvents: [
+      { id: 1, member_id: 101, timestamp: daysFromNow(-6), method: 'password', success: true, failure_reason: null, mfa: false,
+        ip_address: '10.0.4.12', user_agent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/128.0' },
+      { id: 2, member_id: 102, timestamp: daysFromNow(-5), method: 'password', success: false, failure_reason: 'Too many incorrect codes.', mfa: false,
+        ip_address: '172.16.9.40', user_agent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) Safari/604.1' },
+      { id: 3, member_id: 102, timestamp: daysFromNow(-5), method: 'password', success: true, failure_reason: null, mfa: true,
+        ip_address: '172.16.9.40', user_agent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) Safari/604.1' },
+      { id: 4, member_id: 102, timestamp: daysFromNow(-1), method: 'sso', success: true, failure_reason: null, mfa: false,
+        ip_address: '10.0.7.3', user_agent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_5) Firefox/129.0' },
+      { id: 5, member_id: 104, timestamp: daysFromNow(-3), method: 'password', success: false, failure_reason: 'This account is inactive.', mfa: false,
+        ip_address: '10.0.4.77', user_agent: 'Mozilla/5.0 (X11; Linux x86_64) Chrome/127.0' },
+    ],
+    invitations: [
+      { id: 1, email: 'kyle@resistance.com', member_id: 106, org_id: 13, role_id: 3, status: 'pending', invited_by: 'sarah.connor',
+        created_at: daysFromNow(-2), expires_at: daysFromNow(INVITATION_TTL_DAYS - 2), accepted_at: null, token: 'inv_demo_kyle' },
+      { id: 2, email: 'miles@cyberdyne.com', member_id: 107, org_id: 11, role_id: null, status: 'pending', invited_by: 'admin',
+        created_at: '2023-09-01T09:00:00Z', expires_at: '2023-09-08T09:00:00Z', accepted_at: null, token: 'inv_demo_miles' },
+    ],
+    identityProviders: [
+      { id: 1, name: 'Acme SSO', protocol: 'oidc', issuer: 'https://sso.acme.test', authorization_endpoint: MOCK_IDP_AUTHORIZE_PATH,
+        token_endpoint: 'https://sso.acme.test/oauth2/token', client_id: 'member-admin-acme', scopes: ['openid', 'profile', 'email'],
+        claim_mapping: { username: 'preferred_username', email: 'email', full_name: 'name', nickname: 'nickname', phone: 'phone_number' },
+        jit_provisioning: true, default_org_id: 11, default_role_id: 3, enabled: true },
+    ],
+    accessRequests: [
+      { id: 1, email: 'kate@resistance.com', full_name: 'Kate Brewster', message: 'Joining the platform team next week.', status: 'pending', created_at: daysFromNow(-1) },
+    ],
+  },
+  2: {
+    members: [
+      { id: 201, username: 'hank.scorpio', fullName: 'Hank Scorpio', nickname: 'Hank', email: 'hank@globex.com', phone: null, status: 'active', isVirtual: false, createdAt: '2023-04-01T09:00:00Z', updatedAt: '2023-04-01T09:00:00Z' },
+      { id: 202, username: 'homer.s', fullName: 'Homer Simpson', nickname: 'Homer', email: 'homer@globex.com', phone: null, status: 'active', isVirtual: false, createdAt: '2023-04-03T09:00:00Z', updatedAt: '2023-04-03T09:00:00Z' },
+      { id: 203, username: 'doom_flow', fullName: 'Launch Scheduler', nickname: null, email: 'scheduler@globex.com', phone: null, status: 'suspended', statusReason: 'Pending review', isVirtual: true, agentType: 'workflow', createdAt: '2023-08-12T12:00:00Z', updatedAt: '2023-08-20T12:00:00Z' },
+    ],
+    roles: [
+      { id: 1, org_id: 0, code: 'ADMIN', name: 'Administrator', description: 'Full system access', is_position: false, active: true,
+        permissions: ALL_PERMISSIONS },
+      { id: 2, org_id: 20, code: 'ENG', name: 'Engineer', description: 'Project engineer', is_position: true, active: true,
+        permissions: ['members:read', 'orgs:read'] },
+    ],
+    orgs: [
+      { id: 20, tenantId: 2, parentId: null, name: 'Globex HQ', type: 'company', description: 'Cypress Creek campus' },
+      { id: 21, tenantId: 2, parentId: 20, name: 'Special Projects', type: 'dept', description: null },
+    ],
+    assignments: [
+      { id: 1, memberId: 201, orgId: 20, roleId: 1, isPrimary: true },
+      { id: 2, memberId: 202, orgId: 21, roleId: 2, isPrimary: true },
+      { id: 3, memberId: 203, orgId: 21, roleId: null, isPrimary: true },
+    ],
+    agentConfigs: {
+      203: { ownerId: 201, model: 'globex-flow', capabilities: ['scheduling'], scopes: ['orgs:read'] },
+    },
+    agentTokens: [],
+    auditEvents: [],
+    labelOverrides: [
+      { locale: 'en', key: 'nav.members', text: 'Employees' },
+      { locale: 'en', key: 'members.title', text: 'Employees' },
+    ],
+    settings: {
+      allowed_agent_types: ['workflow'],
+      required_member_fields: ['fullName'],
+      username_pattern: '[a-z]+(\\.[a-z]+)?',
+      email_domains: ['globex.com'],
+      default_member_status: 'inactive',
+      mfa_required_roles: [],
+    },
+    mfa: {},
+    loginEvents: [
+      { id: 1, member_id: 201, timestamp: daysFromNow(-2), method: 'sso', success: true, failure_reason: null, mfa: false,
+        ip_address: '192.168.20.5', user_agent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_5) Safari/17.5' },
+    ],
+    invitations: [],
+    accessRequests: [],
+    identityProviders: [
+      { id: 1, name: 'Globex SAML', protocol: 'saml', issuer: 'urn:globex:idp', authorization_endpoint: MOCK_IDP_AUTHORIZE_PATH,
+        token_endpoint: null, client_id: 'urn:globex:member-admin', scopes: [],
+        claim_mapping: { username: 'uid', email: 'mail', full_name: 'displayName', nickname: null, phone: null },
+        jit_provisioning: false, default_org_id: null, default_role_id: null, enabled: true },
+    ],
+  },
+};
+
+// Accounts offered by the stand-in IdP; each value is released under its OIDC claim and its usual SAML attribute name
+const MOCK_IDP_IDENTITIES = [
+  { preferred_username: 'sarah.connor', email: 'sarah@resistance.com', name: 'Sarah Connor' },
+  { preferred_username: 'dana.scully', email: 'dana@resistance.com', name: 'Dana Scully', nickname: 'Dana', phone_number: '+1 555 0101' },
+  { preferred_username: 'homer.s', email: 'homer@globex.com', name: 'Homer Simpson' },
+  { preferred_username: 'lenny', email: 'lenny@globex.com', name: 'Lenny Leonard' },
+];
+
+const mockIdpClaims = (identity: Record<string, string>): Record<string, string> =>
+  ({ ...identity, uid: identity.preferred_username, mail: identity.email, displayName: identity.name });
+
+// Reads `exp` (ms since epoch) from a JWT without verifying it; null for opaque tokens
+const jwtExpiry = (token: string): number | null => {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
   }
+};
 
-  setTenantId(id: number) {
-    this.tenantId = id;
-    localStorage.setItem('tenant_id', id.toString());
+// Refresh this long before the access token expires to avoid a guaranteed 401
+const TOKEN_REFRESH_MARGIN_MS = 30_000;
+const AUTH_ENDPOINTS = ['/auth/login', '/auth/mfa/verify', '/auth/sso/callback', '/auth/refresh'];
+
+// What a transport (fetch or the mock server) hands back, before errors are mapped
+interface TransportResponse {
+  status: number;
+  body: any;
+}
+
+// Drops unset params so they don't reach the server as "undefined"
+const toQueryString = (params: Record<string, any>) => {
+  const defined = Object.entries(params).filter(([, v]) => v !== undefined && v !== null && v !== '');
+  return new URLSearchParams(defined.map(([k, v]) => [k, String(v)])).toString();
+};
+
+const base64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const randomUrlToken = (bytes = 32) => base64Url(crypto.getRandomValues(new Uint8Array(bytes)));
+
+// RFC 7636 S256: base64url(sha256(verifier))
+const pkceChallenge = async (verifier: string) =>
+  base64Url(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier))));
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32 = (bytes: Uint8Array) => {
+  let out = '', value = 0, bits = 0;
+  for (const byte of bytes) {
+    value = ((value << 8) | byte) & 0xfff;
+    for (bits += 8; bits >= 5; bits -= 5) out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
   }
+  return bits ? out + BASE32_ALPHABET[(value << (5 - bits)) & 31] : out;
+};
 
-  logout() {
-    this.token = null;
-    localStorage.removeItem('auth_token');
+const fromBase32 = (text: string) => {
+  const bytes: number[] = [];
+  let value = 0, bits = 0;
+  for (const char of text.toUpperCase().replace(/[\s=]/g, '')) {
+    value = ((value << 5) | BASE32_ALPHABET.indexOf(char)) & 0xfff;
+    bits += 5;
+    if (bits >= 8) bytes.push((value >>> (bits -= 8)) & 255);
   }
+  return new Uint8Array(bytes);
+};
 
-  isAuthenticated() {
-    return !!this.token || this.useMock; // Mock mode always authenticated for demo
+const TOTP_STEP_MS = 30_000;
+const TOTP_DIGITS = 6;
+
+// RFC 6238 with the parameters authenticator apps assume: HMAC-SHA1, 30-second steps, 6 digits
+const totpCode = async (secret: string, time = Date.now()) => {
+  const counter = new DataView(new ArrayBuffer(8));
+  counter.setBigUint64(0, BigInt(Math.floor(time / TOTP_STEP_MS)));
+  const key = await crypto.subtle.importKey('raw', fromBase32(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const mac = new DataView(await crypto.subtle.sign('HMAC', key, counter.buffer));
+  const binary = mac.getUint32(mac.getUint8(mac.byteLength - 1) & 15) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+// One step of clock drift either way is tolerated, as most servers do
+const totpMatches = async (secret: string, code: string) => {
+  const clean = code.replace(/\s/g, '');
+  for (const drift of [-1, 0, 1]) {
+    if (await totpCode(secret, Date.now() + drift * TOTP_STEP_MS) === clean) return true;
   }
+  return false;
+};
 
-  private async request(endpoint: string, options: RequestInit = {}) {
-    if (this.useMock) {
-      await new Promise(resolve => setTimeout(resolve, 600)); // Simulate network delay
-      return this.mockHandler(endpoint, options);
-    }
+// --- Mock Server ---
 
-    const headers = {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${this.token}`,
-      'X-Tenant-ID': this.tenantId.toString(),
-      ...options.headers,
-    };
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+interface MockRequest {
+  params: Record<string, number>;
+  query: URLSearchParams;
+  body: any;
+}
+
+interface MockRoute {
+  method: HttpMethod;
+  path: string;
+  pattern: RegExp;
+  handle: (req: MockRequest) => any;
+  // Mutations are recorded in the audit trail; the `:id` param is the audited entity when present
+  audit?: AuditEntityType;
+}
+
+// An injected failure for every request matching `method` and the route template `path` (omitted = any)
+interface MockScenario {
+  id: 'roles-500' | 'members-503' | 'orgs-500' | 'audit-500' | 'member-update-403' | 'member-create-409' | 'offline';
+  method?: HttpMethod;
+  path?: string;
+  status: number | 'network';
+}
+
+const MOCK_SCENARIOS: MockScenario[] = [
+  { id: 'roles-500', method: 'GET', path: '/roles', status: 500 },
+  { id: 'members-503', method: 'GET', path: '/members', status: 503 },
+  { id: 'orgs-500', method: 'GET', path: '/orgs', status: 500 },
+  { id: 'audit-500', method: 'GET', path: '/audit-events', status: 500 },
+  { id: 'member-update-403', method: 'PUT', path: '/members/:id', status: 403 },
+  { id: 'member-create-409', method: 'POST', path: '/members', status: 409 },
+  { id: 'offline', status: 'network' },
+];
+
+const MOCK_LATENCY_OPTIONS = [0, 200, 600, 1500, 3000];
+
+interface MockSettings {
+  latencyMs: number;
+  scenarios: string[];
+}
+
+const DEFAULT_MOCK_SETTINGS: MockSettings = { latencyMs: 600, scenarios: [] };
+
+const MOCK_STATE_KEY = 'mock_server_state';
+const MOCK_SETTINGS_KEY = 'mock_server_settings';
+// Bump when the seed data changes shape so stale browser state is discarded instead of migrated
+const MOCK_STATE_VERSION = 7;
+
+const MOCK_ID_TABLES = ['members', 'roles', 'orgs', 'assignments', 'agentTokens', 'auditEvents', 'invitations', 'accessRequests', 'identityProviders', 'loginEvents'] as const;
+type MockTable = typeof MOCK_ID_TABLES[number];
+
+interface MockState {
+  version: number;
+  tenants: Record<number, MockTenantData>;
+  // Last id handed out per `${tenantId}:${table}`; ids are never reused, even after a delete
+  sequences: Record<string, number>;
+  // Authorization codes from the stand-in IdP, keyed by code; persisted because the round-trip reloads the page
+  idpGrants: Record<string, MockIdpGrant>;
+}
+
+interface MockIdpGrant {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  claims: Record<string, string>;
+  expiresAt: number;
+}
+
+const MOCK_IDP_CODE_TTL_MS = 5 * 60_000;
+
+interface MockMfaChallenge {
+  tenantId: number;
+  username: string;
+  expiresAt: number;
+  attempts: number;
+}
+
+const MOCK_ERROR_STATUS: Partial<Record<ApiErrorKind, number>> = {
+  validation: 422, unauthorized: 401, forbidden: 403, not_found: 404, conflict: 409, server: 500,
+};
+
+const toSnakeCase = (key: string) => key.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`);
+
+const randomSecret = (prefix: string) =>
+  prefix + Array.from(crypto.getRandomValues(new Uint8Array(24)), b => b.toString(16).padStart(2, '0')).join('');
+
+const newRecoveryCodes = () => Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+  const hex = randomSecret('').slice(0, 8);
+  return `${hex.slice(0, 4)}-${hex.slice(4)}`;
+});
+
+// '/members/:id' -> /^\/members\/(?<id>\d+)$/; shared by the mock server and the app router
+const compileRoutePath = (path: string) =>
+  new RegExp(`^${path.replace(/\//g, '\\/').replace(/:(\w+)/g, '(?<$1>\\d+)')}$`);
+
+const matchRoutePath = (pattern: RegExp, pathname: string): Record<string, number> | null => {
+  const found = pathname.match(pattern);
+  return found ? Object.fromEntries(Object.entries(found.groups || {}).map(([k, v]) => [k, Number(v)])) : null;
+};
+
+// In-browser stand-in for the v2 API: answers with HTTP-style status and wire-format bodies,
+// so ApiService runs the same error and contract handling in mock mode as against a server
+class MockServer {
+  private state: MockState = this.load();
+  private settings: MockSettings = this.loadSettings();
+  private tenantId = DEFAULT_TENANT_ID;
+  private actor = 'admin';
+  // Sign-ins waiting for a second factor, keyed by mfa_token; the login screen keeps the token in memory too
+  private mfaChallenges = new Map<string, MockMfaChallenge>();
+
+  private routes: MockRoute[] = [
+    this.route('GET', '/health', () => ({ status: 'ok', version: '2.4.0' })),
+    this.route('GET', '/tenants', () => ({ data: MockTenants })),
+    this.route('GET', '/settings', () => this.db.settings),
+    this.route('PUT', '/settings', ({ body }) => {
+      try {
+        if (body.username_pattern) new RegExp(body.username_pattern);
+      } catch {
+        throw new ApiError('validation', undefined, { usernamePattern: 'Enter a valid regular expression' });
+      }
+      const domains = (body.email_domains as string[]).map(d => d.trim().replace(/^@/, '').toLowerCase()).filter(Boolean);
+      const mfaRoles = (body.mfa_required_roles as string[]).map(c => c.trim().toUpperCase()).filter(Boolean);
+      this.db.settings = {
+        ...body, username_pattern: body.username_pattern || null, email_domains: Array.from(new Set(domains)), mfa_required_roles: Array.from(new Set(mfaRoles)),
+      };
+      return this.db.settings;
+    }),
+    this.route('GET', '/identity-providers', () => ({ data: this.db.identityProviders })),
+    this.route('POST', '/identity-providers', ({ body }) => {
+      const provider = { ...this.identityProviderInput(body), id: this.nextId('identityProviders') };
+      this.db.identityProviders.push(provider);
+      return provider;
+    }, 'identity_provider'),
+    this.route('PUT', '/identity-providers/:id', ({ params, body }) => {
+      const provider = this.find(this.db.identityProviders, params.id);
+      return Object.assign(provider, this.identityProviderInput(body, provider.id));
+    }, 'identity_provider'),
+    this.route('DELETE', '/identity-providers/:id', ({ params }) => {
+      const provider = this.find(this.db.identityProviders, params.id);
+      this.db.identityProviders = this.db.identityProviders.filter(p => p !== provider);
+      return null;
+    }, 'identity_provider'),
+    this.route('GET', '/localization/overrides', () => ({ data: this.db.labelOverrides })),
+    this.route('PUT', '/localization/overrides', ({ body }) => {
+      this.db.labelOverrides = body.data.filter((o: LabelOverride) => o.text.trim());
+      return { data: this.db.labelOverrides };
+    }),
+    this.route('GET', '/stats', () => {
+      const members = this.db.members.filter(m => !m.deletedAt);
+      const typeCounts = new Map<string, number>([['human', 0], ...AGENT_TYPES.map(type => [type, 0] as [string, number])]);
+      members.forEach(m => {
+        const type = m.isVirtual ? m.agentType || 'unknown' : 'human';
+        typeCounts.set(type, (typeCounts.get(type) || 0) + 1);
+      });
+      return {
+        totalMembers: members.length,
+        activeAgents: members.filter(m => m.isVirtual && m.status === 'active').length,
+        orgUnits: this.db.orgs.length,
+        byStatus: [...MEMBER_STATUSES, 'pending' as const].map(status => ({ status, count: members.filter(m => m.status === status).length })),
+        byType: Array.from(typeCounts, ([type, count]) => ({ type, count })),
+        growth: this.growth(members),
+        byOrg: this.db.orgs
+          .map(o => ({ orgId: o.id, name: o.name, memberCount: this.withMemberCount(o).memberCount }))
+          .sort((a, b) => b.memberCount - a.memberCount),
+        recentChanges: this.db.auditEvents
+          .filter(e => e.tenantId === this.tenantId)
+          .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+          .slice(0, 8),
+        pendingInvitations: this.db.invitations.filter(i => this.invitation(i).status === 'pending').length,
+        pendingAccessRequests: this.db.accessRequests.filter(r => r.status === 'pending').length,
+      };
+    }),
+    // Any password works; a seeded username signs in as that member, anything else as an all-access demo admin.
+    // Members with an authenticator, or whose roles the tenant's MFA policy covers, get a challenge instead of a session
+    this.route('POST', '/auth/login', ({ body }) => {
+      const db = this.state.tenants[body.tenantId] || emptyTenantData();
+      const member = db.members.find(m => m.username === body.username && !m.deletedAt);
+      const refusal = member?.status === 'pending' ? 'This account has not accepted its invitation yet.'
+        : member && member.status !== 'active' ? `This account is ${member.status}.` : null;
+      if (refusal) {
+        this.recordLogin(body.tenantId, member!, { method: 'password', success: false, failure_reason: refusal });
+        throw new ApiError('unauthorized', refusal);
+      }
+      const enrolled = !!member && !!db.mfa[member.username]?.secret;
+      if (!member || (!enrolled && !this.mfaRequired(db, member))) {
+        if (member) this.recordLogin(body.tenantId, member, { method: 'password', success: true });
+        return { session: this.loginResponse(db, member), mfa_challenge: null };
+      }
+
+      const token = randomSecret('mfa_');
+      this.mfaChallenges.set(token, { tenantId: body.tenantId, username: member.username, expiresAt: Date.now() + MFA_CHALLENGE_TTL_MS, attempts: 0 });
+      const enrollment = enrolled ? null : this.startMfaEnrollment(db, member.username, body.tenantId);
+      return { session: null, mfa_challenge: { mfa_token: token, expires_in: MFA_CHALLENGE_TTL_MS / 1000, enrollment } };
+    }),
+    // The first valid code of a required enrollment turns MFA on, so its recovery codes come back with the session
+    this.route('POST', '/auth/mfa/verify', async ({ body }) => {
+      const challenge = this.mfaChallenges.get(body.mfa_token);
+      const db = challenge && this.state.tenants[challenge.tenantId];
+      const member = db?.members.find(m => m.username === challenge!.username && !m.deletedAt && m.status === 'active');
+      const record = member && db!.mfa[member.username];
+      if (!challenge || challenge.expiresAt < Date.now() || !record || !(record.secret || record.pendingSecret)) {
+        this.mfaChallenges.delete(body.mfa_token);
+        throw new ApiError('unauthorized', 'This sign-in attempt has expired. Enter your password again.');
+      }
+      const enrolling = !record.secret;
+      const valid = enrolling
+        ? await totpMatches(record.pendingSecret!, body.code || '')
+        : await totpMatches(record.secret!, body.code || '') || this.spendRecoveryCode(record, body.code || '');
+      if (!valid) {
+        if (++challenge.attempts < MFA_MAX_ATTEMPTS) throw new ApiError('validation', undefined, { code: 'That code is not valid. Check the time on your device and try again.' });
+        this.mfaChallenges.delete(body.mfa_token);
+        this.recordLogin(challenge.tenantId, member, { method: 'password', success: false, failure_reason: 'Too many incorrect codes.' });
+        throw new ApiError('unauthorized', 'Too many incorrect codes. Enter your password again.');
+      }
+      this.mfaChallenges.delete(body.mfa_token);
+      this.recordLogin(challenge.tenantId, member, { method: 'password', success: true, mfa: true });
+      return { ...this.loginResponse(db!, member), recovery_codes: enrolling ? this.enableMfa(record) : null };
+    }),
+    this.route('GET', '/auth/mfa', () => this.mfaStatus(this.db, this.actor)),
+    this.route('POST', '/auth/mfa/enrollment', () => {
+      if (this.db.mfa[this.actor]?.secret) throw new ApiError('conflict', 'Two-factor authentication is already on. Turn it off before setting up another device.');
+      return this.startMfaEnrollment(this.db, this.actor, this.tenantId);
+    }),
+    // Handlers below await the code check, so they hold on to the tenant's data rather than reading this.db afterwards
+    this.route('POST', '/auth/mfa/enrollment/confirm', async ({ body }) => {
+      const record = this.db.mfa[this.actor];
+      if (!record?.pendingSecret) throw new ApiError('validation', 'Start setting up an authenticator first.');
+      if (!await totpMatches(record.pendingSecret, body.code || '')) throw new ApiError('validation', undefined, { code: 'That code is not valid. Check the time on your device and try again.' });
+      return { recovery_codes: this.enableMfa(record) };
+    }),
+    this.route('POST', '/auth/mfa/recovery-codes', async ({ body }) => {
+      const record = this.enrolledMfa(this.db, this.actor);
+      if (!await totpMatches(record.secret!, body.code || '')) throw new ApiError('validation', undefined, { code: 'Enter the current code from your authenticator app' });
+      record.recoveryCodes = newRecoveryCodes();
+      return { recovery_codes: record.recoveryCodes };
+    }),
+    this.route('POST', '/auth/mfa/disable', async ({ body }) => {
+      const db = this.db, username = this.actor;
+      const record = this.enrolledMfa(db, username);
+      const member = db.members.find(m => m.username === username && !m.deletedAt);
+      if (this.mfaRequired(db, member)) throw new ApiError('forbidden', 'Your roles require two-factor authentication. An administrator can reset it if you lose your device.');
+      if (!await totpMatches(record.secret!, body.code || '') && !this.spendRecoveryCode(record, body.code || '')) {
+        throw new ApiError('validation', undefined, { code: 'That code is not valid. Check the time on your device and try again.' });
+      }
+      delete db.mfa[username];
+      return null;
+    }),
+    this.route('GET', '/auth/providers', ({ query }) => {
+      const db = this.state.tenants[Number(query.get('tenant_id'))] || emptyTenantData();
+      const data = db.identityProviders
+        .filter(p => p.enabled)
+        .map(({ id, name, protocol, authorization_endpoint, client_id, scopes }) => ({ id, name, protocol, authorization_endpoint, client_id, scopes }));
+      return { data };
+    }),
+    // What the real server does after the IdP redirect: redeem the code, verify PKCE, then map the claims to a member
+    this.route('POST', '/auth/sso/callback', async ({ body }) => {
+      const grant = this.state.idpGrants[body.code];
+      delete this.state.idpGrants[body.code];
+      const verified = !!grant && await pkceChallenge(body.code_verifier || '') === grant.codeChallenge;
+      // There is no session yet, so the tenant comes from the request like it does for password sign-in
+      this.tenantId = body.tenant_id;
+      const provider = this.db.identityProviders.find(p => p.id === body.provider_id && p.enabled);
+      if (!provider || !grant || grant.expiresAt < Date.now() || grant.clientId !== provider.client_id || grant.redirectUri !== body.redirect_uri) {
+        throw new ApiError('unauthorized', 'The sign-in response is invalid or has expired. Start again from the sign-in page.');
+      }
+      if (!verified) throw new ApiError('unauthorized', 'The PKCE code verifier does not match the challenge.');
+      const member = this.ssoMember(provider, grant.claims);
+      this.recordLogin(this.tenantId, member, { method: 'sso', success: true });
+      return this.loginResponse(this.db, member);
+    }),
+    this.route('POST', '/auth/refresh', () =>
+      ({ access_token: 'mock-jwt-token', refresh_token: 'mock-refresh-token', expires_in: 3600 })),
+    this.route('GET', '/auth/me', () => {
+      const member = this.db.members.find(m => m.username === this.actor && !m.deletedAt);
+      return { username: this.actor, full_name: member?.fullName || 'Mock Admin', permissions: this.grants(this.db, member) };
+    }),
+
+    this.route('GET', '/members', ({ query }) => {
+      const status = query.get('status');
+      const keyword = query.get('keyword')?.toLowerCase();
+      const isVirtual = query.get('is_virtual');
+      const agentType = query.get('agent_type');
+      const orgId = query.get('org_id'), roleId = query.get('role_id');
+      const createdFrom = query.get('created_from'), createdTo = query.get('created_to');
+      const updatedFrom = query.get('updated_from'), updatedTo = query.get('updated_to');
+      const hasPhone = query.get('has_phone'), hasNickname = query.get('has_nickname');
+      const assigned = (m: Member, match: (a: Assignment) => boolean) => this.db.assignments.some(a => a.memberId === m.id && match(a));
+      const sortBy = query.get('sort_by');
+      const direction = query.get('sort_order') === 'desc' ? -1 : 1;
+      const sortKey = (m: Member) =>
+        sortBy === 'name' ? (m.fullName || m.username).toLowerCase() : sortBy === 'status' ? m.status : m.createdAt;
+
+      const members = this.db.members
+        .filter(m => !m.deletedAt)
+        .filter(m => !status || m.status === status)
+        .filter(m => !isVirtual || m.isVirtual === (isVirtual === 'true'))
+        .filter(m => !agentType || m.agentType === agentType)
+        .filter(m => !orgId || assigned(m, a => isInSubtree(this.db.orgs, Number(orgId), a.orgId)))
+        .filter(m => !roleId || assigned(m, a => a.roleId === Number(roleId)))
+        .filter(m => (!createdFrom || m.createdAt >= createdFrom) && (!createdTo || m.createdAt <= createdTo))
+        .filter(m => (!updatedFrom || m.updatedAt >= updatedFrom) && (!updatedTo || m.updatedAt <= updatedTo))
+        .filter(m => !hasPhone || !!m.phone === (hasPhone === 'true'))
+        .filter(m => !hasNickname || !!m.nickname === (hasNickname === 'true'))
+        .filter(m => !keyword || [m.username, m.fullName, m.nickname, m.email].some(v => v?.toLowerCase().includes(keyword)));
+      if (sortBy) members.sort((a, b) => sortKey(a).localeCompare(sortKey(b)) * direction);
+      return this.paginate(members, query);
+    }),
+    this.route('POST', '/members', ({ body }) => {
+      const fieldErrors: Record<string, string> = this.policyErrors(body);
+      if (this.usernames().has(String(body.username).toLowerCase())) fieldErrors.username = `Username "${body.username}" already exists`;
+      if (!EMAIL_PATTERN.test(body.email || '')) fieldErrors.email = 'Enter a valid email address';
+      if (Object.keys(fieldErrors).length) throw new ApiError(fieldErrors.username ? 'conflict' : 'validation', undefined, fieldErrors);
+      const now = new Date().toISOString();
+      const member = { ...body, id: this.nextId('members'), createdAt: now, updatedAt: now };
+      this.db.members.push(member);
+      return member;
+    }, 'member'),
+    this.route('POST', '/members/import/validate', ({ body }) => {
+      const errors = validateMemberDrafts(body.members, this.usernames());
+      const policy = (body.members as MemberDraft[]).flatMap((member, row) => Object.entries(this.policyErrors(member))
+        .filter(([field]) => !errors.some(e => e.row === row && e.field === field))
+        .map(([field, message]) => ({ row, field, message })));
+      return { errors: [...errors, ...policy].sort((a, b) => a.row - b.row) };
+    }),
+    this.route('POST', '/members/batch', ({ body }) => {
+      const results = (body.members as MemberDraft[]).map((member, index) => {
+        const errors = validateMemberDrafts([member], this.usernames());
+        if (errors.length) return { index, error: errors.map(e => e.message).join('; ') };
+        try {
+          return { index, id: this.invoke('POST', '/members', member).id };
+        } catch (err) {
+          const error = toApiError(err);
+          return { index, error: Object.values(error.fieldErrors).join('; ') || error.message };
+        }
+      });
+      return { results };
+    }),
+    this.route('GET', '/members/:id', ({ params }) => this.liveMember(params.id)),
+    this.route('PUT', '/members/:id', ({ params, body }) => {
+      const member = this.liveMember(params.id);
+      const { fullName, nickname, phone, email } = body;
+      if (!EMAIL_PATTERN.test(email || '')) throw new ApiError('validation', undefined, { email: 'Enter a valid email address' });
+      return Object.assign(member, { fullName, nickname, phone, email, updatedAt: new Date().toISOString() });
+    }, 'member'),
+    this.route('PATCH', '/members/:id', ({ params, body }) => {
+      const member = this.liveMember(params.id);
+      if (member.status === 'pending') throw new ApiError('conflict', 'An invited member becomes active by accepting the invitation.');
+      if (!MEMBER_STATUSES.includes(body.status)) throw new ApiError('validation', undefined, { status: `Status must be one of ${MEMBER_STATUSES.join(', ')}` });
+      if (!body.reason) throw new ApiError('validation', undefined, { reason: 'A reason is required' });
+      return Object.assign(member, { status: body.status, statusReason: body.reason, updatedAt: new Date().toISOString() });
+    }, 'member'),
+    this.route('DELETE', '/members/:id', ({ params }) => {
+      const member = this.liveMember(params.id);
+      member.deletedAt = new Date().toISOString();
+      delete this.db.mfa[member.username];
+      this.db.invitations.filter(i => i.member_id === params.id && i.status === 'pending').forEach(i => { i.status = 'revoked'; });
+      return null;
+    }, 'member'),
+    // Assignment, token and invitation snapshots name their member; the member's own events are keyed by its id
+    this.route('GET', '/members/:id/history', ({ params, query }) => {
+      const { id } = this.liveMember(params.id);
+      const names = (snapshot: Record<string, any> | null) => snapshot?.memberId === id || snapshot?.member_id === id;
+      const events = this.db.auditEvents
+        .filter(e => ['member', 'agent', 'member_mfa'].includes(e.entityType) ? e.entityId === id : names(e.before) || names(e.after))
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp) || b.id - a.id);
+      return this.paginate(events, query);
+    }),
+    this.route('GET', '/members/:id/logins', ({ params, query }) => {
+      const { id } = this.liveMember(params.id);
+      const events = this.db.loginEvents
+        .filter(e => e.member_id === id)
+        .map(({ member_id, ...event }) => event)
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp) || b.id - a.id);
+      return this.paginate(events, query);
+    }),
+    this.route('GET', '/members/:id/mfa', ({ params }) => this.mfaStatus(this.db, this.liveMember(params.id).username)),
+    this.route('DELETE', '/members/:id/mfa', ({ params }) => {
+      const { username } = this.liveMember(params.id);
+      if (!this.db.mfa[username]) throw new ApiError('not_found', 'This member has not set up two-factor authentication.');
+      delete this.db.mfa[username];
+      this.mfaChallenges.forEach((challenge, token) => {
+        if (challenge.tenantId === this.tenantId && challenge.username === username) this.mfaChallenges.delete(token);
+      });
+      return null;
+    }, 'member_mfa'),
+    this.route('GET', '/members/:id/assignments', ({ params }) => ({ data: this.db.assignments.filter(a => a.memberId === params.id) })),
+
+    this.route('GET', '/assignments', () => ({ data: this.db.assignments })),
+    this.route('POST', '/assignments', ({ body }) => {
+      if (this.db.assignments.some(a => a.memberId === body.memberId && a.orgId === body.orgId && a.roleId === body.roleId)) {
+        throw new ApiError('conflict', 'This member already holds that role in the unit.', { orgId: 'Already assigned here with this role' });
+      }
+      const isFirst = !this.db.assignments.some(a => a.memberId === body.memberId);
+      const assignment = { ...body, id: this.nextId('assignments'), isPrimary: false };
+      this.db.assignments.push(assignment);
+      if (body.isPrimary || isFirst) this.setPrimary(assignment);
+      return assignment;
+    }, 'assignment'),
+    this.route('PATCH', '/assignments/:id', ({ params, body }) => {
+      const assignment = this.find(this.db.assignments, params.id);
+      if (body.isPrimary) this.setPrimary(assignment);
+      return assignment;
+    }, 'assignment'),
+    this.route('DELETE', '/assignments/:id', ({ params }) => {
+      const assignment = this.find(this.db.assignments, params.id);
+      this.db.assignments = this.db.assignments.filter(a => a !== assignment);
+      const next = this.db.assignments.find(a => a.memberId === assignment.memberId);
+      if (assignment.isPrimary && next) this.setPrimary(next);
+      return null;
+    }, 'assignment'),
+
+    this.route('GET', '/roles', ({ query }) => this.paginate(this.db.roles, query, this.db.roles.length)),
+    this.route('POST', '/roles', ({ body }) => {
+      if (this.db.roles.some(r => r.code === body.code && r.org_id === body.org_id)) {
+        throw new ApiError('conflict', undefined, { code: `${body.code} already exists in this organization` });
+      }
+      const role = { ...body, id: this.nextId('roles'), permissions: body.permissions || [] };
+      this.db.roles.push(role);
+      return role;
+    }, 'role'),
+    this.route('PUT', '/roles/:id', ({ params, body }) => {
+      const role = this.find(this.db.roles, params.id);
+      return Object.assign(role, body, { id: role.id, permissions: role.permissions });
+    }, 'role'),
+    this.route('PUT', '/roles/:id/permissions', ({ params, body }) => {
+      const role = this.find(this.db.roles, params.id);
+      role.permissions = body.permissions;
+      return role;
+    }, 'role'),
+
+    this.route('GET', '/orgs', ({ query }) => {
+      const data = this.db.orgs.map(o => this.withMemberCount(o));
+      return this.paginate(data, query, data.length);
+    }),
+    this.route('POST', '/orgs', ({ body }) => {
+      const org = { ...body, id: this.nextId('orgs'), tenantId: this.tenantId };
+      this.db.orgs.push(org);
+      return this.withMemberCount(org);
+    }, 'org'),
+    this.route('PATCH', '/orgs/:id', ({ params, body }) => {
+      const org = this.find(this.db.orgs, params.id);
+      if (isInSubtree(this.db.orgs, org.id, body.parentId)) throw new ApiError('conflict', 'A unit cannot be moved under itself or one of its own sub-units.');
+      org.parentId = body.parentId;
+      return this.withMemberCount(org);
+    }, 'org'),
+    this.route('GET', '/orgs/:id/members', ({ params }) => {
+      const data = this.db.assignments
+        .filter(a => a.orgId === params.id)
+        .map(a => ({ ...a, member: this.db.members.find(m => m.id === a.memberId && !m.deletedAt) }))
+        .filter(a => a.member);
+      return { data };
+    }),
+
+    this.route('GET', '/agents', ({ query }) => {
+      const agentType = query.get('agentType');
+      const data = this.db.members
+        .filter(m => m.isVirtual && !m.deletedAt && (!agentType || m.agentType === agentType))
+        .map(m => this.agent(m.id));
+      return this.paginate(data, query, data.length);
+    }),
+    this.route('POST', '/agents', ({ body: { config, ...body } }) => {
+      if (this.usernames().has(String(body.username).toLowerCase())) {
+        throw new ApiError('conflict', undefined, { username: `Username "${body.username}" already exists` });
+      }
+      // Provisioning takes no nickname or phone, so only the rules that apply to agents are checked
+      const { nickname, phone, ...policyErrors } = this.policyErrors({ ...body, isVirtual: true });
+      if (Object.keys(policyErrors).length) throw new ApiError('validation', undefined, policyErrors);
+      const now = new Date().toISOString();
+      const member = { ...body, id: this.nextId('members'), isVirtual: true, createdAt: now, updatedAt: now };
+      this.db.members.push(member);
+      this.db.agentConfigs[member.id] = config;
+      return this.agent(member.id);
+    }, 'agent'),
+    this.route('GET', '/agents/:id', ({ params }) => {
+      if (!this.liveMember(params.id).isVirtual) throw new ApiError('not_found');
+      return this.agent(params.id);
+    }),
+    this.route('PUT', '/agents/:id', ({ params, body }) => {
+      if (!this.db.members.some(m => m.id === params.id && m.isVirtual && !m.deletedAt)) throw new ApiError('not_found');
+      this.db.agentConfigs[params.id] = body;
+      return this.agent(params.id);
+    }, 'agent'),
+    this.route('GET', '/agents/:agentId/tokens', ({ params }) => ({ data: this.db.agentTokens.filter(t => t.memberId === params.agentId) })),
+    this.route('POST', '/agents/:agentId/tokens', ({ params, body }) => {
+      const secret = randomSecret('mat_');
+      const token: AgentToken = {
+        id: this.nextId('agentTokens'),
+        memberId: params.agentId,
+        name: body.name,
+        prefix: secret.substring(0, 8),
+        createdAt: new Date().toISOString(),
+        expiresAt: body.expiresInDays ? new Date(Date.now() + body.expiresInDays * 86400000).toISOString() : null,
+        lastUsedAt: null,
+        revokedAt: null,
+      };
+      this.db.agentTokens.push(token);
+      return { ...token, secret };
+    }, 'agent_token'),
+    this.route('DELETE', '/agents/:agentId/tokens/:id', ({ params }) => {
+      const token = this.db.agentTokens.find(t => t.id === params.id && t.memberId === params.agentId);
+      if (!token) throw new ApiError('not_found');
+      token.revokedAt = new Date().toISOString();
+      return null;
+    }, 'agent_token'),
+
+    this.route('GET', '/invitations', ({ query }) => {
+      const status = query.get('status');
+      const data = this.db.invitations
+        .map(i => this.invitation(i))
+        .filter(i => !status || i.status === status)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+      return { data };
+    }),
+    this.route('POST', '/invitations', ({ body }) => {
+      const email = String(body.email || '').trim().toLowerCase();
+      const fieldErrors: Record<string, string> = {};
+      if (!EMAIL_PATTERN.test(email)) fieldErrors.email = 'Enter a valid email address';
+      else if (this.policyErrors({ email }).email) fieldErrors.email = this.policyErrors({ email }).email;
+      if (!this.db.orgs.some(o => o.id === body.org_id)) fieldErrors.orgId = 'Choose an organization unit';
+      if (body.role_id != null && !this.db.roles.some(r => r.id === body.role_id)) fieldErrors.roleId = 'Choose an existing role';
+      if (Object.keys(fieldErrors).length) throw new ApiError('validation', undefined, fieldErrors);
+      if (this.db.members.some(m => !m.deletedAt && m.email.toLowerCase() === email)) {
+        throw new ApiError('conflict', undefined, { email: 'This email already belongs to a member or an open invitation' });
+      }
+
+      // The invitee holds a pending member record, so the email and suggested username stay reserved
+      const now = new Date().toISOString();
+      const member: Member = {
+        id: this.nextId('members'), username: this.suggestUsername(email), fullName: body.full_name?.trim() || null, nickname: null,
+        email, phone: null, status: 'pending', isVirtual: false, createdAt: now, updatedAt: now,
+      };
+      this.db.members.push(member);
+      const invitation = {
+        id: this.nextId('invitations'), email, member_id: member.id, org_id: body.org_id, role_id: body.role_id ?? null,
+        status: 'pending' as const, invited_by: this.actor, created_at: now, expires_at: daysFromNow(INVITATION_TTL_DAYS),
+        accepted_at: null, token: randomSecret('inv_'),
+      };
+      this.db.invitations.push(invitation);
+      return { ...this.invitation(invitation), token: invitation.token };
+    }, 'invitation'),
+    // A new token replaces the old one, so a resent invitation also invalidates the earlier link
+    this.route('POST', '/invitations/:id/resend', ({ params }) => {
+      const invitation = this.find(this.db.invitations, params.id);
+      if (invitation.status !== 'pending') throw new ApiError('conflict', `This invitation was already ${invitation.status}.`);
+      Object.assign(invitation, { token: randomSecret('inv_'), expires_at: daysFromNow(INVITATION_TTL_DAYS) });
+      return { ...this.invitation(invitation), token: invitation.token };
+    }, 'invitation'),
+    this.route('POST', '/invitations/:id/revoke', ({ params }) => {
+      const invitation = this.find(this.db.invitations, params.id);
+      if (invitation.status !== 'pending') throw new ApiError('conflict', `This invitation was already ${invitation.status}.`);
+      invitation.status = 'revoked';
+      const member = this.db.members.find(m => m.id === invitation.member_id && !m.deletedAt);
+      if (member) member.deletedAt = new Date().toISOString();
+      return this.invitation(invitation);
+    }, 'invitation'),
+    this.route('GET', '/invitations/lookup', ({ query }) => {
+      const invitation = this.openInvitation(query.get('token'));
+      const member = this.liveMember(invitation.member_id);
+      return {
+        email: invitation.email,
+        full_name: member.fullName || null,
+        suggested_username: member.username,
+        tenant_name: MockTenants.find(t => t.id === this.tenantId)?.name || `Tenant ${this.tenantId}`,
+        org_name: this.db.orgs.find(o => o.id === invitation.org_id)?.name || `#${invitation.org_id}`,
+        role_name: this.db.roles.find(r => r.id === invitation.role_id)?.name || null,
+        invited_by: invitation.invited_by,
+        expires_at: invitation.expires_at,
+      };
+    }),
+    this.route('POST', '/invitations/accept', ({ body }) => {
+      const invitation = this.openInvitation(body.token);
+      const member = this.liveMember(invitation.member_id);
+      const profile = {
+        username: String(body.username || '').trim(), fullName: body.full_name?.trim() || null,
+        nickname: body.nickname?.trim() || null, phone: body.phone?.trim() || null,
+      };
+      const fieldErrors: Record<string, string> = this.policyErrors({ ...profile, email: member.email });
+      if (!profile.username) fieldErrors.username = 'Choose a username';
+      else if (this.db.members.some(m => m !== member && !m.deletedAt && m.username.toLowerCase() === profile.username.toLowerCase())) {
+        fieldErrors.username = `Username "${profile.username}" already exists`;
+      }
+      if (String(body.password || '').length < MIN_PASSWORD_LENGTH) fieldErrors.password = `Use at least ${MIN_PASSWORD_LENGTH} characters`;
+      if (Object.keys(fieldErrors).length) throw new ApiError('validation', undefined, fieldErrors);
+
+      const now = new Date().toISOString();
+      Object.assign(member, profile, { status: 'active', updatedAt: now });
+      this.db.assignments.push({ id: this.nextId('assignments'), memberId: member.id, orgId: invitation.org_id, roleId: invitation.role_id, isPrimary: true });
+      Object.assign(invitation, { status: 'accepted', accepted_at: now });
+      this.recordLogin(this.tenantId, member, { method: 'invitation', success: true });
+      return this.loginResponse(this.db, member);
+    }),
+
+    this.route('GET', '/access-requests', ({ query }) => {
+      const status = query.get('status');
+      const data = this.db.accessRequests
+        .filter(r => !status || r.status === status)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+      return { data };
+    }),
+    this.route('POST', '/access-requests', ({ body }) => {
+      const email = String(body.email || '').trim().toLowerCase();
+      const fieldErrors: Record<string, string> = {};
+      if (!EMAIL_PATTERN.test(email)) fieldErrors.email = 'Enter a valid email address';
+      if (!body.full_name?.trim()) fieldErrors.fullName = 'Tell us your name';
+      if (Object.keys(fieldErrors).length) throw new ApiError('validation', undefined, fieldErrors);
+      if (this.db.accessRequests.some(r => r.email === email && r.status === 'pending') || this.db.members.some(m => !m.deletedAt && m.email.toLowerCase() === email)) {
+        throw new ApiError('conflict', undefined, { email: 'This email already has an account or an open request' });
+      }
+      const request: Wire.AccessRequest = {
+        id: this.nextId('accessRequests'), email, full_name: body.full_name.trim(), message: body.message?.trim() || null,
+        status: 'pending', created_at: new Date().toISOString(),
+      };
+      this.db.accessRequests.push(request);
+      return request;
+    }),
+    this.route('PATCH', '/access-requests/:id', ({ params, body }) => {
+      const request = this.find(this.db.accessRequests, params.id);
+      if (request.status !== 'pending') throw new ApiError('conflict', `This request was already ${request.status}.`);
+      request.status = body.status;
+      return request;
+    }),
 
+    this.route('GET', '/audit-events', ({ query }) => {
+      const from = query.get('from'), to = query.get('to');
+      const events = this.db.auditEvents
+        .filter(e => e.tenantId === this.tenantId)
+        .filter(e => !query.get('actor') || e.actor.toLowerCase().includes(query.get('actor')!.toLowerCase()))
+        .filter(e => !query.get('entityType') || e.entityType === query.get('entityType'))
+        .filter(e => !query.get('entityId') || e.entityId === Number(query.get('entityId')))
+        .filter(e => !query.get('action') || e.action === query.get('action'))
+        .filter(e => !from || e.timestamp >= from)
+        .filter(e => !to || e.timestamp <= to)
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+      return this.paginate(events, query);
+    }),
+  ];
+
+  async handle(endpoint: string, options: RequestInit, session: { tenantId: number, actor: string }): Promise<TransportResponse> {
+    await new Promise(resolve => setTimeout(resolve, this.settings.latencyMs));
+    const method = (options.method || 'GET') as HttpMethod;
+    const [path, search = ''] = endpoint.split('?');
+    const match = this.match(method, path);
+    if (!match) return { status: 404, body: { message: `No mock route for ${method} ${path}` } };
+
+    const scenario = MOCK_SCENARIOS.find(s =>
+      this.settings.scenarios.includes(s.id) && (!s.method || s.method === method) && (!s.path || s.path === match.route.path));
+    if (scenario?.status === 'network') throw new ApiError('network');
+    if (scenario) return { status: scenario.status, body: { message: `Mock scenario: ${scenario.id}` } };
+
+    this.tenantId = session.tenantId;
+    this.actor = session.actor;
     try {
-      const res = await fetch(`${API_BASE_URL}${endpoint}`, { ...options, headers });
-      if (!res.ok) throw new Error(`API Error: ${res.statusText}`);
-      if (res.status === 204) return null;
-      return res.json();
+      const body = options.body ? JSON.parse(options.body as string) : undefined;
+      const result = await this.dispatch(match.route, { params: match.params, query: new URLSearchParams(search), body });
+      return result == null ? { status: 204, body: null } : { status: 200, body: result };
     } catch (err) {
-      console.error(err);
-      throw err;
+      const error = toApiError(err);
+      const errors = Object.entries(error.fieldErrors).map(([field, message]) => ({ field: toSnakeCase(field), message }));
+      return { status: error.status || MOCK_ERROR_STATUS[error.kind] || 500, body: { message: error.message, errors } };
+    } finally {
+      if (method !== 'GET') this.save();
+    }
+  }
+
+  getSettings(): MockSettings {
+    return this.settings;
+  }
+
+  updateSettings(patch: Partial<MockSettings>) {
+    this.settings = { ...this.settings, ...patch };
+    localStorage.setItem(MOCK_SETTINGS_KEY, JSON.stringify(this.settings));
+    return this.settings;
+  }
+
+  // The stand-in IdP's authorize step, run once the user has picked an account on MockIdpPage
+  authorize(request: { clientId: string, redirectUri: string, codeChallenge: string, codeChallengeMethod: string }, claims: Record<string, string>) {
+    const known = Object.values(this.state.tenants).some(db => db.identityProviders.some(p => p.client_id === request.clientId));
+    if (!known) throw new ApiError('validation', `Unknown client_id "${request.clientId}".`);
+    if (request.codeChallengeMethod !== 'S256' || !request.codeChallenge) throw new ApiError('validation', 'A PKCE code challenge using S256 is required.');
+    const code = randomSecret('idp_');
+    this.state.idpGrants[code] = { ...request, claims, expiresAt: Date.now() + MOCK_IDP_CODE_TTL_MS };
+    this.save();
+    return code;
+  }
+
+  // Plays the member's phone in mock mode: the code their authenticator app would show for a pending sign-in
+  async mfaCodeFor(mfaToken: string) {
+    const challenge = this.mfaChallenges.get(mfaToken);
+    const record = challenge && this.state.tenants[challenge.tenantId]?.mfa[challenge.username];
+    const secret = record?.secret || record?.pendingSecret;
+    return secret ? totpCode(secret) : '';
+  }
+
+  // Discards every tenant's changes and starts over from the seed data
+  reset() {
+    localStorage.removeItem(MOCK_STATE_KEY);
+    this.state = this.seed();
+  }
+
+  private route(method: HttpMethod, path: string, handle: MockRoute['handle'], audit?: AuditEntityType): MockRoute {
+    return { method, path, pattern: compileRoutePath(path), handle, audit };
+  }
+
+  private match(method: HttpMethod, path: string) {
+    for (const route of this.routes) {
+      const params = route.method === method ? matchRoutePath(route.pattern, path) : null;
+      if (params) return { route, params };
     }
+    return null;
   }
 
-  private mockHandler(endpoint: string, options: RequestInit) {
-    const method = options.method || 'GET';
-    
-    if (endpoint === '/auth/login' && method === 'POST') {
-      return { access_token: 'mock-jwt-token', username: 'admin', full_name: 'Mock Admin' };
+  // The tenant's rules for new members, as field errors keyed like the request body
+  private policyErrors(member: Partial<MemberDraft>) {
+    const settings = this.db.settings;
+    const errors: Record<string, string> = {};
+    settings.required_member_fields.forEach(field => {
+      if (!String(member[field] ?? '').trim()) errors[field] = 'Required by the member policy';
+    });
+    if (settings.username_pattern && !new RegExp(`^(?:${settings.username_pattern})$`).test(member.username || '')) {
+      errors.username = `Username must match ${settings.username_pattern}`;
     }
-    if (endpoint.startsWith('/members')) {
-      if (method === 'POST') {
-        const body = JSON.parse(options.body as string);
-        const newMember = { ...body, id: Math.floor(Math.random() * 1000), createdAt: new Date().toISOString(), updatedAt: new Date().toISOString() };
-        MockData.members.push(newMember);
-        return newMember;
-      }
-      if (method === 'GET') return { data: MockData.members, meta: { page: 1, page_size: 20, total: MockData.members.length, total_pages: 1 } };
+    const domain = (member.email || '').split('@')[1]?.toLowerCase();
+    if (settings.email_domains.length && member.email && !settings.email_domains.includes(domain)) {
+      errors.email = `Email must be on ${settings.email_domains.map(d => `@${d}`).join(' or ')}`;
+    }
+    if (member.isVirtual && !settings.allowed_agent_types.includes(member.agentType as AgentType)) {
+      errors.agentType = settings.allowed_agent_types.length
+        ? `Agent type must be one of ${settings.allowed_agent_types.join(', ')}`
+        : 'This tenant does not allow new agents';
     }
-    if (endpoint.startsWith('/roles')) return { data: MockData.roles, meta: { page: 1, page_size: 20, total: MockData.roles.length, total_pages: 1 } };
-    if (endpoint.startsWith('/orgs')) return { data: MockData.orgs, meta: { page: 1, page_size: 20, total: MockData.orgs.length, total_pages: 1 } };
-    
-    return {};
+    return errors;
   }
 
-  // Methods matching OpenAPI
-  async login(creds: any) { return this.request('/auth/login', { method: 'POST', body: JSON.stringify(creds) }); }
-  async getMembers(params?: any) { 
-    const query = new URLSearchParams(params).toString();
-    return this.request(`/members?${query}`); 
+  // Runs a route without latency or scenarios, e.g. one row of a batch import
+  private invoke(method: HttpMethod, path: string, body: any) {
+    const match = this.match(method, path)!;
+    return this.dispatch(match.route, { params: match.params, query: new URLSearchParams(), body });
   }
-  async createMember(data: any) { return this.request('/members', { method: 'POST', body: JSON.stringify(data) }); }
-  async getRoles() { return this.request('/roles'); }
-  async getOrgs() { return this.request('/orgs'); }
-}
 
-const api = new ApiService();
+  private dispatch(route: MockRoute, req: MockRequest) {
+    if (!route.audit || route.method === 'GET') return route.handle(req);
 
-// --- Context ---
+    const targetId = req.params.id;
+    const before = targetId !== undefined ? this.snapshot(route.audit, targetId) : null;
+    const result = route.handle(req);
+    const entityId: number | undefined = targetId ?? result?.id;
+    const action: AuditAction = route.method === 'POST' && targetId === undefined ? 'create' : route.method === 'DELETE' ? 'delete' : 'update';
+    const after = action === 'delete' || entityId === undefined ? null : this.snapshot(route.audit, entityId);
 
-const AuthContext = createContext<{ user: any, login: (c:any)=>Promise<void>, logout: ()=>void, isMock: boolean, setMock: (v:boolean)=>void } | null>(null);
+    if (entityId !== undefined && diffFields(before, after).length > 0) {
+      this.db.auditEvents.push({
+        id: this.nextId('auditEvents'),
+        tenantId: this.tenantId,
+        actor: this.actor,
+        action,
+        entityType: route.audit,
+        entityId,
+        before,
+        after,
+        timestamp: new Date().toISOString(),
+      });
+    }
+    return result;
+  }
 
-const AuthProvider = ({ children }: { children?: React.ReactNode }) => {
-  const [user, setUser] = useState<any>(null);
-  const [isMock, setMockState] = useState(api.useMock);
+  private get db(): MockTenantData {
+    return this.state.tenants[this.tenantId] ||= emptyTenantData();
+  }
 
-  useEffect(() => {
-    api.useMock = isMock;
-  }, [isMock]);
+  private nextId(table: MockTable, tenantId = this.tenantId) {
+    const key = `${tenantId}:${table}`;
+    return this.state.sequences[key] = (this.state.sequences[key] || 0) + 1;
+  }
 
-  const login = async (creds: any) => {
-    const res = await api.login(creds);
-    api.setToken(res.access_token);
-    api.setTenantId(creds.tenantId || 1);
-    setUser({ username: res.username, fullName: res.full_name });
-  };
+  private paginate<T>(items: T[], query: URLSearchParams, defaultPageSize = 20) {
+    const page = Math.max(1, parseInt(query.get('page') || '1'));
+    const pageSize = Math.max(1, parseInt(query.get('page_size') || '') || defaultPageSize);
+    const data = items.slice((page - 1) * pageSize, page * pageSize);
+    return { data, meta: { page, page_size: pageSize, total: items.length, total_pages: Math.max(1, Math.ceil(items.length / pageSize)) } };
+  }
 
-  const logout = () => {
-    api.logout();
-    setUser(null);
-  };
+  private find<T extends { id: number }>(items: T[], id: number): T {
+    const item = items.find(i => i.id === id);
+    if (!item) throw new ApiError('not_found');
+    return item;
+  }
 
-  const setMock = (val: boolean) => {
-    setMockState(val);
-    api.useMock = val;
+  private liveMember(id: number) {
+    return this.find(this.db.members.filter(m => !m.deletedAt), id);
   }
 
-  return (
-    <AuthContext.Provider value={{ user, login, logout, isMock, setMock }}>
-      {children}
-    </AuthContext.Provider>
-  );
-};
+  private snapshot(entityType: AuditEntityType, id: number): Record<string, any> | null {
+    const find = (): any => {
+      switch (entityType) {
+        case 'member': return this.db.members.find(m => m.id === id && !m.deletedAt);
+        case 'role': return this.db.roles.find(r => r.id === id);
+        case 'org': return this.db.orgs.find(o => o.id === id);
+        case 'assignment': return this.db.assignments.find(a => a.id === id);
+        case 'agent': return this.db.members.some(m => m.id === id && m.isVirtual) ? this.agent(id) : null;
+        case 'agent_token': return this.db.agentTokens.find(t => t.id === id);
+        case 'identity_provider': return this.db.identityProviders.find(p => p.id === id);
+        case 'member_mfa': {
+          const member = this.db.members.find(m => m.id === id && !m.deletedAt);
+          return member && this.db.mfa[member.username] && this.mfaStatus(this.db, member.username);
+        }
+        case 'invitation': {
+          const invitation = this.db.invitations.find(i => i.id === id);
+          return invitation && this.invitation(invitation);
+        }
+      }
+    };
+    const entity = find();
+    return entity ? JSON.parse(JSON.stringify(entity)) : null;
+  }
 
-// --- Components ---
+  private agent(memberId: number): Agent {
+    const member = this.db.members.find(m => m.id === memberId)!;
+    const now = Date.now();
+    return {
+      ...member,
+      config: this.db.agentConfigs[memberId] || { ownerId: null, model: null, capabilities: [], scopes: [] },
+      activeTokens: this.db.agentTokens.filter(t =>
+        t.memberId === memberId && !t.revokedAt && (!t.expiresAt || Date.parse(t.expiresAt) > now)).length,
+    };
+  }
 
-const Badge = ({ type, text }: { type: 'success' | 'warning' | 'danger' | 'neutral', text: string }) => {
-  const colors = {
-    success: 'bg-emerald-100 text-emerald-700 border-emerald-200',
-    warning: 'bg-amber-100 text-amber-700 border-amber-200',
-    danger: 'bg-rose-100 text-rose-700 border-rose-200',
-    neutral: 'bg-slate-100 text-slate-600 border-slate-200',
+  // Expiry is derived when read rather than stored, so an invitation lapses without a background job
+  private invitation({ token, ...invitation }: MockTenantData['invitations'][number]): Wire.Invitation {
+    const expired = invitation.status === 'pending' && Date.parse(invitation.expires_at) <= Date.now();
+    return { ...invitation, status: expired ? 'expired' : invitation.status };
+  }
+
+  // Used, revoked and unknown links are indistinguishable to the holder
+  private openInvitation(token: string | null) {
+    const invitation = this.db.invitations.find(i => i.token === token && i.status === 'pending');
+    if (!invitation) throw new ApiError('not_found', 'This invitation link is invalid or has already been used.');
+    if (this.invitation(invitation).status === 'expired') {
+      throw new ApiError('conflict', 'This invitation has expired. Ask your administrator to send a new one.');
+    }
+    return invitation;
+  }
+
+  // The email's local part, made unique with a number suffix when taken
+  private suggestUsername(email: string) {
+    const base = email.split('@')[0].toLowerCase().replace(/[^a-z0-9._]/g, '') || 'member';
+    const taken = this.usernames();
+    let candidate = base;
+    for (let n = 2; taken.has(candidate); n++) candidate = `${base}${n}`;
+    return candidate;
+  }
+
+  // Matches the IdP identity to a member by email, creating one on first sign-in when the provider allows it
+  private ssoMember(provider: Wire.IdentityProvider, claims: Record<string, string>): Member {
+    const mapping = provider.claim_mapping;
+    const claim = (name: string | null) => (name && claims[name]?.trim()) || null;
+    const email = claim(mapping.email)?.toLowerCase();
+    if (!email) throw new ApiError('forbidden', `${provider.name} did not send the "${mapping.email}" claim.`);
+
+    const existing = this.db.members.find(m => !m.deletedAt && m.email.toLowerCase() === email);
+    if (existing) {
+      if (existing.status !== 'active') {
+        this.recordLogin(this.tenantId, existing, { method: 'sso', success: false, failure_reason: `This account is ${existing.status}.` });
+        throw new ApiError('unauthorized', `This account is ${existing.status}.`);
+      }
+      return existing;
+    }
+    if (!provider.jit_provisioning) throw new ApiError('forbidden', `No member uses ${email}, and ${provider.name} does not create members on first sign-in.`);
+
+    const draft = {
+      username: claim(mapping.username) || this.suggestUsername(email), email, fullName: claim(mapping.full_name),
+      nickname: claim(mapping.nickname), phone: claim(mapping.phone), isVirtual: false, agentType: null, status: 'active',
+    };
+    // Provisioned through the regular create route so the tenant's member policy and the audit trail apply;
+    // the new member is recorded as having created themselves
+    this.actor = draft.username;
+    let member: Member;
+    try {
+      member = this.invoke('POST', '/members', draft);
+    } catch (err) {
+      const error = toApiError(err);
+      throw new ApiError('forbidden', `Your ${provider.name} account can't be added here: ${Object.values(error.fieldErrors).join('; ') || error.message}`);
+    }
+    if (provider.default_org_id !== null) {
+      this.db.assignments.push({ id: this.nextId('assignments'), memberId: member.id, orgId: provider.default_org_id, roleId: provider.default_role_id, isPrimary: true });
+    }
+    return member;
+  }
+
+  private identityProviderInput(body: Wire.IdentityProviderInput, id?: number): Wire.IdentityProviderInput {
+    const fieldErrors: Record<string, string> = {};
+    const name = body.name?.trim();
+    if (!name) fieldErrors.name = 'Name is required';
+    else if (this.db.identityProviders.some(p => p.id !== id && p.name.toLowerCase() === name.toLowerCase())) fieldErrors.name = `A provider named "${name}" already exists`;
+    if (!body.issuer?.trim()) fieldErrors.issuer = 'Issuer is required';
+    if (!/^(https?:\/\/\S+|\/\S*)$/.test(body.authorization_endpoint || '')) fieldErrors.authorizationEndpoint = 'Enter an http(s) URL or a path on this server';
+    if (!body.client_id?.trim()) fieldErrors.clientId = body.protocol === 'saml' ? 'SP entity ID is required' : 'Client ID is required';
+    if (body.protocol === 'oidc' && !body.scopes.includes('openid')) fieldErrors.scopes = 'OIDC scopes must include openid';
+    if (!body.claim_mapping.username?.trim() || !body.claim_mapping.email?.trim()) fieldErrors.claimMapping = 'Username and email claims are required';
+    if (body.default_org_id !== null && !this.db.orgs.some(o => o.id === body.default_org_id)) fieldErrors.defaultOrgId = 'Choose an existing unit';
+    if (body.default_role_id !== null && body.default_org_id === null) fieldErrors.defaultRoleId = 'A default role needs a default unit';
+    if (Object.keys(fieldErrors).length) throw new ApiError(fieldErrors.name?.includes('exists') ? 'conflict' : 'validation', undefined, fieldErrors);
+    return { ...body, name: name!, issuer: body.issuer.trim(), client_id: body.client_id.trim() };
+  }
+
+  private loginResponse(db: MockTenantData, member: Member | undefined) {
+    return {
+      access_token: 'mock-jwt-token', refresh_token: 'mock-refresh-token', expires_in: 3600,
+      username: member?.username || 'admin', full_name: member?.fullName || 'Mock Admin', permissions: this.grants(db, member),
+    };
+  }
+
+  // Sign-in routes run before there is a session, so the tenant is passed in rather than read from this.tenantId.
+  // The browser cannot see its own address, so live events carry no IP
+  private recordLogin(tenantId: number, member: Member, event: Pick<Wire.LoginEvent, 'method' | 'success'> & Partial<Wire.LoginEvent>) {
+    this.state.tenants[tenantId].loginEvents.push({
+      id: this.nextId('loginEvents', tenantId), member_id: member.id, timestamp: new Date().toISOString(),
+      failure_reason: null, mfa: false, ip_address: null, user_agent: navigator.userAgent, ...event,
+    });
+  }
+
+  // Holding a role in any unit counts, as long as the role is active
+  private mfaRequired(db: MockTenantData, member: Member | undefined) {
+    const codes = new Set(db.settings.mfa_required_roles);
+    return !!member && db.assignments.some(a =>
+      a.memberId === member.id && db.roles.some(r => r.id === a.roleId && r.active && codes.has(r.code)));
+  }
+
+  private mfaStatus(db: MockTenantData, username: string): Wire.MfaStatus {
+    const record = db.mfa[username];
+    return {
+      enabled: !!record?.secret,
+      enrolled_at: record?.enrolledAt || null,
+      recovery_codes_remaining: record?.secret ? record.recoveryCodes.length : 0,
+      required: this.mfaRequired(db, db.members.find(m => m.username === username && !m.deletedAt)),
+    };
+  }
+
+  private enrolledMfa(db: MockTenantData, username: string) {
+    const record = db.mfa[username];
+    if (!record?.secret) throw new ApiError('validation', 'Two-factor authentication is not on for this account.');
+    return record;
+  }
+
+  private startMfaEnrollment(db: MockTenantData, username: string, tenantId: number): Wire.MfaEnrollment {
+    const secret = base32(crypto.getRandomValues(new Uint8Array(20)));
+    db.mfa[username] = { ...(db.mfa[username] || { secret: null, enrolledAt: null, recoveryCodes: [] }), pendingSecret: secret };
+    const issuer = MockTenants.find(t => t.id === tenantId)?.name || `Tenant ${tenantId}`;
+    const label = encodeURIComponent(`${issuer}:${username}`);
+    return { secret, otpauth_uri: `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(issuer)}&digits=${TOTP_DIGITS}&period=${TOTP_STEP_MS / 1000}` };
+  }
+
+  private enableMfa(record: MockMfaRecord) {
+    Object.assign(record, { secret: record.pendingSecret, pendingSecret: null, enrolledAt: new Date().toISOString(), recoveryCodes: newRecoveryCodes() });
+    return record.recoveryCodes;
+  }
+
+  private spendRecoveryCode(record: MockMfaRecord, code: string) {
+    const index = record.recoveryCodes.indexOf(code.trim().toLowerCase());
+    if (index >= 0) record.recoveryCodes.splice(index, 1);
+    return index >= 0;
+  }
+
+  private usernames() {
+    return new Set(this.db.members.filter(m => !m.deletedAt).map(m => m.username.toLowerCase()));
+  }
+
+  private setPrimary(assignment: Assignment) {
+    this.db.assignments
+      .filter(a => a.memberId === assignment.memberId)
+      .forEach(a => { a.isPrimary = a === assignment; });
+  }
+
+  // A role held in a unit applies to that unit and everything below it; held at a top-level unit it is tenant-wide
+  private grants(db: MockTenantData, member: Member | undefined) {
+    if (!member) return ALL_PERMISSIONS.map(permission => ({ permission, org_ids: null }));
+    const scopes = new Map<string, Set<number> | null>();
+    db.assignments.filter(a => a.memberId === member.id).forEach(a => {
+      const role = db.roles.find(r => r.id === a.roleId && r.active);
+      const org = db.orgs.find(o => o.id === a.orgId);
+      if (!role || !org) return;
+      const orgIds = org.parentId === null ? null : db.orgs.filter(o => isInSubtree(db.orgs, org.id, o.id)).map(o => o.id);
+      role.permissions.forEach(permission => {
+        const current = scopes.get(permission);
+        if (current === null) return;
+        scopes.set(permission, orgIds && new Set([...(current || []), ...orgIds]));
+      });
+    });
+    return Array.from(scopes, ([permission, orgIds]) => ({ permission, org_ids: orgIds && [...orgIds] }));
+  }
+
+  private withMemberCount(org: Omit<OrgUnit, 'memberCount'>): OrgUnit {
+    const live = new Set(this.db.members.filter(m => !m.deletedAt).map(m => m.id));
+    const memberIds = new Set(this.db.assignments.filter(a => a.orgId === org.id && live.has(a.memberId)).map(a => a.memberId));
+    return { ...org, memberCount: memberIds.size };
+  }
+
+  // Monthly sign-ups from the first member's month through the current one, gaps included
+  private growth(members: Member[]) {
+    const months = members.map(m => m.createdAt.slice(0, 7)).sort();
+    const points: { month: string, added: number, total: number }[] = [];
+    if (!months.length) return points;
+    const end = new Date().toISOString().slice(0, 7);
+    let total = 0;
+    for (const d = new Date(`${months[0]}-01T00:00:00Z`); d.toISOString().slice(0, 7) <= end; d.setUTCMonth(d.getUTCMonth() + 1)) {
+      const month = d.toISOString().slice(0, 7);
+      const added = months.filter(m => m === month).length;
+      total += added;
+      points.push({ month, added, total });
+    }
+    return points;
+  }
+
+  private seed(): MockState {
+    const tenants: Record<number, MockTenantData> = JSON.parse(JSON.stringify(MockData));
+    const sequences: Record<string, number> = {};
+    Object.entries(tenants).forEach(([tenantId, db]) => MOCK_ID_TABLES.forEach(table => {
+      sequences[`${tenantId}:${table}`] = Math.max(0, ...(db[table] as { id: number }[]).map(r => r.id));
+    }));
+    return { version: MOCK_STATE_VERSION, tenants, sequences, idpGrants: {} };
+  }
+
+  private load(): MockState {
+    try {
+      const saved = JSON.parse(localStorage.getItem(MOCK_STATE_KEY) || 'null');
+      if (saved?.version === MOCK_STATE_VERSION) return saved;
+    } catch {
+      // Unreadable state is replaced by a fresh seed below
+    }
+    return this.seed();
+  }
+
+  private save() {
+    localStorage.setItem(MOCK_STATE_KEY, JSON.stringify(this.state));
+  }
+
+  private loadSettings(): MockSettings {
+    try {
+      return { ...DEFAULT_MOCK_SETTINGS, ...JSON.parse(localStorage.getItem(MOCK_SETTINGS_KEY) || '{}') };
+    } catch {
+      return DEFAULT_MOCK_SETTINGS;
+    }
+  }
+}
+
+const mockServer = new MockServer();
+
+// --- API Contract ---
+
+const toCamelCase = (key: string) => key.replace(/_([a-z0-9])/g, (_, c) => c.toUpperCase());
+
+const resolveSchema = (schema: JsonSchema): JsonSchema =>
+  schema.$ref ? SCHEMAS[schema.$ref.split('/').pop() as SchemaName] : schema;
+
+// Thrown in dev when a response doesn't match openapi.json, naming every offending field
+class ApiContractError extends ApiError {
+  constructor(public operationId: OperationId, public issues: string[]) {
+    super('server', `API contract violation in ${operationId}: ${issues.slice(0, 3).join('; ')}${issues.length > 3 ? ` (and ${issues.length - 3} more)` : ''}`);
+    this.name = 'ApiContractError';
+  }
+}
+
+const contractIssues = (schema: JsonSchema, value: any, path = '$'): string[] => {
+  // A nullable $ref carries the flag on the reference, not on the schema it points to
+  if (value === null && schema.nullable) return [];
+  schema = resolveSchema(schema);
+  const got = ` (got ${JSON.stringify(value)?.substring(0, 40)})`;
+  if (value === null) return schema.nullable ? [] : [`${path} must not be null`];
+  if (schema.allOf) return schema.allOf.flatMap(s => contractIssues(s, value, path));
+  if (schema.enum && !schema.enum.includes(value)) return [`${path} must be one of ${schema.enum.join(', ')}${got}`];
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) return [`${path} must be an object${got}`];
+      const missing = (schema.required || []).filter(key => value[key] === undefined).map(key => `${path}.${key} is required`);
+      const invalid = Object.entries(schema.properties || {})
+        .filter(([key]) => value[key] !== undefined)
+        .flatMap(([key, s]) => contractIssues(s, value[key], `${path}.${key}`));
+      return [...missing, ...invalid];
+    }
+    case 'array':
+      if (!Array.isArray(value)) return [`${path} must be an array${got}`];
+      return value.flatMap((item, i) => contractIssues(schema.items!, item, `${path}[${i}]`));
+    case 'integer':
+      return Number.isInteger(value) ? [] : [`${path} must be an integer${got}`];
+    case 'number':
+      return typeof value === 'number' ? [] : [`${path} must be a number${got}`];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be a boolean${got}`];
+    case 'string':
+      if (typeof value !== 'string') return [`${path} must be a string${got}`];
+      return schema.format === 'date-time' && isNaN(Date.parse(value)) ? [`${path} must be a date-time${got}`] : [];
+  }
+  return [];
+};
+
+// Responses are normalized to camelCase here and nowhere else, including free-form audit snapshots
+const camelizeKeys = (value: any): any => {
+  if (Array.isArray(value)) return value.map(camelizeKeys);
+  if (!value || typeof value !== 'object') return value;
+  return Object.fromEntries(Object.entries(value).map(([key, v]) => [toCamelCase(key), camelizeKeys(v)]));
+};
+
+// Request bodies are written in camelCase; the schema says which properties use another name on the wire
+const toWire = (schema: JsonSchema, value: any): any => {
+  schema = resolveSchema(schema);
+  if (!value || typeof value !== 'object') return value;
+  if (Array.isArray(value)) return schema.items ? value.map(item => toWire(schema.items!, item)) : value;
+  const properties: Record<string, JsonSchema> = Object.assign({}, schema.properties, ...(schema.allOf || []).map(s => resolveSchema(s).properties));
+  const wireNames = new Map(Object.keys(properties).map(key => [toCamelCase(key), key]));
+  return Object.fromEntries(Object.entries(value).map(([key, v]) => {
+    const wireKey = wireNames.get(key) ?? key;
+    return [wireKey, properties[wireKey] ? toWire(properties[wireKey], v) : v];
+  }));
+};
+
+class ApiService extends GeneratedApiClient {
+  private token: string | null = localStorage.getItem('auth_token');
+  private refreshToken: string | null = localStorage.getItem('refresh_token');
+  private refreshing: Promise<void> | null = null;
+  private sessionExpiredListeners = new Set<() => void>();
+  private tenantId: number = parseInt(localStorage.getItem('tenant_id') || '1');
+  private actor: string = localStorage.getItem('auth_username') || 'admin';
+  private profiles: ConnectionProfile[] = this.loadProfiles();
+  private profileId: string = localStorage.getItem('connection_profile') || this.profiles[0].id;
+  public useMock: boolean = true; // Default to mock for demo
+
+  setToken(token: string) {
+    this.token = token;
+    localStorage.setItem('auth_token', token);
+  }
+
+  setSession(session: AuthSession) {
+    this.setToken(session.accessToken);
+    if (session.refreshToken) {
+      this.refreshToken = session.refreshToken;
+      localStorage.setItem('refresh_token', session.refreshToken);
+    }
+  }
+
+  hasSession() {
+    return !!this.token;
+  }
+
+  onSessionExpired(listener: () => void) {
+    this.sessionExpiredListeners.add(listener);
+    return () => { this.sessionExpiredListeners.delete(listener); };
+  }
+
+  setTenantId(id: number) {
+    this.tenantId = id;
+    localStorage.setItem('tenant_id', id.toString());
+  }
+
+  getTenantId() {
+    return this.tenantId;
+  }
+
+  // Invitation links name their own tenant; calls made through this go there without switching the signed-in one
+  forTenant(id: number): GeneratedApiClient {
+    const client = this;
+    return new class extends GeneratedApiClient {
+      protected call(operationId: OperationId, args?: CallArgs) {
+        return client.call(operationId, args, false, id);
+      }
+    }();
+  }
+
+  setActor(username: string) {
+    this.actor = username;
+    localStorage.setItem('auth_username', username);
+  }
+
+  private loadProfiles(): ConnectionProfile[] {
+    try {
+      const saved = JSON.parse(localStorage.getItem('connection_profiles') || 'null');
+      if (Array.isArray(saved) && saved.length > 0) return saved;
+    } catch {
+      // Unreadable profiles are replaced by the defaults below
+    }
+    return DEFAULT_CONNECTION_PROFILES;
+  }
+
+  getProfiles() {
+    return this.profiles;
+  }
+
+  getActiveProfile() {
+    return this.profiles.find(p => p.id === this.profileId) || this.profiles[0];
+  }
+
+  saveProfiles(profiles: ConnectionProfile[]) {
+    this.profiles = profiles;
+    localStorage.setItem('connection_profiles', JSON.stringify(profiles));
+  }
+
+  setActiveProfile(id: string) {
+    this.profileId = id;
+    localStorage.setItem('connection_profile', id);
+  }
+
+  // Pings a server directly, even in mock mode, so a profile is known to answer before requests go to it
+  async checkHealth(baseUrl: string): Promise<Health & { latencyMs: number }> {
+    const started = performance.now();
+    const { status, body } = await this.send('/health', { method: 'GET', signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS) }, baseUrl);
+    if (status >= 400) throw apiErrorFromBody(status, body);
+    const issues = contractIssues(SCHEMAS.Health, body);
+    if (issues.length) throw new ApiContractError('getHealth', issues);
+    return { ...body, latencyMs: Math.round(performance.now() - started) };
+  }
+
+  logout() {
+    this.token = null;
+    this.refreshToken = null;
+    localStorage.removeItem('auth_token');
+    localStorage.removeItem('refresh_token');
+    localStorage.removeItem('auth_username');
+  }
+
+  // Concurrent callers share one in-flight refresh; failure ends the session
+  refreshSession(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = (async () => {
+        try {
+          if (!this.refreshToken) throw new ApiError('unauthorized');
+          const session = await this.call('exchangeRefreshToken', { body: { refreshToken: this.refreshToken } }, true);
+          this.setSession(session);
+        } catch (err) {
+          this.logout();
+          this.sessionExpiredListeners.forEach(listener => listener());
+          throw err;
+        } finally {
+          this.refreshing = null;
+        }
+      })();
+    }
+    return this.refreshing;
+  }
+
+  isAuthenticated() {
+    return !!this.token || this.useMock; // Mock mode always authenticated for demo
+  }
+
+  private async request(endpoint: string, options: RequestInit = {}, isRetry = false, tenantId = this.tenantId): Promise<any> {
+    const isAuthCall = AUTH_ENDPOINTS.includes(endpoint);
+    const expiry = this.token ? jwtExpiry(this.token) : null;
+    if (!isAuthCall && this.refreshToken && expiry !== null && expiry - Date.now() < TOKEN_REFRESH_MARGIN_MS) {
+      await this.refreshSession();
+    }
+
+    const { status, body } = this.useMock
+      ? await mockServer.handle(endpoint, options, { tenantId, actor: this.actor })
+      : await this.send(endpoint, options, undefined, tenantId);
+    if (status === 401 && !isAuthCall && !isRetry) {
+      await this.refreshSession();
+      return this.request(endpoint, options, true, tenantId);
+    }
+    if (status >= 400) throw apiErrorFromBody(status, body);
+    return body;
+  }
+
+  private async send(endpoint: string, options: RequestInit, baseUrl = this.getActiveProfile().baseUrl, tenantId = this.tenantId): Promise<TransportResponse> {
+    const headers = {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${this.token}`,
+      'X-Tenant-ID': tenantId.toString(),
+      ...options.headers,
+    };
+
+    let res: Response;
+    try {
+      res = await fetch(`${baseUrl}${endpoint}`, { ...options, headers });
+    } catch {
+      throw new ApiError('network');
+    }
+    if (res.status === 204) return { status: 204, body: null };
+    // Error bodies are best-effort; a success body that isn't JSON is a real failure
+    return { status: res.status, body: res.ok ? await res.json() : await res.json().catch(() => null) };
+  }
+
+  // Every generated method lands here: camelCase in, wire format over the transport, camelCase out
+  protected async call(operationId: OperationId, args: CallArgs = {}, isRetry = false, tenantId = this.tenantId) {
+    const op = OPERATIONS[operationId];
+    const path = op.path.replace(/\{(\w+)\}/g, (_, name) => encodeURIComponent(String(args.path?.[name])));
+    const query = toQueryString(Object.fromEntries(Object.entries(args.query || {}).map(([k, v]) => [op.query[k] || k, v])));
+    const options: RequestInit = { method: op.method };
+    if (op.body) options.body = JSON.stringify(toWire(SCHEMAS[op.body], args.body));
+
+    const res = await this.request(query ? `${path}?${query}` : path, options, isRetry, tenantId);
+    if (op.response && import.meta.env.DEV) {
+      const issues = contractIssues(SCHEMAS[op.response], res);
+      if (issues.length) {
+        const err = new ApiContractError(operationId, issues);
+        console.error(err, res);
+        throw err;
+      }
+    }
+    return camelizeKeys(res);
+  }
+}
+
+const api = new ApiService();
+
+// --- Localization ---
+
+type Locale = 'en' | 'zh-CN';
+
+const LOCALES: { value: Locale, label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'zh-CN', label: '简体中文' },
+];
+
+// English is the source catalog: every key exists here, and other locales fall back to it.
+// Messages take {name} placeholders and ICU-style plurals, e.g. {count, plural, one {# member} other {# members}}
+const MESSAGES_EN = {
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.loading': 'Loading...',
+  'common.any': 'Any',
+  'common.yes': 'Yes',
+  'common.no': 'No',
+  'common.clearAll': 'Clear all',
+  'common.dismiss': 'Dismiss',
+  'common.export': 'Export',
+  'common.exporting': 'Exporting...',
+  'common.rowsPerPage': 'Rows per page',
+  'common.pageOf': 'Page {page} of {total}',
+  'common.showingRange': 'Showing {from}–{to} of {total} results',
+  'common.showingCount': 'Showing {count} results',
+  'common.active': 'Active',
+  'common.inactive': 'Inactive',
+  'common.confirm': 'Confirm',
+  'common.saving': 'Saving...',
+  'common.delete': 'Delete',
+  'common.deleting': 'Deleting...',
+  'common.back': 'Back',
+  'common.add': 'Add',
+  'common.none': 'None',
+  'common.notAvailable': 'N/A',
+  'common.retry': 'Try again',
+  'common.saveChanges': 'Save Changes',
+  'common.changesSaved': 'Changes saved',
+  'common.name': 'Name',
+  'common.description': 'Description',
+  'common.type': 'Type',
+  'common.reason': 'Reason',
+  'common.role': 'Role',
+  'common.noRole': 'No role',
+  'common.primary': 'Primary',
+  'common.orgUnit': 'Organization Unit',
+  'common.selectUnit': 'Select a unit...',
+  'common.finished': 'Finished',
+  'common.working': 'Working...',
+
+  'error.network': 'Connection problem',
+  'error.validation': 'Invalid request',
+  'error.unauthorized': 'Session expired',
+  'error.forbidden': 'Access denied',
+  'error.not_found': 'Not found',
+  'error.conflict': 'Conflict',
+  'error.server': 'Something went wrong',
+  'statusPage.403.title': 'Access denied',
+  'statusPage.403.message': "You don't have permission to view this page.",
+  'statusPage.404.title': 'Page not found',
+  'statusPage.404.message': "The page or record you're looking for doesn't exist or has been removed.",
+  'statusPage.back': 'Back to dashboard',
+
+  'nav.dashboard': 'Dashboard',
+  'nav.members': 'Members',
+  'nav.invitations': 'Invitations',
+  'nav.roles': 'Roles & Perms',
+  'nav.orgs': 'Organizations',
+  'nav.system': 'System',
+  'nav.agents': 'AI Agents',
+  'nav.localization': 'Localization',
+  'nav.audit': 'Audit Logs',
+  'nav.settings': 'Settings',
+  'nav.profile': 'My profile',
+  'nav.signOut': 'Sign Out',
+  'nav.mockMode': 'Mock API Mode',
+  'nav.mockModeShort': 'Mock',
+  'nav.language': 'Language',
+  'nav.tenant': 'Tenant',
+
+  'mockServer.title': 'Mock Server',
+  'mockServer.latency': 'Response latency',
+  'mockServer.latencyMs': '{ms} ms',
+  'mockServer.scenarios': 'Failure scenarios',
+  'mockServer.scenariosHint': 'Matching requests fail with the given status until the scenario is switched off.',
+  'mockServer.scenario.roles-500': 'Roles endpoint returns 500',
+  'mockServer.scenario.members-503': 'Members list is unavailable (503)',
+  'mockServer.scenario.orgs-500': 'Org tree returns 500',
+  'mockServer.scenario.audit-500': 'Audit log returns 500',
+  'mockServer.scenario.member-update-403': 'Member edits are forbidden (403)',
+  'mockServer.scenario.member-create-409': 'Member creation conflicts (409)',
+  'mockServer.scenario.offline': 'Network is offline',
+  'mockServer.data': 'Data',
+  'mockServer.dataHint': 'Changes made in mock mode survive reloads. Resetting restores the seed data for every tenant.',
+  'mockServer.resetAll': 'Reset all data',
+  'mockServer.reset': 'Reset mock data',
+  'mockServer.resetDone': 'Mock data was reset for all tenants.',
+
+  'dashboard.title': 'Dashboard',
+  'dashboard.refresh': 'Refresh',
+  'dashboard.refreshFailed': "Couldn't refresh: {message}",
+  'dashboard.updated': 'Updated {time}',
+  'dashboard.loading': 'Loading dashboard...',
+  'dashboard.viewAll': 'View all',
+  'dashboard.totalMembers': 'Total Members',
+  'dashboard.activeMembers': 'Active Members',
+  'dashboard.activeAgents': 'Active Agents',
+  'dashboard.orgUnits': 'Org Units',
+  'dashboard.pendingRequests': 'Pending Requests',
+  'dashboard.byStatus': 'Members by Status',
+  'dashboard.byType': 'Humans & Agents',
+  'dashboard.humans': 'Humans',
+  'dashboard.agentsOfType': '{type} agents',
+  'dashboard.growth': 'Member Growth',
+  'dashboard.newestMembers': 'Newest members',
+  'dashboard.growthPoint': '{month}: +{added} ({total} total)',
+  'dashboard.noMembers': 'No members yet.',
+  'dashboard.perUnit': 'Members per Unit',
+  'dashboard.noUnits': 'No org units yet.',
+  'dashboard.recentChanges': 'Recent Changes',
+  'dashboard.noChanges': 'No changes recorded yet.',
+  'dashboard.by': 'by @{actor}',
+
+  'memberStatus.active': 'Active',
+  'memberStatus.inactive': 'Inactive',
+  'memberStatus.suspended': 'Suspended',
+  'memberStatus.pending': 'Pending',
+  'statusAction.active': 'Reactivate',
+  'statusAction.inactive': 'Deactivate',
+  'statusAction.suspended': 'Suspend',
+  'orgType.company': 'Company',
+  'orgType.dept': 'Department',
+  'orgType.team': 'Team',
+  'agentType.llm': 'LLM Model',
+  'agentType.workflow': 'Workflow Automation',
+  'agentType.bot': 'Simple Bot',
+  'permission.resource.members': 'Members',
+  'permission.resource.roles': 'Roles',
+  'permission.resource.orgs': 'Organizations',
+  'permission.resource.agents': 'Agents',
+  'permission.action.read': 'Read',
+  'permission.action.write': 'Write',
+  'permission.action.delete': 'Delete',
+  'permission.action.assign': 'Assign',
+  'permission.required': 'Requires the {permission} permission',
+
+  'login.title': 'Welcome Back',
+  'login.subtitle': 'Sign in to your organization',
+  'login.sessionExpired': 'Your session has expired. Sign in again to continue where you left off.',
+  'login.badCredentials': 'Incorrect username, password or tenant.',
+  'login.username': 'Username',
+  'login.usernamePlaceholder': 'Enter username',
+  'login.password': 'Password',
+  'login.tenantId': 'Tenant ID',
+  'login.signIn': 'Sign In',
+  'login.signingIn': 'Signing in...',
+  'login.restoring': 'Restoring session...',
+  'login.version': 'System Version {version}',
+  'login.requestAccess': 'New here? Request access',
+  'login.sso.or': 'or',
+  'login.sso.signInWith': 'Sign in with {name}',
+  'sso.completing': 'Completing sign-in...',
+  'sso.failed': 'Single sign-on failed',
+  'sso.cancelled': 'Sign-in was cancelled at the identity provider.',
+  'sso.stateMismatch': 'This sign-in response does not match a sign-in started in this browser tab. Start again from the sign-in page.',
+  'mockIdp.title': 'Mock Identity Provider',
+  'mockIdp.signingInTo': 'Signing in to {client}',
+  'mockIdp.withScopes': 'with scopes {scopes}',
+  'mockIdp.anotherAccount': 'Another account',
+  'mockIdp.email': 'Email',
+  'mockIdp.name': 'Name',
+  'mockIdp.username': 'Username',
+  'mfa.title': 'Two-factor authentication',
+  'mfa.description': 'After your password, sign-ins ask for a code from an authenticator app on your phone.',
+  'mfa.on': 'ON',
+  'mfa.off': 'OFF',
+  'mfa.enrolledOn': 'Set up on {date}',
+  'mfa.codesLeft': '{count, plural, one {# recovery code left} other {# recovery codes left}}',
+  'mfa.requiredNotice': 'Your organization requires two-factor authentication for your role. Set it up now, or you will be asked to at your next sign-in.',
+  'mfa.requiredCannotDisable': 'Your organization requires it for your role, so it cannot be turned off.',
+  'mfa.setUp': 'Set up authenticator',
+  'mfa.confirm': 'Turn on',
+  'mfa.regenerate': 'New recovery codes',
+  'mfa.turnOff': 'Turn off',
+  'mfa.verifying': 'Checking...',
+  'mfa.verify': 'Verify',
+  'mfa.enabled': 'Two-factor authentication is on',
+  'mfa.disabled': 'Two-factor authentication is off',
+  'mfa.scan': 'Scan this QR code with an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password, then enter the 6-digit code it shows.',
+  'mfa.manualEntry': "Can't scan it? Enter this key instead:",
+  'mfa.copy': 'Copy',
+  'mfa.download': 'Download',
+  'mfa.code': 'Authentication code',
+  'mfa.recoveryAllowed': 'Lost your phone? Enter one of your recovery codes instead.',
+  'mfa.recoveryCodesHint': 'Keep these recovery codes somewhere safe. Each one signs you in once if you lose your phone. They will not be shown again.',
+  'mfa.challengeSubtitle': 'Enter the code from your authenticator app',
+  'mfa.enrollTitle': 'Set up two-factor authentication',
+  'mfa.enrollSubtitle': 'Your organization requires a second factor for your role',
+  'mfa.startOver': 'Back to sign in',
+  'mfa.mockFill': 'Mock: fill in the current code',
+  'mfa.recoveryTitle': 'Save your recovery codes',
+  'mfa.recoverySubtitle': 'Two-factor authentication is now on',
+  'mfa.continue': "I've saved them, continue",
+  'profile.title': 'My Profile',
+  'profile.permissions': '{count} permissions in this tenant',
+  'invite.title': 'Join {tenant}',
+  'invite.summary': '{invitedBy} invited {email} to {org}.',
+  'invite.summaryRole': '{invitedBy} invited {email} to {org} as {role}.',
+  'invite.loading': 'Checking your invitation...',
+  'invite.unavailable': 'Invitation unavailable',
+  'invite.fullName': 'Full name',
+  'invite.nickname': 'Nickname',
+  'invite.phone': 'Phone',
+  'invite.passwordHint': 'At least {count} characters',
+  'invite.confirmPassword': 'Confirm password',
+  'invite.passwordMismatch': 'Passwords do not match',
+  'invite.expires': 'This invitation expires on {date}.',
+  'invite.accept': 'Accept & Sign In',
+  'invite.accepting': 'Setting up your account...',
+  'invite.backToSignIn': 'Back to sign in',
+  'requestAccess.title': 'Request access',
+  'requestAccess.subtitle': 'An administrator reviews each request and replies with an invitation.',
+  'requestAccess.email': 'Work email',
+  'requestAccess.message': 'Message (optional)',
+  'requestAccess.submit': 'Send Request',
+  'requestAccess.sending': 'Sending...',
+  'requestAccess.sent': 'Request sent. Once an administrator approves it you will receive an invitation link.',
+  'invitationStatus.pending': 'Pending',
+  'invitationStatus.accepted': 'Accepted',
+  'invitationStatus.expired': 'Expired',
+  'invitationStatus.revoked': 'Revoked',
+  'invitations.title': 'Invitations',
+  'invitations.invite': 'Invite Member',
+  'invitations.form.fullNameHint': 'Optional; the invitee can change it when accepting.',
+  'invitations.form.validity': '{count, plural, one {The link is valid for # day. Until then the member is listed as pending.} other {The link is valid for # days. Until then the member is listed as pending.}}',
+  'invitations.form.send': 'Send Invitation',
+  'invitations.form.sending': 'Sending...',
+  'invitations.sent': 'Invitation sent to {email}',
+  'invitations.resent': 'New link issued for {email}',
+  'invitations.revoked': 'Invitation for {email} revoked',
+  'invitations.declined': 'Declined the request from {email}',
+  'invitations.share': 'Share this link with {email}. It is shown only once and expires {date}.',
+  'invitations.copy': 'Copy',
+  'invitations.requests': 'Access Requests',
+  'invitations.requestedAt': 'Requested {date}',
+  'invitations.decline': 'Decline',
+  'invitations.approve': 'Approve & Invite',
+  'invitations.all': 'All',
+  'invitations.col.email': 'Email',
+  'invitations.col.unitRole': 'Unit & Role',
+  'invitations.col.status': 'Status',
+  'invitations.col.invited': 'Invited',
+  'invitations.col.expires': 'Expires',
+  'invitations.loading': 'Loading invitations...',
+  'invitations.empty': 'No invitations found.',
+  'invitations.invitedBy': '{date} by @{username}',
+  'invitations.acceptedAt': 'Accepted {date}',
+  'invitations.resend': 'Resend',
+  'invitations.revoke': 'Revoke',
+
+  'members.title': 'Members',
+  'members.import': 'Import',
+  'members.add': 'Add Member',
+  'members.searchPlaceholder': 'Search by name, email, or username...',
+  'members.allStatus': 'All Status',
+  'members.allTypes': 'All Types',
+  'members.humans': 'Humans',
+  'members.agents': 'Agents',
+  'members.more': 'More',
+  'members.moreCount': 'More ({count})',
+  'members.typeHuman': 'Human',
+  'members.typeAgent': 'Agent: {type}',
+  'members.typeUnknown': 'Unknown',
+  'members.views': 'Views:',
+  'members.noViews': 'None saved yet',
+  'members.saveView': 'Save view',
+  'members.renameView': 'Rename view',
+  'members.deleteView': 'Delete view',
+  'members.copyLink': 'Copy link',
+  'members.copyLinkHint': 'Copy a link that opens this view',
+  'members.linkCopied': 'Link to this view copied',
+  'members.viewSaved': 'View "{name}" saved',
+  'members.filter.agentType': 'Agent Type',
+  'members.filter.org': 'Org Unit',
+  'members.filter.anyOrg': 'Any unit',
+  'members.filter.role': 'Role',
+  'members.filter.anyRole': 'Any role',
+  'members.filter.hasPhone': 'Has Phone',
+  'members.filter.hasNickname': 'Has Nickname',
+  'members.filter.createdFrom': 'Created From',
+  'members.filter.createdTo': 'Created To',
+  'members.filter.updatedFrom': 'Updated From',
+  'members.filter.updatedTo': 'Updated To',
+  'members.filter.remove': 'Remove filter',
+  'members.chip.status': 'Status: {value}',
+  'members.chip.agentType': 'Agent type: {value}',
+  'members.chip.org': 'In {value}',
+  'members.chip.role': 'Role: {value}',
+  'members.chip.createdFrom': 'Created from {value}',
+  'members.chip.createdTo': 'Created until {value}',
+  'members.chip.updatedFrom': 'Updated from {value}',
+  'members.chip.updatedTo': 'Updated until {value}',
+  'members.chip.hasPhone': 'Has phone',
+  'members.chip.noPhone': 'No phone',
+  'members.chip.hasNickname': 'Has nickname',
+  'members.chip.noNickname': 'No nickname',
+  'members.col.user': 'User',
+  'members.col.type': 'Type',
+  'members.col.status': 'Status',
+  'members.col.createdAt': 'Created At',
+  'members.col.actions': 'Actions',
+  'members.loading': 'Loading members...',
+  'members.empty': 'No members found.',
+  'members.selectPage': 'Select page',
+  'members.selectRow': 'Select @{username}',
+  'members.action.view': 'View',
+  'members.action.viewEdit': 'View / Edit',
+  'members.action.delete': 'Delete',
+  'members.bulk.selected': '{count} selected',
+  'members.bulk.selectAll': 'Select all {count} matching',
+  'members.bulk.clear': 'Clear',
+  'members.bulk.changeStatus': 'Change Status',
+  'members.bulk.assign': 'Assign',
+  'members.bulk.delete': 'Delete',
+  'members.bulk.updated': '{count, plural, one {Updated # member} other {Updated # members}}',
+  'members.undo.banner': '{count, plural, one {Changed # member to {status}.} other {Changed # members to {status}.}}',
+  'members.undo.undo': 'Undo',
+  'members.undo.undoing': 'Undoing...',
+  'members.undo.reverted': '{count, plural, one {Reverted # member} other {Reverted # members}}',
+  'members.undo.failed': 'Could not revert {list}',
+  'members.create.title': 'Add New Member',
+  'members.create.username': 'Username',
+  'members.create.fullName': 'Full Name',
+  'members.create.email': 'Email',
+  'members.create.nickname': 'Nickname',
+  'members.create.phone': 'Phone',
+  'members.create.usernameHint': 'Must match {pattern}',
+  'members.create.emailHint': 'Must be on {domains}',
+  'members.create.isVirtual': 'Is Virtual Agent?',
+  'members.create.agentType': 'Agent Type',
+  'members.create.status': 'Status',
+  'members.create.submit': 'Create Member',
+  'members.create.done': '@{username} was created',
+  'members.saveView.title': 'Save View',
+  'members.saveView.name': 'Name',
+  'members.saveView.placeholder': 'e.g. Suspended bots in R&D',
+  'members.saveView.hint': 'Saves the current search, filters and sort for this tenant. A view with the same name is replaced.',
+  'members.saveView.submit': 'Save View',
+  'members.action.openProfile': 'Open profile',
+
+  'statusChange.title.active': 'Reactivate Member',
+  'statusChange.title.inactive': 'Deactivate Member',
+  'statusChange.title.suspended': 'Suspend Member',
+  'statusChange.summary': 'Change @{username} from {from} to {to}.',
+  'statusChange.reasonPlaceholder': 'Why is this status changing?',
+  'statusChange.done': '@{username} is now {status}',
+  'deleteMember.title': 'Delete Member',
+  'deleteMember.body': '@{username} will be removed from the member list. The record is kept for auditing and can be restored by an administrator.',
+  'deleteMember.done': '@{username} was deleted',
+  'memberDrawer.title': 'Member Details',
+  'memberDrawer.idLine': '@{username} • ID: {id}',
+  'memberDrawer.status': 'Status',
+  'memberDrawer.dangerZone': 'Danger Zone',
+  'memberDrawer.delete': 'Delete Member',
+  'assignments.title': 'Org Assignments',
+  'assignments.empty': 'Not assigned to any organization unit.',
+  'assignments.orgFallback': 'Org #{id}',
+  'assignments.setPrimary': 'Set primary',
+  'assignments.remove': 'Remove assignment',
+  'assignments.position': '{name} (position)',
+  'assignments.primaryOrg': 'Primary org',
+  'assignments.assign': 'Assign',
+  'assignments.effectiveRoles': 'Effective Roles',
+  'assignments.effectivePermissions': '{count, plural, one {# effective permission} other {# effective permissions}}',
+  'memberMfa.enabled': '{count, plural, one {Authenticator added {date}, # recovery code left.} other {Authenticator added {date}, # recovery codes left.}}',
+  'memberMfa.required': 'Required by the member policy; they will be asked to set it up at their next sign-in.',
+  'memberMfa.notSetUp': 'Not set up.',
+  'memberMfa.resetConfirm': "Remove @{username}'s authenticator and recovery codes? Do this only after confirming who is asking. If the member policy requires MFA for their roles, they set up a new authenticator at their next sign-in.",
+  'memberMfa.reset': 'Reset MFA',
+  'memberMfa.resetDone': 'Two-factor authentication reset for @{username}',
+  'import.title': 'Import Members',
+  'import.choose': 'Choose a CSV or JSON file',
+  'import.formatHint': 'CSV files need a header row. JSON files must contain an array of objects. Recognised columns: {columns}.',
+  'import.noRows': 'The file has no data rows',
+  'import.unreadable': 'Could not read file',
+  'import.mapIntro': '{file}: {count, plural, one {# row} other {# rows}}. Match each member field to a column.',
+  'import.notMapped': '(Not mapped)',
+  'import.missingRequired': 'Map required fields: {fields}',
+  'import.validate': 'Validate',
+  'import.validating': 'Validating...',
+  'import.rows': 'Rows',
+  'import.ready': 'Ready',
+  'import.withErrors': 'With Errors',
+  'import.col.row': 'Row',
+  'import.col.field': 'Field',
+  'import.col.problem': 'Problem',
+  'import.skippedHint': 'Rows with errors are skipped and included in the failure file.',
+  'import.submit': '{count, plural, one {Import # Member} other {Import # Members}}',
+  'import.finished': 'Import finished',
+  'import.importing': 'Importing...',
+  'import.created': '{count, plural, one {Created # member.} other {Created # members.}}',
+  'import.failed': '{count, plural, one {# row failed.} other {# rows failed.}}',
+  'import.downloadFailures': 'Download Failures',
+  'import.field.username': 'Username',
+  'import.field.email': 'Email',
+  'import.field.fullName': 'Full Name',
+  'import.field.nickname': 'Nickname',
+  'import.field.phone': 'Phone',
+  'import.field.status': 'Status',
+  'import.field.isVirtual': 'Is Virtual',
+  'import.field.agentType': 'Agent Type',
+  'bulk.title.active': 'Reactivate Members',
+  'bulk.title.inactive': 'Deactivate Members',
+  'bulk.title.suspended': 'Suspend Members',
+  'bulk.title.assign': 'Assign Members',
+  'bulk.title.delete': 'Delete Members',
+  'bulk.loading': 'Loading selection...',
+  'bulk.confirm.status': '{count, plural, one {Change # member to {status}.} other {Change # members to {status}.}}',
+  'bulk.confirm.assign': '{count, plural, one {Add # member to an organization unit.} other {Add # members to an organization unit.}}',
+  'bulk.confirm.delete': '{count, plural, one {# member will be removed from the member list. Records are kept for auditing.} other {# members will be removed from the member list. Records are kept for auditing.}}',
+  'bulk.skipped': '{count, plural, one {# member already {status} will be skipped.} other {# members already {status} will be skipped.}}',
+  'bulk.more': '+{count} more',
+  'bulk.reasonPlaceholder': 'Recorded on every member in the selection',
+  'bulk.succeeded': '{count} succeeded.',
+  'bulk.succeededFailed': '{succeeded} succeeded, {failed} failed.',
+
+  'memberDetail.back': 'All members',
+  'memberDetail.manage': 'Manage',
+  'memberDetail.profile': 'Profile',
+  'memberDetail.field.fullName': 'Full name',
+  'memberDetail.field.nickname': 'Nickname',
+  'memberDetail.field.username': 'Username',
+  'memberDetail.field.email': 'Email',
+  'memberDetail.field.phone': 'Phone',
+  'memberDetail.field.status': 'Status',
+  'memberDetail.field.type': 'Type',
+  'memberDetail.field.id': 'Member ID',
+  'memberDetail.field.createdAt': 'Created',
+  'memberDetail.field.updatedAt': 'Last updated',
+  'memberDetail.notSet': 'Not set',
+  'memberDetail.statusReason': 'Reason: {reason}',
+  'memberDetail.assignments': 'Assignments',
+  'memberDetail.noAssignments': 'Not assigned to any unit.',
+  'memberDetail.primary': 'Primary',
+  'memberDetail.noRole': 'No role',
+  'memberDetail.agent': 'Agent Configuration',
+  'memberDetail.agent.owner': 'Owner',
+  'memberDetail.agent.model': 'Model / endpoint',
+  'memberDetail.agent.capabilities': 'Capabilities',
+  'memberDetail.agent.scopes': 'Allowed scopes',
+  'memberDetail.agent.none': 'None',
+  'memberDetail.agent.activeTokens': '{count, plural, one {# active token} other {# active tokens}}',
+  'memberDetail.logins': 'Sign-in History',
+  'memberDetail.logins.empty': 'No sign-ins recorded.',
+  'memberDetail.logins.col.time': 'Time',
+  'memberDetail.logins.col.method': 'Method',
+  'memberDetail.logins.col.result': 'Result',
+  'memberDetail.logins.col.source': 'Source',
+  'memberDetail.logins.success': 'Success',
+  'memberDetail.logins.failed': 'Failed',
+  'memberDetail.logins.mfa': 'Verified with 2FA',
+  'memberDetail.logins.unknownSource': 'Unknown',
+  'memberDetail.loginMethod.password': 'Password',
+  'memberDetail.loginMethod.sso': 'Single sign-on',
+  'memberDetail.loginMethod.invitation': 'Invitation',
+  'memberDetail.activity': 'Activity',
+  'memberDetail.activity.empty': 'No changes recorded yet.',
+  'memberDetail.activity.by': 'by @{actor}',
+  'memberDetail.activity.fields': '{count, plural, one {# field changed} other {# fields changed}}',
+  'memberDetail.showMore': 'Show more',
+
+  'roles.title': 'Roles & Permissions',
+  'roles.create': 'Create Role',
+  'roles.global': 'Global',
+  'roles.globalRole': 'Global role',
+  'roles.edit': 'Edit role',
+  'roles.noDescription': 'No description provided.',
+  'roles.org': 'Org: {name}',
+  'roles.permissionCount': '{count, plural, one {# permission} other {# permissions}}',
+  'roles.manage': 'Manage Permissions',
+  'roles.view': 'View Permissions',
+  'roles.globalWarning': '{name} is a global role. Changes apply to every organization in this tenant.',
+  'roles.unlock': 'I understand, allow editing',
+  'roles.saved': 'Role {code} saved',
+  'roles.form.editTitle': 'Edit Role',
+  'roles.form.code': 'Code',
+  'roles.form.codePlaceholder': 'e.g. MGR',
+  'roles.form.org': 'Organization',
+  'roles.form.global': 'Global (all organizations)',
+  'roles.form.isPosition': 'Position within an org',
+  'roles.matrix.title': 'Permissions: {name}',
+  'roles.matrix.resource': 'Resource',
+  'roles.matrix.granted': '{count, plural, one {# permission granted} other {# permissions granted}}',
+  'roles.matrix.save': 'Save Permissions',
+  'roles.matrix.saved': 'Permissions for {name} saved',
+
+  'orgs.title': 'Organization Structure',
+  'orgs.add': 'Add Unit',
+  'orgs.addChild': 'Add child unit',
+  'orgs.details': 'Details',
+  'orgs.directMembers': '{count, plural, one {# direct member} other {# direct members}}',
+  'orgs.dropTopLevel': 'Drop here to make it a top-level unit',
+  'orgs.cannotMoveUnder': 'A unit cannot be moved under itself or one of its own sub-units.',
+  'orgs.form.title': 'Add Organization Unit',
+  'orgs.form.parent': 'Parent Unit',
+  'orgs.form.topLevel': '(Top level)',
+  'orgs.added': '{name} added',
+  'orgs.members.empty': 'No members assigned to this unit.',
+  'orgs.members.remove': 'Remove from unit',
+  'orgs.members.select': 'Select a member...',
+
+  'agents.title': 'AI Agents',
+  'agents.provision': 'Provision Agent',
+  'agents.provisioning': 'Provisioning...',
+  'agents.provisioned': '@{username} provisioned',
+  'agents.allTypes': 'All Types',
+  'agents.empty': 'No agents found.',
+  'agents.owner': 'Owner: {name}',
+  'agents.unassigned': 'Unassigned',
+  'agents.unknownType': 'unknown',
+  'agents.scopes': '{count, plural, one {# scope} other {# scopes}}',
+  'agents.activeTokens': '{count, plural, one {# active token} other {# active tokens}}',
+  'agents.configure': 'Configure',
+  'agents.form.displayName': 'Display Name',
+  'agents.config.owner': 'Owner',
+  'agents.config.model': 'Model / Endpoint',
+  'agents.config.modelPlaceholder': 'e.g. gpt-4o @ api.openai.com',
+  'agents.config.capabilities': 'Capabilities',
+  'agents.config.capabilitiesPlaceholder': 'Comma separated, e.g. chat, summarize',
+  'agents.config.scopes': 'Allowed Scopes',
+  'agents.drawer.title': 'Agent Configuration',
+  'agents.drawer.id': 'ID: {id}',
+  'agents.drawer.save': 'Save Configuration',
+  'agents.drawer.saved': 'Configuration saved',
+  'agents.tokens.title': 'API Tokens',
+  'agents.tokens.copyNow': 'Copy this token now. It will not be shown again.',
+  'agents.tokens.copy': 'Copy',
+  'agents.tokens.empty': 'No tokens issued.',
+  'agents.tokens.created': 'Created {date}',
+  'agents.tokens.expires': 'Expires {date}',
+  'agents.tokens.lastUsed': 'Last used {date}',
+  'agents.tokens.state.active': 'Active',
+  'agents.tokens.state.expired': 'Expired',
+  'agents.tokens.state.revoked': 'Revoked',
+  'agents.tokens.revoke': 'Revoke',
+  'agents.tokens.revoked': 'Token {name} revoked',
+  'agents.tokens.name': 'Token Name',
+  'agents.tokens.namePlaceholder': 'e.g. prod-worker',
+  'agents.tokens.expiresIn': 'Expires',
+  'agents.tokens.expiry.30': '30 days',
+  'agents.tokens.expiry.90': '90 days',
+  'agents.tokens.expiry.365': '1 year',
+  'agents.tokens.expiry.never': 'Never',
+  'agents.tokens.issue': 'Issue',
+
+  'auditEntity.member': 'Member',
+  'auditEntity.role': 'Role',
+  'auditEntity.org': 'Org Unit',
+  'auditEntity.assignment': 'Assignment',
+  'auditEntity.agent': 'Agent',
+  'auditEntity.agent_token': 'Agent Token',
+  'auditEntity.invitation': 'Invitation',
+  'auditEntity.identity_provider': 'Identity Provider',
+  'auditEntity.member_mfa': 'Member MFA',
+  'auditAction.create': 'Create',
+  'auditAction.update': 'Update',
+  'auditAction.delete': 'Delete',
+  'auditDiff.field': 'Field',
+  'auditDiff.before': 'Before',
+  'auditDiff.after': 'After',
+  'audit.title': 'Audit Logs',
+  'audit.actorPlaceholder': 'Actor (press Enter)',
+  'audit.allEntities': 'All Entities',
+  'audit.allActions': 'All Actions',
+  'audit.from': 'From',
+  'audit.to': 'To',
+  'audit.col.time': 'Time',
+  'audit.col.actor': 'Actor',
+  'audit.col.action': 'Action',
+  'audit.col.target': 'Target',
+  'audit.col.changes': 'Changes',
+  'audit.loading': 'Loading events...',
+  'audit.empty': 'No audit events found.',
+  'audit.fields': '{count, plural, one {# field} other {# fields}}',
+  'audit.eventMeta': 'Tenant {tenant} • Event #{id}',
+  'audit.total': '{count, plural, one {# event} other {# events}}',
+
+  'localization.title': 'Localization',
+  'localization.language': 'Your language',
+  'localization.languageHint': 'Saved for your account on this browser.',
+  'localization.editing': 'Translations for',
+  'localization.coverage': '{done} of {total} labels translated',
+  'localization.missingOnly': 'Missing translations only',
+  'localization.search': 'Search keys or text...',
+  'localization.col.key': 'Key',
+  'localization.col.source': 'English',
+  'localization.col.translation': 'Translation',
+  'localization.col.override': 'Tenant override',
+  'localization.missing': 'Missing',
+  'localization.useDefault': 'Use default',
+  'localization.empty': 'No labels match.',
+  'localization.overridesHint': 'Overrides replace a label for everyone in this tenant, e.g. "Employees" instead of "Members".',
+  'localization.save': 'Save Overrides',
+  'localization.saving': 'Saving...',
+  'localization.saved': 'Label overrides saved',
+
+  'settings.title': 'Settings',
+  'settings.connection.title': 'Connection',
+  'settings.connection.intro': 'Servers the app can use when the mock API is off. Switching pings the server first.',
+  'settings.connection.active': 'Active',
+  'settings.connection.healthy': 'Healthy • v{version} • {latency} ms',
+  'settings.connection.check': 'Check health',
+  'settings.connection.edit': 'Edit profile',
+  'settings.connection.delete': 'Delete profile',
+  'settings.connection.switch': 'Switch',
+  'settings.connection.profileName': 'Profile Name',
+  'settings.connection.newProfile': 'New Profile',
+  'settings.connection.namePlaceholder': 'e.g. Staging',
+  'settings.connection.baseUrl': 'Base URL',
+  'settings.connection.save': 'Save',
+  'settings.connection.useMock': 'Use the mock API instead of the server',
+  'settings.connection.duplicateName': 'A profile named "{name}" already exists',
+  'settings.connection.invalidUrl': 'Enter an http:// or https:// URL',
+  'settings.connection.noAnswer': '{name} did not answer, so the connection was not switched.',
+  'settings.connection.switched': 'Now connected to {name}',
+  'settings.policy.title': 'Member Policy',
+  'settings.policy.intro': 'Rules for members of {tenant} #{id}. Field rules only apply to new members.',
+  'settings.policy.thisTenant': 'this tenant',
+  'settings.policy.agentTypes': 'Allowed agent types',
+  'settings.policy.agentTypesHint': 'With none selected, new virtual members cannot be created.',
+  'settings.policy.requiredFields': 'Required fields',
+  'settings.policy.requiredFieldsHint': 'Username and email are always required.',
+  'settings.policy.field.fullName': 'Full name',
+  'settings.policy.field.nickname': 'Nickname',
+  'settings.policy.field.phone': 'Phone',
+  'settings.policy.usernamePattern': 'Username pattern',
+  'settings.policy.usernamePatternPlaceholder': 'Any, e.g. [a-z]+(\\.[a-z]+)?',
+  'settings.policy.emailDomains': 'Allowed email domains',
+  'settings.policy.emailDomainsPlaceholder': 'Any, e.g. acme.com, acme.io',
+  'settings.policy.defaultStatus': 'Default status',
+  'settings.policy.mfaRoles': 'Require two-factor authentication for',
+  'settings.policy.mfaRolesHint': "Checked at every password sign-in, so existing holders of these roles set up an authenticator next time they sign in. Single sign-on relies on the identity provider's own second factor.",
+  'settings.policy.save': 'Save Policy',
+  'settings.policy.saved': 'Member policy saved',
+
+  'idp.title': 'Single Sign-On',
+  'idp.intro': 'Identity providers offered on the sign-in screen. Register {uri} as the redirect URI.',
+  'idp.add': 'Add Provider',
+  'idp.empty': 'No identity providers. Members sign in with a username and password.',
+  'idp.hidden': 'Hidden',
+  'idp.jit': 'JIT',
+  'idp.edit': 'Edit provider',
+  'idp.remove': 'Remove provider',
+  'idp.removed': '{name} removed',
+  'idp.saved': '{name} saved',
+  'idp.form.addTitle': 'Add Identity Provider',
+  'idp.form.editTitle': 'Edit Identity Provider',
+  'idp.form.namePlaceholder': 'Shown as Sign in with …',
+  'idp.form.protocol': 'Protocol',
+  'idp.form.issuer': 'Issuer',
+  'idp.form.idpEntityId': 'IdP Entity ID',
+  'idp.form.clientId': 'Client ID',
+  'idp.form.spEntityId': 'SP Entity ID',
+  'idp.form.authorizationEndpoint': 'Authorization Endpoint',
+  'idp.form.signInUrl': 'Sign-in URL',
+  'idp.form.signInUrlHint': "The server's SP-initiated login URL; it posts the assertion to the IdP and redirects back with a code.",
+  'idp.form.tokenEndpoint': 'Token Endpoint',
+  'idp.form.tokenEndpointHint': 'Called by the server, which holds the client secret.',
+  'idp.form.scopes': 'Scopes',
+  'idp.form.claimMapping': 'Claim mapping',
+  'idp.form.attributeMapping': 'Attribute mapping',
+  'idp.form.notMapped': 'Not mapped',
+  'idp.form.matchHint': 'Members are matched by email. Mapped fields only fill in members created on first sign-in.',
+  'idp.form.jit': 'Create a member on first sign-in when none matches the email',
+  'idp.form.defaultOrg': 'Default Unit',
+  'idp.form.defaultRole': 'Default Role',
+  'idp.form.enabled': 'Show on the sign-in screen',
+  'idp.form.save': 'Save Provider',
+  'idp.claim.username': 'Username',
+  'idp.claim.email': 'Email',
+  'idp.claim.fullName': 'Full name',
+  'idp.claim.nickname': 'Nickname',
+  'idp.claim.phone': 'Phone',
+} as const;
+
+type MessageKey = keyof typeof MESSAGES_EN;
+type MessageVars = Record<string, string | number>;
+
+const MESSAGES_ZH_CN: Partial<Record<MessageKey, string>> = {
+  'common.cancel': '取消',
+  'common.close': '关闭',
+  'common.loading': '加载中...',
+  'common.any': '不限',
+  'common.yes': '是',
+  'common.no': '否',
+  'common.clearAll': '全部清除',
+  'common.dismiss': '关闭',
+  'common.export': '导出',
+  'common.exporting': '正在导出...',
+  'common.rowsPerPage': '每页行数',
+  'common.pageOf': '第 {page} / {total} 页',
+  'common.showingRange': '显示第 {from}–{to} 条，共 {total} 条',
+  'common.showingCount': '显示 {count} 条',
+  'common.active': '启用',
+  'common.inactive': '停用',
+  'common.confirm': '确认',
+  'common.saving': '正在保存...',
+  'common.delete': '删除',
+  'common.deleting': '正在删除...',
+  'common.back': '返回',
+  'common.add': '添加',
+  'common.none': '无',
+  'common.notAvailable': '暂无',
+  'common.retry': '重试',
+  'common.saveChanges': '保存更改',
+  'common.changesSaved': '更改已保存',
+  'common.name': '名称',
+  'common.description': '描述',
+  'common.type': '类型',
+  'common.reason': '原因',
+  'common.role': '角色',
+  'common.noRole': '无角色',
+  'common.primary': '主要',
+  'common.orgUnit': '组织单元',
+  'common.selectUnit': '选择单元...',
+  'common.finished': '已完成',
+  'common.working': '处理中...',
+
+  'error.network': '连接问题',
+  'error.validation': '请求无效',
+  'error.unauthorized': '会话已过期',
+  'error.forbidden': '拒绝访问',
+  'error.not_found': '未找到',
+  'error.conflict': '冲突',
+  'error.server': '出错了',
+  'statusPage.403.title': '拒绝访问',
+  'statusPage.403.message': '您没有权限查看此页面。',
+  'statusPage.404.title': '页面不存在',
+  'statusPage.404.message': '您要查找的页面或记录不存在或已被删除。',
+  'statusPage.back': '返回仪表盘',
+
+  'nav.dashboard': '仪表盘',
+  'nav.members': '成员',
+  'nav.invitations': '邀请',
+  'nav.roles': '角色与权限',
+  'nav.orgs': '组织架构',
+  'nav.system': '系统',
+  'nav.agents': 'AI 智能体',
+  'nav.localization': '本地化',
+  'nav.audit': '审计日志',
+  'nav.settings': '设置',
+  'nav.profile': '个人资料',
+  'nav.signOut': '退出登录',
+  'nav.mockMode': '模拟 API 模式',
+  'nav.mockModeShort': '模拟',
+  'nav.language': '语言',
+  'nav.tenant': '租户',
+
+  'mockServer.title': 'Mock 服务器',
+  'mockServer.latency': '响应延迟',
+  'mockServer.latencyMs': '{ms} 毫秒',
+  'mockServer.scenarios': '故障场景',
+  'mockServer.scenariosHint': '匹配的请求会以指定状态失败，直到关闭该场景。',
+  'mockServer.scenario.roles-500': '角色接口返回 500',
+  'mockServer.scenario.members-503': '成员列表不可用（503）',
+  'mockServer.scenario.orgs-500': '组织树返回 500',
+  'mockServer.scenario.audit-500': '审计日志返回 500',
+  'mockServer.scenario.member-update-403': '禁止编辑成员（403）',
+  'mockServer.scenario.member-create-409': '创建成员冲突（409）',
+  'mockServer.scenario.offline': '网络已断开',
+  'mockServer.data': '数据',
+  'mockServer.dataHint': 'Mock 模式下的更改在重新加载后仍会保留。重置会恢复所有租户的初始数据。',
+  'mockServer.resetAll': '重置全部数据',
+  'mockServer.reset': '重置 Mock 数据',
+  'mockServer.resetDone': '已重置所有租户的 Mock 数据。',
+
+  'dashboard.title': '仪表盘',
+  'dashboard.refresh': '刷新',
+  'dashboard.refreshFailed': '刷新失败：{message}',
+  'dashboard.updated': '更新于 {time}',
+  'dashboard.loading': '正在加载仪表盘...',
+  'dashboard.viewAll': '查看全部',
+  'dashboard.totalMembers': '成员总数',
+  'dashboard.activeMembers': '活跃成员',
+  'dashboard.activeAgents': '活跃智能体',
+  'dashboard.orgUnits': '组织单元',
+  'dashboard.pendingRequests': '待处理请求',
+  'dashboard.byStatus': '按状态统计成员',
+  'dashboard.byType': '人员与智能体',
+  'dashboard.humans': '人员',
+  'dashboard.agentsOfType': '{type}智能体',
+  'dashboard.growth': '成员增长',
+  'dashboard.newestMembers': '最新成员',
+  'dashboard.growthPoint': '{month}：+{added}（共 {total}）',
+  'dashboard.noMembers': '暂无成员。',
+  'dashboard.perUnit': '各单元成员数',
+  'dashboard.noUnits': '暂无组织单元。',
+  'dashboard.recentChanges': '最近变更',
+  'dashboard.noChanges': '暂无变更记录。',
+  'dashboard.by': '操作人 @{actor}',
+
+  'memberStatus.active': '正常',
+  'memberStatus.inactive': '停用',
+  'memberStatus.suspended': '已暂停',
+  'memberStatus.pending': '待接受邀请',
+  'statusAction.active': '重新启用',
+  'statusAction.inactive': '停用',
+  'statusAction.suspended': '暂停',
+  'orgType.company': '公司',
+  'orgType.dept': '部门',
+  'orgType.team': '团队',
+  'agentType.llm': '大语言模型',
+  'agentType.workflow': '工作流自动化',
+  'agentType.bot': '简单机器人',
+  'permission.resource.members': '成员',
+  'permission.resource.roles': '角色',
+  'permission.resource.orgs': '组织',
+  'permission.resource.agents': '智能体',
+  'permission.action.read': '读取',
+  'permission.action.write': '写入',
+  'permission.action.delete': '删除',
+  'permission.action.assign': '分配',
+  'permission.required': '需要 {permission} 权限',
+
+  'login.title': '欢迎回来',
+  'login.subtitle': '登录您的组织',
+  'login.sessionExpired': '您的会话已过期，请重新登录以继续。',
+  'login.badCredentials': '用户名、密码或租户不正确。',
+  'login.username': '用户名',
+  'login.usernamePlaceholder': '请输入用户名',
+  'login.password': '密码',
+  'login.tenantId': '租户 ID',
+  'login.signIn': '登录',
+  'login.signingIn': '正在登录...',
+  'login.restoring': '正在恢复会话...',
+  'login.version': '系统版本 {version}',
+  'login.requestAccess': '还没有账号？申请加入',
+  'login.sso.or': '或',
+  'login.sso.signInWith': '使用 {name} 登录',
+  'sso.completing': '正在完成登录...',
+  'sso.failed': '单点登录失败',
+  'sso.cancelled': '已在身份提供方处取消登录。',
+  'sso.stateMismatch': '此登录响应与当前浏览器标签页发起的登录不匹配，请从登录页重新开始。',
+  'mockIdp.title': '模拟身份提供方',
+  'mockIdp.signingInTo': '正在登录 {client}',
+  'mockIdp.withScopes': '（授权范围：{scopes}）',
+  'mockIdp.anotherAccount': '其他账号',
+  'mockIdp.email': '邮箱',
+  'mockIdp.name': '姓名',
+  'mockIdp.username': '用户名',
+  'mfa.title': '双重身份验证',
+  'mfa.description': '输入密码后，登录时还需要提供手机身份验证器应用中的验证码。',
+  'mfa.on': '已开启',
+  'mfa.off': '未开启',
+  'mfa.enrolledOn': '设置于 {date}',
+  'mfa.codesLeft': '{count, plural, other {剩余 # 个恢复码}}',
+  'mfa.requiredNotice': '您的组织要求您的角色启用双重身份验证。请现在设置，否则下次登录时将要求您设置。',
+  'mfa.requiredCannotDisable': '您的组织要求您的角色启用此功能，因此无法关闭。',
+  'mfa.setUp': '设置身份验证器',
+  'mfa.confirm': '开启',
+  'mfa.regenerate': '重新生成恢复码',
+  'mfa.turnOff': '关闭',
+  'mfa.verifying': '正在验证...',
+  'mfa.verify': '验证',
+  'mfa.enabled': '已开启双重身份验证',
+  'mfa.disabled': '已关闭双重身份验证',
+  'mfa.scan': '使用 Google Authenticator、Microsoft Authenticator 或 1Password 等身份验证器应用扫描此二维码，然后输入其显示的 6 位验证码。',
+  'mfa.manualEntry': '无法扫描？请改为输入此密钥：',
+  'mfa.copy': '复制',
+  'mfa.download': '下载',
+  'mfa.code': '验证码',
+  'mfa.recoveryAllowed': '手机丢失？可改为输入一个恢复码。',
+  'mfa.recoveryCodesHint': '请妥善保存这些恢复码。手机丢失时，每个恢复码可用于登录一次。它们不会再次显示。',
+  'mfa.challengeSubtitle': '请输入身份验证器应用中的验证码',
+  'mfa.enrollTitle': '设置双重身份验证',
+  'mfa.enrollSubtitle': '您的组织要求您的角色使用第二重验证',
+  'mfa.startOver': '返回登录',
+  'mfa.mockFill': '模拟：填入当前验证码',
+  'mfa.recoveryTitle': '保存您的恢复码',
+  'mfa.recoverySubtitle': '双重身份验证已开启',
+  'mfa.continue': '我已保存，继续',
+  'profile.title': '个人资料',
+  'profile.permissions': '在此租户中拥有 {count} 项权限',
+  'invite.title': '加入 {tenant}',
+  'invite.summary': '{invitedBy} 邀请 {email} 加入 {org}。',
+  'invite.summaryRole': '{invitedBy} 邀请 {email} 以 {role} 身份加入 {org}。',
+  'invite.loading': '正在验证邀请...',
+  'invite.unavailable': '邀请不可用',
+  'invite.fullName': '姓名',
+  'invite.nickname': '昵称',
+  'invite.phone': '电话',
+  'invite.passwordHint': '至少 {count} 个字符',
+  'invite.confirmPassword': '确认密码',
+  'invite.passwordMismatch': '两次输入的密码不一致',
+  'invite.expires': '此邀请将于 {date} 过期。',
+  'invite.accept': '接受并登录',
+  'invite.accepting': '正在创建账号...',
+  'invite.backToSignIn': '返回登录',
+  'requestAccess.title': '申请加入',
+  'requestAccess.subtitle': '管理员会审核每一份申请，并通过邀请链接回复。',
+  'requestAccess.email': '工作邮箱',
+  'requestAccess.message': '留言（可选）',
+  'requestAccess.submit': '提交申请',
+  'requestAccess.sending': '正在提交...',
+  'requestAccess.sent': '申请已提交。管理员批准后，您将收到邀请链接。',
+  'invitationStatus.pending': '待接受',
+  'invitationStatus.accepted': '已接受',
+  'invitationStatus.expired': '已过期',
+  'invitationStatus.revoked': '已撤销',
+  'invitations.title': '邀请',
+  'invitations.invite': '邀请成员',
+  'invitations.form.fullNameHint': '可选；受邀者接受邀请时可以修改。',
+  'invitations.form.validity': '{count, plural, other {链接有效期为 # 天。在此之前，该成员显示为待接受。}}',
+  'invitations.form.send': '发送邀请',
+  'invitations.form.sending': '正在发送...',
+  'invitations.sent': '已向 {email} 发送邀请',
+  'invitations.resent': '已为 {email} 生成新链接',
+  'invitations.revoked': '已撤销 {email} 的邀请',
+  'invitations.declined': '已拒绝 {email} 的申请',
+  'invitations.share': '请将此链接分享给 {email}。链接仅显示一次，将于 {date} 过期。',
+  'invitations.copy': '复制',
+  'invitations.requests': '访问申请',
+  'invitations.requestedAt': '申请于 {date}',
+  'invitations.decline': '拒绝',
+  'invitations.approve': '批准并邀请',
+  'invitations.all': '全部',
+  'invitations.col.email': '邮箱',
+  'invitations.col.unitRole': '单元与角色',
+  'invitations.col.status': '状态',
+  'invitations.col.invited': '邀请时间',
+  'invitations.col.expires': '过期时间',
+  'invitations.loading': '正在加载邀请...',
+  'invitations.empty': '未找到邀请。',
+  'invitations.invitedBy': '{date}，由 @{username} 邀请',
+  'invitations.acceptedAt': '已于 {date} 接受',
+  'invitations.resend': '重新发送',
+  'invitations.revoke': '撤销',
+
+  'members.title': '成员',
+  'members.import': '导入',
+  'members.add': '添加成员',
+  'members.searchPlaceholder': '按姓名、邮箱或用户名搜索...',
+  'members.allStatus': '全部状态',
+  'members.allTypes': '全部类型',
+  'members.humans': '人员',
+  'members.agents': '智能体',
+  'members.more': '更多',
+  'members.moreCount': '更多（{count}）',
+  'members.typeHuman': '人员',
+  'members.typeAgent': '智能体：{type}',
+  'members.typeUnknown': '未知',
+  'members.views': '视图：',
+  'members.noViews': '尚未保存视图',
+  'members.saveView': '保存视图',
+  'members.renameView': '重命名视图',
+  'members.deleteView': '删除视图',
+  'members.copyLink': '复制链接',
+  'members.copyLinkHint': '复制可打开此视图的链接',
+  'members.linkCopied': '已复制此视图的链接',
+  'members.viewSaved': '已保存视图“{name}”',
+  'members.filter.agentType': '智能体类型',
+  'members.filter.org': '组织单元',
+  'members.filter.anyOrg': '不限单元',
+  'members.filter.role': '角色',
+  'members.filter.anyRole': '不限角色',
+  'members.filter.hasPhone': '有电话',
+  'members.filter.hasNickname': '有昵称',
+  'members.filter.createdFrom': '创建开始日期',
+  'members.filter.createdTo': '创建结束日期',
+  'members.filter.updatedFrom': '更新开始日期',
+  'members.filter.updatedTo': '更新结束日期',
+  'members.filter.remove': '移除筛选',
+  'members.chip.status': '状态：{value}',
+  'members.chip.agentType': '智能体类型：{value}',
+  'members.chip.org': '位于 {value}',
+  'members.chip.role': '角色：{value}',
+  'members.chip.createdFrom': '创建于 {value} 之后',
+  'members.chip.createdTo': '创建于 {value} 之前',
+  'members.chip.updatedFrom': '更新于 {value} 之后',
+  'members.chip.updatedTo': '更新于 {value} 之前',
+  'members.chip.hasPhone': '有电话',
+  'members.chip.noPhone': '无电话',
+  'members.chip.hasNickname': '有昵称',
+  'members.chip.noNickname': '无昵称',
+  'members.col.user': '用户',
+  'members.col.type': '类型',
+  'members.col.status': '状态',
+  'members.col.createdAt': '创建时间',
+  'members.col.actions': '操作',
+  'members.loading': '正在加载成员...',
+  'members.empty': '未找到成员。',
+  'members.selectPage': '选择本页',
+  'members.selectRow': '选择 @{username}',
+  'members.action.view': '查看',
+  'members.action.viewEdit': '查看 / 编辑',
+  'members.action.delete': '删除',
+  'members.bulk.selected': '已选择 {count} 项',
+  'members.bulk.selectAll': '选择全部 {count} 个匹配成员',
+  'members.bulk.clear': '清除',
+  'members.bulk.changeStatus': '更改状态',
+  'members.bulk.assign': '分配',
+  'members.bulk.delete': '删除',
+  'members.bulk.updated': '{count, plural, other {已更新 # 名成员}}',
+  'members.undo.banner': '{count, plural, other {已将 # 名成员更改为 {status}。}}',
+  'members.undo.undo': '撤销',
+  'members.undo.undoing': '正在撤销...',
+  'members.undo.reverted': '{count, plural, other {已恢复 # 名成员}}',
+  'members.undo.failed': '无法恢复 {list}',
+  'members.create.title': '添加新成员',
+  'members.create.username': '用户名',
+  'members.create.fullName': '全名',
+  'members.create.email': '邮箱',
+  'members.create.nickname': '昵称',
+  'members.create.phone': '电话',
+  'members.create.usernameHint': '须匹配 {pattern}',
+  'members.create.emailHint': '须使用 {domains} 邮箱',
+  'members.create.isVirtual': '是否为虚拟智能体？',
+  'members.create.agentType': '智能体类型',
+  'members.create.status': '状态',
+  'members.create.submit': '创建成员',
+  'members.create.done': '已创建 @{username}',
+  'members.saveView.title': '保存视图',
+  'members.saveView.name': '名称',
+  'members.saveView.placeholder': '例如：研发部已暂停的机器人',
+  'members.saveView.hint': '保存当前租户的搜索、筛选和排序。同名视图将被替换。',
+  'members.saveView.submit': '保存视图',
+  'members.action.openProfile': '打开详情页',
+
+  'statusChange.title.active': '重新启用成员',
+  'statusChange.title.inactive': '停用成员',
+  'statusChange.title.suspended': '暂停成员',
+  'statusChange.summary': '将 @{username} 的状态从“{from}”更改为“{to}”。',
+  'statusChange.reasonPlaceholder': '为什么要更改此状态？',
+  'statusChange.done': '@{username} 当前状态为“{status}”',
+  'deleteMember.title': '删除成员',
+  'deleteMember.body': '@{username} 将从成员列表中移除。记录会保留用于审计，管理员可以恢复。',
+  'deleteMember.done': '已删除 @{username}',
+  'memberDrawer.title': '成员详情',
+  'memberDrawer.idLine': '@{username} • ID：{id}',
+  'memberDrawer.status': '状态',
+  'memberDrawer.dangerZone': '危险操作',
+  'memberDrawer.delete': '删除成员',
+  'assignments.title': '组织分配',
+  'assignments.empty': '未分配到任何组织单元。',
+  'assignments.orgFallback': '组织 #{id}',
+  'assignments.setPrimary': '设为主要',
+  'assignments.remove': '移除分配',
+  'assignments.position': '{name}（职位）',
+  'assignments.primaryOrg': '主要组织',
+  'assignments.assign': '分配',
+  'assignments.effectiveRoles': '生效角色',
+  'assignments.effectivePermissions': '{count, plural, other {# 项生效权限}}',
+  'memberMfa.enabled': '{count, plural, other {已于 {date} 添加验证器，剩余 # 个恢复码。}}',
+  'memberMfa.required': '成员策略要求启用；该成员将在下次登录时被要求设置。',
+  'memberMfa.notSetUp': '未设置。',
+  'memberMfa.resetConfirm': '要移除 @{username} 的验证器和恢复码吗？请先确认请求者的身份。如果成员策略要求其角色启用双重验证，该成员将在下次登录时设置新的验证器。',
+  'memberMfa.reset': '重置双重验证',
+  'memberMfa.resetDone': '已重置 @{username} 的双重验证',
+  'import.title': '导入成员',
+  'import.choose': '选择 CSV 或 JSON 文件',
+  'import.formatHint': 'CSV 文件需要标题行，JSON 文件必须是对象数组。可识别的列：{columns}。',
+  'import.noRows': '文件中没有数据行',
+  'import.unreadable': '无法读取文件',
+  'import.mapIntro': '{file}：{count, plural, other {# 行}}。请为每个成员字段匹配一列。',
+  'import.notMapped': '（未匹配）',
+  'import.missingRequired': '请匹配必填字段：{fields}',
+  'import.validate': '校验',
+  'import.validating': '正在校验...',
+  'import.rows': '总行数',
+  'import.ready': '可导入',
+  'import.withErrors': '有错误',
+  'import.col.row': '行',
+  'import.col.field': '字段',
+  'import.col.problem': '问题',
+  'import.skippedHint': '有错误的行将被跳过，并写入失败文件。',
+  'import.submit': '{count, plural, other {导入 # 名成员}}',
+  'import.finished': '导入完成',
+  'import.importing': '正在导入...',
+  'import.created': '{count, plural, other {已创建 # 名成员。}}',
+  'import.failed': '{count, plural, other {# 行失败。}}',
+  'import.downloadFailures': '下载失败记录',
+  'import.field.username': '用户名',
+  'import.field.email': '邮箱',
+  'import.field.fullName': '全名',
+  'import.field.nickname': '昵称',
+  'import.field.phone': '电话',
+  'import.field.status': '状态',
+  'import.field.isVirtual': '虚拟成员',
+  'import.field.agentType': '智能体类型',
+  'bulk.title.active': '重新启用成员',
+  'bulk.title.inactive': '停用成员',
+  'bulk.title.suspended': '暂停成员',
+  'bulk.title.assign': '分配成员',
+  'bulk.title.delete': '删除成员',
+  'bulk.loading': '正在加载所选成员...',
+  'bulk.confirm.status': '{count, plural, other {将 # 名成员更改为“{status}”。}}',
+  'bulk.confirm.assign': '{count, plural, other {将 # 名成员添加到组织单元。}}',
+  'bulk.confirm.delete': '{count, plural, other {# 名成员将从成员列表中移除。记录会保留用于审计。}}',
+  'bulk.skipped': '{count, plural, other {已是“{status}”的 # 名成员将被跳过。}}',
+  'bulk.more': '另有 {count} 名',
+  'bulk.reasonPlaceholder': '将记录在所选的每名成员上',
+  'bulk.succeeded': '{count} 项成功。',
+  'bulk.succeededFailed': '{succeeded} 项成功，{failed} 项失败。',
+
+  'memberDetail.back': '全部成员',
+  'memberDetail.manage': '管理',
+  'memberDetail.profile': '基本资料',
+  'memberDetail.field.fullName': '全名',
+  'memberDetail.field.nickname': '昵称',
+  'memberDetail.field.username': '用户名',
+  'memberDetail.field.email': '邮箱',
+  'memberDetail.field.phone': '电话',
+  'memberDetail.field.status': '状态',
+  'memberDetail.field.type': '类型',
+  'memberDetail.field.id': '成员 ID',
+  'memberDetail.field.createdAt': '创建时间',
+  'memberDetail.field.updatedAt': '最后更新',
+  'memberDetail.notSet': '未设置',
+  'memberDetail.statusReason': '原因：{reason}',
+  'memberDetail.assignments': '组织分配',
+  'memberDetail.noAssignments': '未分配到任何单元。',
+  'memberDetail.primary': '主要',
+  'memberDetail.noRole': '无角色',
+  'memberDetail.agent': '智能体配置',
+  'memberDetail.agent.owner': '负责人',
+  'memberDetail.agent.model': '模型 / 接口',
+  'memberDetail.agent.capabilities': '能力',
+  'memberDetail.agent.scopes': '允许的权限范围',
+  'memberDetail.agent.none': '无',
+  'memberDetail.agent.activeTokens': '{count, plural, other {# 个有效令牌}}',
+  'memberDetail.logins': '登录记录',
+  'memberDetail.logins.empty': '暂无登录记录。',
+  'memberDetail.logins.col.time': '时间',
+  'memberDetail.logins.col.method': '方式',
+  'memberDetail.logins.col.result': '结果',
+  'memberDetail.logins.col.source': '来源',
+  'memberDetail.logins.success': '成功',
+  'memberDetail.logins.failed': '失败',
+  'memberDetail.logins.mfa': '已通过双重验证',
+  'memberDetail.logins.unknownSource': '未知',
+  'memberDetail.loginMethod.password': '密码',
+  'memberDetail.loginMethod.sso': '单点登录',
+  'memberDetail.loginMethod.invitation': '邀请',
+  'memberDetail.activity': '变更记录',
+  'memberDetail.activity.empty': '暂无变更记录。',
+  'memberDetail.activity.by': '操作人 @{actor}',
+  'memberDetail.activity.fields': '{count, plural, other {# 个字段已变更}}',
+  'memberDetail.showMore': '加载更多',
+
+  'roles.title': '角色与权限',
+  'roles.create': '创建角色',
+  'roles.global': '全局',
+  'roles.globalRole': '全局角色',
+  'roles.edit': '编辑角色',
+  'roles.noDescription': '暂无描述。',
+  'roles.org': '组织：{name}',
+  'roles.permissionCount': '{count, plural, other {# 项权限}}',
+  'roles.manage': '管理权限',
+  'roles.view': '查看权限',
+  'roles.globalWarning': '{name} 是全局角色，更改将应用于此租户中的所有组织。',
+  'roles.unlock': '我已了解，允许编辑',
+  'roles.saved': '角色 {code} 已保存',
+  'roles.form.editTitle': '编辑角色',
+  'roles.form.code': '代码',
+  'roles.form.codePlaceholder': '例如 MGR',
+  'roles.form.org': '组织',
+  'roles.form.global': '全局（所有组织）',
+  'roles.form.isPosition': '组织内职位',
+  'roles.matrix.title': '权限：{name}',
+  'roles.matrix.resource': '资源',
+  'roles.matrix.granted': '{count, plural, other {已授予 # 项权限}}',
+  'roles.matrix.save': '保存权限',
+  'roles.matrix.saved': '{name} 的权限已保存',
+
+  'orgs.title': '组织架构',
+  'orgs.add': '添加单元',
+  'orgs.addChild': '添加下级单元',
+  'orgs.details': '详情',
+  'orgs.directMembers': '{count, plural, other {# 名直属成员}}',
+  'orgs.dropTopLevel': '拖放到此处设为顶级单元',
+  'orgs.cannotMoveUnder': '单元不能移动到其自身或其下级单元之下。',
+  'orgs.form.title': '添加组织单元',
+  'orgs.form.parent': '上级单元',
+  'orgs.form.topLevel': '（顶级）',
+  'orgs.added': '已添加 {name}',
+  'orgs.members.empty': '此单元尚未分配成员。',
+  'orgs.members.remove': '从单元中移除',
+  'orgs.members.select': '选择成员...',
+
+  'agents.title': 'AI 智能体',
+  'agents.provision': '创建智能体',
+  'agents.provisioning': '正在创建...',
+  'agents.provisioned': '已创建 @{username}',
+  'agents.allTypes': '全部类型',
+  'agents.empty': '未找到智能体。',
+  'agents.owner': '负责人：{name}',
+  'agents.unassigned': '未指定',
+  'agents.unknownType': '未知',
+  'agents.scopes': '{count, plural, other {# 个权限范围}}',
+  'agents.activeTokens': '{count, plural, other {# 个有效令牌}}',
+  'agents.configure': '配置',
+  'agents.form.displayName': '显示名称',
+  'agents.config.owner': '负责人',
+  'agents.config.model': '模型 / 端点',
+  'agents.config.modelPlaceholder': '例如 gpt-4o @ api.openai.com',
+  'agents.config.capabilities': '能力',
+  'agents.config.capabilitiesPlaceholder': '以逗号分隔，例如 chat, summarize',
+  'agents.config.scopes': '允许的权限范围',
+  'agents.drawer.title': '智能体配置',
+  'agents.drawer.id': 'ID：{id}',
+  'agents.drawer.save': '保存配置',
+  'agents.drawer.saved': '配置已保存',
+  'agents.tokens.title': 'API 令牌',
+  'agents.tokens.copyNow': '请立即复制此令牌，它不会再次显示。',
+  'agents.tokens.copy': '复制',
+  'agents.tokens.empty': '尚未签发令牌。',
+  'agents.tokens.created': '创建于 {date}',
+  'agents.tokens.expires': '{date} 过期',
+  'agents.tokens.lastUsed': '最近使用于 {date}',
+  'agents.tokens.state.active': '有效',
+  'agents.tokens.state.expired': '已过期',
+  'agents.tokens.state.revoked': '已吊销',
+  'agents.tokens.revoke': '吊销',
+  'agents.tokens.revoked': '令牌 {name} 已吊销',
+  'agents.tokens.name': '令牌名称',
+  'agents.tokens.namePlaceholder': '例如 prod-worker',
+  'agents.tokens.expiresIn': '有效期',
+  'agents.tokens.expiry.30': '30 天',
+  'agents.tokens.expiry.90': '90 天',
+  'agents.tokens.expiry.365': '1 年',
+  'agents.tokens.expiry.never': '永不过期',
+  'agents.tokens.issue': '签发',
+
+  'auditEntity.member': '成员',
+  'auditEntity.role': '角色',
+  'auditEntity.org': '组织单元',
+  'auditEntity.assignment': '分配',
+  'auditEntity.agent': '智能体',
+  'auditEntity.agent_token': '智能体令牌',
+  'auditEntity.invitation': '邀请',
+  'auditEntity.identity_provider': '身份提供方',
+  'auditEntity.member_mfa': '成员双重验证',
+  'auditAction.create': '创建',
+  'auditAction.update': '更新',
+  'auditAction.delete': '删除',
+  'auditDiff.field': '字段',
+  'auditDiff.before': '修改前',
+  'auditDiff.after': '修改后',
+  'audit.title': '审计日志',
+  'audit.actorPlaceholder': '操作人（按回车搜索）',
+  'audit.allEntities': '全部对象',
+  'audit.allActions': '全部操作',
+  'audit.from': '开始日期',
+  'audit.to': '结束日期',
+  'audit.col.time': '时间',
+  'audit.col.actor': '操作人',
+  'audit.col.action': '操作',
+  'audit.col.target': '对象',
+  'audit.col.changes': '变更',
+  'audit.loading': '正在加载事件...',
+  'audit.empty': '未找到审计事件。',
+  'audit.fields': '{count, plural, other {# 个字段}}',
+  'audit.eventMeta': '租户 {tenant} • 事件 #{id}',
+  'audit.total': '{count, plural, other {# 个事件}}',
+
+  'localization.title': '本地化',
+  'localization.language': '您的语言',
+  'localization.languageHint': '保存在此浏览器中您的账户下。',
+  'localization.editing': '翻译语言',
+  'localization.coverage': '已翻译 {done} / {total} 个标签',
+  'localization.missingOnly': '仅显示缺失的翻译',
+  'localization.search': '搜索键名或文本...',
+  'localization.col.key': '键名',
+  'localization.col.source': '英文',
+  'localization.col.translation': '译文',
+  'localization.col.override': '租户覆盖',
+  'localization.missing': '缺失',
+  'localization.useDefault': '使用默认值',
+  'localization.empty': '没有匹配的标签。',
+  'localization.overridesHint': '覆盖值会替换此租户下所有人看到的标签，例如用“员工”代替“成员”。',
+  'localization.save': '保存覆盖',
+  'localization.saving': '正在保存...',
+  'localization.saved': '标签覆盖已保存',
+
+  'settings.title': '设置',
+  'settings.connection.title': '连接',
+  'settings.connection.intro': '关闭模拟 API 时应用可以使用的服务器。切换前会先检测服务器。',
+  'settings.connection.active': '当前',
+  'settings.connection.healthy': '正常 • v{version} • {latency} 毫秒',
+  'settings.connection.check': '检查状态',
+  'settings.connection.edit': '编辑配置',
+  'settings.connection.delete': '删除配置',
+  'settings.connection.switch': '切换',
+  'settings.connection.profileName': '配置名称',
+  'settings.connection.newProfile': '新配置',
+  'settings.connection.namePlaceholder': '例如 Staging',
+  'settings.connection.baseUrl': '基础 URL',
+  'settings.connection.save': '保存',
+  'settings.connection.useMock': '使用模拟 API 代替服务器',
+  'settings.connection.duplicateName': '名为“{name}”的配置已存在',
+  'settings.connection.invalidUrl': '请输入 http:// 或 https:// 开头的 URL',
+  'settings.connection.noAnswer': '{name} 没有响应，因此未切换连接。',
+  'settings.connection.switched': '已连接到 {name}',
+  'settings.policy.title': '成员策略',
+  'settings.policy.intro': '{tenant} #{id} 的成员规则。字段规则仅适用于新成员。',
+  'settings.policy.thisTenant': '此租户',
+  'settings.policy.agentTypes': '允许的智能体类型',
+  'settings.policy.agentTypesHint': '如果一个都不选，将无法创建新的虚拟成员。',
+  'settings.policy.requiredFields': '必填字段',
+  'settings.policy.requiredFieldsHint': '用户名和邮箱始终为必填项。',
+  'settings.policy.field.fullName': '全名',
+  'settings.policy.field.nickname': '昵称',
+  'settings.policy.field.phone': '电话',
+  'settings.policy.usernamePattern': '用户名格式',
+  'settings.policy.usernamePatternPlaceholder': '不限，例如 [a-z]+(\\.[a-z]+)?',
+  'settings.policy.emailDomains': '允许的邮箱域名',
+  'settings.policy.emailDomainsPlaceholder': '不限，例如 acme.com, acme.io',
+  'settings.policy.defaultStatus': '默认状态',
+  'settings.policy.mfaRoles': '以下角色需要双重验证',
+  'settings.policy.mfaRolesHint': '每次密码登录时都会检查，因此已拥有这些角色的成员会在下次登录时设置验证器。单点登录依赖身份提供方自己的第二因素。',
+  'settings.policy.save': '保存策略',
+  'settings.policy.saved': '成员策略已保存',
+
+  'idp.title': '单点登录',
+  'idp.intro': '登录页面上提供的身份提供方。请将 {uri} 注册为重定向 URI。',
+  'idp.add': '添加身份提供方',
+  'idp.empty': '没有身份提供方。成员使用用户名和密码登录。',
+  'idp.hidden': '已隐藏',
+  'idp.jit': 'JIT',
+  'idp.edit': '编辑身份提供方',
+  'idp.remove': '移除身份提供方',
+  'idp.removed': '已移除 {name}',
+  'idp.saved': '{name} 已保存',
+  'idp.form.addTitle': '添加身份提供方',
+  'idp.form.editTitle': '编辑身份提供方',
+  'idp.form.namePlaceholder': '显示为“使用 … 登录”',
+  'idp.form.protocol': '协议',
+  'idp.form.issuer': '颁发者',
+  'idp.form.idpEntityId': 'IdP 实体 ID',
+  'idp.form.clientId': '客户端 ID',
+  'idp.form.spEntityId': 'SP 实体 ID',
+  'idp.form.authorizationEndpoint': '授权端点',
+  'idp.form.signInUrl': '登录 URL',
+  'idp.form.signInUrlHint': '服务器的 SP 发起登录 URL；它向 IdP 提交断言，并带着授权码重定向回来。',
+  'idp.form.tokenEndpoint': '令牌端点',
+  'idp.form.tokenEndpointHint': '由持有客户端密钥的服务器调用。',
+  'idp.form.scopes': '授权范围',
+  'idp.form.claimMapping': '声明映射',
+  'idp.form.attributeMapping': '属性映射',
+  'idp.form.notMapped': '未映射',
+  'idp.form.matchHint': '成员按邮箱匹配。映射的字段只会填充首次登录时创建的成员。',
+  'idp.form.jit': '首次登录时如果没有匹配该邮箱的成员，则创建成员',
+  'idp.form.defaultOrg': '默认单元',
+  'idp.form.defaultRole': '默认角色',
+  'idp.form.enabled': '在登录页面显示',
+  'idp.form.save': '保存身份提供方',
+  'idp.claim.username': '用户名',
+  'idp.claim.email': '邮箱',
+  'idp.claim.fullName': '全名',
+  'idp.claim.nickname': '昵称',
+  'idp.claim.phone': '电话',
+};
+
+const MESSAGES: Record<Locale, Partial<Record<MessageKey, string>>> = {
+  'en': MESSAGES_EN,
+  'zh-CN': MESSAGES_ZH_CN,
+};
+
+const MESSAGE_KEYS = Object.keys(MESSAGES_EN) as MessageKey[];
+
+// Placeholders first, then plurals, so a plural branch may itself contain {placeholders}
+const formatMessage = (template: string, locale: Locale, vars: MessageVars = {}) =>
+  template
+    .replace(/\{(\w+)\}/g, (match, name) => name in vars ? String(vars[name]) : match)
+    .replace(/\{(\w+), plural, ((?:=?\w+ \{[^{}]*\}\s*)+)\}/g, (_, name, branches: string) => {
+      const count = Number(vars[name]);
+      const options = Object.fromEntries(Array.from(branches.matchAll(/(=?\w+) \{([^{}]*)\}/g), m => [m[1], m[2]]));
+      const text = options[`=${count}`] ?? options[new Intl.PluralRules(locale).select(count)] ?? options.other ?? '';
+      return text.replace(/#/g, new Intl.NumberFormat(locale).format(count));
+    });
+
+const detectLocale = (): Locale =>
+  typeof navigator !== 'undefined' && navigator.language?.toLowerCase().startsWith('zh') ? 'zh-CN' : 'en';
+
+// --- Context ---
+
+const LOGIN_PATH = '/login';
+const SSO_CALLBACK_PATH = '/auth/callback';
+const SSO_PENDING_KEY = 'sso_pending';
+
+// A started SSO sign-in; the verifier never leaves this tab until the callback redeems the code
+interface SsoPending {
+  state: string;
+  codeVerifier: string;
+  providerId: number;
+  tenantId: number;
+  redirectUri: string;
+}
+
+// Authorization code flow with PKCE: the browser goes to the IdP and comes back to SSO_CALLBACK_PATH
+const beginSsoLogin = async (provider: SsoProvider, tenantId: number) => {
+  const pending: SsoPending = {
+    state: randomUrlToken(),
+    codeVerifier: randomUrlToken(48),
+    providerId: provider.id,
+    tenantId,
+    redirectUri: `${window.location.origin}${SSO_CALLBACK_PATH}`,
+  };
+  sessionStorage.setItem(SSO_PENDING_KEY, JSON.stringify(pending));
+  const url = new URL(provider.authorizationEndpoint, window.location.origin);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: pending.redirectUri,
+    scope: provider.scopes.join(' '),
+    state: pending.state,
+    code_challenge: await pkceChallenge(pending.codeVerifier),
+    code_challenge_method: 'S256',
+  }).toString();
+  window.location.assign(url.toString());
+};
+
+// Read once: a pending sign-in is consumed by the first callback that sees it
+const takeSsoPending = (): SsoPending | null => {
+  const pending = JSON.parse(sessionStorage.getItem(SSO_PENDING_KEY) || 'null');
+  sessionStorage.removeItem(SSO_PENDING_KEY);
+  return pending;
+};
+
+interface AuthContextValue {
+  user: any;
+  // Resolves with the second factor still owed when the password alone does not start a session
+  login: (c: any) => Promise<MfaChallenge | null>;
+  // For sign-ins finished outside the context, i.e. the MFA step, which may hold the session back to show recovery codes
+  startSession: (res: LoginResponse, tenantId: number) => void;
+  // Accepting an invitation signs the new member straight in
+  acceptInvitation: (tenantId: number, body: InvitationAccept) => Promise<void>;
+  completeSso: (pending: SsoPending, code: string) => Promise<void>;
+  logout: () => void;
+  isMock: boolean;
+  setMock: (v: boolean) => void;
+  tenantId: number;
+  tenants: Tenant[];
+  switchTenant: (id: number) => void;
+  restoring: boolean;
+  sessionExpired: boolean;
+  // The signed-in user's grants in the active tenant; null while they load
+  permissions: PermissionGrant[] | null;
+  can: (action: PermissionAction, resource: PermissionResource, orgId?: number | null) => boolean;
+  refreshPermissions: () => void;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+const AuthProvider = ({ children }: { children?: React.ReactNode }) => {
+  const [user, setUser] = useState<any>(null);
+  const [isMock, setMockState] = useState(api.useMock);
+  const [tenantId, setTenantIdState] = useState(api.getTenantId());
+  const [tenants, setTenants] = useState<Tenant[]>([]);
+  const [restoring, setRestoring] = useState(api.hasSession());
+  const [sessionExpired, setSessionExpired] = useState(false);
+  const [permissions, setPermissions] = useState<PermissionGrant[] | null>(null);
+
+  useEffect(() => {
+    api.useMock = isMock;
+  }, [isMock]);
+
+  // Rehydrate the signed-in user from a stored token instead of starting logged out
+  useEffect(() => {
+    if (!api.hasSession()) return;
+    api.getCurrentUser()
+      .then(res => {
+        api.setActor(res.username);
+        setUser({ username: res.username, fullName: res.fullName });
+      })
+      .catch(() => api.logout())
+      .finally(() => setRestoring(false));
+  }, []);
+
+  useEffect(() => api.onSessionExpired(() => {
+    setUser(null);
+    setSessionExpired(true);
+  }), []);
+
+  useEffect(() => {
+    if (!user && !isMock) return;
+    api.getTenants().then(res => setTenants(res.data)).catch(() => setTenants([]));
+  }, [user, isMock]);
+
+  const refreshPermissions = () => {
+    api.getCurrentUser().then(res => setPermissions(res.permissions)).catch(() => setPermissions([]));
+  };
+
+  // Grants are per tenant, so they reload on sign-in and on every tenant switch
+  useEffect(() => {
+    setPermissions(null);
+    if (!user && !isMock) return;
+    refreshPermissions();
+  }, [user, isMock, tenantId]);
+
+  // orgId omitted: granted anywhere in the tenant; null: granted tenant-wide; a unit id: that unit is in scope
+  const can = (action: PermissionAction, resource: PermissionResource, orgId?: number | null) => {
+    const grant = permissions?.find(g => g.permission === `${resource}:${action}`);
+    if (!grant) return false;
+    if (orgId === undefined || grant.orgIds === null) return true;
+    return orgId !== null && grant.orgIds.includes(orgId);
+  };
+
+  const startSession = (res: LoginResponse, id: number) => {
+    api.setSession(res);
+    api.setTenantId(id);
+    api.setActor(res.username);
+    setTenantIdState(id);
+    setSessionExpired(false);
+    setUser({ username: res.username, fullName: res.fullName });
+  };
+
+  const login = async (creds: any) => {
+    const id = Number(creds.tenantId) || DEFAULT_TENANT_ID;
+    const { session, mfaChallenge } = await api.login({ ...creds, tenantId: id });
+    if (session) startSession(session, id);
+    return mfaChallenge;
+  };
+
+  const acceptInvitation = async (id: number, body: InvitationAccept) => {
+    startSession(await api.forTenant(id).acceptInvitation(body), id);
+  };
+
+  const completeSso = async (pending: SsoPending, code: string) => {
+    const { tenantId: id, providerId, codeVerifier, redirectUri } = pending;
+    startSession(await api.completeSsoLogin({ tenantId: id, providerId, code, codeVerifier, redirectUri }), id);
+  };
+
+  const switchTenant = (id: number) => {
+    api.setTenantId(id);
+    setTenantIdState(id);
+    // Record ids belong to the previous tenant, so fall back to the list they were opened from
+    navigate(window.location.pathname.replace(/\/\d+$/, ''), { replace: true });
+  };
+
+  const logout = () => {
+    api.logout();
+    setUser(null);
+  };
+
+  const setMock = (val: boolean) => {
+    setMockState(val);
+    api.useMock = val;
+  }
+
+  return (
+    <AuthContext.Provider value={{ user, login, startSession, acceptInvitation, completeSso, logout, isMock, setMock, tenantId, tenants, switchTenant, restoring, sessionExpired, permissions, can, refreshPermissions }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+// UI preferences are remembered per tenant, e.g. members page size or sort order
+const usePreference = <T,>(key: string, initial: T) => {
+  const tenantId = useContext(AuthContext)?.tenantId ?? api.getTenantId();
+  const storageKey = `prefs:${tenantId}:${key}`;
+  const [value, setValue] = useState<T>(() => {
+    const stored = localStorage.getItem(storageKey);
+    return stored === null ? initial : JSON.parse(stored);
+  });
+  const update = (next: T | ((prev: T) => T)) => {
+    setValue((prev: T) => {
+      const resolved = typeof next === 'function' ? (next as (prev: T) => T)(prev) : next;
+      localStorage.setItem(storageKey, JSON.stringify(resolved));
+      return resolved;
+    });
+  };
+  return [value, update] as const;
+};
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, vars?: MessageVars) => string;
+  formatDate: (value: string | number | Date) => string;
+  formatDateTime: (value: string | number | Date) => string;
+  formatTime: (value: string | number | Date) => string;
+  formatNumber: (value: number) => string;
+  // The active tenant's label overrides across all locales
+  overrides: LabelOverride[];
+  saveOverrides: (overrides: LabelOverride[]) => Promise<void>;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+const I18nProvider = ({ children }: { children?: React.ReactNode }) => {
+  const { user, isMock, tenantId } = useContext(AuthContext)!;
+  const [locale, setLocaleState] = useState<Locale>(() => (localStorage.getItem('locale') as Locale) || detectLocale());
+  const [overrides, setOverrides] = useState<LabelOverride[]>([]);
+
+  // Each user keeps their own language; the last one picked also applies to the sign-in screen
+  useEffect(() => {
+    const stored = user && localStorage.getItem(`locale:${user.username}`);
+    if (stored && MESSAGES[stored as Locale]) setLocaleState(stored as Locale);
+  }, [user?.username]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  useEffect(() => {
+    setOverrides([]);
+    if (!user && !isMock) return;
+    api.getLabelOverrides().then(res => setOverrides(res.data)).catch(() => setOverrides([]));
+  }, [user, isMock, tenantId]);
+
+  const setLocale = (next: Locale) => {
+    localStorage.setItem('locale', next);
+    if (user) localStorage.setItem(`locale:${user.username}`, next);
+    setLocaleState(next);
+  };
+
+  const saveOverrides = async (next: LabelOverride[]) => {
+    const res = await api.replaceLabelOverrides({ data: next });
+    setOverrides(res.data);
+  };
+
+  // Tenant override, then the locale's catalog, then the same two for English
+  const lookup = (key: MessageKey) => {
+    const override = (l: Locale) => overrides.find(o => o.locale === l && o.key === key)?.text;
+    return override(locale) ?? MESSAGES[locale][key] ?? override('en') ?? MESSAGES_EN[key] ?? key;
+  };
+
+  const t = (key: MessageKey, vars?: MessageVars) => formatMessage(lookup(key), locale, vars);
+
+  const format = (options: Intl.DateTimeFormatOptions) => (value: string | number | Date) =>
+    new Intl.DateTimeFormat(locale, options).format(new Date(value));
+
+  return (
+    <I18nContext.Provider value={{
+      locale, setLocale, t, overrides, saveOverrides,
+      formatDate: format({ dateStyle: 'medium' }),
+      formatDateTime: format({ dateStyle: 'medium', timeStyle: 'short' }),
+      formatTime: format({ timeStyle: 'short' }),
+      formatNumber: (value: number) => new Intl.NumberFormat(locale).format(value),
+    }}>
+      {children}
+    </I18nContext.Provider>
+  );
+};
+
+const useI18n = () => useContext(I18nContext)!;
+
+type ToastType = 'success' | 'error' | 'info';
+
+interface Toast {
+  id: number;
+  type: ToastType;
+  message: string;
+}
+
+interface ToastContextValue {
+  notify: (type: ToastType, message: string) => void;
+  notifyError: (err: unknown) => void;
+}
+
+const ToastContext = createContext<ToastContextValue | null>(null);
+
+const TOAST_DURATION_MS = 5000;
+const MAX_TOASTS = 4;
+
+const TOAST_STYLES: Record<ToastType, { className: string, icon: any }> = {
+  success: { className: 'bg-emerald-50 border-emerald-200 text-emerald-800', icon: CheckCircle2 },
+  error: { className: 'bg-rose-50 border-rose-200 text-rose-800', icon: AlertTriangle },
+  info: { className: 'bg-white border-slate-200 text-slate-700', icon: Info },
+};
+
+const ToastProvider = ({ children }: { children?: React.ReactNode }) => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(1);
+
+  const dismiss = (id: number) => setToasts((prev: Toast[]) => prev.filter(t => t.id !== id));
+
+  const notify = (type: ToastType, message: string) => {
+    const id = nextId.current++;
+    setToasts((prev: Toast[]) => [...prev.slice(1 - MAX_TOASTS), { id, type, message }]);
+    setTimeout(() => dismiss(id), TOAST_DURATION_MS);
+  };
+
+  const notifyError = (err: unknown) => notify('error', toApiError(err).message);
+
+  return (
+    <ToastContext.Provider value={{ notify, notifyError }}>
+      {children}
+      <div className="fixed bottom-4 right-4 z-[60] flex flex-col gap-2 w-80 max-w-[calc(100vw-2rem)]" aria-live="polite">
+        {toasts.map(t => (
+          <div key={t.id} role={t.type === 'error' ? 'alert' : 'status'} className={`flex items-start gap-2 p-3 rounded-lg border shadow-lg text-sm ${TOAST_STYLES[t.type].className}`}>
+            {React.createElement(TOAST_STYLES[t.type].icon, { size: 16, className: 'mt-0.5 flex-shrink-0' })}
+            <span className="flex-1">{t.message}</span>
+            <button onClick={() => dismiss(t.id)} className="opacity-60 hover:opacity-100" title="Dismiss"><X size={14} /></button>
+          </div>
+        ))}
+      </div>
+    </ToastContext.Provider>
+  );
+};
+
+const useToast = () => useContext(ToastContext)!;
+
+const useCan = () => useContext(AuthContext)!.can;
+
+// Field errors from a failed submit land on the matching inputs; anything else becomes a toast
+const useFormErrors = () => {
+  const { notifyError } = useToast();
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const handleError = (err: unknown) => {
+    const apiError = toApiError(err);
+    setFieldErrors(apiError.fieldErrors);
+    if (Object.keys(apiError.fieldErrors).length === 0) notifyError(apiError);
+  };
+  return { fieldErrors, handleError, clearErrors: () => setFieldErrors({}) };
+};
+
+// In-app navigation over the History API; every useLocation() re-renders on push, replace and back/forward
+const navigate = (to: string, { replace = false } = {}) => {
+  if (to === window.location.pathname + window.location.search) return;
+  window.history[replace ? 'replaceState' : 'pushState'](null, '', to);
+  window.dispatchEvent(new PopStateEvent('popstate'));
+};
+
+const currentLocation = () => ({ pathname: window.location.pathname.replace(/(.)\/+$/, '$1'), search: window.location.search });
+
+const useLocation = () => {
+  const [location, setLocation] = useState(currentLocation);
+  useEffect(() => {
+    const sync = () => setLocation(currentLocation());
+    window.addEventListener('popstate', sync);
+    return () => window.removeEventListener('popstate', sync);
+  }, []);
+  return location;
+};
+
+// Query-string state for the current path; updates merge into the existing params and drop empty values
+const useSearchParams = () => {
+  const { search } = useLocation();
+  const update = (patch: Record<string, string | number | null | undefined>, { replace = false } = {}) => {
+    const next = new URLSearchParams(window.location.search);
+    Object.entries(patch).forEach(([key, value]) => value === null || value === undefined || value === '' ? next.delete(key) : next.set(key, String(value)));
+    const query = next.toString();
+    navigate(query ? `${window.location.pathname}?${query}` : window.location.pathname, { replace });
+  };
+  return [new URLSearchParams(search), update] as const;
+};
+
+// --- Components ---
+
+const Badge = ({ type, text }: { type: 'success' | 'warning' | 'danger' | 'neutral', text: string }) => {
+  const colors = {
+    success: 'bg-emerald-100 text-emerald-700 border-emerald-200',
+    warning: 'bg-amber-100 text-amber-700 border-amber-200',
+    danger: 'bg-rose-100 text-rose-700 border-rose-200',
+    neutral: 'bg-slate-100 text-slate-600 border-slate-200',
+  };
+  return (
+    <span className={`px-2.5 py-0.5 rounded-full text-xs font-medium border ${colors[type]}`}>
+      {text}
+    </span>
+  );
+};
+
+// Navigates in-app on a plain click; modified clicks keep the browser's open-in-new-tab behaviour
+const Link = ({ to, onClick, children, ...props }: any) => (
+  <a
+    href={to}
+    onClick={(e: any) => {
+      onClick?.(e);
+      if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+      e.preventDefault();
+      navigate(to);
+    }}
+    {...props}
+  >
+    {children}
+  </a>
+);
+
+const SidebarItem = ({ icon: Icon, label, active, to, onClick }: any) => {
+  const Tag = to ? Link : 'button';
+  return (
+    <Tag
+      to={to}
+      onClick={onClick}
+      className={`w-full flex items-center space-x-3 px-4 py-3 text-sm font-medium transition-colors
+        ${active ? 'bg-indigo-50 text-indigo-600 border-r-4 border-indigo-600' : 'text-slate-600 hover:bg-slate-50 hover:text-slate-900'}`}
+    >
+      <Icon size={18} />
+      <span>{label}</span>
+    </Tag>
+  );
+};
+
+const Button = ({ children, variant = 'primary', className = '', ...props }: any) => {
+  const base = "inline-flex items-center justify-center px-4 py-2 text-sm font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 transition-colors disabled:opacity-50";
+  const variants: any = {
+    primary: "bg-indigo-600 text-white hover:bg-indigo-700 focus:ring-indigo-500 shadow-sm",
+    secondary: "bg-white text-slate-700 border border-slate-300 hover:bg-slate-50 focus:ring-indigo-500",
+    danger: "bg-rose-600 text-white hover:bg-rose-700 focus:ring-rose-500",
+  };
+  return <button className={`${base} ${variants[variant]} ${className}`} {...props}>{children}</button>;
+};
+
+// Renders its children only when the user holds the permission; with `disable` they stay visible but inert
+const Can = ({ action, resource, orgId, disable = false, children }: {
+  action: PermissionAction,
+  resource: PermissionResource,
+  orgId?: number | null,
+  disable?: boolean,
+  children?: React.ReactNode,
+}) => {
+  const can = useCan();
+  const { t } = useI18n();
+  if (can(action, resource, orgId)) return <>{children}</>;
+  if (!disable) return null;
+  const title = t('permission.required', { permission: `${resource}:${action}` });
+  return <>{React.Children.map(children, (child: any) =>
+    React.isValidElement(child) ? React.cloneElement(child, { disabled: true, title }) : child)}</>;
+};
+
+const fieldClass = (error?: string) =>
+  `w-full px-3 py-2 border rounded-md sm:text-sm ${error ? 'border-rose-400 focus:ring-rose-500 focus:border-rose-500' : 'border-slate-300 focus:ring-indigo-500 focus:border-indigo-500'}`;
+
+const FieldError = ({ error }: { error?: string }) => error ? <p className="mt-1 text-xs text-rose-600">{error}</p> : null;
+
+const Input = ({ label, error, hint, ...props }: any) => (
+  <div className="mb-4">
+    {label && <label className="block text-sm font-medium text-slate-700 mb-1">{label}</label>}
+    <input className={fieldClass(error)} aria-invalid={!!error} {...props} />
+    {hint && !error && <p className="mt-1 text-xs text-slate-500">{hint}</p>}
+    <FieldError error={error} />
+  </div>
+);
+
+const Select = ({ label, options, error, ...props }: any) => (
+  <div className="mb-4">
+    {label && <label className="block text-sm font-medium text-slate-700 mb-1">{label}</label>}
+    <select className={fieldClass(error)} aria-invalid={!!error} {...props}>
+      {options.map((opt: any) => (
+        <option key={opt.value} value={opt.value}>{opt.label}</option>
+      ))}
+    </select>
+    <FieldError error={error} />
+  </div>
+);
+
+const TextArea = ({ label, error, ...props }: any) => (
+  <div className="mb-4">
+    {label && <label className="block text-sm font-medium text-slate-700 mb-1">{label}</label>}
+    <textarea className={fieldClass(error)} aria-invalid={!!error} rows={3} {...props} />
+    <FieldError error={error} />
+  </div>
+);
+
+const ErrorState = ({ error, onRetry }: { error: ApiError, onRetry?: () => void }) => {
+  const { t } = useI18n();
+  return (
+    <div className="p-8 text-center">
+      <AlertTriangle className="mx-auto text-rose-400 mb-3" size={32} />
+      <h3 className="font-medium text-slate-900">{t(`error.${error.kind}`)}</h3>
+      <p className="text-sm text-slate-500 mt-1 max-w-md mx-auto break-words">{error.message}</p>
+      {onRetry && error.kind !== 'forbidden' && (
+        <Button variant="secondary" className="mt-4 gap-2" onClick={onRetry}><RefreshCw size={16} /> {t('common.retry')}</Button>
+      )}
+    </div>
+  );
+};
+
+const STATUS_PAGE_ICONS: Record<403 | 404, any> = { 403: Lock, 404: AlertTriangle };
+
+// Full-page replacement for unknown routes and records the user can't open
+const StatusPage = ({ code }: { code: 403 | 404 }) => {
+  const { t } = useI18n();
+  const Icon = STATUS_PAGE_ICONS[code];
+  return (
+    <div className="p-8 sm:p-16 text-center bg-white rounded-xl border border-slate-200">
+      <Icon className="mx-auto text-slate-300 mb-4" size={48} />
+      <div className="text-4xl font-bold text-slate-300">{code}</div>
+      <h2 className="text-xl font-medium text-slate-700 mt-2">{t(`statusPage.${code}.title`)}</h2>
+      <p className="text-slate-500 mt-2">{t(`statusPage.${code}.message`)}</p>
+      <Link to="/" className="inline-block mt-6 text-sm font-medium text-indigo-600 hover:text-indigo-700">{t('statusPage.back')}</Link>
+    </div>
+  );
+};
+
+// Maps a failed record lookup to the page shown in its place; other failures are left to the caller
+const statusPageFor = (error: ApiError | null): 403 | 404 | null =>
+  error?.kind === 'not_found' ? 404 : error?.kind === 'forbidden' ? 403 : null;
+
+// Contains render crashes to the page that threw; AppLayout keys it by section so navigating away resets it
+class ErrorBoundary extends React.Component {
+  // react ships untyped in this project, so the inherited members are declared here
+  declare props: { children?: React.ReactNode };
+  declare setState: (state: { error: Error | null }) => void;
+  state = { error: null as Error | null };
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: { componentStack?: string }) {
+    console.error(error, info.componentStack);
+  }
+
+  render() {
+    if (!this.state.error) return this.props.children;
+    return (
+      <div className="bg-white rounded-lg border border-slate-200 shadow-sm">
+        <ErrorState error={toApiError(this.state.error)} onRetry={() => this.setState({ error: null })} />
+      </div>
+    );
+  }
+}
+
+const Modal = ({ isOpen, onClose, title, children, wide = false }: any) => {
+  if (!isOpen) return null;
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
+      <div className={`relative bg-white rounded-lg shadow-xl w-full ${wide ? 'max-w-2xl' : 'max-w-md'} max-h-[90vh] overflow-y-auto p-6 animate-in fade-in zoom-in duration-200`}>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-slate-900">{title}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-500">
+            <span className="text-2xl">&times;</span>
+          </button>
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+};
+
+const Drawer = ({ isOpen, onClose, title, children }: any) => {
+  if (!isOpen) return null;
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative bg-white shadow-xl w-full max-w-lg h-full flex flex-col animate-in slide-in-from-right duration-200">
+        <div className="flex justify-between items-center px-6 py-4 border-b border-slate-200">
+          <h3 className="text-lg font-semibold text-slate-900">{title}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-500">
+            <X size={20} />
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-6">{children}</div>
+      </div>
+    </div>
+  );
+};
+
+const DropdownMenu = ({ items, trigger, triggerClassName = 'text-slate-400 hover:text-indigo-600 transition-colors', disabled = false }: {
+  items: { label: string, icon?: any, danger?: boolean, onClick: () => void }[],
+  trigger: React.ReactNode,
+  triggerClassName?: string,
+  disabled?: boolean,
+}) => {
+  const [anchor, setAnchor] = useState<DOMRect | null>(null);
+  const open = !!anchor;
+
+  // Positioned against the viewport so table overflow doesn't clip it
+  return (
+    <div className="inline-block text-left">
+      <button onClick={(e) => setAnchor(open ? null : e.currentTarget.getBoundingClientRect())} className={triggerClassName} disabled={disabled}>
+        {trigger}
+      </button>
+      {open && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setAnchor(null)} />
+          <div
+            className="fixed z-20 w-44 bg-white rounded-md shadow-lg border border-slate-200 py-1"
+            style={{ top: anchor.bottom + 4, right: window.innerWidth - anchor.right }}
+          >
+            {items.map(({ label, icon: Icon, danger, onClick }) => (
+              <button
+                key={label}
+                onClick={() => { setAnchor(null); onClick(); }}
+                className={`w-full flex items-center gap-2 px-4 py-2 text-sm text-left hover:bg-slate-50 ${danger ? 'text-rose-600' : 'text-slate-700'}`}
+              >
+                {Icon && <Icon size={16} />} {label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const statusBadgeType = (status: MemberStatus) =>
+  status === 'active' ? 'success' : status === 'suspended' ? 'danger' : status === 'pending' ? 'neutral' : 'warning';
+
+type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+const ExportMenu = ({ onExport }: { onExport: (format: ExportFormat) => Promise<void> }) => {
+  const [busy, setBusy] = useState(false);
+  const { notifyError } = useToast();
+  const { t } = useI18n();
+  const run = async (format: ExportFormat) => {
+    setBusy(true);
+    try {
+      await onExport(format);
+    } catch (err) {
+      notifyError(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+  return (
+    <DropdownMenu
+      disabled={busy}
+      triggerClassName="inline-flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium rounded-md bg-white text-slate-700 border border-slate-300 hover:bg-slate-50 disabled:opacity-50 w-full"
+      trigger={<><Download size={18} /> {busy ? t('common.exporting') : t('common.export')}</>}
+      items={[
+        { label: 'CSV', icon: FileText, onClick: () => run('csv') },
+        { label: 'JSON', icon: FileText, onClick: () => run('json') },
+        { label: 'Excel (XLSX)', icon: FileText, onClick: () => run('xlsx') },
+      ]}
+    />
+  );
+};
+
+const LanguagePicker = ({ className = '' }: { className?: string }) => {
+  const { locale, setLocale, t } = useI18n();
+  return (
+    <label className={`inline-flex items-center gap-1.5 text-sm text-slate-600 ${className}`} title={t('nav.language')}>
+      <Languages size={16} className="text-slate-400" />
+      <select
+        value={locale}
+        onChange={(e: any) => setLocale(e.target.value)}
+        className="bg-transparent text-sm focus:outline-none cursor-pointer"
+        aria-label={t('nav.language')}
+      >
+        {LOCALES.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+      </select>
+    </label>
+  );
+};
+
+type MemberSearch = Omit<GetMembersQuery, 'page' | 'pageSize' | 'sortBy' | 'sortOrder'>;
+
+// Date inputs hold local days; the API compares instants, so a range widens to cover its whole first and last day
+const dayStart = (day: string) => new Date(`${day}T00:00:00`).toISOString();
+const dayEnd = (day: string) => new Date(`${day}T23:59:59.999`).toISOString();
+
+// Pages through every result so exports aren't limited to the visible page
+const fetchAllMembers = async (filters: MemberSearch) => {
+  const members: Member[] = [];
+  for (let page = 1, totalPages = 1; page <= totalPages; page++) {
+    const res = await api.getMembers({ ...filters, page, pageSize: 100, sortBy: 'name', sortOrder: 'asc' });
+    members.push(...res.data);
+    totalPages = res.meta?.totalPages || 1;
+  }
+  return members;
+};
+
+// Members, assignments, roles and org structure in one dump; `primary` decides sheet order and what CSV holds.
+// `scope` is a member search to page through, or an explicit list such as a selection
+const exportDirectory = async (format: ExportFormat, primary: 'members' | 'roles' | 'orgs', scope: MemberSearch | Member[] = {}) => {
+  const [members, assignmentsRes, rolesRes, orgsRes] = await Promise.all([
+    Array.isArray(scope) ? scope : fetchAllMembers(scope), api.getAssignments(), api.getRoles(), api.getOrgs(),
+  ]);
+  const roles: Role[] = rolesRes.data;
+  const orgs: OrgUnit[] = orgsRes.data;
+  const memberIds = new Set(members.map(m => m.id));
+  const assignments: Assignment[] = assignmentsRes.data.filter((a: Assignment) => memberIds.has(a.memberId));
+  const roleCode = (id: number | null) => roles.find(r => r.id === id)?.code || '';
+
+  const sheets: Record<typeof primary | 'assignments', ExportSheet> = {
+    members: {
+      name: 'Members',
+      headers: ['id', 'username', 'fullName', 'nickname', 'email', 'phone', 'status', 'isVirtual', 'agentType', 'primaryOrg', 'orgs', 'roles', 'createdAt', 'updatedAt'],
+      rows: members.map(m => {
+        const own = assignments.filter(a => a.memberId === m.id);
+        const primaryOrg = own.find(a => a.isPrimary);
+        return {
+          ...m,
+          primaryOrg: primaryOrg ? orgPathLabel(orgs, primaryOrg.orgId) : '',
+          orgs: own.map(a => orgPathLabel(orgs, a.orgId)).join('; '),
+          roles: Array.from(new Set(own.map(a => roleCode(a.roleId)).filter(Boolean))).join('; '),
+        };
+      }),
+    },
+    assignments: {
+      name: 'Assignments',
+      headers: ['memberId', 'username', 'org', 'role', 'isPrimary'],
+      rows: assignments.map(a => ({
+        ...a,
+        username: members.find(m => m.id === a.memberId)?.username,
+        org: orgPathLabel(orgs, a.orgId),
+        role: roleCode(a.roleId),
+      })),
+    },
+    roles: {
+      name: 'Roles',
+      headers: ['id', 'code', 'name', 'description', 'org', 'isPosition', 'active', 'permissions'],
+      rows: roles.map(r => ({ ...r, org: r.orgId === 0 ? 'Global' : orgPathLabel(orgs, r.orgId), permissions: r.permissions.join('; ') })),
+    },
+    orgs: {
+      name: 'Organizations',
+      headers: ['id', 'name', 'type', 'path', 'parentId', 'description', 'memberCount'],
+      rows: orgs.map(o => ({ ...o, path: orgPathLabel(orgs, o.id) })),
+    },
+  };
+
+  const ordered = [sheets[primary], ...(['members', 'assignments', 'roles', 'orgs'] as const).filter(k => k !== primary).map(k => sheets[k])];
+  const filename = `${primary}-export-${new Date().toISOString().substring(0, 10)}`;
+  if (format === 'csv') {
+    downloadFile(`${filename}.csv`, toCsv(ordered[0].headers, ordered[0].rows), 'text/csv');
+  } else if (format === 'json') {
+    const data = Object.fromEntries(ordered.map(s => [s.name.toLowerCase(), s.rows.map(r => Object.fromEntries(s.headers.map(h => [h, r[h] ?? null])))]));
+    downloadFile(`${filename}.json`, JSON.stringify(data, null, 2), 'application/json');
+  } else {
+    downloadFile(`${filename}.xlsx`, buildXlsx(ordered), 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+  }
+};
+
+// --- Pages ---
+
+// Background refresh keeps a dashboard left open on a wall screen current
+const DASHBOARD_REFRESH_MS = 60_000;
+
+const STATUS_BAR_COLORS: Record<MemberStatus, string> = {
+  active: 'bg-emerald-500',
+  inactive: 'bg-slate-400',
+  suspended: 'bg-rose-500',
+  pending: 'bg-sky-400',
+};
+
+const METRIC_TONES: Record<string, string> = {
+  indigo: 'bg-indigo-50 border-indigo-100 text-indigo-700',
+  emerald: 'bg-emerald-50 border-emerald-100 text-emerald-700',
+  purple: 'bg-purple-50 border-purple-100 text-purple-700',
+  amber: 'bg-amber-50 border-amber-100 text-amber-700',
+  rose: 'bg-rose-50 border-rose-100 text-rose-700',
+};
+
+const MetricTile = ({ label, value, to, tone }: { label: string, value: number, to: string, tone: keyof typeof METRIC_TONES }) => {
+  const { formatNumber } = useI18n();
+  return (
+    <Link to={to} className={`block p-4 rounded-lg border hover:shadow-sm transition-shadow ${METRIC_TONES[tone]}`}>
+      <div className="text-2xl font-bold">{formatNumber(value)}</div>
+      <div className="text-sm opacity-80">{label}</div>
+    </Link>
+  );
+};
+
+const DashboardCard = ({ title, to, linkLabel, children }: { title: string, to?: string, linkLabel?: string, children?: React.ReactNode }) => {
+  const { t } = useI18n();
+  return (
+    <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="font-semibold text-slate-900">{title}</h2>
+        {to && <Link to={to} className="text-xs font-medium text-indigo-600 hover:text-indigo-700">{linkLabel || t('dashboard.viewAll')}</Link>}
+      </div>
+      {children}
+    </div>
+  );
+};
+
+// One row of a horizontal bar chart; the row links to the list it summarizes
+const BarRow = ({ label, count, max, to, color = 'bg-indigo-500' }: any) => {
+  const { formatNumber } = useI18n();
+  return (
+    <Link to={to} className="block group">
+      <div className="flex justify-between text-sm mb-1">
+        <span className="text-slate-700 group-hover:text-indigo-600">{label}</span>
+        <span className="font-medium text-slate-900">{formatNumber(count)}</span>
+      </div>
+      <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+        <div className={`h-full rounded-full ${color}`} style={{ width: `${max ? (count / max) * 100 : 0}%` }} />
+      </div>
+    </Link>
+  );
+};
+
+const GrowthChart = ({ points }: { points: GrowthPoint[] }) => {
+  const { t } = useI18n();
+  if (points.length === 0) return <p className="text-sm text-slate-500">{t('dashboard.noMembers')}</p>;
+  const max = Math.max(1, ...points.map(p => p.total));
+  return (
+    <div>
+      <div className="flex items-end gap-px h-40">
+        {points.map(p => (
+          <div
+            key={p.month}
+            title={t('dashboard.growthPoint', { month: p.month, added: p.added, total: p.total })}
+            className={`flex-1 rounded-t ${p.added ? 'bg-indigo-500' : 'bg-indigo-200'}`}
+            style={{ height: `${(p.total / max) * 100}%` }}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between mt-2 text-xs text-slate-400">
+        <span>{points[0].month}</span>
+        <span>{points[points.length - 1].month}</span>
+      </div>
+    </div>
+  );
+};
+
+const DashboardPage = () => {
+  const [stats, setStats] = useState<DashboardStats | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [updatedAt, setUpdatedAt] = useState<Date | null>(null);
+  const { t, formatTime, formatDateTime } = useI18n();
+
+  const fetchStats = async () => {
+    setRefreshing(true);
+    try {
+      setStats(await api.getDashboardStats());
+      setUpdatedAt(new Date());
+      setError(null);
+    } catch (err) {
+      setError(toApiError(err));
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchStats();
+    const timer = setInterval(fetchStats, DASHBOARD_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const statusMax = Math.max(0, ...(stats?.byStatus.map(s => s.count) || []));
+  const typeMax = Math.max(0, ...(stats?.byType.map(row => row.count) || []));
+  const orgMax = Math.max(0, ...(stats?.byOrg.map(o => o.memberCount) || []));
+
+  const typeLabel = (type: string) => type === 'human'
+    ? t('dashboard.humans')
+    : AGENT_TYPES.includes(type as AgentType) ? t('dashboard.agentsOfType', { type: t(`agentType.${type as AgentType}`) }) : type;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <h1 className="text-2xl font-bold text-slate-900">{t('dashboard.title')}</h1>
+        <div className="flex items-center gap-3">
+          {/* A failed background refresh keeps the last figures on screen */}
+          {stats && error && <span className="text-xs text-rose-600">{t('dashboard.refreshFailed', { message: error.message })}</span>}
+          {updatedAt && <span className="text-xs text-slate-400">{t('dashboard.updated', { time: formatTime(updatedAt) })}</span>}
+          <Button variant="secondary" className="gap-2" onClick={fetchStats} disabled={refreshing}>
+            <RefreshCw size={16} className={refreshing ? 'animate-spin' : ''} /> {t('dashboard.refresh')}
+          </Button>
+        </div>
+      </div>
+
+      {!stats ? (
+        error
+          ? <div className="bg-white rounded-lg border border-slate-200 shadow-sm"><ErrorState error={error} onRetry={fetchStats} /></div>
+          : <div className="p-8 text-center text-slate-500">{t('dashboard.loading')}</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+            <MetricTile label={t('dashboard.totalMembers')} value={stats.totalMembers} to="/members" tone="indigo" />
+            <MetricTile label={t('dashboard.activeMembers')} value={stats.byStatus.find(s => s.status === 'active')?.count || 0} to="/members?status=active" tone="emerald" />
+            <MetricTile label={t('dashboard.activeAgents')} value={stats.activeAgents} to="/agents" tone="purple" />
+            <MetricTile label={t('dashboard.orgUnits')} value={stats.orgUnits} to="/orgs" tone="amber" />
+            <MetricTile label={t('dashboard.pendingRequests')} value={stats.pendingInvitations + stats.pendingAccessRequests} to="/invitations?status=pending" tone="rose" />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <DashboardCard title={t('dashboard.byStatus')} to="/members?status=all">
+              <div className="space-y-3">
+                {stats.byStatus.map(s => (
+                  <BarRow key={s.status} label={t(`memberStatus.${s.status}`)} count={s.count} max={statusMax}
+                    to={`/members?status=${s.status}`} color={STATUS_BAR_COLORS[s.status]} />
+                ))}
+              </div>
+            </DashboardCard>
+            <DashboardCard title={t('dashboard.byType')}>
+              <div className="space-y-3">
+                {stats.byType.map(row => (
+                  <BarRow key={row.type} label={typeLabel(row.type)} count={row.count} max={typeMax}
+                    to={row.type === 'human' ? '/members?type=human' : `/agents?type=${row.type}`}
+                    color={row.type === 'human' ? 'bg-indigo-500' : 'bg-purple-500'} />
+                ))}
+              </div>
+            </DashboardCard>
+          </div>
+
+          <DashboardCard title={t('dashboard.growth')} to="/members?sort=createdAt&order=desc" linkLabel={t('dashboard.newestMembers')}>
+            <GrowthChart points={stats.growth} />
+          </DashboardCard>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <DashboardCard title={t('dashboard.perUnit')} to="/orgs">
+              {stats.byOrg.length === 0 ? <p className="text-sm text-slate-500">{t('dashboard.noUnits')}</p> : (
+                <div className="space-y-3">
+                  {stats.byOrg.slice(0, 6).map(o => (
+                    <BarRow key={o.orgId} label={o.name} count={o.memberCount} max={orgMax} to={`/orgs/${o.orgId}`} />
+                  ))}
+                </div>
+              )}
+            </DashboardCard>
+            <DashboardCard title={t('dashboard.recentChanges')} to="/audit">
+              {stats.recentChanges.length === 0 ? <p className="text-sm text-slate-500">{t('dashboard.noChanges')}</p> : (
+                <ul className="divide-y divide-slate-100">
+                  {stats.recentChanges.map(event => {
+                    const path = AUDIT_ENTITY_PATHS[event.entityType];
+                    const label = `${t(`auditEntity.${event.entityType}`)} #${event.entityId}`;
+                    return (
+                      <li key={event.id} className="py-2 flex items-center justify-between gap-4 text-sm">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <Badge type={AUDIT_ACTION_BADGE[event.action]} text={t(`auditAction.${event.action}`).toUpperCase()} />
+                          {path
+                            ? <Link to={`${path}/${event.entityId}`} className="text-indigo-600 hover:underline truncate">{label}</Link>
+                            : <span className="text-slate-700 truncate">{label}</span>}
+                          <span className="text-slate-400 truncate">{t('dashboard.by', { actor: event.actor })}</span>
+                        </div>
+                        <span className="text-xs text-slate-400 whitespace-nowrap">{formatDateTime(event.timestamp)}</span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </DashboardCard>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+// Frame for the screens reachable without a session: sign in, accept an invitation, request access
+const PublicCard = ({ title, subtitle, children }: { title: string, subtitle?: string, children?: React.ReactNode }) => {
+  const { t } = useI18n();
+  return (
+    <div className="min-h-screen bg-slate-100 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-lg max-w-md w-full p-8 space-y-6">
+        <div className="text-center">
+          <div className="bg-indigo-600 w-12 h-12 rounded-lg flex items-center justify-center mx-auto mb-4">
+            <Shield className="text-white" />
+          </div>
+          <h1 className="text-2xl font-bold text-slate-900">{title}</h1>
+          {subtitle && <p className="text-slate-500">{subtitle}</p>}
+        </div>
+        {children}
+        <div className="flex items-center justify-between text-xs text-slate-400">
+          <span>{t('login.version', { version: 'v2.4.0' })}</span>
+          <LanguagePicker />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// The secret both as a QR code for phone apps and grouped for typing in by hand
+const MfaSetup = ({ enrollment }: { enrollment: MfaEnrollment }) => {
+  const { t } = useI18n();
+  return (
+    <div className="flex flex-col sm:flex-row items-center gap-4 p-4 rounded-md border border-slate-200 bg-slate-50">
+      <div className="bg-white p-2 rounded border border-slate-200 flex-shrink-0">
+        <QRCodeSVG value={enrollment.otpauthUri} size={148} />
+      </div>
+      <div className="text-sm text-slate-600 space-y-2 min-w-0">
+        <p>{t('mfa.scan')}</p>
+        <p className="text-xs text-slate-500">{t('mfa.manualEntry')}</p>
+        <div className="flex items-center gap-2">
+          <code className="bg-white border border-slate-200 rounded px-2 py-1 text-xs font-mono break-all">{enrollment.secret.match(/.{1,4}/g)!.join(' ')}</code>
+          <button type="button" onClick={() => navigator.clipboard.writeText(enrollment.secret)} className="text-slate-400 hover:text-indigo-600" title={t('mfa.copy')}>
+            <Copy size={16} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const RecoveryCodeList = ({ codes, username }: { codes: string[], username: string }) => {
+  const { t } = useI18n();
+  const text = codes.join('\n');
+  return (
+    <div className="p-4 rounded-md bg-emerald-50 border border-emerald-200 text-sm space-y-3">
+      <p className="text-emerald-800">{t('mfa.recoveryCodesHint')}</p>
+      <ul className="grid grid-cols-2 gap-2 font-mono text-sm text-slate-900">
+        {codes.map(code => <li key={code} className="bg-white border border-emerald-200 rounded px-2 py-1 text-center">{code}</li>)}
+      </ul>
+      <div className="flex gap-2">
+        <Button type="button" variant="secondary" className="gap-2 text-xs" onClick={() => navigator.clipboard.writeText(text)}><Copy size={14} /> {t('mfa.copy')}</Button>
+        <Button type="button" variant="secondary" className="gap-2 text-xs" onClick={() => downloadFile(`${username}-recovery-codes.txt`, `${text}\n`, 'text/plain')}><Download size={14} /> {t('mfa.download')}</Button>
+      </div>
+    </div>
+  );
+};
+
+const MfaCodeInput = ({ value, onChange, error, allowRecovery = false }: { value: string, onChange: (v: string) => void, error?: string, allowRecovery?: boolean }) => {
+  const { t } = useI18n();
+  return (
+    <Input
+      label={t('mfa.code')}
+      required
+      autoFocus
+      autoComplete="one-time-code"
+      inputMode={allowRecovery ? 'text' : 'numeric'}
+      value={value}
+      onChange={(e: any) => onChange(e.target.value)}
+      error={error}
+      placeholder="123456"
+      hint={allowRecovery ? t('mfa.recoveryAllowed') : undefined}
+    />
+  );
+};
+
+const LoginPage = () => {
+  const auth = useContext(AuthContext);
+  const { t } = useI18n();
+  const [loading, setLoading] = useState(false);
+  const [formData, setFormData] = useState({ username: '', password: '', tenantId: '1' });
+  const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [providers, setProviders] = useState<SsoProvider[]>([]);
+  const [redirecting, setRedirecting] = useState(false);
+  const [challenge, setChallenge] = useState<MfaChallenge | null>(null);
+  const [code, setCode] = useState('');
+  // Held back until the member has seen the recovery codes of a required enrollment
+  const [enrolled, setEnrolled] = useState<MfaLoginResponse | null>(null);
+
+  // The tenant's sign-in options follow the tenant ID field; a tenant without SSO just shows none
+  useEffect(() => {
+    const tenantId = Number(formData.tenantId);
+    if (!tenantId) {
+      setProviders([]);
+      return;
+    }
+    const timer = setTimeout(() => {
+      api.getSsoProviders({ tenantId }).then(res => setProviders(res.data)).catch(() => setProviders([]));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [formData.tenantId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    setFieldErrors({});
+    try {
+      const mfaChallenge = await auth?.login(formData);
+      if (mfaChallenge) {
+        setCode('');
+        setChallenge(mfaChallenge);
+      } else if (window.location.pathname === LOGIN_PATH) {
+        navigate('/', { replace: true });
+      }
+    } catch (err) {
+      const apiError = toApiError(err);
+      setFieldErrors(apiError.fieldErrors);
+      setError(apiError.kind === 'unauthorized' ? t('login.badCredentials') : apiError.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const enter = (session: LoginResponse) => {
+    auth?.startSession(session, Number(formData.tenantId) || DEFAULT_TENANT_ID);
+    if (window.location.pathname === LOGIN_PATH) navigate('/', { replace: true });
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    setFieldErrors({});
+    try {
+      const res = await api.verifyMfaLogin({ mfaToken: challenge!.mfaToken, code });
+      if (res.recoveryCodes) setEnrolled(res);
+      else enter(res);
+    } catch (err) {
+      const apiError = toApiError(err);
+      // An expired or exhausted challenge needs the password again
+      if (apiError.kind === 'unauthorized') setChallenge(null);
+      setFieldErrors(apiError.fieldErrors);
+      if (!apiError.fieldErrors.code) setError(apiError.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const errorAlert = error && (
+    <div role="alert" className="p-3 rounded-md bg-rose-50 border border-rose-200 text-sm text-rose-700">{error}</div>
+  );
+
+  if (enrolled) {
+    return (
+      <PublicCard title={t('mfa.recoveryTitle')} subtitle={t('mfa.recoverySubtitle')}>
+        <RecoveryCodeList codes={enrolled.recoveryCodes!} username={enrolled.username} />
+        <Button className="w-full h-10" onClick={() => enter(enrolled)}>{t('mfa.continue')}</Button>
+      </PublicCard>
+    );
+  }
+
+  if (challenge) {
+    const enrolling = !!challenge.enrollment;
+    return (
+      <PublicCard title={t(enrolling ? 'mfa.enrollTitle' : 'mfa.title')} subtitle={t(enrolling ? 'mfa.enrollSubtitle' : 'mfa.challengeSubtitle')}>
+        {errorAlert}
+        {challenge.enrollment && <MfaSetup enrollment={challenge.enrollment} />}
+        <form onSubmit={handleVerify} className="space-y-4">
+          <MfaCodeInput value={code} onChange={setCode} error={fieldErrors.code} allowRecovery={!enrolling} />
+          <Button type="submit" className="w-full h-10" disabled={loading || !code.trim()}>
+            {loading ? t('mfa.verifying') : t('mfa.verify')}
+          </Button>
+        </form>
+        <div className="flex justify-between gap-4 text-sm">
+          <button type="button" onClick={() => { setChallenge(null); setError(''); }} className="text-indigo-600 hover:text-indigo-700">{t('mfa.startOver')}</button>
+          {auth?.isMock && (
+            <button type="button" onClick={() => mockServer.mfaCodeFor(challenge.mfaToken).then(setCode)} className="text-slate-500 hover:text-slate-700">{t('mfa.mockFill')}</button>
+          )}
+        </div>
+      </PublicCard>
+    );
+  }
+
+  return (
+    <PublicCard title={t('login.title')} subtitle={t('login.subtitle')}>
+      {auth?.sessionExpired && (
+        <div className="p-3 rounded-md bg-amber-50 border border-amber-200 text-sm text-amber-800">
+          {t('login.sessionExpired')}
+        </div>
+      )}
+
+      {errorAlert}
+      
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Input 
+          label={t('login.username')} 
+          value={formData.username} 
+          onChange={(e: any) => setFormData({...formData, username: e.target.value})} 
+          placeholder={t('login.usernamePlaceholder')}
+          error={fieldErrors.username}
+          required
+        />
+        <Input 
+          label={t('login.password')} 
+          type="password" 
+          value={formData.password} 
+          onChange={(e: any) => setFormData({...formData, password: e.target.value})} 
+          placeholder="••••••••"
+          error={fieldErrors.password}
+          required
+        />
+        <Input 
+          label={t('login.tenantId')} 
+          type="number" 
+          value={formData.tenantId} 
+          onChange={(e: any) => setFormData({...formData, tenantId: e.target.value})} 
+          error={fieldErrors.tenantId}
+        />
+        
+        <Button type="submit" className="w-full h-10" disabled={loading}>
+          {loading ? t('login.signingIn') : t('login.signIn')}
+        </Button>
+      </form>
+      {providers.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-3 text-xs text-slate-400">
+            <span className="flex-1 border-t border-slate-200" />{t('login.sso.or')}<span className="flex-1 border-t border-slate-200" />
+          </div>
+          {providers.map(provider => (
+            <Button
+              key={provider.id}
+              variant="secondary"
+              className="w-full h-10 gap-2"
+              disabled={redirecting}
+              onClick={() => {
+                setRedirecting(true);
+                beginSsoLogin(provider, Number(formData.tenantId)).catch(err => {
+                  setRedirecting(false);
+                  setError(toApiError(err).message);
+                });
+              }}
+            >
+              <KeyRound size={16} /> {t('login.sso.signInWith', { name: provider.name })}
+            </Button>
+          ))}
+        </div>
+      )}
+      <p className="text-center text-sm">
+        <Link to="/request-access" className="text-indigo-600 hover:text-indigo-700">{t('login.requestAccess')}</Link>
+      </p>
+    </PublicCard>
+  );
+};
+
+const AcceptInvitePage = () => {
+  const auth = useContext(AuthContext);
+  const { t, formatDate } = useI18n();
+  const [params] = useSearchParams();
+  const token = params.get('token') || '';
+  const tenantId = Number(params.get('tenant')) || DEFAULT_TENANT_ID;
+  const [preview, setPreview] = useState<InvitationPreview | null>(null);
+  const [loadError, setLoadError] = useState<ApiError | null>(null);
+  const [form, setForm] = useState({ username: '', fullName: '', nickname: '', phone: '', password: '', confirmPassword: '' });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    api.forTenant(tenantId).getInvitationByToken({ token })
+      .then(res => {
+        setPreview(res);
+        setForm((prev: typeof form) => ({ ...prev, username: res.suggestedUsername, fullName: res.fullName || '' }));
+      })
+      .catch(err => setLoadError(toApiError(err)));
+  }, [token, tenantId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (form.password !== form.confirmPassword) {
+      setFieldErrors({ confirmPassword: t('invite.passwordMismatch') });
+      return;
+    }
+    setSaving(true);
+    setFieldErrors({});
+    try {
+      await auth?.acceptInvitation(tenantId, {
+        token,
+        username: form.username.trim(),
+        password: form.password,
+        fullName: form.fullName.trim() || null,
+        nickname: form.nickname.trim() || null,
+        phone: form.phone.trim() || null,
+      });
+      navigate('/', { replace: true });
+    } catch (err) {
+      const apiError = toApiError(err);
+      setFieldErrors(apiError.fieldErrors);
+      if (Object.keys(apiError.fieldErrors).length === 0) setError(apiError.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loadError) {
+    return (
+      <PublicCard title={t('invite.unavailable')}>
+        <div role="alert" className="p-3 rounded-md bg-rose-50 border border-rose-200 text-sm text-rose-700">{loadError.message}</div>
+        <p className="text-center text-sm"><Link to={LOGIN_PATH} className="text-indigo-600 hover:text-indigo-700">{t('invite.backToSignIn')}</Link></p>
+      </PublicCard>
+    );
+  }
+  if (!preview) return <PublicCard title={t('invite.loading')} />;
+
+  const vars = { invitedBy: `@${preview.invitedBy}`, email: preview.email, org: preview.orgName, role: preview.roleName || '' };
+  return (
+    <PublicCard title={t('invite.title', { tenant: preview.tenantName })} subtitle={preview.roleName ? t('invite.summaryRole', vars) : t('invite.summary', vars)}>
+      {error && <div role="alert" className="p-3 rounded-md bg-rose-50 border border-rose-200 text-sm text-rose-700">{error}</div>}
+      <form onSubmit={handleSubmit}>
+        <Input label={t('login.username')} required error={fieldErrors.username} value={form.username} onChange={(e: any) => setForm({ ...form, username: e.target.value })} />
+        <Input label={t('invite.fullName')} error={fieldErrors.fullName} value={form.fullName} onChange={(e: any) => setForm({ ...form, fullName: e.target.value })} />
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+          <Input label={t('invite.nickname')} error={fieldErrors.nickname} value={form.nickname} onChange={(e: any) => setForm({ ...form, nickname: e.target.value })} />
+          <Input label={t('invite.phone')} type="tel" error={fieldErrors.phone} value={form.phone} onChange={(e: any) => setForm({ ...form, phone: e.target.value })} />
+        </div>
+        <Input label={t('login.password')} type="password" required autoComplete="new-password" error={fieldErrors.password} hint={t('invite.passwordHint', { count: MIN_PASSWORD_LENGTH })} value={form.password} onChange={(e: any) => setForm({ ...form, password: e.target.value })} />
+        <Input label={t('invite.confirmPassword')} type="password" required autoComplete="new-password" error={fieldErrors.confirmPassword} value={form.confirmPassword} onChange={(e: any) => setForm({ ...form, confirmPassword: e.target.value })} />
+        <p className="text-xs text-slate-500 mb-4">{t('invite.expires', { date: formatDate(preview.expiresAt) })}</p>
+        <Button type="submit" className="w-full h-10" disabled={saving}>
+          {saving ? t('invite.accepting') : t('invite.accept')}
+        </Button>
+      </form>
+    </PublicCard>
+  );
+};
+
+const SsoCallbackPage = () => {
+  const auth = useContext(AuthContext)!;
+  const { t } = useI18n();
+  const [error, setError] = useState('');
+  const started = useRef(false);
+
+  useEffect(() => {
+    // Codes are single-use, so a repeated effect must not redeem this one again
+    if (started.current) return;
+    started.current = true;
+    const params = new URLSearchParams(window.location.search);
+    const pending = takeSsoPending();
+    if (params.get('error')) {
+      setError(params.get('error') === 'access_denied' ? t('sso.cancelled') : params.get('error_description') || params.get('error')!);
+      return;
+    }
+    // The state must round-trip unchanged, otherwise the response belongs to a sign-in this tab never started
+    if (!pending || pending.state !== params.get('state') || !params.get('code')) {
+      setError(t('sso.stateMismatch'));
+      return;
+    }
+    auth.completeSso(pending, params.get('code')!)
+      .then(() => navigate('/', { replace: true }))
+      .catch(err => setError(toApiError(err).message));
+  }, []);
+
+  if (!error) return <PublicCard title={t('sso.completing')} />;
+  return (
+    <PublicCard title={t('sso.failed')}>
+      <div role="alert" className="p-3 rounded-md bg-rose-50 border border-rose-200 text-sm text-rose-700">{error}</div>
+      <p className="text-center text-sm"><Link to={LOGIN_PATH} className="text-indigo-600 hover:text-indigo-700">{t('invite.backToSignIn')}</Link></p>
+    </PublicCard>
+  );
+};
+
+// Stand-in for an external IdP's sign-in screen, so the whole redirect round-trip runs offline in mock mode
+const MockIdpPage = () => {
+  const { t } = useI18n();
+  const request = new URLSearchParams(window.location.search);
+  const redirectUri = request.get('redirect_uri') || '';
+  const [custom, setCustom] = useState({ preferred_username: '', email: '', name: '' });
+  const [error, setError] = useState('');
+
+  const finish = (params: Record<string, string>) => {
+    const url = new URL(redirectUri);
+    url.search = new URLSearchParams({ ...params, state: request.get('state') || '' }).toString();
+    window.location.assign(url.toString());
+  };
+
+  const signIn = (identity: Record<string, string>) => {
+    try {
+      // A real IdP only redirects to URIs registered for the client; this one accepts the app's own origin
+      if (!redirectUri.startsWith(`${window.location.origin}/`)) throw new ApiError('validation', `redirect_uri "${redirectUri}" is not registered.`);
+      const code = mockServer.authorize({
+        clientId: request.get('client_id') || '',
+        redirectUri,
+        codeChallenge: request.get('code_challenge') || '',
+        codeChallengeMethod: request.get('code_challenge_method') || '',
+      }, mockIdpClaims(Object.fromEntries(Object.entries(identity).filter(([, v]) => v.trim()))));
+      finish({ code });
+    } catch (err) {
+      setError(toApiError(err).message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-800 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-lg max-w-md w-full p-8 space-y-6">
+        <div>
+          <div className="flex items-center gap-2 text-slate-900 font-bold text-lg"><FlaskConical size={20} className="text-amber-500" /> {t('mockIdp.title')}</div>
+          <p className="text-sm text-slate-500 mt-1">
+            {t('mockIdp.signingInTo', { client: request.get('client_id') || '' })}
+            {request.get('scope') && <> {t('mockIdp.withScopes', { scopes: request.get('scope')! })}</>}
+          </p>
+        </div>
+        {error && <div role="alert" className="p-3 rounded-md bg-rose-50 border border-rose-200 text-sm text-rose-700">{error}</div>}
+        <ul className="divide-y divide-slate-100 border border-slate-200 rounded-md">
+          {MOCK_IDP_IDENTITIES.map(identity => (
+            <li key={identity.email}>
+              <button onClick={() => signIn(identity)} className="w-full text-left px-4 py-3 hover:bg-slate-50">
+                <div className="text-sm font-medium text-slate-900">{identity.name}</div>
+                <div className="text-xs text-slate-500">{identity.email}</div>
+              </button>
+            </li>
+          ))}
+        </ul>
+        <form onSubmit={(e) => { e.preventDefault(); signIn(custom); }} className="border-t border-slate-200 pt-4">
+          <div className="text-sm font-medium text-slate-700 mb-2">{t('mockIdp.anotherAccount')}</div>
+          <Input label={t('mockIdp.email')} type="email" required value={custom.email} onChange={(e: any) => setCustom({ ...custom, email: e.target.value })} />
+          <div className="grid grid-cols-2 gap-x-2">
+            <Input label={t('mockIdp.name')} value={custom.name} onChange={(e: any) => setCustom({ ...custom, name: e.target.value })} />
+            <Input label={t('mockIdp.username')} value={custom.preferred_username} onChange={(e: any) => setCustom({ ...custom, preferred_username: e.target.value })} />
+          </div>
+          <div className="flex justify-between gap-3">
+            <Button type="button" variant="secondary" onClick={() => finish({ error: 'access_denied' })} disabled={!redirectUri}>{t('common.cancel')}</Button>
+            <Button type="submit">{t('login.signIn')}</Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+const RequestAccessPage = () => {
+  const { t } = useI18n();
+  const [form, setForm] = useState({ tenantId: String(api.getTenantId()), email: '', fullName: '', message: '' });
+  const [saving, setSaving] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+    setFieldErrors({});
+    try {
+      api.setTenantId(Number(form.tenantId) || DEFAULT_TENANT_ID);
+      await api.createAccessRequest({ email: form.email.trim(), fullName: form.fullName.trim(), message: form.message.trim() || null });
+      setSent(true);
+    } catch (err) {
+      const apiError = toApiError(err);
+      setFieldErrors(apiError.fieldErrors);
+      if (Object.keys(apiError.fieldErrors).length === 0) setError(apiError.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <PublicCard title={t('requestAccess.title')} subtitle={t('requestAccess.subtitle')}>
+      {sent ? (
+        <div role="status" className="p-3 rounded-md bg-emerald-50 border border-emerald-200 text-sm text-emerald-800">{t('requestAccess.sent')}</div>
+      ) : (
+        <form onSubmit={handleSubmit}>
+          {error && <div role="alert" className="mb-4 p-3 rounded-md bg-rose-50 border border-rose-200 text-sm text-rose-700">{error}</div>}
+          <Input label={t('invite.fullName')} required error={fieldErrors.fullName} value={form.fullName} onChange={(e: any) => setForm({ ...form, fullName: e.target.value })} />
+          <Input label={t('requestAccess.email')} type="email" required error={fieldErrors.email} value={form.email} onChange={(e: any) => setForm({ ...form, email: e.target.value })} />
+          <Input label={t('login.tenantId')} type="number" required value={form.tenantId} onChange={(e: any) => setForm({ ...form, tenantId: e.target.value })} />
+          <TextArea label={t('requestAccess.message')} error={fieldErrors.message} value={form.message} onChange={(e: any) => setForm({ ...form, message: e.target.value })} />
+          <Button type="submit" className="w-full h-10" disabled={saving}>
+            {saving ? t('requestAccess.sending') : t('requestAccess.submit')}
+          </Button>
+        </form>
+      )}
+      <p className="text-center text-sm"><Link to={LOGIN_PATH} className="text-indigo-600 hover:text-indigo-700">{t('invite.backToSignIn')}</Link></p>
+    </PublicCard>
+  );
+};
+
+// A pending member leaves that status by accepting the invitation, never by an admin action
+type SettableMemberStatus = Exclude<MemberStatus, 'pending'>;
+
+const STATUS_ACTIONS: Record<SettableMemberStatus, { icon: any }> = {
+  active: { icon: RotateCcw },
+  inactive: { icon: PowerOff },
+  suspended: { icon: Ban },
+};
+
+const statusActionsFor = (member: Member) => member.status === 'pending'
+  ? []
+  : (Object.keys(STATUS_ACTIONS) as SettableMemberStatus[]).filter(s => s !== member.status);
+
+const StatusChangeModal = ({ member, status, onClose, onDone }: { member: Member | null, status: SettableMemberStatus | null, onClose: () => void, onDone: () => void }) => {
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { fieldErrors, handleError, clearErrors } = useFormErrors();
+  const { notify } = useToast();
+  const { t } = useI18n();
+
+  useEffect(() => { setReason(''); clearErrors(); }, [member, status]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!member || !status) return;
+    setSaving(true);
+    try {
+      await api.patchMemberStatus(member.id, { status, reason: reason.trim() });
+      notify('success', t('statusChange.done', { username: member.username, status: t(`memberStatus.${status}`) }));
+      onDone();
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!member && !!status} onClose={onClose} title={status ? t(`statusChange.title.${status}`) : ''}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <p className="text-sm text-slate-600">
+          {member && status && t('statusChange.summary', { username: member.username, from: t(`memberStatus.${member.status}`), to: t(`memberStatus.${status}`) })}
+        </p>
+        <TextArea label={t('common.reason')} required error={fieldErrors.reason} value={reason} onChange={(e: any) => setReason(e.target.value)} placeholder={t('statusChange.reasonPlaceholder')} />
+        <div className="flex justify-end gap-3 mt-6">
+          <Button type="button" variant="secondary" onClick={onClose}>{t('common.cancel')}</Button>
+          <Button type="submit" variant={status === 'active' ? 'primary' : 'danger'} disabled={saving || !reason.trim()}>
+            {saving ? t('common.saving') : t('common.confirm')}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+const DeleteMemberModal = ({ member, onClose, onDone }: { member: Member | null, onClose: () => void, onDone: () => void }) => {
+  const [deleting, setDeleting] = useState(false);
+  const { notify, notifyError } = useToast();
+  const { t } = useI18n();
+
+  const handleDelete = async () => {
+    if (!member) return;
+    setDeleting(true);
+    try {
+      await api.deleteMember(member.id);
+      notify('success', t('deleteMember.done', { username: member.username }));
+      onDone();
+    } catch (err) {
+      notifyError(err);
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!member} onClose={onClose} title={t('deleteMember.title')}>
+      <p className="text-sm text-slate-600 mb-6">
+        {member && t('deleteMember.body', { username: member.username })}
+      </p>
+      <div className="flex justify-end gap-3">
+        <Button type="button" variant="secondary" onClick={onClose}>{t('common.cancel')}</Button>
+        <Button variant="danger" onClick={handleDelete} disabled={deleting}>{deleting ? t('common.deleting') : t('common.delete')}</Button>
+      </div>
+    </Modal>
+  );
+};
+
+const MemberAssignments = ({ member }: { member: Member }) => {
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [orgs, setOrgs] = useState<OrgUnit[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [form, setForm] = useState({ orgId: '', roleId: '', isPrimary: false });
+  const [saving, setSaving] = useState(false);
+  const { notifyError } = useToast();
+  const { fieldErrors, handleError, clearErrors } = useFormErrors();
+  const can = useCan();
+  const { t } = useI18n();
+
+  const fetchAssignments = async () => {
+    const res = await api.getMemberAssignments(member.id);
+    setAssignments(res.data);
+  };
+
+  useEffect(() => {
+    clearErrors();
+    fetchAssignments().catch(notifyError);
+    api.getOrgs().then(res => setOrgs(res.data)).catch(notifyError);
+    api.getRoles().then(res => setRoles(res.data)).catch(notifyError);
+  }, [member.id]);
+
+  const roleOptions = form.orgId ? applicableRoles(roles, orgs, Number(form.orgId)) : [];
+  const assignableOrgs = orgs.filter(o => can('assign', 'roles', o.id));
+  const effectiveRoles = roles.filter(r => assignments.some(a => a.roleId === r.id));
+  const effectivePermissions = new Set(effectiveRoles.flatMap(r => r.permissions));
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await api.createAssignment({
+        memberId: member.id,
+        orgId: Number(form.orgId),
+        roleId: form.roleId ? Number(form.roleId) : null,
+        isPrimary: form.isPrimary,
+      });
+      setForm({ orgId: '', roleId: '', isPrimary: false });
+      clearErrors();
+      await fetchAssignments();
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const run = async (action: Promise<any>) => {
+    try {
+      await action;
+      await fetchAssignments();
+    } catch (err) {
+      notifyError(err);
+    }
+  };
+
+  return (
+    <div className="border-t border-slate-200 pt-6">
+      <h4 className="text-sm font-semibold text-slate-700 mb-3">{t('assignments.title')}</h4>
+      {assignments.length === 0 ? (
+        <p className="text-sm text-slate-500 mb-3">{t('assignments.empty')}</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 border border-slate-200 rounded-md mb-3">
+          {assignments.map(a => (
+            <li key={a.id} className="px-3 py-2 flex items-center justify-between gap-2 text-sm">
+              <div className="min-w-0">
+                <div className="text-slate-900 truncate">{orgPathLabel(orgs, a.orgId) || t('assignments.orgFallback', { id: a.orgId })}</div>
+                <div className="text-xs text-slate-500">{roles.find(r => r.id === a.roleId)?.name || t('common.noRole')}</div>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                {a.isPrimary
+                  ? <Badge type="success" text={t('common.primary')} />
+                  : can('assign', 'roles', a.orgId) && <button onClick={() => run(api.setPrimaryAssignment(a.id, { isPrimary: true }))} className="text-xs text-indigo-600 hover:underline">{t('assignments.setPrimary')}</button>}
+                <Can action="assign" resource="roles" orgId={a.orgId}>
+                  <button onClick={() => run(api.deleteAssignment(a.id))} className="text-slate-400 hover:text-rose-600" title={t('assignments.remove')}>
+                    <X size={16} />
+                  </button>
+                </Can>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {assignableOrgs.length > 0 && <form onSubmit={handleAdd} className="bg-slate-50 border border-slate-200 rounded-md p-3">
+        <Select
+          label={t('common.orgUnit')}
+          required
+          error={fieldErrors.orgId}
+          value={form.orgId}
+          onChange={(e: any) => setForm({ ...form, orgId: e.target.value, roleId: '' })}
+          options={[{ value: '', label: t('common.selectUnit') }, ...assignableOrgs.map(o => ({ value: o.id, label: orgPathLabel(orgs, o.id) }))]}
+        />
+        <Select
+          label={t('common.role')}
+          value={form.roleId}
+          error={fieldErrors.roleId}
+          disabled={!form.orgId}
+          onChange={(e: any) => setForm({ ...form, roleId: e.target.value })}
+          options={[{ value: '', label: t('common.noRole') }, ...roleOptions.map(r => ({ value: r.id, label: r.isPosition ? t('assignments.position', { name: r.name }) : r.name }))]}
+        />
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-sm text-slate-700 select-none">
+            <input type="checkbox" checked={form.isPrimary} onChange={(e) => setForm({ ...form, isPrimary: e.target.checked })} className="rounded text-indigo-600 focus:ring-indigo-500" />
+            {t('assignments.primaryOrg')}
+          </label>
+          <Button type="submit" variant="secondary" className="gap-2 text-xs" disabled={saving || !form.orgId}><Plus size={14} /> {t('assignments.assign')}</Button>
+        </div>
+      </form>}
+
+      <div className="mt-4">
+        <h5 className="text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">{t('assignments.effectiveRoles')}</h5>
+        {effectiveRoles.length === 0 ? <p className="text-sm text-slate-500">{t('common.none')}</p> : (
+          <div className="flex flex-wrap gap-2">
+            {effectiveRoles.map(r => (
+              <span key={r.id} className="text-xs bg-slate-100 px-2 py-1 rounded text-slate-600 font-mono" title={r.name}>{r.code}</span>
+            ))}
+          </div>
+        )}
+        <p className="text-xs text-slate-500 mt-2">{t('assignments.effectivePermissions', { count: effectivePermissions.size })}</p>
+      </div>
+    </div>
+  );
+};
+
+// What an admin sees of a member's second factor; the secret itself never leaves the server
+const MemberMfa = ({ member }: { member: Member }) => {
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const { t, formatDate } = useI18n();
+  const { notify, notifyError } = useToast();
+  // A reset lets whoever holds the password enroll a new device, so it takes tenant-wide member rights
+  const canReset = useCan()('write', 'members', null);
+
+  const fetchStatus = () => api.getMemberMfa(member.id).then(setStatus).catch(notifyError);
+
+  useEffect(() => {
+    setStatus(null);
+    setConfirming(false);
+    fetchStatus();
+  }, [member.id]);
+
+  const reset = async () => {
+    try {
+      await api.resetMemberMfa(member.id);
+      notify('success', t('memberMfa.resetDone', { username: member.username }));
+      setConfirming(false);
+      fetchStatus();
+    } catch (err) {
+      notifyError(err);
+    }
+  };
+
+  return (
+    <div className="border-t border-slate-200 pt-6">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-semibold text-slate-700">{t('mfa.title')}</h4>
+        {status && <Badge type={status.enabled ? 'success' : status.required ? 'warning' : 'neutral'} text={status.enabled ? t('mfa.on') : t('mfa.off')} />}
+      </div>
+      {status && (
+        <p className="text-xs text-slate-500 mb-3">
+          {status.enabled
+            ? t('memberMfa.enabled', { date: status.enrolledAt ? formatDate(status.enrolledAt) : '', count: status.recoveryCodesRemaining })
+            : status.required ? t('memberMfa.required') : t('memberMfa.notSetUp')}
+        </p>
+      )}
+      {status?.enabled && canReset && (confirming ? (
+        <div className="p-3 rounded-md bg-rose-50 border border-rose-200 text-sm">
+          <p className="text-rose-800 mb-3">{t('memberMfa.resetConfirm', { username: member.username })}</p>
+          <div className="flex gap-2">
+            <Button variant="danger" className="text-xs" onClick={reset}>{t('memberMfa.reset')}</Button>
+            <Button variant="secondary" className="text-xs" onClick={() => setConfirming(false)}>{t('common.cancel')}</Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="secondary" className="gap-2 text-xs" onClick={() => setConfirming(true)}><RotateCcw size={14} /> {t('memberMfa.reset')}</Button>
+      ))}
+    </div>
+  );
+};
+
+const MemberDrawer = ({ member, onClose, onSaved, onChangeStatus, onDelete }: {
+  member: Member | null,
+  onClose: () => void,
+  onSaved: (m: Member) => void,
+  onChangeStatus: (status: SettableMemberStatus) => void,
+  onDelete: () => void,
+}) => {
+  const [form, setForm] = useState({ fullName: '', nickname: '', phone: '', email: '' });
+  const [saving, setSaving] = useState(false);
+  const { fieldErrors, handleError, clearErrors } = useFormErrors();
+  const { notify } = useToast();
+  const canWrite = useCan()('write', 'members');
+  const { t } = useI18n();
+
+  useEffect(() => {
+    if (member) {
+      setForm({ fullName: member.fullName || '', nickname: member.nickname || '', phone: member.phone || '', email: member.email });
+      clearErrors();
+    }
+  }, [member]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!member) return;
+    setSaving(true);
+    try {
+      const updated = await api.updateMember(member.id, {
+        fullName: form.fullName || null,
+        nickname: form.nickname || null,
+        phone: form.phone || null,
+        email: form.email,
+      });
+      clearErrors();
+      notify('success', t('common.changesSaved'));
+      onSaved(updated);
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Drawer isOpen={!!member} onClose={onClose} title={t('memberDrawer.title')}>
+      {member && (
+        <div className="space-y-6">
+          <div className="flex items-center gap-3">
+            <div className={`w-12 h-12 rounded-full flex-shrink-0 flex items-center justify-center font-bold text-white ${member.isVirtual ? 'bg-purple-500' : 'bg-indigo-500'}`}>
+              {member.isVirtual ? <Bot size={22} /> : (member.fullName || member.username).substring(0, 2).toUpperCase()}
+            </div>
+            <div>
+              <div className="font-medium text-slate-900">{member.fullName || t('common.notAvailable')}</div>
+              <div className="text-slate-500 text-xs">{t('memberDrawer.idLine', { username: member.username, id: member.id })}</div>
+            </div>
+          </div>
+
+          <form onSubmit={handleSave}>
+            <fieldset disabled={!canWrite}>
+              <Input label={t('members.create.fullName')} error={fieldErrors.fullName} value={form.fullName} onChange={(e: any) => setForm({...form, fullName: e.target.value})} />
+              <Input label={t('members.create.nickname')} error={fieldErrors.nickname} value={form.nickname} onChange={(e: any) => setForm({...form, nickname: e.target.value})} />
+              <Input label={t('members.create.email')} type="email" required error={fieldErrors.email} value={form.email} onChange={(e: any) => setForm({...form, email: e.target.value})} />
+              <Input label={t('members.create.phone')} type="tel" error={fieldErrors.phone} value={form.phone} onChange={(e: any) => setForm({...form, phone: e.target.value})} />
+            </fieldset>
+            {canWrite && (
+              <div className="flex justify-end">
+                <Button type="submit" disabled={saving}>{saving ? t('common.saving') : t('common.saveChanges')}</Button>
+              </div>
+            )}
+          </form>
+
+          <div className="border-t border-slate-200 pt-6">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-semibold text-slate-700">{t('memberDrawer.status')}</h4>
+              <Badge type={statusBadgeType(member.status)} text={t(`memberStatus.${member.status}`)} />
+            </div>
+            {member.statusReason && <p className="text-xs text-slate-500 mb-3">{t('memberDetail.statusReason', { reason: member.statusReason })}</p>}
+            <Can action="write" resource="members">
+              <div className="flex flex-wrap gap-2">
+                {statusActionsFor(member).map(s => (
+                  <Button key={s} variant="secondary" className="gap-2 text-xs" onClick={() => onChangeStatus(s)}>
+                    {React.createElement(STATUS_ACTIONS[s].icon, { size: 14 })} {t(`statusAction.${s}`)}
+                  </Button>
+                ))}
+              </div>
+            </Can>
+          </div>
+
+          {!member.isVirtual && <MemberMfa member={member} />}
+
+          <MemberAssignments member={member} />
+
+          <Can action="delete" resource="members">
+            <div className="border-t border-slate-200 pt-6">
+              <h4 className="text-sm font-semibold text-slate-700 mb-2">{t('memberDrawer.dangerZone')}</h4>
+              <Button variant="danger" className="gap-2 text-xs" onClick={onDelete}><Trash2 size={14} /> {t('memberDrawer.delete')}</Button>
+            </div>
+          </Can>
+        </div>
+      )}
+    </Drawer>
+  );
+};
+
+const IMPORT_BATCH_SIZE = 25;
+
+const IMPORT_HEADER_ALIASES: Record<string, ImportField> = {
+  username: 'username', user: 'username', login: 'username',
+  email: 'email', mail: 'email', emailaddress: 'email',
+  fullname: 'fullName', name: 'fullName', displayname: 'fullName',
+  nickname: 'nickname', nick: 'nickname',
+  phone: 'phone', mobile: 'phone', phonenumber: 'phone',
+  status: 'status',
+  isvirtual: 'isVirtual', virtual: 'isVirtual',
+  agenttype: 'agentType', type: 'agentType',
+};
+
+const parseImportFile = (name: string, text: string): { headers: string[], rows: Record<string, string>[] } => {
+  if (name.toLowerCase().endsWith('.json') || text.trim().startsWith('[')) {
+    const data = JSON.parse(text);
+    if (!Array.isArray(data)) throw new Error('JSON import must be an array of objects');
+    const headers = Array.from(new Set<string>(data.flatMap((r: any) => Object.keys(r || {}))));
+    const rows = data.map((r: any) => Object.fromEntries(headers.map(h => [h, r?.[h] === undefined || r?.[h] === null ? '' : String(r[h])])));
+    return { headers, rows };
+  }
+  const [headers = [], ...lines] = parseCsv(text);
+  return { headers, rows: lines.map(line => Object.fromEntries(headers.map((h, i) => [h, line[i] ?? '']))) };
+};
+
+const MemberImportWizard = ({ isOpen, onClose, onImported }: { isOpen: boolean, onClose: () => void, onImported: () => void }) => {
+  const [step, setStep] = useState<'upload' | 'map' | 'review' | 'commit'>('upload');
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<Record<string, string>[]>([]);
+  const [mapping, setMapping] = useState<Partial<Record<ImportField, string>>>({});
+  const [errors, setErrors] = useState<ImportRowError[]>([]);
+  const [parseError, setParseError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [failures, setFailures] = useState<{ row: number, error: string }[]>([]);
+  const { notifyError } = useToast();
+  const { t } = useI18n();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setStep('upload');
+    setFileName('');
+    setHeaders([]);
+    setRows([]);
+    setMapping({});
+    setErrors([]);
+    setParseError('');
+    setFailures([]);
+    setProgress({ done: 0, total: 0 });
+  }, [isOpen]);
+
+  const drafts = rows.map(r => toMemberDraft(Object.fromEntries(
+    IMPORT_FIELDS.map(f => [f.key, mapping[f.key] ? r[mapping[f.key]!] : undefined])
+  )));
+  const invalidRows = new Set(errors.map(e => e.row));
+  const validIndexes = drafts.map((_, i) => i).filter(i => !invalidRows.has(i));
+  const missingRequired = IMPORT_FIELDS.filter(f => f.required && !mapping[f.key]);
+
+  const handleFile = async (file: File) => {
+    setParseError('');
+    try {
+      const parsed = parseImportFile(file.name, await file.text());
+      if (parsed.rows.length === 0) throw new Error(t('import.noRows'));
+      setFileName(file.name);
+      setHeaders(parsed.headers);
+      setRows(parsed.rows);
+      const auto: Partial<Record<ImportField, string>> = {};
+      parsed.headers.forEach(h => {
+        const field = IMPORT_HEADER_ALIASES[h.toLowerCase().replace(/[^a-z]/g, '')];
+        if (field && !auto[field]) auto[field] = h;
+      });
+      setMapping(auto);
+      setStep('map');
+    } catch (e: any) {
+      setParseError(e.message || t('import.unreadable'));
+    }
+  };
+
+  const runDryRun = async () => {
+    setBusy(true);
+    try {
+      const res = await api.validateMemberImport({ members: drafts });
+      setErrors(res.errors);
+      setStep('review');
+    } catch (err) {
+      notifyError(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const commit = async () => {
+    setStep('commit');
+    setProgress({ done: 0, total: validIndexes.length });
+    const failed: { row: number, error: string }[] = [];
+    for (let start = 0; start < validIndexes.length; start += IMPORT_BATCH_SIZE) {
+      const batch = validIndexes.slice(start, start + IMPORT_BATCH_SIZE);
+      try {
+        const { results } = await api.createMembersBatch({ members: batch.map(i => drafts[i]) });
+        results.filter(r => r.error).forEach(r => failed.push({ row: batch[r.index], error: r.error! }));
+      } catch (err) {
+        const { message } = toApiError(err);
+        batch.forEach(row => failed.push({ row, error: message }));
+      }
+      setProgress({ done: Math.min(start + IMPORT_BATCH_SIZE, validIndexes.length), total: validIndexes.length });
+      setFailures([...failed]);
+    }
+    onImported();
+  };
+
+  const downloadFailures = () => {
+    const byRow = new Map<number, string[]>();
+    errors.forEach(e => byRow.set(e.row, [...(byRow.get(e.row) || []), e.message]));
+    failures.forEach(f => byRow.set(f.row, [...(byRow.get(f.row) || []), f.error]));
+    const failedRows = Array.from(byRow.keys()).sort((a, b) => a - b).map(i => ({ ...rows[i], error: byRow.get(i)!.join('; ') }));
+    downloadFile(`${fileName.replace(/\.\w+$/, '')}-failures.csv`, toCsv([...headers, 'error'], failedRows), 'text/csv');
+  };
+
+  const done = step === 'commit' && progress.done === progress.total;
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={t('import.title')} wide>
+      {step === 'upload' && (
+        <div className="space-y-4">
+          <label className="flex flex-col items-center justify-center gap-2 p-8 border-2 border-dashed border-slate-300 rounded-lg cursor-pointer hover:bg-slate-50 text-slate-500">
+            <Upload size={28} />
+            <span className="text-sm">{t('import.choose')}</span>
+            <input type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])} />
+          </label>
+          {parseError && <p className="text-sm text-rose-600">{parseError}</p>}
+          <p className="text-xs text-slate-500">{t('import.formatHint', { columns: IMPORT_FIELDS.map(f => f.key).join(', ') })}</p>
+        </div>
+      )}
+
+      {step === 'map' && (
+        <div>
+          <p className="text-sm text-slate-600 mb-4">{t('import.mapIntro', { file: fileName, count: rows.length })}</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+            {IMPORT_FIELDS.map(f => (
+              <Select
+                key={f.key}
+                label={`${t(`import.field.${f.key}`)}${f.required ? ' *' : ''}`}
+                value={mapping[f.key] || ''}
+                onChange={(e: any) => setMapping({ ...mapping, [f.key]: e.target.value || undefined })}
+                options={[{ value: '', label: t('import.notMapped') }, ...headers.map(h => ({ value: h, label: h }))]}
+              />
+            ))}
+          </div>
+          <div className="flex justify-between items-center mt-6">
+            <span className="text-xs text-rose-600">{missingRequired.length > 0 && t('import.missingRequired', { fields: missingRequired.map(f => t(`import.field.${f.key}`)).join(', ') })}</span>
+            <div className="flex gap-3">
+              <Button type="button" variant="secondary" onClick={() => setStep('upload')}>{t('common.back')}</Button>
+              <Button onClick={runDryRun} disabled={busy || missingRequired.length > 0}>{busy ? t('import.validating') : t('import.validate')}</Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {step === 'review' && (
+        <div>
+          <div className="grid grid-cols-3 gap-3 mb-4 text-center">
+            <div className="p-3 bg-slate-50 rounded-lg border border-slate-200"><div className="text-xl font-bold text-slate-700">{rows.length}</div><div className="text-xs text-slate-500">{t('import.rows')}</div></div>
+            <div className="p-3 bg-emerald-50 rounded-lg border border-emerald-100"><div className="text-xl font-bold text-emerald-700">{validIndexes.length}</div><div className="text-xs text-emerald-600">{t('import.ready')}</div></div>
+            <div className="p-3 bg-rose-50 rounded-lg border border-rose-100"><div className="text-xl font-bold text-rose-700">{invalidRows.size}</div><div className="text-xs text-rose-600">{t('import.withErrors')}</div></div>
+          </div>
+          {errors.length > 0 && (
+            <div className="max-h-64 overflow-y-auto border border-slate-200 rounded-md mb-4">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-50 sticky top-0">
+                  <tr><th className="text-left px-3 py-2">{t('import.col.row')}</th><th className="text-left px-3 py-2">{t('import.col.field')}</th><th className="text-left px-3 py-2">{t('import.col.problem')}</th></tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {errors.map((e, i) => (
+                    <tr key={i}><td className="px-3 py-1.5">{e.row + 1}</td><td className="px-3 py-1.5 font-mono">{e.field}</td><td className="px-3 py-1.5 text-rose-700">{e.message}</td></tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {errors.length > 0 && <p className="text-xs text-slate-500 mb-4">{t('import.skippedHint')}</p>}
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="secondary" onClick={() => setStep('map')}>{t('common.back')}</Button>
+            <Button onClick={commit} disabled={validIndexes.length === 0}>{t('import.submit', { count: validIndexes.length })}</Button>
+          </div>
+        </div>
+      )}
+
+      {step === 'commit' && (
+        <div className="space-y-4">
+          <div>
+            <div className="flex justify-between text-sm text-slate-600 mb-1">
+              <span>{done ? t('import.finished') : t('import.importing')}</span>
+              <span>{progress.done} / {progress.total}</span>
+            </div>
+            <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-600 transition-all" style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 100}%` }} />
+            </div>
+          </div>
+          {done && (
+            <p className="text-sm text-slate-600">
+              {t('import.created', { count: progress.total - failures.length })} {failures.length + invalidRows.size > 0 && t('import.failed', { count: failures.length + invalidRows.size })}
+            </p>
+          )}
+          <div className="flex justify-end gap-3">
+            {done && failures.length + invalidRows.size > 0 && (
+              <Button variant="secondary" className="gap-2" onClick={downloadFailures}><Download size={16} /> {t('import.downloadFailures')}</Button>
+            )}
+            <Button onClick={onClose} disabled={!done}>{t('common.close')}</Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+const PAGE_SIZE_OPTIONS = [10, 20, 50, 100];
+
+const SortableHeader = ({ label, field, sort, onSort, className = '' }: {
+  label: string,
+  field: NonNullable<GetMembersQuery['sortBy']>,
+  sort: { by: GetMembersQuery['sortBy'], order: SortOrder },
+  onSort: (field: NonNullable<GetMembersQuery['sortBy']>) => void,
+  className?: string,
+}) => {
+  const Icon = sort.by !== field ? ArrowUpDown : sort.order === 'asc' ? ArrowUp : ArrowDown;
+  return (
+    <th className={`px-6 py-3 font-semibold text-slate-700 ${className}`}>
+      <button onClick={() => onSort(field)} className="inline-flex items-center gap-1 hover:text-indigo-600">
+        {label} <Icon size={14} className={sort.by === field ? 'text-indigo-600' : 'text-slate-400'} />
+      </button>
+    </th>
+  );
+};
+
+type BulkAction = { kind: 'status', status: SettableMemberStatus } | { kind: 'assign' } | { kind: 'delete' };
+
+interface BulkFailure {
+  member: Member;
+  error: string;
+}
+
+// A finished bulk status change, kept for the rest of the browser session so it can be reverted
+interface BulkStatusUndo {
+  status: SettableMemberStatus;
+  changes: { member: Member, status: MemberStatus, reason: string | null }[];
+}
+
+const BULK_PREVIEW_COUNT = 8;
+
+// Applies one call per member in turn; a failure is recorded against its member and the rest carry on
+const forEachMember = async (members: Member[], apply: (member: Member) => Promise<unknown>, onProgress: (done: number) => void) => {
+  const failures: BulkFailure[] = [];
+  for (const [i, member] of members.entries()) {
+    try {
+      await apply(member);
+    } catch (err) {
+      failures.push({ member, error: toApiError(err).message });
+    }
+    onProgress(i + 1);
+  }
+  return failures;
+};
+
+const BulkActionModal = ({ action, resolveTargets, orgs, roles, onClose, onDone }: {
+  action: BulkAction | null,
+  resolveTargets: () => Promise<Member[]>,
+  orgs: OrgUnit[],
+  roles: Role[],
+  onClose: () => void,
+  onDone: (applied: Member[], failures: BulkFailure[]) => void,
+}) => {
+  const [targets, setTargets] = useState<Member[] | null>(null);
+  const [step, setStep] = useState<'confirm' | 'running' | 'done'>('confirm');
+  const [reason, setReason] = useState('');
+  const [form, setForm] = useState({ orgId: '', roleId: '' });
+  const [progress, setProgress] = useState(0);
+  const [failures, setFailures] = useState<BulkFailure[]>([]);
+  const { notifyError } = useToast();
+  const can = useCan();
+  const { t } = useI18n();
+
+  useEffect(() => {
+    if (!action) return;
+    setTargets(null);
+    setStep('confirm');
+    setReason('');
+    setForm({ orgId: '', roleId: '' });
+    setProgress(0);
+    setFailures([]);
+    resolveTargets().then(setTargets).catch(err => { notifyError(err); onClose(); });
+  }, [action]);
+
+  if (!action) return null;
+
+  // Members already in the target status are left alone rather than reported as failures
+  const applicable = (targets || []).filter(m => action.kind !== 'status' || m.status !== action.status);
+  const skipped = (targets?.length || 0) - applicable.length;
+  const roleOptions = form.orgId ? applicableRoles(roles, orgs, Number(form.orgId)) : [];
+  const title = t(`bulk.title.${action.kind === 'status' ? action.status : action.kind}`);
+  const ready = applicable.length > 0 && (action.kind === 'status' ? !!reason.trim() : action.kind === 'assign' ? !!form.orgId : true);
+
+  const run = async () => {
+    setStep('running');
+    const apply = (member: Member) => {
+      switch (action.kind) {
+        case 'status': return api.patchMemberStatus(member.id, { status: action.status, reason: reason.trim() });
+        case 'assign': return api.createAssignment({ memberId: member.id, orgId: Number(form.orgId), roleId: form.roleId ? Number(form.roleId) : null, isPrimary: false });
+        case 'delete': return api.deleteMember(member.id);
+      }
+    };
+    const failed = await forEachMember(applicable, apply, setProgress);
+    setFailures(failed);
+    setStep('done');
+    const failedIds = new Set(failed.map(f => f.member.id));
+    onDone(applicable.filter(m => !failedIds.has(m.id)), failed);
+  };
+
+  return (
+    <Modal isOpen onClose={step === 'running' ? () => {} : onClose} title={title} wide>
+      {!targets ? <p className="text-sm text-slate-500">{t('bulk.loading')}</p> : step === 'confirm' ? (
+        <div className="space-y-4">
+          <p className="text-sm text-slate-600">
+            {t(`bulk.confirm.${action.kind}`, { count: applicable.length, status: action.kind === 'status' ? t(`memberStatus.${action.status}`) : '' })}
+            {action.kind === 'status' && skipped > 0 && ` ${t('bulk.skipped', { count: skipped, status: t(`memberStatus.${action.status}`) })}`}
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {applicable.slice(0, BULK_PREVIEW_COUNT).map(m => (
+              <span key={m.id} className="text-xs bg-slate-100 px-2 py-1 rounded text-slate-600">@{m.username}</span>
+            ))}
+            {applicable.length > BULK_PREVIEW_COUNT && <span className="text-xs px-2 py-1 text-slate-500">{t('bulk.more', { count: applicable.length - BULK_PREVIEW_COUNT })}</span>}
+          </div>
+          {action.kind === 'status' && (
+            <TextArea label={t('common.reason')} required value={reason} onChange={(e: any) => setReason(e.target.value)} placeholder={t('bulk.reasonPlaceholder')} />
+          )}
+          {action.kind === 'assign' && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+              <Select
+                label={t('common.orgUnit')}
+                required
+                value={form.orgId}
+                onChange={(e: any) => setForm({ orgId: e.target.value, roleId: '' })}
+                options={[{ value: '', label: t('common.selectUnit') }, ...orgs.filter(o => can('assign', 'roles', o.id)).map(o => ({ value: o.id, label: orgPathLabel(orgs, o.id) }))]}
+              />
+              <Select
+                label={t('common.role')}
+                value={form.roleId}
+                disabled={!form.orgId}
+                onChange={(e: any) => setForm({ ...form, roleId: e.target.value })}
+                options={[{ value: '', label: t('common.noRole') }, ...roleOptions.map(r => ({ value: r.id, label: r.name }))]}
+              />
+            </div>
+          )}
+          <div className="flex justify-end gap-3 mt-6">
+            <Button type="button" variant="secondary" onClick={onClose}>{t('common.cancel')}</Button>
+            <Button variant={action.kind === 'assign' || (action.kind === 'status' && action.status === 'active') ? 'primary' : 'danger'} onClick={run} disabled={!ready}>
+              {t('common.confirm')}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div>
+            <div className="flex justify-between text-sm text-slate-600 mb-1">
+              <span>{step === 'done' ? t('common.finished') : t('common.working')}</span>
+              <span>{progress} / {applicable.length}</span>
+            </div>
+            <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-600 transition-all" style={{ width: `${applicable.length ? (progress / applicable.length) * 100 : 100}%` }} />
+            </div>
+          </div>
+          {step === 'done' && (
+            <>
+              <p className="text-sm text-slate-600">
+                {failures.length > 0
+                  ? t('bulk.succeededFailed', { succeeded: applicable.length - failures.length, failed: failures.length })
+                  : t('bulk.succeeded', { count: applicable.length })}
+              </p>
+              {failures.length > 0 && (
+                <ul className="max-h-48 overflow-y-auto divide-y divide-slate-100 border border-rose-200 rounded-md text-sm">
+                  {failures.map(f => (
+                    <li key={f.member.id} className="px-3 py-2 flex justify-between gap-3">
+                      <span className="font-medium text-slate-900">@{f.member.username}</span>
+                      <span className="text-rose-600 text-right">{f.error}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex justify-end">
+                <Button onClick={onClose}>{t('common.close')}</Button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+// Query-string keys of the member filters; a saved view is these plus the sort, so any view round-trips through a link
+const MEMBER_FILTER_KEYS = ['q', 'status', 'type', 'agentType', 'org', 'role', 'createdFrom', 'createdTo', 'updatedFrom', 'updatedTo', 'hasPhone', 'hasNickname'] as const;
+type MemberFilterKey = typeof MEMBER_FILTER_KEYS[number];
+type MemberFilters = Partial<Record<MemberFilterKey, string>>;
+
+interface SavedMemberView {
+  id: string;
+  name: string;
+  // e.g. status=suspended&type=agent&agentType=bot&org=11&sort=name&order=asc
+  query: string;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const toMemberSearch = (f: MemberFilters): MemberSearch => ({
+  status: f.status && f.status !== 'all' ? f.status as MemberStatus : undefined,
+  keyword: f.q || undefined,
+  isVirtual: f.type ? f.type === 'agent' : undefined,
+  agentType: f.agentType || undefined,
+  orgId: f.org ? Number(f.org) : undefined,
+  roleId: f.role ? Number(f.role) : undefined,
+  createdFrom: f.createdFrom ? dayStart(f.createdFrom) : undefined,
+  createdTo: f.createdTo ? dayEnd(f.createdTo) : undefined,
+  updatedFrom: f.updatedFrom ? dayStart(f.updatedFrom) : undefined,
+  updatedTo: f.updatedTo ? dayEnd(f.updatedTo) : undefined,
+  hasPhone: f.hasPhone ? f.hasPhone === 'true' : undefined,
+  hasNickname: f.hasNickname ? f.hasNickname === 'true' : undefined,
+});
+
+const memberFilterLabel = (key: MemberFilterKey, value: string, orgs: OrgUnit[], roles: Role[], { t, formatDate }: I18nContextValue) => {
+  const day = (v: string) => formatDate(`${v}T00:00:00`);
+  switch (key) {
+    case 'q': return `"${value}"`;
+    case 'status': return t('members.chip.status', { value: t(`memberStatus.${value as MemberStatus}`) });
+    case 'type': return value === 'agent' ? t('members.agents') : t('members.humans');
+    case 'agentType': return t('members.chip.agentType', { value: AGENT_TYPES.includes(value as AgentType) ? t(`agentType.${value as AgentType}`) : value });
+    case 'org': return t('members.chip.org', { value: orgPathLabel(orgs, Number(value)) || `#${value}` });
+    case 'role': return t('members.chip.role', { value: roles.find(r => r.id === Number(value))?.name || `#${value}` });
+    case 'createdFrom': return t('members.chip.createdFrom', { value: day(value) });
+    case 'createdTo': return t('members.chip.createdTo', { value: day(value) });
+    case 'updatedFrom': return t('members.chip.updatedFrom', { value: day(value) });
+    case 'updatedTo': return t('members.chip.updatedTo', { value: day(value) });
+    case 'hasPhone': return value === 'true' ? t('members.chip.hasPhone') : t('members.chip.noPhone');
+    case 'hasNickname': return value === 'true' ? t('members.chip.hasNickname') : t('members.chip.noNickname');
+  }
+};
+
+const MemberFilterPanel = ({ filters, orgs, roles, onChange }: {
+  filters: MemberFilters,
+  orgs: OrgUnit[],
+  roles: Role[],
+  onChange: (patch: MemberFilters) => void,
+}) => {
+  const { t } = useI18n();
+  const presenceOptions = [{ value: '', label: t('common.any') }, { value: 'true', label: t('common.yes') }, { value: 'false', label: t('common.no') }];
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-x-4 pt-4 border-t border-slate-100">
+      <Select
+        label={t('members.filter.agentType')}
+        value={filters.agentType || ''}
+        disabled={filters.type === 'human'}
+        onChange={(e: any) => onChange({ agentType: e.target.value })}
+        options={[{ value: '', label: t('common.any') }, ...AGENT_TYPES.map(type => ({ value: type, label: t(`agentType.${type}`) }))]}
+      />
+      <Select
+        label={t('members.filter.org')}
+        value={filters.org || ''}
+        onChange={(e: any) => onChange({ org: e.target.value })}
+        options={[{ value: '', label: t('members.filter.anyOrg') }, ...orgs.map(o => ({ value: o.id, label: orgPathLabel(orgs, o.id) }))]}
+      />
+      <Select
+        label={t('members.filter.role')}
+        value={filters.role || ''}
+        onChange={(e: any) => onChange({ role: e.target.value })}
+        options={[{ value: '', label: t('members.filter.anyRole') }, ...roles.map(r => ({ value: r.id, label: r.name }))]}
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <Select label={t('members.filter.hasPhone')} value={filters.hasPhone || ''} onChange={(e: any) => onChange({ hasPhone: e.target.value })} options={presenceOptions} />
+        <Select label={t('members.filter.hasNickname')} value={filters.hasNickname || ''} onChange={(e: any) => onChange({ hasNickname: e.target.value })} options={presenceOptions} />
+      </div>
+      <Input label={t('members.filter.createdFrom')} type="date" value={filters.createdFrom || ''} max={filters.createdTo} onChange={(e: any) => onChange({ createdFrom: e.target.value })} />
+      <Input label={t('members.filter.createdTo')} type="date" value={filters.createdTo || ''} min={filters.createdFrom} onChange={(e: any) => onChange({ createdTo: e.target.value })} />
+      <Input label={t('members.filter.updatedFrom')} type="date" value={filters.updatedFrom || ''} max={filters.updatedTo} onChange={(e: any) => onChange({ updatedFrom: e.target.value })} />
+      <Input label={t('members.filter.updatedTo')} type="date" value={filters.updatedTo || ''} min={filters.updatedFrom} onChange={(e: any) => onChange({ updatedTo: e.target.value })} />
+    </div>
+  );
+};
+
+const SaveViewModal = ({ isOpen, initialName, onClose, onSave }: { isOpen: boolean, initialName: string, onClose: () => void, onSave: (name: string) => void }) => {
+  const [name, setName] = useState('');
+  const { t } = useI18n();
+
+  useEffect(() => {
+    if (isOpen) setName(initialName);
+  }, [isOpen]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (name.trim()) onSave(name.trim());
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={t('members.saveView.title')}>
+      <form onSubmit={handleSubmit}>
+        <Input label={t('members.saveView.name')} required autoFocus value={name} onChange={(e: any) => setName(e.target.value)} placeholder={t('members.saveView.placeholder')} />
+        <p className="text-xs text-slate-500 -mt-2 mb-4">{t('members.saveView.hint')}</p>
+        <div className="flex justify-end gap-3 mt-6">
+          <Button type="button" variant="secondary" onClick={onClose}>{t('common.cancel')}</Button>
+          <Button type="submit" disabled={!name.trim()}>{t('members.saveView.submit')}</Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+const MembersPage = () => {
+  const [members, setMembers] = useState<Member[]>([]);
+  const [meta, setMeta] = useState<PageMeta | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [params, setParams] = useSearchParams();
+  const [savedFilter, saveFilter] = usePreference('members.status', 'all');
+  const [pageSize, setPageSize] = usePreference('members.pageSize', 20);
+  const [savedSort, saveSort] = usePreference<{ by: GetMembersQuery['sortBy'], order: SortOrder }>('members.sort', { by: 'createdAt', order: 'desc' });
+  const [views, setViews] = usePreference<SavedMemberView[]>('members.views', []);
+  // The query string wins so a shared link opens the same view; a bare /members falls back to the tenant's last choice
+  const filters: MemberFilters = {
+    ...Object.fromEntries(MEMBER_FILTER_KEYS.map(key => [key, params.get(key) || undefined])),
+    status: params.get('status') || savedFilter,
+  };
+  const filter = filters.status!;
+  const type = filters.type || 'all';
+  const search = filters.q || '';
+  const page = Math.max(1, parseInt(params.get('page') || '1') || 1);
+  const sort = params.get('sort')
+    ? { by: params.get('sort') as GetMembersQuery['sortBy'], order: (params.get('order') === 'asc' ? 'asc' : 'desc') as SortOrder }
+    : savedSort;
+  const memberSearch = toMemberSearch(filters);
+  const viewQuery = new URLSearchParams([
+    ...MEMBER_FILTER_KEYS.filter(key => filters[key]).map(key => [key, filters[key]!]),
+    ['sort', sort.by!], ['order', sort.order],
+  ]).toString();
+  const activeView = views.find(v => v.query === viewQuery);
+  const advancedKeys = MEMBER_FILTER_KEYS.filter(key => key !== 'q' && key !== 'status' && key !== 'type' && filters[key]);
+  const [searchInput, setSearchInput] = useState(search);
+  const [filtersOpen, setFiltersOpen] = useState(false);
+  const [saveViewOpen, setSaveViewOpen] = useState(false);
+  const [orgs, setOrgs] = useState<OrgUnit[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  // Picked rows survive paging; `allMatching` stands for every member the filters match, resolved when an action runs
+  const [selection, setSelection] = useState<Map<number, Member>>(new Map());
+  const [allMatching, setAllMatching] = useState(false);
+  const [bulkAction, setBulkAction] = useState<BulkAction | null>(null);
+  const undoKey = `members.undo:${api.getTenantId()}`;
+  const [undo, setUndoState] = useState<BulkStatusUndo | null>(() => JSON.parse(sessionStorage.getItem(undoKey) || 'null'));
+  const [undoing, setUndoing] = useState(false);
+  const [isCreateOpen, setCreateOpen] = useState(false);
+  const [isImportOpen, setImportOpen] = useState(false);
+  const [selected, setSelected] = useState<Member | null>(null);
+  const [statusChange, setStatusChange] = useState<{ member: Member, status: SettableMemberStatus } | null>(null);
+  const [deleting, setDeleting] = useState<Member | null>(null);
+  // The tenant's member policy shapes the Add Member form: defaults, required fields and agent types
+  const [policy, setPolicy] = useState<TenantSettings | null>(null);
+  const [newMember, setNewMember] = useState({ 
+    username: '', fullName: '', nickname: '', email: '', phone: '', isVirtual: false, agentType: 'llm', status: 'active' 
+  });
+  const i18n = useI18n();
+  const { t, formatDate, formatNumber } = i18n;
+  const agentTypeOptions = AGENT_TYPES
+    .filter(type => !policy || policy.allowedAgentTypes.includes(type))
+    .map(type => ({ value: type, label: t(`agentType.${type}`) }));
+  const isRequired = (field: RequirableMemberField) => !!policy?.requiredMemberFields.includes(field);
+  const { fieldErrors, handleError, clearErrors } = useFormErrors();
+  const { notify, notifyError } = useToast();
+  const can = useCan();
+
+  const setPage = (next: number, replace = false) => setParams({ page: next > 1 ? next : null }, { replace });
+
+  // Only the newest request may write, so a slow response for an older query can't overwrite a newer one
+  const latest = useRef(0);
+  const fetchMembers = async () => {
+    const request = ++latest.current;
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await api.getMembers({
+        ...memberSearch,
+        page,
+        pageSize,
+        sortBy: sort.by,
+        sortOrder: sort.order,
+      });
+      if (request !== latest.current) return;
+      setMembers(res.data);
+      setMeta(res.meta || null);
+      // Keep selected rows current so bulk summaries and undo see the latest status
+      setSelection(prev => new Map(Array.from(prev, ([id, m]) => [id, res.data.find(r => r.id === id) || m])));
+      // Deleting the last row of the last page leaves us past the end
+      if (res.meta && page > res.meta.totalPages) setPage(res.meta.totalPages, true);
+    } catch (err) {
+      if (request === latest.current) setError(toApiError(err));
+    } finally {
+      if (request === latest.current) setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchMembers();
+  }, [viewQuery, page, pageSize]);
+
+  // A selection only makes sense against the filters it was made under
+  useEffect(() => {
+    clearSelection();
+  }, [viewQuery]);
+
+  // Filter options and chip labels; the list itself doesn't depend on them
+  useEffect(() => {
+    api.getOrgs().then(res => setOrgs(res.data)).catch(notifyError);
+    api.getRoles().then(res => setRoles(res.data)).catch(notifyError);
+    api.getTenantSettings().then(setPolicy).catch(notifyError);
+  }, []);
+
+  // Back/forward can change the applied keyword under the input
+  useEffect(() => {
+    setSearchInput(search);
+  }, [search]);
+
+  // Typing searches after a pause; replacing the history entry keeps Back from stepping through every keystroke
+  useEffect(() => {
+    if (searchInput === search) return;
+    const timer = setTimeout(() => setParams({ q: searchInput, page: null }, { replace: true }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  // Quick edits happen in the drawer without leaving the list; the full profile lives at /members/:id
+  const openMember = (member: Member) => setSelected(member);
+
+  const closeMember = () => setSelected(null);
+
+  const handleSearch = () => {
+    if (searchInput === search && page === 1) fetchMembers();
+    else setParams({ q: searchInput, page: null });
+  };
+
+  const handleFilter = (status: string) => {
+    saveFilter(status);
+    setParams({ status, page: null });
+  };
+
+  const updateFilters = (patch: MemberFilters) => setParams({ ...patch, page: null });
+
+  const removeFilter = (key: MemberFilterKey) => key === 'status' ? handleFilter('all') : updateFilters({ [key]: '' });
+
+  const clearFilters = () => {
+    saveFilter('all');
+    setParams({ ...Object.fromEntries(MEMBER_FILTER_KEYS.map(key => [key, null])), status: 'all', page: null });
+  };
+
+  const saveView = (name: string) => {
+    const view = { id: activeView?.id || Date.now().toString(36), name, query: viewQuery };
+    setViews(prev => [...prev.filter(v => v.id !== view.id && v.name.toLowerCase() !== name.toLowerCase()), view]);
+    setSaveViewOpen(false);
+    notify('success', t('members.viewSaved', { name }));
+  };
+
+  const deleteView = (view: SavedMemberView) => setViews(prev => prev.filter(v => v.id !== view.id));
+
+  const clearSelection = () => {
+    setSelection(new Map());
+    setAllMatching(false);
+  };
+
+  const pageSelected = members.length > 0 && members.every(m => selection.has(m.id));
+  const selectedCount = allMatching ? meta?.total ?? selection.size : selection.size;
+
+  const togglePage = () => {
+    const next = new Map(selection);
+    members.forEach(m => pageSelected ? next.delete(m.id) : next.set(m.id, m));
+    setSelection(next);
+  };
+
+  const toggleRow = (member: Member) => {
+    const next = new Map(selection);
+    next.has(member.id) ? next.delete(member.id) : next.set(member.id, member);
+    setSelection(next);
+  };
+
+  const resolveSelection = () => allMatching ? fetchAllMembers(memberSearch) : Promise.resolve(Array.from<Member>(selection.values()));
+
+  const setUndo = (next: BulkStatusUndo | null) => {
+    if (next) sessionStorage.setItem(undoKey, JSON.stringify(next));
+    else sessionStorage.removeItem(undoKey);
+    setUndoState(next);
+  };
+
+  const handleBulkDone = (applied: Member[], failures: BulkFailure[]) => {
+    if (bulkAction?.kind === 'status' && applied.length) {
+      setUndo({ status: bulkAction.status, changes: applied.map(m => ({ member: m, status: m.status, reason: m.statusReason ?? null })) });
+    }
+    if (!failures.length) notify('success', t('members.bulk.updated', { count: applied.length }));
+    clearSelection();
+    fetchMembers();
+  };
+
+  const undoStatusChange = async () => {
+    if (!undo) return;
+    setUndoing(true);
+    const failures = await forEachMember(undo.changes.map(c => c.member), member => {
+      const previous = undo.changes.find(c => c.member.id === member.id)!;
+      return api.patchMemberStatus(member.id, { status: previous.status, reason: previous.reason || `Reverted bulk change to ${undo.status}` });
+    }, () => {});
+    setUndoing(false);
+    if (failures.length) {
+      const failedIds = new Set(failures.map(f => f.member.id));
+      setUndo({ ...undo, changes: undo.changes.filter(c => failedIds.has(c.member.id)) });
+      notify('error', t('members.undo.failed', { list: failures.map(f => `@${f.member.username} (${f.error})`).join(', ') }));
+    } else {
+      setUndo(null);
+      notify('success', t('members.undo.reverted', { count: undo.changes.length }));
+    }
+    fetchMembers();
+  };
+
+  const copyViewLink = () =>
+    navigator.clipboard.writeText(`${window.location.origin}/members?${viewQuery}`)
+      .then(() => notify('success', t('members.linkCopied')))
+      .catch(notifyError);
+
+  const handleSort = (field: NonNullable<GetMembersQuery['sortBy']>) => {
+    const next = { by: field, order: (sort.by === field && sort.order === 'asc' ? 'desc' : 'asc') as SortOrder };
+    saveSort(next);
+    setParams({ sort: next.by, order: next.order, page: null });
+  };
+
+  const openCreate = () => {
+    clearErrors();
+    setNewMember({
+      username: '', fullName: '', nickname: '', email: '', phone: '', isVirtual: false,
+      agentType: agentTypeOptions[0]?.value || '',
+      status: policy?.defaultMemberStatus || 'active',
+    });
+    setCreateOpen(true);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const created = await api.createMember({
+        ...newMember,
+        status: newMember.status as MemberStatus,
+        nickname: newMember.nickname || null,
+        phone: newMember.phone || null,
+        agentType: newMember.isVirtual ? newMember.agentType : null,
+      });
+      notify('success', t('members.create.done', { username: created.username }));
+      setCreateOpen(false);
+      fetchMembers();
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const handleStatusDone = () => {
+    setStatusChange(null);
+    closeMember();
+    fetchMembers();
+  };
+
+  const handleDeleteDone = () => {
+    setDeleting(null);
+    closeMember();
+    fetchMembers();
+  };
+
+  const rowActions = (member: Member) => [
+    { label: can('write', 'members') ? t('members.action.viewEdit') : t('members.action.view'), icon: Pencil, onClick: () => openMember(member) },
+    { label: t('members.action.openProfile'), icon: FileText, onClick: () => navigate(`/members/${member.id}`) },
+    ...statusActionsFor(member)
+      .filter(() => can('write', 'members'))
+      .map(s => ({ ...STATUS_ACTIONS[s], label: t(`statusAction.${s}`), onClick: () => setStatusChange({ member, status: s }) })),
+    ...(can('delete', 'members') ? [{ label: t('members.action.delete'), icon: Trash2, danger: true, onClick: () => setDeleting(member) }] : []),
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <h1 className="text-2xl font-bold text-slate-900">{t('members.title')}</h1>
+        <div className="flex gap-2 w-full sm:w-auto">
+          <ExportMenu onExport={(format) => exportDirectory(format, 'members', memberSearch)} />
+          <Can action="write" resource="members">
+            <Button variant="secondary" onClick={() => setImportOpen(true)} className="gap-2 flex-1 sm:flex-none">
+              <Upload size={18} /> <span className="sm:inline">{t('members.import')}</span>
+            </Button>
+            <Button onClick={openCreate} className="gap-2 flex-1 sm:flex-none">
+              <Plus size={18} /> <span className="sm:inline">{t('members.add')}</span>
+            </Button>
+          </Can>
+        </div>
+      </div>
+
+      {/* Saved views */}
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="flex items-center gap-1 text-slate-500"><Bookmark size={14} /> {t('members.views')}</span>
+        {views.length === 0 && <span className="text-slate-400">{t('members.noViews')}</span>}
+        {views.map(view => (
+          <span
+            key={view.id}
+            className={`inline-flex items-center gap-1 pl-3 pr-1 py-1 rounded-full border ${view === activeView ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-slate-200 text-slate-600 hover:border-indigo-300'}`}
+          >
+            <button onClick={() => navigate(`/members?${view.query}`)}>{view.name}</button>
+            <button onClick={() => deleteView(view)} className="p-0.5 text-slate-400 hover:text-rose-600" title={t('members.deleteView')}><X size={12} /></button>
+          </span>
+        ))}
+        <div className="flex items-center gap-3 ml-auto">
+          <button onClick={() => setSaveViewOpen(true)} className="text-indigo-600 hover:underline">{activeView ? t('members.renameView') : t('members.saveView')}</button>
+          <button onClick={copyViewLink} className="flex items-center gap-1 text-slate-500 hover:text-indigo-600" title={t('members.copyLinkHint')}>
+            <Link2 size={14} /> {t('members.copyLink')}
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white p-4 rounded-lg border border-slate-200 shadow-sm space-y-4">
+        <div className="flex flex-col sm:flex-row gap-4 items-center">
+          <div className="relative flex-1 w-full">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
+            <input 
+              className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+              placeholder={t('members.searchPlaceholder')}
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+            />
+          </div>
+          <div className="flex items-center gap-2 w-full sm:w-auto">
+            <Filter size={18} className="text-slate-500 flex-shrink-0" />
+            <select 
+              className="w-full sm:w-auto px-3 py-2 border border-slate-300 rounded-md focus:ring-indigo-500 text-sm"
+              value={filter}
+              onChange={(e) => handleFilter(e.target.value)}
+            >
+              <option value="all">{t('members.allStatus')}</option>
+              <option value="active">{t('memberStatus.active')}</option>
+              <option value="inactive">{t('memberStatus.inactive')}</option>
+              <option value="suspended">{t('memberStatus.suspended')}</option>
+              <option value="pending">{t('memberStatus.pending')}</option>
+            </select>
+            <select
+              className="w-full sm:w-auto px-3 py-2 border border-slate-300 rounded-md focus:ring-indigo-500 text-sm"
+              value={type}
+              onChange={(e) => setParams({ type: e.target.value !== 'all' ? e.target.value : null, page: null })}
+            >
+              <option value="all">{t('members.allTypes')}</option>
+              <option value="human">{t('members.humans')}</option>
+              <option value="agent">{t('members.agents')}</option>
+            </select>
+            <button
+              onClick={() => setFiltersOpen(!filtersOpen)}
+              className={`flex items-center gap-2 px-3 py-2 border rounded-md text-sm whitespace-nowrap ${filtersOpen || advancedKeys.length ? 'border-indigo-300 text-indigo-700 bg-indigo-50' : 'border-slate-300 text-slate-600 hover:bg-slate-50'}`}
+            >
+              <SlidersHorizontal size={16} /> {advancedKeys.length > 0 ? t('members.moreCount', { count: advancedKeys.length }) : t('members.more')}
+            </button>
+          </div>
+        </div>
+        {filtersOpen && <MemberFilterPanel filters={filters} orgs={orgs} roles={roles} onChange={updateFilters} />}
+        {(filter !== 'all' || filters.type || advancedKeys.length > 0) && (
+          <div className="flex flex-wrap items-center gap-2">
+            {MEMBER_FILTER_KEYS.filter(key => key !== 'q' && filters[key] && !(key === 'status' && filter === 'all')).map(key => (
+              <span key={key} className="inline-flex items-center gap-1 pl-2 pr-1 py-0.5 rounded bg-slate-100 text-xs text-slate-700">
+                {memberFilterLabel(key, filters[key]!, orgs, roles, i18n)}
+                <button onClick={() => removeFilter(key)} className="p-0.5 text-slate-400 hover:text-rose-600" title={t('members.filter.remove')}><X size={12} /></button>
+              </span>
+            ))}
+            <button onClick={clearFilters} className="text-xs text-indigo-600 hover:underline">{t('common.clearAll')}</button>
+          </div>
+        )}
+      </div>
+
+      {undo && (
+        <div className="p-3 rounded-md bg-indigo-50 border border-indigo-200 text-sm text-indigo-800 flex justify-between items-center gap-3">
+          <span>{t('members.undo.banner', { count: undo.changes.length, status: t(`memberStatus.${undo.status}`) })}</span>
+          <div className="flex items-center gap-3">
+            <button onClick={undoStatusChange} disabled={undoing} className="font-medium hover:underline disabled:opacity-50">{undoing ? t('members.undo.undoing') : t('members.undo.undo')}</button>
+            <button onClick={() => setUndo(null)} className="text-indigo-400 hover:text-indigo-600" title={t('common.dismiss')}><X size={16} /></button>
+          </div>
+        </div>
+      )}
+
+      {/* Bulk actions */}
+      {selectedCount > 0 && (
+        <div className="bg-indigo-50 border border-indigo-200 rounded-lg px-4 py-2 flex flex-wrap items-center gap-3 text-sm">
+          <span className="font-medium text-indigo-800">{t('members.bulk.selected', { count: formatNumber(selectedCount) })}</span>
+          {!allMatching && pageSelected && meta && meta.total > selection.size && (
+            <button onClick={() => setAllMatching(true)} className="text-indigo-600 hover:underline">{t('members.bulk.selectAll', { count: formatNumber(meta.total) })}</button>
+          )}
+          <button onClick={clearSelection} className="text-slate-500 hover:underline">{t('members.bulk.clear')}</button>
+          <div className="flex flex-wrap items-center gap-2 ml-auto">
+            <Can action="write" resource="members">
+              <DropdownMenu
+                triggerClassName="inline-flex items-center gap-1 px-3 py-1.5 text-xs font-medium rounded-md bg-white text-slate-700 border border-slate-300 hover:bg-slate-50"
+                trigger={<>{t('members.bulk.changeStatus')} <ChevronDown size={14} /></>}
+                items={(Object.keys(STATUS_ACTIONS) as SettableMemberStatus[]).map(s => ({ ...STATUS_ACTIONS[s], label: t(`statusAction.${s}`), onClick: () => setBulkAction({ kind: 'status', status: s }) }))}
+              />
+            </Can>
+            <Can action="assign" resource="roles">
+              <Button variant="secondary" className="gap-1 px-3 py-1.5 text-xs" onClick={() => setBulkAction({ kind: 'assign' })}><Building2 size={14} /> {t('members.bulk.assign')}</Button>
+            </Can>
+            <ExportMenu onExport={async (format) => exportDirectory(format, 'members', allMatching ? memberSearch : await resolveSelection())} />
+            <Can action="delete" resource="members">
+              <Button variant="danger" className="gap-1 px-3 py-1.5 text-xs" onClick={() => setBulkAction({ kind: 'delete' })}><Trash2 size={14} /> {t('members.bulk.delete')}</Button>
+            </Can>
+          </div>
+        </div>
+      )}
+
+      {/* Table */}
+      <div className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm whitespace-nowrap">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="pl-6 py-3 w-4">
+                  <input
+                    type="checkbox"
+                    aria-label={t('members.selectPage')}
+                    checked={allMatching || pageSelected}
+                    disabled={allMatching || members.length === 0}
+                    onChange={togglePage}
+                    className="rounded text-indigo-600"
+                  />
+                </th>
+                <SortableHeader label={t('members.col.user')} field="name" sort={sort} onSort={handleSort} />
+                <th className="px-6 py-3 font-semibold text-slate-700">{t('members.col.type')}</th>
+                <SortableHeader label={t('members.col.status')} field="status" sort={sort} onSort={handleSort} />
+                <SortableHeader label={t('members.col.createdAt')} field="createdAt" sort={sort} onSort={handleSort} />
+                <th className="px-6 py-3 font-semibold text-slate-700 text-right">{t('members.col.actions')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {loading ? (
+                <tr><td colSpan={6} className="p-8 text-center text-slate-500">{t('members.loading')}</td></tr>
+              ) : error ? (
+                <tr><td colSpan={6}><ErrorState error={error} onRetry={fetchMembers} /></td></tr>
+              ) : members.length === 0 ? (
+                <tr><td colSpan={6} className="p-8 text-center text-slate-500">{t('members.empty')}</td></tr>
+              ) : (
+                members.map((member) => (
+                  <tr key={member.id} className={`transition-colors ${allMatching || selection.has(member.id) ? 'bg-indigo-50/50' : 'hover:bg-slate-50'}`}>
+                    <td className="pl-6 py-4">
+                      <input
+                        type="checkbox"
+                        aria-label={t('members.selectRow', { username: member.username })}
+                        checked={allMatching || selection.has(member.id)}
+                        disabled={allMatching}
+                        onChange={() => toggleRow(member)}
+                        className="rounded text-indigo-600"
+                      />
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex items-center gap-3">
+                        <div className={`w-10 h-10 rounded-full flex-shrink-0 flex items-center justify-center font-bold text-white ${member.isVirtual ? 'bg-purple-500' : 'bg-indigo-500'}`}>
+                          {member.isVirtual ? <Bot size={20} /> : (member.fullName || member.username).substring(0, 2).toUpperCase()}
+                        </div>
+                        <div>
+                          <div><Link to={`/members/${member.id}`} className="font-medium text-slate-900 hover:text-indigo-600 hover:underline">{member.fullName || t('common.notAvailable')}</Link></div>
+                          <div className="text-slate-500 text-xs">@{member.username}</div>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4">
+                      {member.isVirtual ? (
+                        <Badge type="neutral" text={t('members.typeAgent', { type: member.agentType || t('members.typeUnknown') })} />
+                      ) : (
+                        <Badge type="neutral" text={t('members.typeHuman')} />
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      <Badge 
+                        type={statusBadgeType(member.status)} 
+                        text={t(`memberStatus.${member.status}`).toUpperCase()} 
+                      />
+                    </td>
+                    <td className="px-6 py-4 text-slate-500">
+                      {formatDate(member.createdAt)}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      <DropdownMenu trigger={<MoreVertical size={18} />} items={rowActions(member)} />
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+        
+        {/* Pagination */}
+        <div className="px-6 py-3 border-t border-slate-200 flex flex-col sm:flex-row items-center justify-between gap-4">
+          <span className="text-sm text-slate-500">
+            {meta && meta.total > 0
+              ? t('common.showingRange', { from: formatNumber((meta.page - 1) * meta.pageSize + 1), to: formatNumber((meta.page - 1) * meta.pageSize + members.length), total: formatNumber(meta.total) })
+              : t('common.showingCount', { count: members.length })}
+          </span>
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-slate-500">
+              {t('common.rowsPerPage')}
+              <select
+                className="px-2 py-1 border border-slate-300 rounded-md focus:ring-indigo-500 text-sm"
+                value={pageSize}
+                onChange={(e) => { setPageSize(Number(e.target.value)); setPage(1); }}
+              >
+                {PAGE_SIZE_OPTIONS.map(size => <option key={size} value={size}>{size}</option>)}
+              </select>
+            </label>
+            <span className="text-sm text-slate-500">{t('common.pageOf', { page: meta?.page || page, total: meta?.totalPages || 1 })}</span>
+            <div className="flex gap-1">
+              <button className="p-1 border rounded hover:bg-slate-50 disabled:opacity-50" disabled={loading || page <= 1} onClick={() => setPage(page - 1)}><ChevronLeft size={16} /></button>
+              <button className="p-1 border rounded hover:bg-slate-50 disabled:opacity-50" disabled={loading || !meta || page >= meta.totalPages} onClick={() => setPage(page + 1)}><ChevronRight size={16} /></button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Create Modal */}
+      <Modal isOpen={isCreateOpen} onClose={() => setCreateOpen(false)} title={t('members.create.title')}>
+        <form onSubmit={handleCreate} className="space-y-4">
+          <Input
+            label={t('members.create.username')}
+            required
+            error={fieldErrors.username}
+            hint={policy?.usernamePattern && t('members.create.usernameHint', { pattern: policy.usernamePattern })}
+            value={newMember.username}
+            onChange={(e:any) => setNewMember({...newMember, username: e.target.value})}
+          />
+          <Input label={t('members.create.fullName')} required={isRequired('fullName')} error={fieldErrors.fullName} value={newMember.fullName} onChange={(e:any) => setNewMember({...newMember, fullName: e.target.value})} />
+          <Input label={t('members.create.nickname')} required={isRequired('nickname')} error={fieldErrors.nickname} value={newMember.nickname} onChange={(e:any) => setNewMember({...newMember, nickname: e.target.value})} />
+          <Input
+            label={t('members.create.email')}
+            type="email"
+            required
+            error={fieldErrors.email}
+            hint={policy?.emailDomains.length ? t('members.create.emailHint', { domains: policy.emailDomains.map(d => `@${d}`).join(', ') }) : undefined}
+            value={newMember.email}
+            onChange={(e:any) => setNewMember({...newMember, email: e.target.value})}
+          />
+          <Input label={t('members.create.phone')} type="tel" required={isRequired('phone')} error={fieldErrors.phone} value={newMember.phone} onChange={(e:any) => setNewMember({...newMember, phone: e.target.value})} />
+          
+          {agentTypeOptions.length > 0 && (
+            <div className="flex items-center gap-2 mb-4">
+              <input 
+                type="checkbox" 
+                id="isVirtual" 
+                checked={newMember.isVirtual} 
+                onChange={(e) => setNewMember({...newMember, isVirtual: e.target.checked})}
+                className="rounded text-indigo-600 focus:ring-indigo-500"
+              />
+              <label htmlFor="isVirtual" className="text-sm text-slate-700 select-none">{t('members.create.isVirtual')}</label>
+            </div>
+          )}
+
+          {newMember.isVirtual && (
+            <Select 
+              label={t('members.create.agentType')} 
+              error={fieldErrors.agentType}
+              value={newMember.agentType} 
+              onChange={(e:any) => setNewMember({...newMember, agentType: e.target.value})}
+              options={agentTypeOptions}
+            />
+          )}
+
+          <Select 
+            label={t('members.create.status')} 
+            value={newMember.status} 
+            onChange={(e:any) => setNewMember({...newMember, status: e.target.value})}
+            options={[
+              { value: 'active', label: t('memberStatus.active') },
+              { value: 'inactive', label: t('memberStatus.inactive') }
+            ]}
+          />
+          
+          <div className="flex justify-end gap-3 mt-6">
+            <Button type="button" variant="secondary" onClick={() => setCreateOpen(false)}>{t('common.cancel')}</Button>
+            <Button type="submit">{t('members.create.submit')}</Button>
+          </div>
+        </form>
+      </Modal>
+
+      <MemberDrawer
+        member={selected}
+        onClose={closeMember}
+        onSaved={(m) => { setSelected(m); fetchMembers(); }}
+        onChangeStatus={(status) => selected && setStatusChange({ member: selected, status })}
+        onDelete={() => setDeleting(selected)}
+      />
+      <StatusChangeModal
+        member={statusChange?.member || null}
+        status={statusChange?.status || null}
+        onClose={() => setStatusChange(null)}
+        onDone={handleStatusDone}
+      />
+      <DeleteMemberModal member={deleting} onClose={() => setDeleting(null)} onDone={handleDeleteDone} />
+      <MemberImportWizard isOpen={isImportOpen} onClose={() => setImportOpen(false)} onImported={fetchMembers} />
+      <BulkActionModal
+        action={bulkAction}
+        resolveTargets={resolveSelection}
+        orgs={orgs}
+        roles={roles}
+        onClose={() => setBulkAction(null)}
+        onDone={handleBulkDone}
+      />
+      <SaveViewModal isOpen={saveViewOpen} initialName={activeView?.name || ''} onClose={() => setSaveViewOpen(false)} onSave={saveView} />
+    </div>
+  );
+};
+
+// Grows by a page at a time; `reload` starts over from the first page
+const usePagedList = <T,>(fetchPage: (page: number) => Promise<{ data: T[], meta?: PageMeta | null }>) => {
+  const [items, setItems] = useState<T[]>([]);
+  const [meta, setMeta] = useState<PageMeta | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<ApiError | null>(null);
+  // Only the newest request may write, so a page that lands after a reload (e.g. for another member) is dropped
+  const latest = useRef(0);
+
+  const load = async (page: number) => {
+    const request = ++latest.current;
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetchPage(page);
+      if (request !== latest.current) return;
+      setItems((prev: T[]) => page === 1 ? res.data : [...prev, ...res.data]);
+      setMeta(res.meta || null);
+    } catch (err) {
+      if (request === latest.current) setError(toApiError(err));
+    } finally {
+      if (request === latest.current) setLoading(false);
+    }
+  };
+
+  return {
+    items: items as T[], loading, error,
+    hasMore: !!meta && meta.page < meta.totalPages,
+    reload: () => load(1),
+    loadMore: () => load((meta?.page || 0) + 1),
+  };
+};
+
+const DetailCard = ({ title, children }: { title: string, children: React.ReactNode }) => (
+  <div className="bg-white rounded-lg border border-slate-200 shadow-sm">
+    <h2 className="px-6 py-4 border-b border-slate-200 font-semibold text-slate-900">{title}</h2>
+    <div className="p-6">{children}</div>
+  </div>
+);
+
+const ShowMoreButton = ({ loading, onClick }: { loading: boolean, onClick: () => void }) => {
+  const { t } = useI18n();
+  return (
+    <div className="mt-4 text-center">
+      <Button variant="secondary" className="text-xs" disabled={loading} onClick={onClick}>
+        {loading ? t('common.loading') : t('memberDetail.showMore')}
+      </Button>
+    </div>
+  );
+};
+
+const MemberProfileFields = ({ member }: { member: Member }) => {
+  const { t, formatDateTime } = useI18n();
+  const notSet = <span className="text-slate-400 italic">{t('memberDetail.notSet')}</span>;
+  const fields: [MessageKey, React.ReactNode][] = [
+    ['memberDetail.field.fullName', member.fullName || notSet],
+    ['memberDetail.field.nickname', member.nickname || notSet],
+    ['memberDetail.field.username', `@${member.username}`],
+    ['memberDetail.field.email', <a href={`mailto:${member.email}`} className="text-indigo-600 hover:underline break-all">{member.email}</a>],
+    ['memberDetail.field.phone', member.phone || notSet],
+    ['memberDetail.field.status', (
+      <span>
+        <Badge type={statusBadgeType(member.status)} text={t(`memberStatus.${member.status}`).toUpperCase()} />
+        {member.statusReason && <span className="block text-xs text-slate-500 mt-1">{t('memberDetail.statusReason', { reason: member.statusReason })}</span>}
+      </span>
+    )],
+    ['memberDetail.field.type', member.isVirtual ? t('members.typeAgent', { type: member.agentType || t('members.typeUnknown') }) : t('members.typeHuman')],
+    ['memberDetail.field.id', <span className="font-mono">{member.id}</span>],
+    ['memberDetail.field.createdAt', formatDateTime(member.createdAt)],
+    ['memberDetail.field.updatedAt', formatDateTime(member.updatedAt)],
+  ];
+  return (
+    <dl className="space-y-3 text-sm">
+      {fields.map(([label, value]) => (
+        <div key={label} className="grid grid-cols-3 gap-2">
+          <dt className="text-slate-500">{t(label)}</dt>
+          <dd className="col-span-2 text-slate-900 min-w-0">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
+
+// Read-only; assignments are edited from the member drawer
+const MemberAssignmentList = ({ member, revision }: { member: Member, revision: number }) => {
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [orgs, setOrgs] = useState<OrgUnit[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const { notifyError } = useToast();
+  const { t } = useI18n();
+
+  useEffect(() => {
+    api.getMemberAssignments(member.id).then(res => setAssignments(res.data)).catch(notifyError);
+  }, [member.id, revision]);
+
+  useEffect(() => {
+    api.getOrgs().then(res => setOrgs(res.data)).catch(notifyError);
+    api.getRoles().then(res => setRoles(res.data)).catch(notifyError);
+  }, []);
+
+  if (assignments.length === 0) return <p className="text-sm text-slate-500">{t('memberDetail.noAssignments')}</p>;
+  return (
+    <ul className="divide-y divide-slate-100 -my-2">
+      {assignments.map(a => {
+        const role = roles.find(r => r.id === a.roleId);
+        return (
+          <li key={a.id} className="py-2 text-sm">
+            <div className="flex items-center gap-2">
+              <Link to={`/orgs/${a.orgId}`} className="text-slate-900 hover:text-indigo-600 hover:underline">
+                {orgs.length ? orgPathLabel(orgs, a.orgId) : `#${a.orgId}`}
+              </Link>
+              {a.isPrimary && <Badge type="success" text={t('memberDetail.primary')} />}
+            </div>
+            <div className="text-xs text-slate-500">
+              {role ? <Link to={`/roles/${role.id}`} className="hover:text-indigo-600 hover:underline">{role.name}</Link> : t('memberDetail.noRole')}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+// Configuration summary plus the token list, which also carries issue and revoke for agent admins
+const AgentDetails = ({ member, onChanged }: { member: Member, onChanged: () => void }) => {
+  const [agent, setAgent] = useState<Agent | null>(null);
+  const [owner, setOwner] = useState<Member | null>(null);
+  const { notifyError } = useToast();
+  const { t } = useI18n();
+
+  const fetchAgent = () => api.getAgent(member.id).then(setAgent).catch(notifyError);
+
+  useEffect(() => {
+    fetchAgent();
+  }, [member.id]);
+
+  // A deleted owner just falls back to the bare id
+  useEffect(() => {
+    setOwner(null);
+    if (agent?.config.ownerId) api.getMember(agent.config.ownerId).then(setOwner).catch(() => {});
+  }, [agent?.config.ownerId]);
+
+  if (!agent) return <p className="text-sm text-slate-500">{t('common.loading')}</p>;
+  const { config } = agent;
+  const chips = (values: string[]) => values.length === 0
+    ? <span className="text-slate-400 italic">{t('memberDetail.agent.none')}</span>
+    : <div className="flex flex-wrap gap-1">{values.map(v => <span key={v} className="px-2 py-0.5 rounded bg-slate-100 text-xs font-mono text-slate-700">{v}</span>)}</div>;
+
+  return (
+    <div className="space-y-6">
+      <dl className="space-y-3 text-sm">
+        <div className="grid grid-cols-3 gap-2">
+          <dt className="text-slate-500">{t('memberDetail.agent.owner')}</dt>
+          <dd className="col-span-2">
+            {config.ownerId === null ? <span className="text-slate-400 italic">{t('memberDetail.notSet')}</span> : (
+              <Link to={`/members/${config.ownerId}`} className="text-indigo-600 hover:underline">
+                {owner ? `${owner.fullName || owner.username} (@${owner.username})` : `#${config.ownerId}`}
+              </Link>
+            )}
+          </dd>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <dt className="text-slate-500">{t('memberDetail.agent.model')}</dt>
+          <dd className="col-span-2 font-mono text-slate-900 break-all">{config.model || <span className="font-sans text-slate-400 italic">{t('memberDetail.notSet')}</span>}</dd>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <dt className="text-slate-500">{t('memberDetail.agent.capabilities')}</dt>
+          <dd className="col-span-2">{chips(config.capabilities)}</dd>
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          <dt className="text-slate-500">{t('memberDetail.agent.scopes')}</dt>
+          <dd className="col-span-2">{chips(config.scopes)}</dd>
+        </div>
+        <div className="text-xs text-slate-500">{t('memberDetail.agent.activeTokens', { count: agent.activeTokens })}</div>
+      </dl>
+      <AgentTokens agent={agent} onChanged={() => { fetchAgent(); onChanged(); }} />
+    </div>
+  );
+};
+
+const LOGIN_METHOD_KEYS: Record<LoginEvent['method'], MessageKey> = {
+  password: 'memberDetail.loginMethod.password',
+  sso: 'memberDetail.loginMethod.sso',
+  invitation: 'memberDetail.loginMethod.invitation',
+};
+
+const MemberLoginHistory = ({ member }: { member: Member }) => {
+  const { t, formatDateTime } = useI18n();
+  const logins = usePagedList<LoginEvent>(page => api.getMemberLogins(member.id, { page, pageSize: 10 }));
+
+  useEffect(() => {
+    logins.reload();
+  }, [member.id]);
+
+  if (logins.error) return <ErrorState error={logins.error} onRetry={logins.reload} />;
+  if (!logins.loading && logins.items.length === 0) return <p className="text-sm text-slate-500">{t('memberDetail.logins.empty')}</p>;
+  return (
+    <>
+      <div className="overflow-x-auto -mx-6">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-50 border-y border-slate-200">
+            <tr>
+              <th className="px-6 py-2 font-semibold text-slate-700">{t('memberDetail.logins.col.time')}</th>
+              <th className="px-6 py-2 font-semibold text-slate-700">{t('memberDetail.logins.col.method')}</th>
+              <th className="px-6 py-2 font-semibold text-slate-700">{t('memberDetail.logins.col.result')}</th>
+              <th className="px-6 py-2 font-semibold text-slate-700">{t('memberDetail.logins.col.source')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {logins.items.map(login => (
+              <tr key={login.id} className="align-top">
+                <td className="px-6 py-2 text-slate-500 whitespace-nowrap">{formatDateTime(login.timestamp)}</td>
+                <td className="px-6 py-2 text-slate-700 whitespace-nowrap">
+                  {t(LOGIN_METHOD_KEYS[login.method])}
+                  {login.mfa && <span className="block text-xs text-slate-500">{t('memberDetail.logins.mfa')}</span>}
+                </td>
+                <td className="px-6 py-2">
+                  <Badge type={login.success ? 'success' : 'danger'} text={t(login.success ? 'memberDetail.logins.success' : 'memberDetail.logins.failed')} />
+                  {login.failureReason && <span className="block text-xs text-slate-500 mt-1">{login.failureReason}</span>}
+                </td>
+                <td className="px-6 py-2 text-xs text-slate-500">
+                  <div className="font-mono">{login.ipAddress || t('memberDetail.logins.unknownSource')}</div>
+                  {login.userAgent && <div className="max-w-xs truncate" title={login.userAgent}>{login.userAgent}</div>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {(logins.hasMore || logins.loading) && <ShowMoreButton loading={logins.loading} onClick={logins.loadMore} />}
+    </>
+  );
+};
+
+// Every audit event about the member, newest first; `revision` changes after an edit made on the page
+const MemberTimeline = ({ member, revision }: { member: Member, revision: number }) => {
+  const { t, formatDateTime } = useI18n();
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const history = usePagedList<AuditEvent>(page => api.getMemberHistory(member.id, { page, pageSize: 20 }));
+
+  useEffect(() => {
+    history.reload();
+  }, [member.id, revision]);
+
+  const toggle = (id: number) => setExpanded((prev: Set<number>) => {
+    const next = new Set(prev);
+    if (!next.delete(id)) next.add(id);
+    return next;
+  });
+
+  if (history.error) return <ErrorState error={history.error} onRetry={history.reload} />;
+  if (!history.loading && history.items.length === 0) return <p className="text-sm text-slate-500">{t('memberDetail.activity.empty')}</p>;
+  return (
+    <>
+      <ol>
+        {history.items.map(event => {
+          const changes = diffFields(event.before, event.after).length;
+          const entity = t(`auditEntity.${event.entityType}`);
+          return (
+            <li key={event.id} className="relative pl-6 pb-5 border-l border-slate-200 last:border-transparent last:pb-0">
+              <span className={`absolute -left-[5px] top-1 w-2.5 h-2.5 rounded-full ${event.action === 'create' ? 'bg-emerald-500' : event.action === 'delete' ? 'bg-rose-500' : 'bg-amber-400'}`} />
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge type={AUDIT_ACTION_BADGE[event.action]} text={t(`auditAction.${event.action}`)} />
+                <span className="text-slate-900">
+                  {entity}{event.entityId !== member.id && <span className="font-mono text-slate-500"> #{event.entityId}</span>}
+                </span>
+                <span className="text-slate-500">{t('memberDetail.activity.by', { actor: event.actor })}</span>
+              </div>
+              <div className="mt-1 flex items-center gap-3 text-xs text-slate-500">
+                <span>{formatDateTime(event.timestamp)}</span>
+                {changes > 0 && (
+                  <button onClick={() => toggle(event.id)} className="flex items-center gap-1 text-indigo-600 hover:underline">
+                    {expanded.has(event.id) ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                    {t('memberDetail.activity.fields', { count: changes })}
+                  </button>
+                )}
+              </div>
+              {expanded.has(event.id) && <div className="mt-2 p-3 bg-slate-50 rounded-md overflow-x-auto"><AuditDiff event={event} /></div>}
+            </li>
+          );
+        })}
+      </ol>
+      {(history.hasMore || history.loading) && <ShowMoreButton loading={history.loading} onClick={history.loadMore} />}
+    </>
+  );
+};
+
+const MemberDetailPage = ({ memberId }: { memberId: number }) => {
+  const [member, setMember] = useState<Member | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [statusChange, setStatusChange] = useState<SettableMemberStatus | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  // Bumped after any change made from this page so the assignments and timeline reload
+  const [revision, setRevision] = useState(0);
+  const { t } = useI18n();
+  const can = useCan();
+
+  const fetchMember = async () => {
+    setError(null);
+    try {
+      setMember(await api.getMember(memberId));
+    } catch (err) {
+      setError(toApiError(err));
+    }
+  };
+
+  useEffect(() => {
+    setMember(null);
+    setEditing(false);
+    fetchMember();
+  }, [memberId]);
+
+  const changed = () => setRevision((r: number) => r + 1);
+
+  const statusPage = statusPageFor(error);
+  if (statusPage) return <StatusPage code={statusPage} />;
+  if (error) return <div className="bg-white rounded-lg border border-slate-200 shadow-sm"><ErrorState error={error} onRetry={fetchMember} /></div>;
+  if (!member) return <p className="text-sm text-slate-500">{t('common.loading')}</p>;
+
+  return (
+    <div className="space-y-6">
+      <Link to="/members" className="inline-flex items-center gap-1 text-sm text-slate-500 hover:text-indigo-600">
+        <ChevronLeft size={16} /> {t('memberDetail.back')}
+      </Link>
+
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div className="flex items-center gap-4 min-w-0">
+          <div className={`w-14 h-14 rounded-full flex-shrink-0 flex items-center justify-center text-lg font-bold text-white ${member.isVirtual ? 'bg-purple-500' : 'bg-indigo-500'}`}>
+            {member.isVirtual ? <Bot size={26} /> : (member.fullName || member.username).substring(0, 2).toUpperCase()}
+          </div>
+          <div className="min-w-0">
+            <h1 className="text-2xl font-bold text-slate-900 truncate">{member.fullName || member.username}</h1>
+            <div className="flex flex-wrap items-center gap-2 mt-1 text-sm text-slate-500">
+              <span>@{member.username}</span>
+              <Badge type={statusBadgeType(member.status)} text={t(`memberStatus.${member.status}`).toUpperCase()} />
+              <Badge type="neutral" text={member.isVirtual ? t('members.typeAgent', { type: member.agentType || t('members.typeUnknown') }) : t('members.typeHuman')} />
+            </div>
+          </div>
+        </div>
+        <Can action="write" resource="members">
+          <Button className="gap-2" onClick={() => setEditing(true)}><Pencil size={16} /> {t('memberDetail.manage')}</Button>
+        </Can>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-start">
+        <div className="space-y-6">
+          <DetailCard title={t('memberDetail.profile')}><MemberProfileFields member={member} /></DetailCard>
+          <DetailCard title={t('memberDetail.assignments')}><MemberAssignmentList member={member} revision={revision} /></DetailCard>
+        </div>
+        <div className="lg:col-span-2 space-y-6">
+          {member.isVirtual
+            ? can('read', 'agents') && <DetailCard title={t('memberDetail.agent')}><AgentDetails member={member} onChanged={changed} /></DetailCard>
+            : <DetailCard title={t('memberDetail.logins')}><MemberLoginHistory member={member} /></DetailCard>}
+          <DetailCard title={t('memberDetail.activity')}><MemberTimeline member={member} revision={revision} /></DetailCard>
+        </div>
+      </div>
+
+      <MemberDrawer
+        member={editing ? member : null}
+        onClose={() => { setEditing(false); changed(); }}
+        onSaved={(m) => { setMember(m); changed(); }}
+        onChangeStatus={setStatusChange}
+        onDelete={() => setDeleting(true)}
+      />
+      <StatusChangeModal
+        member={statusChange ? member : null}
+        status={statusChange}
+        onClose={() => setStatusChange(null)}
+        onDone={() => { setStatusChange(null); fetchMember(); changed(); }}
+      />
+      <DeleteMemberModal member={deleting ? member : null} onClose={() => setDeleting(false)} onDone={() => navigate('/members')} />
+    </div>
+  );
+};
+
+// Invite links carry the tenant, since whoever opens one has no session to take it from
+const invitationLink = (tenantId: number, token: string) =>
+  `${window.location.origin}/accept-invite?${new URLSearchParams({ tenant: String(tenantId), token })}`;
+
+const INVITATION_STATUSES: InvitationStatus[] = ['pending', 'accepted', 'expired', 'revoked'];
+
+const INVITATION_BADGE: Record<InvitationStatus, 'success' | 'warning' | 'danger' | 'neutral'> = {
+  pending: 'warning',
+  accepted: 'success',
+  expired: 'danger',
+  revoked: 'neutral',
+};
+
+const InviteMemberModal = ({ isOpen, initial, onClose, onInvited }: {
+  isOpen: boolean,
+  initial: { email: string, fullName: string } | null,
+  onClose: () => void,
+  onInvited: (invitation: Invitation) => void,
+}) => {
+  const empty = { email: '', fullName: '', orgId: '', roleId: '' };
+  const [form, setForm] = useState(empty);
+  const [orgs, setOrgs] = useState<OrgUnit[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { fieldErrors, handleError, clearErrors } = useFormErrors();
+  const { notifyError } = useToast();
+  const can = useCan();
+  const { t } = useI18n();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setForm({ ...empty, ...initial });
+    clearErrors();
+    api.getOrgs().then(res => setOrgs(res.data)).catch(notifyError);
+    api.getRoles().then(res => setRoles(res.data)).catch(notifyError);
+  }, [isOpen]);
+
+  // The invitation pre-assigns its unit and role, so it is limited to where the inviter may assign roles
+  const assignableOrgs = orgs.filter(o => can('assign', 'roles', o.id));
+  const roleOptions = form.orgId ? applicableRoles(roles, orgs, Number(form.orgId)) : [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const invitation = await api.createInvitation({
+        email: form.email.trim(),
+        fullName: form.fullName.trim() || null,
+        orgId: Number(form.orgId),
+        roleId: form.roleId ? Number(form.roleId) : null,
+      });
+      onInvited(invitation);
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={t('invitations.invite')}>
+      <form onSubmit={handleSubmit}>
+        <Input label={t('members.create.email')} type="email" required error={fieldErrors.email} value={form.email} onChange={(e: any) => setForm({ ...form, email: e.target.value })} />
+        <Input label={t('members.create.fullName')} error={fieldErrors.fullName} value={form.fullName} onChange={(e: any) => setForm({ ...form, fullName: e.target.value })} hint={t('invitations.form.fullNameHint')} />
+        <Select
+          label={t('common.orgUnit')}
+          required
+          error={fieldErrors.orgId}
+          value={form.orgId}
+          onChange={(e: any) => setForm({ ...form, orgId: e.target.value, roleId: '' })}
+          options={[{ value: '', label: t('common.selectUnit') }, ...assignableOrgs.map(o => ({ value: o.id, label: orgPathLabel(orgs, o.id) }))]}
+        />
+        <Select
+          label={t('common.role')}
+          value={form.roleId}
+          error={fieldErrors.roleId}
+          disabled={!form.orgId}
+          onChange={(e: any) => setForm({ ...form, roleId: e.target.value })}
+          options={[{ value: '', label: t('common.noRole') }, ...roleOptions.map(r => ({ value: r.id, label: r.isPosition ? t('assignments.position', { name: r.name }) : r.name }))]}
+        />
+        <p className="text-xs text-slate-500">{t('invitations.form.validity', { count: INVITATION_TTL_DAYS })}</p>
+        <div className="flex justify-end gap-3 mt-6">
+          <Button type="button" variant="secondary" onClick={onClose}>{t('common.cancel')}</Button>
+          <Button type="submit" disabled={saving || !form.orgId}>{saving ? t('invitations.form.sending') : t('invitations.form.send')}</Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+const InvitationsPage = () => {
+  const { tenantId } = useContext(AuthContext)!;
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [requests, setRequests] = useState<AccessRequest[]>([]);
+  const [orgs, setOrgs] = useState<OrgUnit[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [params, setParams] = useSearchParams();
+  const statusFilter = (params.get('status') || '') as InvitationStatus | '';
+  const [inviting, setInviting] = useState<{ email: string, fullName: string } | null>(null);
+  // The access request an open invite form was started from; approved once the invitation is sent
+  const [approving, setApproving] = useState<AccessRequest | null>(null);
+  const [issued, setIssued] = useState<Invitation | null>(null);
+  const { notify, notifyError } = useToast();
+  const { t, formatDate, formatDateTime } = useI18n();
+  const can = useCan();
+
+  const fetchInvitations = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await api.getInvitations({ status: statusFilter || undefined });
+      setInvitations(res.data);
+    } catch (err) {
+      setError(toApiError(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchRequests = () =>
+    api.getAccessRequests({ status: 'pending' }).then(res => setRequests(res.data)).catch(notifyError);
+
+  useEffect(() => {
+    fetchInvitations();
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchRequests();
+    api.getOrgs().then(res => setOrgs(res.data)).catch(notifyError);
+    api.getRoles().then(res => setRoles(res.data)).catch(notifyError);
+  }, []);
+
+  const handleInvited = async (invitation: Invitation) => {
+    setInviting(null);
+    setIssued(invitation);
+    if (approving) {
+      await api.decideAccessRequest(approving.id, { status: 'approved' }).catch(notifyError);
+      setApproving(null);
+      fetchRequests();
+    }
+    notify('success', t('invitations.sent', { email: invitation.email }));
+    fetchInvitations();
+  };
+
+  const run = async (action: Promise<Invitation>, message: string) => {
+    try {
+      const invitation = await action;
+      if (invitation.token) setIssued(invitation);
+      notify('success', message);
+      fetchInvitations();
+    } catch (err) {
+      notifyError(err);
+    }
+  };
+
+  const decline = async (request: AccessRequest) => {
+    try {
+      await api.decideAccessRequest(request.id, { status: 'declined' });
+      notify('success', t('invitations.declined', { email: request.email }));
+      fetchRequests();
+    } catch (err) {
+      notifyError(err);
+    }
+  };
+
+  const approve = (request: AccessRequest) => {
+    setApproving(request);
+    setInviting({ email: request.email, fullName: request.fullName });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <h1 className="text-2xl font-bold text-slate-900">{t('invitations.title')}</h1>
+        <Can action="write" resource="members">
+          <Button onClick={() => setInviting({ email: '', fullName: '' })} className="gap-2 w-full sm:w-auto"><Mail size={18} /> {t('invitations.invite')}</Button>
+        </Can>
+      </div>
+
+      {issued?.token && (
+        <div className="p-4 rounded-lg bg-emerald-50 border border-emerald-200 text-sm">
+          <div className="flex items-start justify-between gap-2 mb-2">
+            <p className="text-emerald-800">{t('invitations.share', { email: issued.email, date: formatDate(issued.expiresAt) })}</p>
+            <button onClick={() => setIssued(null)} className="text-emerald-700 hover:text-emerald-900" title={t('common.dismiss')}><X size={16} /></button>
+          </div>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 bg-white border border-emerald-200 rounded px-2 py-1 text-xs font-mono break-all">{invitationLink(tenantId, issued.token)}</code>
+            <button onClick={() => navigator.clipboard.writeText(invitationLink(tenantId, issued.token!))} className="text-emerald-700 hover:text-emerald-900" title={t('invitations.copy')}>
+              <Copy size={16} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {requests.length > 0 && (
+        <div className="bg-white rounded-lg border border-slate-200 shadow-sm">
+          <h2 className="px-6 py-3 border-b border-slate-200 font-semibold text-slate-900">{t('invitations.requests')}</h2>
+          <ul className="divide-y divide-slate-100">
+            {requests.map(request => (
+              <li key={request.id} className="px-6 py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <div className="text-slate-900">{request.fullName} <span className="text-slate-500">{request.email}</span></div>
+                  {request.message && <div className="text-slate-600 truncate">{request.message}</div>}
+                  <div className="text-xs text-slate-400">{t('invitations.requestedAt', { date: formatDateTime(request.createdAt) })}</div>
+                </div>
+                <Can action="write" resource="members">
+                  <div className="flex gap-2 flex-shrink-0">
+                    <Button variant="secondary" className="text-xs" onClick={() => decline(request)}>{t('invitations.decline')}</Button>
+                    <Button className="text-xs gap-1" onClick={() => approve(request)}><CheckCircle2 size={14} /> {t('invitations.approve')}</Button>
+                  </div>
+                </Can>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {[{ value: '', label: t('invitations.all') }, ...INVITATION_STATUSES.map(s => ({ value: s, label: t(`invitationStatus.${s}`) }))].map(opt => (
+          <button
+            key={opt.value}
+            onClick={() => setParams({ status: opt.value || null })}
+            className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${statusFilter === opt.value ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'}`}
+          >
+            {opt.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm whitespace-nowrap">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-6 py-3 font-semibold text-slate-700">{t('invitations.col.email')}</th>
+                <th className="px-6 py-3 font-semibold text-slate-700">{t('invitations.col.unitRole')}</th>
+                <th className="px-6 py-3 font-semibold text-slate-700">{t('invitations.col.status')}</th>
+                <th className="px-6 py-3 font-semibold text-slate-700">{t('invitations.col.invited')}</th>
+                <th className="px-6 py-3 font-semibold text-slate-700">{t('invitations.col.expires')}</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {loading ? (
+                <tr><td colSpan={6} className="p-8 text-center text-slate-500">{t('invitations.loading')}</td></tr>
+              ) : error ? (
+                <tr><td colSpan={6}><ErrorState error={error} onRetry={fetchInvitations} /></td></tr>
+              ) : invitations.length === 0 ? (
+                <tr><td colSpan={6} className="p-8 text-center text-slate-500">{t('invitations.empty')}</td></tr>
+              ) : invitations.map(invitation => (
+                <tr key={invitation.id} className="hover:bg-slate-50 transition-colors">
+                  <td className="px-6 py-3 text-slate-900">
+                    {invitation.status === 'accepted'
+                      ? <Link to={`/members/${invitation.memberId}`} className="text-indigo-600 hover:underline">{invitation.email}</Link>
+                      : invitation.email}
+                  </td>
+                  <td className="px-6 py-3 text-slate-700">
+                    {orgPathLabel(orgs, invitation.orgId) || t('assignments.orgFallback', { id: invitation.orgId })}
+                    <div className="text-xs text-slate-500">{roles.find(r => r.id === invitation.roleId)?.name || t('common.noRole')}</div>
+                  </td>
+                  <td className="px-6 py-3"><Badge type={INVITATION_BADGE[invitation.status]} text={t(`invitationStatus.${invitation.status}`)} /></td>
+                  <td className="px-6 py-3 text-slate-500">{t('invitations.invitedBy', { date: formatDate(invitation.createdAt), username: invitation.invitedBy })}</td>
+                  <td className="px-6 py-3 text-slate-500">
+                    {invitation.status === 'accepted' ? t('invitations.acceptedAt', { date: formatDate(invitation.acceptedAt!) }) : formatDate(invitation.expiresAt)}
+                  </td>
+                  <td className="px-6 py-3 text-right">
+                    {(invitation.status === 'pending' || invitation.status === 'expired') && can('write', 'members') && (
+                      <div className="flex justify-end gap-3">
+                        <button onClick={() => run(api.resendInvitation(invitation.id), t('invitations.resent', { email: invitation.email }))} className="text-xs text-indigo-600 hover:underline">{t('invitations.resend')}</button>
+                        <button onClick={() => run(api.revokeInvitation(invitation.id), t('invitations.revoked', { email: invitation.email }))} className="text-xs text-rose-600 hover:underline">{t('invitations.revoke')}</button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <InviteMemberModal
+        isOpen={!!inviting}
+        initial={inviting}
+        onClose={() => { setInviting(null); setApproving(null); }}
+        onInvited={handleInvited}
+      />
+    </div>
+  );
+};
+
+const EMPTY_ROLE = { code: '', name: '', description: '', isPosition: false, active: true, orgId: 0 };
+
+// Global roles are shared by every org; editing them needs an explicit opt-in
+const GlobalRoleGuard = ({ role, unlocked, onUnlock }: { role: Role | null, unlocked: boolean, onUnlock: (v: boolean) => void }) => {
+  const { t } = useI18n();
+  if (!role || role.orgId !== 0) return null;
+  return (
+    <div className="mb-4 p-3 rounded-md bg-amber-50 border border-amber-200 text-sm text-amber-800">
+      <div className="flex items-start gap-2">
+        <Lock size={16} className="mt-0.5 flex-shrink-0" />
+        <span>{t('roles.globalWarning', { name: role.name })}</span>
+      </div>
+      <label className="flex items-center gap-2 mt-2 cursor-pointer select-none">
+        <input type="checkbox" checked={unlocked} onChange={(e) => onUnlock(e.target.checked)} className="rounded text-amber-600" />
+        {t('roles.unlock')}
+      </label>
+    </div>
+  );
+};
+
+const RoleFormModal = ({ isOpen, role, orgs, onClose, onSaved }: { isOpen: boolean, role: Role | null, orgs: OrgUnit[], onClose: () => void, onSaved: () => void }) => {
+  const [form, setForm] = useState(EMPTY_ROLE);
+  const [unlocked, setUnlocked] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { fieldErrors, handleError, clearErrors } = useFormErrors();
+  const { notify } = useToast();
+  const can = useCan();
+  const { t } = useI18n();
+  const locked = !!role && role.orgId === 0 && !unlocked;
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setUnlocked(false);
+    clearErrors();
+    // Without tenant-wide rights a new role defaults to the first unit the user may define roles in
+    setForm(role
+      ? { code: role.code, name: role.name, description: role.description || '', isPosition: role.isPosition, active: role.active, orgId: role.orgId }
+      : { ...EMPTY_ROLE, orgId: can('write', 'roles', null) ? 0 : orgs.find(o => can('write', 'roles', o.id))?.id ?? 0 });
+  }, [isOpen, role]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (locked) return;
+    setSaving(true);
+    try {
+      const data = { ...form, code: form.code.trim().toUpperCase(), description: form.description || null };
+      if (role) await api.updateRole(role.id, data);
+      else await api.createRole({ ...data, permissions: [] });
+      notify('success', t('roles.saved', { code: data.code }));
+      onSaved();
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={role ? t('roles.form.editTitle') : t('roles.create')}>
+      <GlobalRoleGuard role={role} unlocked={unlocked} onUnlock={setUnlocked} />
+      <form onSubmit={handleSubmit}>
+        <fieldset disabled={locked}>
+          <Input label={t('roles.form.code')} required error={fieldErrors.code} value={form.code} onChange={(e: any) => setForm({...form, code: e.target.value})} placeholder={t('roles.form.codePlaceholder')} />
+          <Input label={t('common.name')} required error={fieldErrors.name} value={form.name} onChange={(e: any) => setForm({...form, name: e.target.value})} />
+          <TextArea label={t('common.description')} error={fieldErrors.description} value={form.description} onChange={(e: any) => setForm({...form, description: e.target.value})} />
+          <Select
+            label={t('roles.form.org')}
+            error={fieldErrors.orgId}
+            value={form.orgId}
+            onChange={(e: any) => setForm({...form, orgId: Number(e.target.value)})}
+            options={[
+              ...(can('write', 'roles', null) ? [{ value: 0, label: t('roles.form.global') }] : []),
+              ...orgs.filter(o => can('write', 'roles', o.id)).map(o => ({ value: o.id, label: orgPathLabel(orgs, o.id) })),
+            ]}
+          />
+          <div className="flex items-center gap-6 mb-4">
+            <label className="flex items-center gap-2 text-sm text-slate-700 select-none">
+              <input type="checkbox" checked={form.isPosition} onChange={(e) => setForm({...form, isPosition: e.target.checked})} className="rounded text-indigo-600 focus:ring-indigo-500" />
+              {t('roles.form.isPosition')}
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-700 select-none">
+              <input type="checkbox" checked={form.active} onChange={(e) => setForm({...form, active: e.target.checked})} className="rounded text-indigo-600 focus:ring-indigo-500" />
+              {t('common.active')}
+            </label>
+          </div>
+        </fieldset>
+        <div className="flex justify-end gap-3 mt-6">
+          <Button type="button" variant="secondary" onClick={onClose}>{t('common.cancel')}</Button>
+          <Button type="submit" disabled={saving || locked}>{saving ? t('common.saving') : role ? t('common.saveChanges') : t('roles.create')}</Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+const PermissionMatrixModal = ({ role, readOnly, onClose, onSaved }: { role: Role | null, readOnly: boolean, onClose: () => void, onSaved: () => void }) => {
+  const [granted, setGranted] = useState<Set<string>>(new Set());
+  const [unlocked, setUnlocked] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { notify, notifyError } = useToast();
+  const { t } = useI18n();
+  const locked = readOnly || (!!role && role.orgId === 0 && !unlocked);
+
+  useEffect(() => {
+    setUnlocked(false);
+    setGranted(new Set(role?.permissions || []));
+  }, [role]);
+
+  const toggle = (codes: string[], on: boolean) => {
+    const next = new Set(granted);
+    codes.forEach(c => on ? next.add(c) : next.delete(c));
+    setGranted(next);
+  };
+
+  const handleSave = async () => {
+    if (!role || locked) return;
+    setSaving(true);
+    try {
+      await api.updateRolePermissions(role.id, { permissions: Array.from<string>(granted).sort() });
+      notify('success', t('roles.matrix.saved', { name: role.name }));
+      onSaved();
+    } catch (err) {
+      notifyError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!role} onClose={onClose} title={t('roles.matrix.title', { name: role?.name || '' })} wide>
+      {!readOnly && <GlobalRoleGuard role={role} unlocked={unlocked} onUnlock={setUnlocked} />}
+      <div className="overflow-x-auto border border-slate-200 rounded-md">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 border-b border-slate-200">
+            <tr>
+              <th className="px-4 py-2 text-left font-semibold text-slate-700">{t('roles.matrix.resource')}</th>
+              {PERMISSION_ACTIONS.map(action => (
+                <th key={action} className="px-4 py-2 text-center font-semibold text-slate-700">{t(`permission.action.${action}`)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {PERMISSION_RESOURCES.map(resource => {
+              const codes = PERMISSION_ACTIONS.map(a => `${resource}:${a}`);
+              const all = codes.every(c => granted.has(c));
+              return (
+                <tr key={resource}>
+                  <td className="px-4 py-2">
+                    <label className="flex items-center gap-2 text-slate-700 select-none">
+                      <input type="checkbox" disabled={locked} checked={all} onChange={() => toggle(codes, !all)} className="rounded text-indigo-600" />
+                      {t(`permission.resource.${resource}`)}
+                    </label>
+                  </td>
+                  {codes.map(code => (
+                    <td key={code} className="px-4 py-2 text-center">
+                      <input type="checkbox" title={code} disabled={locked} checked={granted.has(code)} onChange={(e) => toggle([code], e.target.checked)} className="rounded text-indigo-600" />
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex justify-between items-center mt-6">
+        <span className="text-xs text-slate-500">{t('roles.matrix.granted', { count: granted.size })}</span>
+        <div className="flex gap-3">
+          <Button type="button" variant="secondary" onClick={onClose}>{readOnly ? t('common.close') : t('common.cancel')}</Button>
+          {!readOnly && <Button onClick={handleSave} disabled={saving || locked}>{saving ? t('common.saving') : t('roles.matrix.save')}</Button>}
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+// /roles/:id opens that role's permission matrix
+const RolesPage = ({ roleId }: { roleId?: number }) => {
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [orgs, setOrgs] = useState<OrgUnit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Role | null>(null);
+  const { notifyError } = useToast();
+  const can = useCan();
+  const { t } = useI18n();
+  const permissionsFor = roleId !== undefined ? roles.find(r => r.id === roleId) || null : null;
+  // Global roles (org 0) need tenant-wide rights; the rest are scoped to the unit they are defined on
+  const canWriteRole = (role: Role) => can('write', 'roles', role.orgId === 0 ? null : role.orgId);
+
+  const fetchRoles = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await api.getRoles();
+      setRoles(res.data);
+    } catch (err) {
+      setError(toApiError(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchRoles();
+    api.getOrgs().then(res => setOrgs(res.data)).catch(notifyError);
+  }, []);
+
+  const openForm = (role: Role | null) => {
+    setEditing(role);
+    setFormOpen(true);
+  };
+
+  const orgName = (id: number) => id === 0 ? t('roles.global') : orgs.find(o => o.id === id)?.name || String(id);
+
+  if (roleId !== undefined && !loading && !error && !permissionsFor) return <StatusPage code={404} />;
+
+  return (
+    <div className="space-y-6">
+       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <h1 className="text-2xl font-bold text-slate-900">{t('roles.title')}</h1>
+        <div className="flex gap-2 w-full sm:w-auto">
+          <ExportMenu onExport={(format) => exportDirectory(format, 'roles')} />
+          <Can action="write" resource="roles">
+            <Button onClick={() => openForm(null)} className="gap-2 flex-1 sm:flex-none"><Plus size={18} /> {t('roles.create')}</Button>
+          </Can>
+        </div>
+      </div>
+      
+      {error && !loading && (
+        <div className="bg-white rounded-lg border border-slate-200 shadow-sm"><ErrorState error={error} onRetry={fetchRoles} /></div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {loading ? <p>{t('common.loading')}</p> : !error && roles.map(role => (
+          <div key={role.id} className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm hover:shadow-md transition-shadow">
+            <div className="flex justify-between items-start mb-3">
+              <div className={`p-2 rounded-lg ${role.isPosition ? 'bg-blue-100 text-blue-600' : 'bg-orange-100 text-orange-600'}`}>
+                {role.isPosition ? <Users size={20} /> : <Shield size={20} />}
+              </div>
+              <div className="flex items-center gap-2">
+                {role.orgId === 0 && <span title={t('roles.globalRole')}><Lock size={14} className="text-amber-500" /></span>}
+                <Badge type={role.active ? 'success' : 'neutral'} text={role.active ? t('common.active') : t('common.inactive')} />
+                {canWriteRole(role) && (
+                  <button onClick={() => openForm(role)} className="text-slate-400 hover:text-indigo-600 transition-colors" title={t('roles.edit')}>
+                    <Pencil size={16} />
+                  </button>
+                )}
+              </div>
+            </div>
+            <h3 className="font-bold text-lg text-slate-900 mb-1">{role.name}</h3>
+            <p className="text-sm text-slate-500 mb-4 h-10 line-clamp-2">{role.description || t('roles.noDescription')}</p>
+            <div className="flex flex-wrap gap-2 mb-4">
+              <span className="text-xs bg-slate-100 px-2 py-1 rounded text-slate-600 font-mono">{role.code}</span>
+              <span className="text-xs bg-slate-100 px-2 py-1 rounded text-slate-600">{t('roles.org', { name: orgName(role.orgId) })}</span>
+              <span className="text-xs bg-slate-100 px-2 py-1 rounded text-slate-600">{t('roles.permissionCount', { count: role.permissions.length })}</span>
+            </div>
+            <Button variant="secondary" className="w-full text-xs" onClick={() => navigate(`/roles/${role.id}`)}>
+              {canWriteRole(role) ? t('roles.manage') : t('roles.view')}
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <RoleFormModal
+        isOpen={formOpen}
+        role={editing}
+        orgs={orgs}
+        onClose={() => setFormOpen(false)}
+        onSaved={() => { setFormOpen(false); fetchRoles(); }}
+      />
+      <PermissionMatrixModal
+        role={permissionsFor}
+        readOnly={!permissionsFor || !canWriteRole(permissionsFor)}
+        onClose={() => navigate('/roles')}
+        onSaved={() => { navigate('/roles'); fetchRoles(); }}
+      />
+    </div>
+  );
+};
+
+const ORG_TYPES: OrgType[] = ['company', 'dept', 'team'];
+
+const orgPathLabel = (orgs: OrgUnit[], id: number) => orgPath(orgs, id).map(o => o.name).join(' / ');
+
+const OrgFormModal = ({ isOpen, parentId, orgs, onClose, onSaved }: { isOpen: boolean, parentId: number | null, orgs: OrgUnit[], onClose: () => void, onSaved: () => void }) => {
+  const [form, setForm] = useState({ name: '', type: 'team' as OrgType, description: '', parentId: null as number | null });
+  const [saving, setSaving] = useState(false);
+  const { fieldErrors, handleError, clearErrors } = useFormErrors();
+  const { notify } = useToast();
+  const can = useCan();
+  const { t } = useI18n();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    // Fall back to a unit the user may add under when the requested parent is out of their scope
+    const parent = can('write', 'orgs', parentId) ? parentId : orgs.find(o => can('write', 'orgs', o.id))?.id ?? null;
+    setForm({ name: '', type: parent === null ? 'company' : 'team', description: '', parentId: parent });
+    clearErrors();
+  }, [isOpen, parentId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await api.createOrg({ ...form, description: form.description || null });
+      notify('success', t('orgs.added', { name: form.name }));
+      onSaved();
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={t('orgs.form.title')}>
+      <form onSubmit={handleSubmit}>
+        <Select
+          label={t('orgs.form.parent')}
+          error={fieldErrors.parentId}
+          value={form.parentId ?? ''}
+          onChange={(e: any) => setForm({...form, parentId: e.target.value === '' ? null : Number(e.target.value)})}
+          options={[
+            ...(can('write', 'orgs', null) ? [{ value: '', label: t('orgs.form.topLevel') }] : []),
+            ...orgs.filter(o => can('write', 'orgs', o.id)).map(o => ({ value: o.id, label: orgPathLabel(orgs, o.id) })),
+          ]}
+        />
+        <Input label={t('common.name')} required error={fieldErrors.name} value={form.name} onChange={(e: any) => setForm({...form, name: e.target.value})} />
+        <Select label={t('common.type')} error={fieldErrors.type} value={form.type} onChange={(e: any) => setForm({...form, type: e.target.value})} options={ORG_TYPES.map(type => ({ value: type, label: t(`orgType.${type}`) }))} />
+        <TextArea label={t('common.description')} error={fieldErrors.description} value={form.description} onChange={(e: any) => setForm({...form, description: e.target.value})} />
+        <div className="flex justify-end gap-3 mt-6">
+          <Button type="button" variant="secondary" onClick={onClose}>{t('common.cancel')}</Button>
+          <Button type="submit" disabled={saving}>{saving ? t('common.saving') : t('orgs.add')}</Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+const OrgMembersModal = ({ org, orgs, onClose, onChanged }: { org: OrgUnit | null, orgs: OrgUnit[], onClose: () => void, onChanged: () => void }) => {
+  const [rows, setRows] = useState<OrgMemberAssignment[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [candidates, setCandidates] = useState<Member[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [form, setForm] = useState({ memberId: '', roleId: '' });
+  const { notifyError } = useToast();
+  const canAssign = useCan()('assign', 'roles', org?.id ?? null);
+  const { t } = useI18n();
+
+  const fetchRows = async () => {
+    if (!org) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await api.getOrgMembers(org.id);
+      setRows(res.data);
+    } catch (err) {
+      setError(toApiError(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!org) return;
+    setForm({ memberId: '', roleId: '' });
+    fetchRows();
+    api.getRoles().then(res => setRoles(res.data)).catch(notifyError);
+    api.getMembers({ pageSize: 100, sortBy: 'name', sortOrder: 'asc' }).then(res => setCandidates(res.data)).catch(notifyError);
+  }, [org]);
+
+  const change = async (action: Promise<any>) => {
+    try {
+      await action;
+    } catch (err) {
+      notifyError(err);
+      return;
+    }
+    await fetchRows();
+    onChanged();
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!org) return;
+    change(api.createAssignment({ memberId: Number(form.memberId), orgId: org.id, roleId: form.roleId ? Number(form.roleId) : null, isPrimary: false }));
+    setForm({ memberId: '', roleId: '' });
+  };
+
+  const roleOptions = org ? applicableRoles(roles, orgs, org.id) : [];
+
+  return (
+    <Modal isOpen={!!org} onClose={onClose} title={org ? orgPathLabel(orgs, org.id) : ''} wide>
+      {org?.description && <p className="text-sm text-slate-500 mb-4">{org.description}</p>}
+      <div className="border border-slate-200 rounded-md mb-4">
+        {loading ? <div className="p-6 text-center text-sm text-slate-500">{t('members.loading')}</div> : error ? <ErrorState error={error} onRetry={fetchRows} /> : rows.length === 0 ? (
+          <div className="p-6 text-center text-sm text-slate-500">{t('orgs.members.empty')}</div>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {rows.map(row => (
+              <li key={row.id} className="px-4 py-2 flex items-center justify-between gap-3 text-sm">
+                <div className="flex items-center gap-3 min-w-0">
+                  <div className={`w-8 h-8 rounded-full flex-shrink-0 flex items-center justify-center text-xs font-bold text-white ${row.member.isVirtual ? 'bg-purple-500' : 'bg-indigo-500'}`}>
+                    {row.member.isVirtual ? <Bot size={16} /> : (row.member.fullName || row.member.username).substring(0, 2).toUpperCase()}
+                  </div>
+                  <div className="min-w-0">
+                    <div className="font-medium text-slate-900 truncate">{row.member.fullName || row.member.username}</div>
+                    <div className="text-xs text-slate-500">@{row.member.username}</div>
+                  </div>
+                </div>
+                <div className="flex items-center gap-3 flex-shrink-0">
+                  <span className="text-xs text-slate-600">{roles.find(r => r.id === row.roleId)?.name || t('common.noRole')}</span>
+                  {row.isPrimary && <Badge type="success" text={t('common.primary')} />}
+                  {canAssign && (
+                    <button onClick={() => change(api.deleteAssignment(row.id))} className="text-slate-400 hover:text-rose-600" title={t('orgs.members.remove')}>
+                      <X size={16} />
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {canAssign && <form onSubmit={handleAdd} className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-3 items-end">
+        <Select
+          label={t('members.add')}
+          required
+          value={form.memberId}
+          onChange={(e: any) => setForm({ ...form, memberId: e.target.value })}
+          options={[{ value: '', label: t('orgs.members.select') }, ...candidates.map(m => ({ value: m.id, label: `${m.fullName || m.username} (@${m.username})` }))]}
+        />
+        <Select
+          label={t('common.role')}
+          value={form.roleId}
+          onChange={(e: any) => setForm({ ...form, roleId: e.target.value })}
+          options={[{ value: '', label: t('common.noRole') }, ...roleOptions.map(r => ({ value: r.id, label: r.name }))]}
+        />
+        <Button type="submit" className="mb-4 gap-2" disabled={!form.memberId}><Plus size={16} /> {t('common.add')}</Button>
+      </form>}
+    </Modal>
+  );
+};
+
+const OrgTreeRow = ({ node, orgs, expanded, selectedId, dragId, onToggle, onSelect, onAddChild, onDetails, onDragStart, onDrop }: any) => {
+  const [dragOver, setDragOver] = useState(false);
+  const canEdit = useCan()('write', 'orgs', node.id);
+  const { t, formatNumber } = useI18n();
+  const isOpen = expanded.has(node.id);
+  const canDrop = canEdit && dragId !== null && dragId !== node.parentId && !isInSubtree(orgs, dragId, node.id);
+
+  return (
+    <li>
+      <div
+        draggable={canEdit}
+        onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; onDragStart(node.id); }}
+        onDragEnd={() => onDragStart(null)}
+        onDragOver={(e) => { if (canDrop) { e.preventDefault(); setDragOver(true); } }}
+        onDragLeave={() => setDragOver(false)}
+        onDrop={(e) => { e.preventDefault(); setDragOver(false); onDrop(node.id); }}
+        onClick={() => onSelect(node.id)}
+        className={`py-3 pr-4 flex flex-col sm:flex-row sm:items-center justify-between gap-4 cursor-pointer transition-colors
+          ${dragOver ? 'bg-indigo-50 ring-2 ring-inset ring-indigo-400' : selectedId === node.id ? 'bg-slate-50' : 'hover:bg-slate-50'}
+          ${dragId === node.id ? 'opacity-50' : ''}`}
+        style={{ paddingLeft: 16 + node.depth * 24 }}
+      >
+        <div className="flex items-center gap-3">
+          <button
+            onClick={(e) => { e.stopPropagation(); onToggle(node.id); }}
+            className={`text-slate-400 hover:text-slate-600 ${node.children.length ? '' : 'invisible'}`}
+          >
+            {isOpen ? <ChevronDown size={18} /> : <ChevronRight size={18} />}
+          </button>
+          <div className="bg-slate-100 p-2 rounded-lg text-slate-500 flex-shrink-0">
+            <Building2 size={20} />
+          </div>
+          <div>
+            <div className="font-medium text-slate-900">{node.name}</div>
+            <div className="text-sm text-slate-500">{t(`orgType.${node.type as OrgType}`).toUpperCase()} • ID: {node.id}</div>
+          </div>
+        </div>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-4 w-full sm:w-auto">
+          <div className="text-sm text-slate-400 truncate max-w-xs">{node.description}</div>
+          <span className="text-xs bg-slate-100 px-2 py-1 rounded text-slate-600 whitespace-nowrap" title={t('orgs.directMembers', { count: node.memberCount })}>
+            <Users size={12} className="inline mr-1" />{formatNumber(subtreeMemberCount(node))}
+          </span>
+          {canEdit && (
+            <button onClick={(e) => { e.stopPropagation(); onAddChild(node.id); }} className="text-slate-400 hover:text-indigo-600" title={t('orgs.addChild')}>
+              <Plus size={18} />
+            </button>
+          )}
+          <Button variant="secondary" className="py-1 px-3 text-xs w-full sm:w-auto" onClick={(e: React.MouseEvent) => { e.stopPropagation(); onDetails(node); }}>{t('orgs.details')}</Button>
+        </div>
+      </div>
+      {isOpen && node.children.length > 0 && (
+        <ul className="divide-y divide-slate-100 border-t border-slate-100">
+          {node.children.map(child => (
+            <OrgTreeRow
+              key={child.id}
+              node={child}
+              orgs={orgs}
+              expanded={expanded}
+              selectedId={selectedId}
+              dragId={dragId}
+              onToggle={onToggle}
+              onSelect={onSelect}
+              onAddChild={onAddChild}
+              onDetails={onDetails}
+              onDragStart={onDragStart}
+              onDrop={onDrop}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+// /orgs/:id selects that unit in the tree
+const OrgsPage = ({ orgId }: { orgId?: number }) => {
+  const [orgs, setOrgs] = useState<OrgUnit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const selectedId = orgId ?? null;
+  const setSelectedId = (id: number) => navigate(`/orgs/${id}`);
+  const [dragId, setDragId] = useState<number | null>(null);
+  const [formParent, setFormParent] = useState<number | null | undefined>(undefined);
+  const [moveError, setMoveError] = useState('');
+  const [detailsOrg, setDetailsOrg] = useState<OrgUnit | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
+  const { can, refreshPermissions } = useContext(AuthContext)!;
+  const { t } = useI18n();
+
+  const fetchOrgs = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await api.getOrgs();
+      setOrgs(res.data);
+      return res.data;
+    } catch (err) {
+      setError(toApiError(err));
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadTree = async () => {
+    const data = await fetchOrgs();
+    if (data) setExpanded(new Set(data.map(o => o.id)));
+  };
+
+  useEffect(() => {
+    loadTree();
+  }, []);
+
+  const tree = buildOrgTree(orgs);
+  const breadcrumb = selectedId !== null ? orgPath<OrgUnit>(orgs, selectedId) : [];
+
+  const toggle = (id: number) => {
+    const next = new Set(expanded);
+    next.has(id) ? next.delete(id) : next.add(id);
+    setExpanded(next);
+  };
+
+  if (orgId !== undefined && !loading && !error && !orgs.some(o => o.id === orgId)) return <StatusPage code={404} />;
+
+  const handleDrop = async (targetId: number | null) => {
+    const id = dragId;
+    setDragId(null);
+    if (id === null || orgs.find(o => o.id === id)?.parentId === targetId) return;
+    if (isInSubtree(orgs, id, targetId)) {
+      setMoveError(t('orgs.cannotMoveUnder'));
+      return;
+    }
+    setMoveError('');
+    try {
+      await api.moveOrg(id, { parentId: targetId });
+    } catch (err) {
+      setMoveError(toApiError(err).message);
+      return;
+    }
+    if (targetId !== null) setExpanded(new Set(expanded).add(targetId));
+    fetchOrgs();
+    // Scoped grants cover whole subtrees, so they shift when one moves
+    refreshPermissions();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <h1 className="text-2xl font-bold text-slate-900">{t('orgs.title')}</h1>
+        <div className="flex gap-2 w-full sm:w-auto">
+          <ExportMenu onExport={(format) => exportDirectory(format, 'orgs')} />
+          <Can action="write" resource="orgs">
+            <Button onClick={() => setFormParent(selectedId)} className="gap-2 flex-1 sm:flex-none"><Plus size={18} /> {t('orgs.add')}</Button>
+          </Can>
+        </div>
+      </div>
+
+      {/* Breadcrumb */}
+      {breadcrumb.length > 0 && (
+        <nav className="flex flex-wrap items-center gap-1 text-sm text-slate-500">
+          {breadcrumb.map((o, i) => (
+            <React.Fragment key={o.id}>
+              {i > 0 && <ChevronRight size={14} />}
+              <button onClick={() => setSelectedId(o.id)} className={i === breadcrumb.length - 1 ? 'font-medium text-slate-900' : 'hover:text-indigo-600'}>
+                {o.name}
+              </button>
+            </React.Fragment>
+          ))}
+        </nav>
+      )}
+
+      {moveError && (
+        <div className="p-3 rounded-md bg-rose-50 border border-rose-200 text-sm text-rose-700 flex justify-between items-center">
+          {moveError}
+          <button onClick={() => setMoveError('')} className="text-rose-400 hover:text-rose-600"><X size={16} /></button>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg border border-slate-200 shadow-sm">
+        {loading ? <div className="p-8 text-center">{t('common.loading')}</div> : error ? <ErrorState error={error} onRetry={loadTree} /> : (
+          <>
+            <ul className="divide-y divide-slate-100">
+              {tree.map(node => (
+                <OrgTreeRow
+                  key={node.id}
+                  node={node}
+                  orgs={orgs}
+                  expanded={expanded}
+                  selectedId={selectedId}
+                  dragId={dragId}
+                  onToggle={toggle}
+                  onSelect={setSelectedId}
+                  onAddChild={setFormParent}
+                  onDetails={setDetailsOrg}
+                  onDragStart={setDragId}
+                  onDrop={handleDrop}
+                />
+              ))}
+            </ul>
+            {dragId !== null && orgs.find(o => o.id === dragId)?.parentId !== null && can('write', 'orgs', null) && (
+              <div
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => { e.preventDefault(); handleDrop(null); }}
+                className="m-4 p-4 border-2 border-dashed border-slate-300 rounded-lg text-center text-sm text-slate-500"
+              >
+                {t('orgs.dropTopLevel')}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <OrgFormModal
+        isOpen={formParent !== undefined}
+        parentId={formParent ?? null}
+        orgs={orgs}
+        onClose={() => setFormParent(undefined)}
+        onSaved={() => {
+          if (formParent) setExpanded(new Set(expanded).add(formParent));
+          setFormParent(undefined);
+          fetchOrgs();
+          refreshPermissions();
+        }}
+      />
+      <OrgMembersModal org={detailsOrg} orgs={orgs} onClose={() => setDetailsOrg(null)} onChanged={fetchOrgs} />
+    </div>
+  );
+};
+
+const EMPTY_AGENT_CONFIG: AgentConfig = { ownerId: null, model: null, capabilities: [], scopes: [] };
+// Days until a new token expires; empty means it never does
+const TOKEN_EXPIRY_OPTIONS = ['30', '90', '365', ''] as const;
+
+const AgentConfigFields = ({ config, owners, onChange }: { config: AgentConfig, owners: Member[], onChange: (c: AgentConfig) => void }) => {
+  const [capabilities, setCapabilities] = useState(config.capabilities.join(', '));
+  const { t } = useI18n();
+
+  useEffect(() => { setCapabilities(config.capabilities.join(', ')); }, [config.capabilities.join(',')]);
+
+  const toggleScope = (scope: string, on: boolean) =>
+    onChange({ ...config, scopes: on ? [...config.scopes, scope].sort() : config.scopes.filter(s => s !== scope) });
+
+  return (
+    <>
+      <Select
+        label={t('agents.config.owner')}
+        value={config.ownerId ?? ''}
+        onChange={(e: any) => onChange({ ...config, ownerId: e.target.value ? Number(e.target.value) : null })}
+        options={[{ value: '', label: t('agents.unassigned') }, ...owners.map(m => ({ value: m.id, label: `${m.fullName || m.username} (@${m.username})` }))]}
+      />
+      <Input
+        label={t('agents.config.model')}
+        value={config.model || ''}
+        onChange={(e: any) => onChange({ ...config, model: e.target.value || null })}
+        placeholder={t('agents.config.modelPlaceholder')}
+      />
+      <Input
+        label={t('agents.config.capabilities')}
+        value={capabilities}
+        onChange={(e: any) => setCapabilities(e.target.value)}
+        onBlur={() => onChange({ ...config, capabilities: capabilities.split(',').map(c => c.trim()).filter(Boolean) })}
+        placeholder={t('agents.config.capabilitiesPlaceholder')}
+      />
+      <div className="mb-4">
+        <label className="block text-sm font-medium text-slate-700 mb-1">{t('agents.config.scopes')}</label>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 p-3 border border-slate-200 rounded-md">
+          {ALL_PERMISSIONS.map(scope => (
+            <label key={scope} className="flex items-center gap-2 text-xs text-slate-700 font-mono select-none">
+              <input type="checkbox" checked={config.scopes.includes(scope)} onChange={(e) => toggleScope(scope, e.target.checked)} className="rounded text-indigo-600" />
+              {scope}
+            </label>
+          ))}
+        </div>
+      </div>
+    </>
+  );
+};
+
+const AgentTokens = ({ agent, onChanged }: { agent: Agent, onChanged: () => void }) => {
+  const [tokens, setTokens] = useState<AgentToken[]>([]);
+  const [form, setForm] = useState({ name: '', expiresInDays: '90' });
+  const [issued, setIssued] = useState<AgentToken | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { notify, notifyError } = useToast();
+  const { t, formatDate } = useI18n();
+  const { fieldErrors, handleError, clearErrors } = useFormErrors();
+
+  const fetchTokens = async () => {
+    const res = await api.getAgentTokens(agent.id);
+    setTokens(res.data);
+  };
+
+  useEffect(() => {
+    setIssued(null);
+    clearErrors();
+    fetchTokens().catch(notifyError);
+  }, [agent.id]);
+
+  const handleIssue = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const token = await api.issueAgentToken(agent.id, { name: form.name.trim(), expiresInDays: form.expiresInDays ? Number(form.expiresInDays) : null });
+      setIssued(token);
+      setForm({ name: '', expiresInDays: '90' });
+      clearErrors();
+      await fetchTokens();
+      onChanged();
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (token: AgentToken) => {
+    try {
+      await api.revokeAgentToken(agent.id, token.id);
+      notify('success', t('agents.tokens.revoked', { name: token.name }));
+      await fetchTokens();
+      onChanged();
+    } catch (err) {
+      notifyError(err);
+    }
+  };
+
+  const tokenState = (token: AgentToken) =>
+    token.revokedAt ? 'revoked' : token.expiresAt && Date.parse(token.expiresAt) < Date.now() ? 'expired' : 'active';
+
+  return (
+    <div className="border-t border-slate-200 pt-6">
+      <h4 className="text-sm font-semibold text-slate-700 mb-3">{t('agents.tokens.title')}</h4>
+
+      {issued?.secret && (
+        <div className="mb-4 p-3 rounded-md bg-emerald-50 border border-emerald-200 text-sm">
+          <p className="text-emerald-800 mb-2">{t('agents.tokens.copyNow')}</p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 bg-white border border-emerald-200 rounded px-2 py-1 text-xs font-mono break-all">{issued.secret}</code>
+            <button onClick={() => navigator.clipboard.writeText(issued.secret!)} className="text-emerald-700 hover:text-emerald-900" title={t('agents.tokens.copy')}>
+              <Copy size={16} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {tokens.length === 0 ? <p className="text-sm text-slate-500 mb-3">{t('agents.tokens.empty')}</p> : (
+        <ul className="divide-y divide-slate-100 border border-slate-200 rounded-md mb-3">
+          {tokens.map(token => {
+            const state = tokenState(token);
+            return (
+              <li key={token.id} className="px-3 py-2 flex items-center justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <div className="text-slate-900">{token.name} <span className="font-mono text-xs text-slate-500">{token.prefix}…</span></div>
+                  <div className="text-xs text-slate-500">
+                    {t('agents.tokens.created', { date: formatDate(token.createdAt) })}
+                    {token.expiresAt && ` • ${t('agents.tokens.expires', { date: formatDate(token.expiresAt) })}`}
+                    {token.lastUsedAt && ` • ${t('agents.tokens.lastUsed', { date: formatDate(token.lastUsedAt) })}`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <Badge type={state === 'active' ? 'success' : state === 'expired' ? 'warning' : 'neutral'} text={t(`agents.tokens.state.${state}`).toUpperCase()} />
+                  {state === 'active' && (
+                    <Can action="write" resource="agents">
+                      <button onClick={() => handleRevoke(token)} className="text-xs text-rose-600 hover:underline">{t('agents.tokens.revoke')}</button>
+                    </Can>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <form onSubmit={handleIssue} className="grid grid-cols-[1fr_auto_auto] gap-2 items-end">
+        <Input label={t('agents.tokens.name')} required error={fieldErrors.name} value={form.name} onChange={(e: any) => setForm({ ...form, name: e.target.value })} placeholder={t('agents.tokens.namePlaceholder')} />
+        <Select
+          label={t('agents.tokens.expiresIn')}
+          error={fieldErrors.expiresInDays}
+          value={form.expiresInDays}
+          onChange={(e: any) => setForm({ ...form, expiresInDays: e.target.value })}
+          options={TOKEN_EXPIRY_OPTIONS.map(days => ({ value: days, label: t(`agents.tokens.expiry.${days || 'never'}`) }))}
+        />
+        <Can action="write" resource="agents" disable>
+          <Button type="submit" variant="secondary" className="mb-4 gap-2 text-xs" disabled={saving || !form.name.trim()}><KeyRound size={14} /> {t('agents.tokens.issue')}</Button>
+        </Can>
+      </form>
+    </div>
+  );
+};
+
+const AgentDrawer = ({ agent, owners, onClose, onChanged }: { agent: Agent | null, owners: Member[], onClose: () => void, onChanged: () => void }) => {
+  const [config, setConfig] = useState<AgentConfig>(EMPTY_AGENT_CONFIG);
+  const [saving, setSaving] = useState(false);
+  const { notify, notifyError } = useToast();
+  const { t } = useI18n();
+
+  useEffect(() => {
+    if (agent) setConfig(agent.config);
+  }, [agent]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!agent) return;
+    setSaving(true);
+    try {
+      await api.updateAgentConfig(agent.id, config);
+      notify('success', t('agents.drawer.saved'));
+      onChanged();
+    } catch (err) {
+      notifyError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Drawer isOpen={!!agent} onClose={onClose} title={t('agents.drawer.title')}>
+      {agent && (
+        <div className="space-y-6">
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 rounded-full flex-shrink-0 flex items-center justify-center text-white bg-purple-500">
+              <Bot size={22} />
+            </div>
+            <div>
+              <div className="font-medium text-slate-900">{agent.fullName || agent.username}</div>
+              <div className="text-slate-500 text-xs">@{agent.username} • {agent.agentType ? t(`agentType.${agent.agentType}`) : t('agents.unknownType')} • {t('agents.drawer.id', { id: agent.id })}</div>
+            </div>
+          </div>
+          <form onSubmit={handleSave}>
+            <AgentConfigFields config={config} owners={owners} onChange={setConfig} />
+            <div className="flex justify-end">
+              <Can action="write" resource="agents" disable>
+                <Button type="submit" disabled={saving}>{saving ? t('common.saving') : t('agents.drawer.save')}</Button>
+              </Can>
+            </div>
+          </form>
+          <AgentTokens agent={agent} onChanged={onChanged} />
+        </div>
+      )}
+    </Drawer>
+  );
+};
+
+const ProvisionAgentModal = ({ isOpen, owners, onClose, onSaved }: { isOpen: boolean, owners: Member[], onClose: () => void, onSaved: () => void }) => {
+  const empty = { username: '', fullName: '', email: '', agentType: 'llm' as AgentType, status: 'active' as MemberStatus };
+  const [form, setForm] = useState(empty);
+  const [config, setConfig] = useState<AgentConfig>(EMPTY_AGENT_CONFIG);
+  const [agentTypes, setAgentTypes] = useState(AGENT_TYPES);
+  const [saving, setSaving] = useState(false);
+  const { fieldErrors, handleError, clearErrors } = useFormErrors();
+  const { notify, notifyError } = useToast();
+  const { t } = useI18n();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setForm(empty);
+    setConfig(EMPTY_AGENT_CONFIG);
+    clearErrors();
+    api.getTenantSettings().then(policy => {
+      const allowed = AGENT_TYPES.filter(type => policy.allowedAgentTypes.includes(type));
+      setAgentTypes(allowed);
+      setForm((prev: typeof empty) => ({ ...prev, agentType: allowed[0] || prev.agentType, status: policy.defaultMemberStatus }));
+    }).catch(notifyError);
+  }, [isOpen]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await api.createAgent({ ...form, fullName: form.fullName || null, config });
+      notify('success', t('agents.provisioned', { username: form.username }));
+      onSaved();
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={t('agents.provision')} wide>
+      <form onSubmit={handleSubmit}>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+          <Input label={t('members.create.username')} required error={fieldErrors.username} value={form.username} onChange={(e: any) => setForm({ ...form, username: e.target.value })} />
+          <Input label={t('agents.form.displayName')} error={fieldErrors.fullName} value={form.fullName} onChange={(e: any) => setForm({ ...form, fullName: e.target.value })} />
+          <Input label={t('members.create.email')} type="email" required error={fieldErrors.email} value={form.email} onChange={(e: any) => setForm({ ...form, email: e.target.value })} />
+          <Select
+            label={t('members.create.agentType')}
+            error={fieldErrors.agentType}
+            value={form.agentType}
+            onChange={(e: any) => setForm({ ...form, agentType: e.target.value })}
+            options={agentTypes.map(type => ({ value: type, label: t(`agentType.${type}`) }))}
+          />
+        </div>
+        <AgentConfigFields config={config} owners={owners} onChange={setConfig} />
+        <div className="flex justify-end gap-3 mt-6">
+          <Button type="button" variant="secondary" onClick={onClose}>{t('common.cancel')}</Button>
+          <Button type="submit" disabled={saving || agentTypes.length === 0}>{saving ? t('agents.provisioning') : t('agents.provision')}</Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+const AgentsPage = () => {
+  const [agents, setAgents] = useState<Agent[]>([]);
+  const [owners, setOwners] = useState<Member[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [params, setParams] = useSearchParams();
+  const [savedType, saveType] = usePreference<AgentType | ''>('agents.type', '');
+  const typeFilter = (params.get('type') ?? savedType) as AgentType | '';
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [isProvisionOpen, setProvisionOpen] = useState(false);
+  const { notifyError } = useToast();
+  const { t } = useI18n();
+
+  const fetchAgents = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await api.getAgents({ agentType: typeFilter || undefined });
+      setAgents(res.data);
+    } catch (err) {
+      setError(toApiError(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchAgents();
+  }, [typeFilter]);
+
+  useEffect(() => {
+    api.getMembers({ pageSize: 100, sortBy: 'name', sortOrder: 'asc' })
+      .then(res => setOwners(res.data.filter((m: Member) => !m.isVirtual)))
+      .catch(notifyError);
+  }, []);
+
+  const ownerName = (id: number | null) => {
+    const owner = owners.find(m => m.id === id);
+    return owner ? owner.fullName || owner.username : t('agents.unassigned');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <h1 className="text-2xl font-bold text-slate-900">{t('agents.title')}</h1>
+        <Can action="write" resource="agents">
+          <Button onClick={() => setProvisionOpen(true)} className="gap-2 w-full sm:w-auto"><Plus size={18} /> {t('agents.provision')}</Button>
+        </Can>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {[{ value: '', label: t('agents.allTypes') }, ...AGENT_TYPES.map(type => ({ value: type, label: t(`agentType.${type}`) }))].map(opt => (
+          <button
+            key={opt.value}
+            onClick={() => { saveType(opt.value as AgentType | ''); setParams({ type: opt.value || null }); }}
+            className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${typeFilter === opt.value ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'}`}
+          >
+            {opt.label}
+          </button>
+        ))}
+      </div>
+
+      {error && !loading && (
+        <div className="bg-white rounded-lg border border-slate-200 shadow-sm"><ErrorState error={error} onRetry={fetchAgents} /></div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {loading ? <p>{t('common.loading')}</p> : error ? null : agents.length === 0 ? <p className="text-slate-500">{t('agents.empty')}</p> : agents.map(agent => (
+          <div key={agent.id} className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm hover:shadow-md transition-shadow">
+            <div className="flex justify-between items-start mb-3">
+              <div className="p-2 rounded-lg bg-purple-100 text-purple-600"><Bot size={20} /></div>
+              <Badge type={statusBadgeType(agent.status)} text={t(`memberStatus.${agent.status}`).toUpperCase()} />
+            </div>
+            <h3 className="font-bold text-lg text-slate-900 mb-1">{agent.fullName || agent.username}</h3>
+            <p className="text-sm text-slate-500 mb-4">@{agent.username} • {t('agents.owner', { name: ownerName(agent.config.ownerId) })}</p>
+            <div className="flex flex-wrap gap-2 mb-4">
+              <span className="text-xs bg-slate-100 px-2 py-1 rounded text-slate-600">{agent.agentType ? t(`agentType.${agent.agentType}`) : t('agents.unknownType')}</span>
+              {agent.config.model && <span className="text-xs bg-slate-100 px-2 py-1 rounded text-slate-600 font-mono truncate max-w-full">{agent.config.model}</span>}
+              <span className="text-xs bg-slate-100 px-2 py-1 rounded text-slate-600">{t('agents.scopes', { count: agent.config.scopes.length })}</span>
+              <span className="text-xs bg-slate-100 px-2 py-1 rounded text-slate-600">{t('agents.activeTokens', { count: agent.activeTokens })}</span>
+            </div>
+            <Button variant="secondary" className="w-full text-xs" onClick={() => setSelectedId(agent.id)}>{t('agents.configure')}</Button>
+          </div>
+        ))}
+      </div>
+
+      <AgentDrawer
+        agent={agents.find(a => a.id === selectedId) || null}
+        owners={owners}
+        onClose={() => setSelectedId(null)}
+        onChanged={fetchAgents}
+      />
+      <ProvisionAgentModal
+        isOpen={isProvisionOpen}
+        owners={owners}
+        onClose={() => setProvisionOpen(false)}
+        onSaved={() => { setProvisionOpen(false); fetchAgents(); }}
+      />
+    </div>
+  );
+};
+
+const AUDIT_ACTION_BADGE: Record<AuditAction, 'success' | 'warning' | 'danger'> = {
+  create: 'success',
+  update: 'warning',
+  delete: 'danger',
+};
+
+// Entities with a deep link; agents are members, so they open on the member page
+const AUDIT_ENTITY_PATHS: Partial<Record<AuditEntityType, string>> = {
+  member: '/members', agent: '/members', member_mfa: '/members', role: '/roles', org: '/orgs',
+};
+
+const formatAuditValue = (value: any) =>
+  value === undefined || value === null ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+const AuditDiff = ({ event }: { event: AuditEvent }) => {
+  const { t } = useI18n();
+  const changes = diffFields(event.before, event.after);
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-slate-500">
+          <th className="text-left font-medium py-1 pr-4 w-40">{t('auditDiff.field')}</th>
+          <th className="text-left font-medium py-1 pr-4">{t('auditDiff.before')}</th>
+          <th className="text-left font-medium py-1">{t('auditDiff.after')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {changes.map(c => (
+          <tr key={c.field} className="align-top">
+            <td className="py-1 pr-4 font-mono text-slate-700">{c.field}</td>
+            <td className="py-1 pr-4 font-mono text-rose-700 break-all whitespace-pre-wrap">{formatAuditValue(c.before)}</td>
+            <td className="py-1 font-mono text-emerald-700 break-all whitespace-pre-wrap">{formatAuditValue(c.after)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+const AuditLogsPage = () => {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [meta, setMeta] = useState<PageMeta | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [filters, setFilters] = useState({ actor: '', entityType: '', action: '', from: '', to: '' });
+  const [page, setPage] = useState(1);
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const { t, formatDateTime } = useI18n();
+
+  const fetchEvents = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await api.getAuditEvents({
+        actor: filters.actor || undefined,
+        entityType: (filters.entityType || undefined) as AuditEntityType | undefined,
+        action: (filters.action || undefined) as AuditAction | undefined,
+        from: filters.from ? dayStart(filters.from) : undefined,
+        to: filters.to ? dayEnd(filters.to) : undefined,
+        page,
+        pageSize: 20,
+      });
+      setEvents(res.data);
+      setMeta(res.meta || null);
+    } catch (err) {
+      setError(toApiError(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEvents();
+  }, [page, filters.entityType, filters.action, filters.from, filters.to]);
+
+  const setFilter = (key: keyof typeof filters, value: string) => {
+    setFilters({ ...filters, [key]: value });
+    setPage(1);
   };
+
   return (
-    <span className={`px-2.5 py-0.5 rounded-full text-xs font-medium border ${colors[type]}`}>
-      {text}
-    </span>
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <h1 className="text-2xl font-bold text-slate-900">{t('audit.title')}</h1>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white p-4 rounded-lg border border-slate-200 shadow-sm grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={16} />
+          <input
+            className="w-full pl-9 pr-3 py-2 border border-slate-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500 text-sm"
+            placeholder={t('audit.actorPlaceholder')}
+            value={filters.actor}
+            onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+            onKeyDown={(e) => e.key === 'Enter' && (page === 1 ? fetchEvents() : setPage(1))}
+          />
+        </div>
+        <select className="px-3 py-2 border border-slate-300 rounded-md focus:ring-indigo-500 text-sm" value={filters.entityType} onChange={(e) => setFilter('entityType', e.target.value)}>
+          <option value="">{t('audit.allEntities')}</option>
+          {AUDIT_ENTITY_TYPES.map(type => <option key={type} value={type}>{t(`auditEntity.${type}`)}</option>)}
+        </select>
+        <select className="px-3 py-2 border border-slate-300 rounded-md focus:ring-indigo-500 text-sm" value={filters.action} onChange={(e) => setFilter('action', e.target.value)}>
+          <option value="">{t('audit.allActions')}</option>
+          <option value="create">{t('auditAction.create')}</option>
+          <option value="update">{t('auditAction.update')}</option>
+          <option value="delete">{t('auditAction.delete')}</option>
+        </select>
+        <input type="date" title={t('audit.from')} className="px-3 py-2 border border-slate-300 rounded-md focus:ring-indigo-500 text-sm" value={filters.from} onChange={(e) => setFilter('from', e.target.value)} />
+        <input type="date" title={t('audit.to')} className="px-3 py-2 border border-slate-300 rounded-md focus:ring-indigo-500 text-sm" value={filters.to} onChange={(e) => setFilter('to', e.target.value)} />
+      </div>
+
+      {/* Table */}
+      <div className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm whitespace-nowrap">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-6 py-3 w-8"></th>
+                <th className="px-6 py-3 font-semibold text-slate-700">{t('audit.col.time')}</th>
+                <th className="px-6 py-3 font-semibold text-slate-700">{t('audit.col.actor')}</th>
+                <th className="px-6 py-3 font-semibold text-slate-700">{t('audit.col.action')}</th>
+                <th className="px-6 py-3 font-semibold text-slate-700">{t('audit.col.target')}</th>
+                <th className="px-6 py-3 font-semibold text-slate-700 text-right">{t('audit.col.changes')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {loading ? (
+                <tr><td colSpan={6} className="p-8 text-center text-slate-500">{t('audit.loading')}</td></tr>
+              ) : error ? (
+                <tr><td colSpan={6}><ErrorState error={error} onRetry={fetchEvents} /></td></tr>
+              ) : events.length === 0 ? (
+                <tr><td colSpan={6} className="p-8 text-center text-slate-500">{t('audit.empty')}</td></tr>
+              ) : events.map(event => (
+                <React.Fragment key={event.id}>
+                  <tr className="hover:bg-slate-50 transition-colors cursor-pointer" onClick={() => setExpanded(expanded === event.id ? null : event.id)}>
+                    <td className="px-6 py-3 text-slate-400">{expanded === event.id ? <ChevronDown size={16} /> : <ChevronRight size={16} />}</td>
+                    <td className="px-6 py-3 text-slate-500">{formatDateTime(event.timestamp)}</td>
+                    <td className="px-6 py-3 text-slate-900">@{event.actor}</td>
+                    <td className="px-6 py-3"><Badge type={AUDIT_ACTION_BADGE[event.action]} text={t(`auditAction.${event.action}`).toUpperCase()} /></td>
+                    <td className="px-6 py-3 text-slate-700">
+                      {t(`auditEntity.${event.entityType}`)}{' '}
+                      {AUDIT_ENTITY_PATHS[event.entityType]
+                        ? <Link to={`${AUDIT_ENTITY_PATHS[event.entityType]}/${event.entityId}`} onClick={(e: any) => e.stopPropagation()} className="font-mono text-indigo-600 hover:underline">#{event.entityId}</Link>
+                        : <span className="font-mono text-slate-500">#{event.entityId}</span>}
+                    </td>
+                    <td className="px-6 py-3 text-right text-slate-500">{t('audit.fields', { count: diffFields(event.before, event.after).length })}</td>
+                  </tr>
+                  {expanded === event.id && (
+                    <tr className="bg-slate-50">
+                      <td></td>
+                      <td colSpan={5} className="px-6 py-3 whitespace-normal">
+                        <div className="text-xs text-slate-500 mb-2">{t('audit.eventMeta', { tenant: event.tenantId, id: event.id })}</div>
+                        <AuditDiff event={event} />
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="px-6 py-3 border-t border-slate-200 flex items-center justify-between gap-4">
+          <span className="text-sm text-slate-500">{meta ? t('audit.total', { count: meta.total }) : ''}</span>
+          <div className="flex items-center gap-4">
+            <span className="text-sm text-slate-500">{t('common.pageOf', { page: meta?.page || page, total: meta?.totalPages || 1 })}</span>
+            <div className="flex gap-1">
+              <button className="p-1 border rounded hover:bg-slate-50 disabled:opacity-50" disabled={loading || page <= 1} onClick={() => setPage(page - 1)}><ChevronLeft size={16} /></button>
+              <button className="p-1 border rounded hover:bg-slate-50 disabled:opacity-50" disabled={loading || !meta || page >= meta.totalPages} onClick={() => setPage(page + 1)}><ChevronRight size={16} /></button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
   );
 };
 
-const SidebarItem = ({ icon: Icon, label, active, onClick }: any) => (
-  <button
-    onClick={onClick}
-    className={`w-full flex items-center space-x-3 px-4 py-3 text-sm font-medium transition-colors
-      ${active ? 'bg-indigo-50 text-indigo-600 border-r-4 border-indigo-600' : 'text-slate-600 hover:bg-slate-50 hover:text-slate-900'}`}
-  >
-    <Icon size={18} />
-    <span>{label}</span>
-  </button>
-);
+const LocalizationPage = () => {
+  const { locale, setLocale, t, formatNumber, overrides, saveOverrides } = useI18n();
+  const { notify, notifyError } = useToast();
+  // Overrides change labels for the whole tenant, so editing them takes tenant-wide admin rights
+  const canOverride = useCan()('write', 'roles', null);
+  const [target, setTarget] = useState<Locale>(locale === 'en' ? 'zh-CN' : locale);
+  const [missingOnly, setMissingOnly] = useState(false);
+  const [query, setQuery] = useState('');
+  // Keyed by `${locale}:${key}`
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
 
-const Button = ({ children, variant = 'primary', className = '', ...props }: any) => {
-  const base = "inline-flex items-center justify-center px-4 py-2 text-sm font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 transition-colors disabled:opacity-50";
-  const variants: any = {
-    primary: "bg-indigo-600 text-white hover:bg-indigo-700 focus:ring-indigo-500 shadow-sm",
-    secondary: "bg-white text-slate-700 border border-slate-300 hover:bg-slate-50 focus:ring-indigo-500",
-    danger: "bg-rose-600 text-white hover:bg-rose-700 focus:ring-rose-500",
+  useEffect(() => {
+    setDrafts(Object.fromEntries(overrides.map(o => [`${o.locale}:${o.key}`, o.text])));
+  }, [overrides]);
+
+  const draft = (l: Locale, key: MessageKey) => drafts[`${l}:${key}`] || '';
+  // A tenant override fills a gap as well as a catalog entry does
+  const isMissing = (l: Locale, key: MessageKey) => !MESSAGES[l][key] && !draft(l, key).trim();
+  const dirty = overrides.length !== Object.values<string>(drafts).filter(text => text.trim()).length
+    || overrides.some(o => drafts[`${o.locale}:${o.key}`]?.trim() !== o.text);
+
+  const needle = query.trim().toLowerCase();
+  const rows = MESSAGE_KEYS.filter(key =>
+    (!missingOnly || isMissing(target, key))
+    && (!needle || [key, MESSAGES_EN[key], MESSAGES[target][key] || '', draft(target, key)].some(text => text.toLowerCase().includes(needle))));
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveOverrides(Object.entries<string>(drafts)
+        .filter(([, text]) => text.trim())
+        .map(([id, text]) => {
+          const [l, key] = [id.slice(0, id.indexOf(':')), id.slice(id.indexOf(':') + 1)];
+          return { locale: l, key, text: text.trim() };
+        }));
+      notify('success', t('localization.saved'));
+    } catch (err) {
+      notifyError(err);
+    } finally {
+      setSaving(false);
+    }
   };
-  return <button className={`${base} ${variants[variant]} ${className}`} {...props}>{children}</button>;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <h1 className="text-2xl font-bold text-slate-900">{t('localization.title')}</h1>
+        {canOverride && (
+          <Button onClick={handleSave} disabled={saving || !dirty}>{saving ? t('localization.saving') : t('localization.save')}</Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="bg-white p-4 rounded-lg border border-slate-200 shadow-sm">
+          <div className="text-sm font-medium text-slate-700 mb-2">{t('localization.language')}</div>
+          <select
+            className="w-full px-3 py-2 border border-slate-300 rounded-md focus:ring-indigo-500 text-sm"
+            value={locale}
+            onChange={(e: any) => setLocale(e.target.value)}
+          >
+            {LOCALES.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+          </select>
+          <p className="text-xs text-slate-500 mt-2">{t('localization.languageHint')}</p>
+        </div>
+        {LOCALES.map(l => {
+          const done = MESSAGE_KEYS.filter(key => !isMissing(l.value, key)).length;
+          return (
+            <button
+              key={l.value}
+              onClick={() => setTarget(l.value)}
+              className={`text-left p-4 rounded-lg border shadow-sm transition-colors ${target === l.value ? 'bg-indigo-50 border-indigo-300' : 'bg-white border-slate-200 hover:border-indigo-300'}`}
+            >
+              <div className="flex justify-between text-sm mb-2">
+                <span className="font-medium text-slate-900">{l.label}</span>
+                <span className="text-slate-500">{formatNumber(Math.floor((done / MESSAGE_KEYS.length) * 100))}%</span>
+              </div>
+              <div className="h-2 bg-slate-100 rounded-full overflow-hidden mb-2">
+                <div className={`h-full rounded-full ${done === MESSAGE_KEYS.length ? 'bg-emerald-500' : 'bg-amber-500'}`} style={{ width: `${(done / MESSAGE_KEYS.length) * 100}%` }} />
+              </div>
+              <div className="text-xs text-slate-500">{t('localization.coverage', { done: formatNumber(done), total: formatNumber(MESSAGE_KEYS.length) })}</div>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="bg-white p-4 rounded-lg border border-slate-200 shadow-sm flex flex-col sm:flex-row gap-4 items-center">
+        <div className="relative flex-1 w-full">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
+          <input
+            className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
+            placeholder={t('localization.search')}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-slate-700 select-none whitespace-nowrap">
+          {t('localization.editing')}
+          <select
+            className="px-3 py-2 border border-slate-300 rounded-md focus:ring-indigo-500 text-sm"
+            value={target}
+            onChange={(e: any) => setTarget(e.target.value)}
+          >
+            {LOCALES.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer select-none whitespace-nowrap">
+          <input type="checkbox" checked={missingOnly} onChange={(e) => setMissingOnly(e.target.checked)} className="rounded text-indigo-600" />
+          {t('localization.missingOnly')}
+        </label>
+      </div>
+
+      <div className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
+        {canOverride && <p className="px-6 py-3 text-xs text-slate-500 border-b border-slate-200">{t('localization.overridesHint')}</p>}
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="px-6 py-3 font-semibold text-slate-700">{t('localization.col.key')}</th>
+                <th className="px-6 py-3 font-semibold text-slate-700">{t('localization.col.source')}</th>
+                <th className="px-6 py-3 font-semibold text-slate-700">{t('localization.col.translation')}</th>
+                <th className="px-6 py-3 font-semibold text-slate-700">{t('localization.col.override')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {rows.length === 0 ? (
+                <tr><td colSpan={4} className="p-8 text-center text-slate-500">{t('localization.empty')}</td></tr>
+              ) : rows.map(key => (
+                <tr key={key} className="hover:bg-slate-50">
+                  <td className="px-6 py-3 font-mono text-xs text-slate-500 whitespace-nowrap">{key}</td>
+                  <td className="px-6 py-3 text-slate-700">{MESSAGES_EN[key]}</td>
+                  <td className="px-6 py-3 text-slate-700">
+                    {MESSAGES[target][key] || <Badge type="warning" text={t('localization.missing')} />}
+                  </td>
+                  <td className="px-6 py-2 min-w-[14rem]">
+                    <input
+                      className="w-full px-2 py-1.5 border border-slate-300 rounded-md focus:ring-indigo-500 text-sm disabled:bg-slate-50"
+                      placeholder={t('localization.useDefault')}
+                      aria-label={`${key} (${target})`}
+                      disabled={!canOverride}
+                      value={draft(target, key)}
+                      onChange={(e) => setDrafts({ ...drafts, [`${target}:${key}`]: e.target.value })}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
 };
 
-const Input = ({ label, ...props }: any) => (
-  <div className="mb-4">
-    {label && <label className="block text-sm font-medium text-slate-700 mb-1">{label}</label>}
-    <input className="w-full px-3 py-2 border border-slate-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm" {...props} />
-  </div>
-);
+type HealthResult = { ok: true, version: string, latencyMs: number } | { ok: false, message: string };
 
-const Select = ({ label, options, ...props }: any) => (
-  <div className="mb-4">
-    {label && <label className="block text-sm font-medium text-slate-700 mb-1">{label}</label>}
-    <select className="w-full px-3 py-2 border border-slate-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm" {...props}>
-      {options.map((opt: any) => (
-        <option key={opt.value} value={opt.value}>{opt.label}</option>
-      ))}
-    </select>
-  </div>
-);
+const ConnectionProfiles = () => {
+  const auth = useContext(AuthContext)!;
+  const { notify } = useToast();
+  const { t } = useI18n();
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>(api.getProfiles());
+  const [activeId, setActiveId] = useState(api.getActiveProfile().id);
+  const [health, setHealth] = useState<Record<string, HealthResult>>({});
+  const [checking, setChecking] = useState<string | null>(null);
+  // null: adding a new profile; otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState({ name: '', baseUrl: '' });
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+
+  const ping = async (profile: ConnectionProfile) => {
+    setChecking(profile.id);
+    try {
+      const res = await api.checkHealth(profile.baseUrl);
+      setHealth(prev => ({ ...prev, [profile.id]: { ok: true, version: res.version, latencyMs: res.latencyMs } }));
+      return true;
+    } catch (err) {
+      setHealth(prev => ({ ...prev, [profile.id]: { ok: false, message: toApiError(err).message } }));
+      return false;
+    } finally {
+      setChecking(null);
+    }
+  };
+
+  const saveProfiles = (next: ConnectionProfile[]) => {
+    api.saveProfiles(next);
+    setProfiles(next);
+  };
+
+  // Only a server that answers the ping becomes active; its sessions are its own, so a live one ends.
+  // `next` is the profile list to keep once it does, for when the switch comes from editing the active profile.
+  const switchTo = async (profile: ConnectionProfile, next = profiles) => {
+    if (!await ping(profile)) {
+      notify('error', t('settings.connection.noAnswer', { name: profile.name }));
+      return false;
+    }
+    saveProfiles(next);
+    api.setActiveProfile(profile.id);
+    setActiveId(profile.id);
+    notify('success', t('settings.connection.switched', { name: profile.name }));
+    if (!auth.isMock && auth.user) auth.logout();
+    return true;
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm({ name: '', baseUrl: '' });
+    setFormErrors({});
+  };
+
+  const editProfile = (profile: ConnectionProfile) => {
+    setEditingId(profile.id);
+    setForm({ name: profile.name, baseUrl: profile.baseUrl });
+    setFormErrors({});
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = form.name.trim();
+    const baseUrl = form.baseUrl.trim().replace(/\/+$/, '');
+    const errors: Record<string, string> = {};
+    if (profiles.some(p => p.id !== editingId && p.name.toLowerCase() === name.toLowerCase())) errors.name = t('settings.connection.duplicateName', { name });
+    if (!/^https?:\/\/\S+$/.test(baseUrl)) errors.baseUrl = t('settings.connection.invalidUrl');
+    setFormErrors(errors);
+    if (Object.keys(errors).length) return;
+    const next = editingId
+      ? profiles.map(p => p.id === editingId ? { ...p, name, baseUrl } : p)
+      : [...profiles, { id: Date.now().toString(36), name, baseUrl }];
+    const dropHealth = () => setHealth(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => id !== editingId)));
+    // Pointing the active profile at another server is a switch, so it gets the same ping and sign-out
+    if (editingId === activeId && baseUrl !== api.getActiveProfile().baseUrl) {
+      if (!await switchTo({ id: editingId, name, baseUrl }, next)) {
+        dropHealth();
+        return;
+      }
+    } else {
+      saveProfiles(next);
+      // An edited URL needs a fresh check
+      if (editingId) dropHealth();
+    }
+    resetForm();
+  };
+
+  const deleteProfile = (profile: ConnectionProfile) => {
+    saveProfiles(profiles.filter(p => p.id !== profile.id));
+    if (editingId === profile.id) resetForm();
+  };
 
-const Modal = ({ isOpen, onClose, title, children }: any) => {
-  if (!isOpen) return null;
   return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
-      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={onClose} />
-      <div className="relative bg-white rounded-lg shadow-xl w-full max-w-md p-6 animate-in fade-in zoom-in duration-200">
-        <div className="flex justify-between items-center mb-4">
-          <h3 className="text-lg font-semibold text-slate-900">{title}</h3>
-          <button onClick={onClose} className="text-slate-400 hover:text-slate-500">
-            <span className="text-2xl">&times;</span>
-          </button>
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-6">
+      <h2 className="font-semibold text-slate-900 mb-1">{t('settings.connection.title')}</h2>
+      <p className="text-sm text-slate-500 mb-4">{t('settings.connection.intro')}</p>
+
+      <ul className="divide-y divide-slate-100 border border-slate-200 rounded-md mb-4">
+        {profiles.map(profile => {
+          const result = health[profile.id];
+          const active = profile.id === activeId;
+          return (
+            <li key={profile.id} className="px-4 py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 text-sm font-medium text-slate-900">
+                  {profile.name}
+                  {active && <Badge type="success" text={t('settings.connection.active')} />}
+                </div>
+                <div className="font-mono text-xs text-slate-500 break-all">{profile.baseUrl}</div>
+                {result && (
+                  <div className={`text-xs mt-1 ${result.ok ? 'text-emerald-600' : 'text-rose-600'}`}>
+                    {result.ok ? t('settings.connection.healthy', { version: result.version, latency: result.latencyMs }) : result.message}
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <button onClick={() => ping(profile)} disabled={checking !== null} className="p-1.5 text-slate-400 hover:text-indigo-600 disabled:opacity-50" title={t('settings.connection.check')}>
+                  <RefreshCw size={16} className={checking === profile.id ? 'animate-spin' : ''} />
+                </button>
+                <button onClick={() => editProfile(profile)} className="p-1.5 text-slate-400 hover:text-indigo-600" title={t('settings.connection.edit')}><Pencil size={16} /></button>
+                {!active && (
+                  <>
+                    <button onClick={() => deleteProfile(profile)} className="p-1.5 text-slate-400 hover:text-rose-600" title={t('settings.connection.delete')}><Trash2 size={16} /></button>
+                    <Button variant="secondary" className="py-1 px-3 text-xs" disabled={checking !== null} onClick={() => switchTo(profile)}>{t('settings.connection.switch')}</Button>
+                  </>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-[1fr_2fr_auto] gap-x-2 items-end">
+        <Input label={editingId ? t('settings.connection.profileName') : t('settings.connection.newProfile')} required error={formErrors.name} value={form.name} onChange={(e: any) => setForm({ ...form, name: e.target.value })} placeholder={t('settings.connection.namePlaceholder')} />
+        <Input label={t('settings.connection.baseUrl')} required error={formErrors.baseUrl} value={form.baseUrl} onChange={(e: any) => setForm({ ...form, baseUrl: e.target.value })} placeholder="https://staging.example.com/v2" />
+        <div className="flex gap-2 mb-4">
+          {editingId && <Button type="button" variant="secondary" onClick={resetForm}>{t('common.cancel')}</Button>}
+          <Button type="submit" variant="secondary" className="gap-2" disabled={checking !== null}>{editingId ? t('settings.connection.save') : <><Plus size={16} /> {t('common.add')}</>}</Button>
+        </div>
+      </form>
+
+      <label className="flex items-center gap-2 mt-2 text-sm text-slate-700 cursor-pointer select-none">
+        <input type="checkbox" checked={auth.isMock} onChange={(e) => auth.setMock(e.target.checked)} className="rounded text-indigo-600" />
+        {t('settings.connection.useMock')}
+      </label>
+    </div>
+  );
+};
+
+const TenantSettingsForm = () => {
+  const auth = useContext(AuthContext)!;
+  const tenant = auth.tenants.find(t => t.id === auth.tenantId);
+  // The policy covers every new member in the tenant, so changing it takes tenant-wide member rights
+  const canEdit = auth.can('write', 'members', null);
+  const [form, setForm] = useState<(Omit<TenantSettings, 'emailDomains'> & { emailDomains: string }) | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { notify } = useToast();
+  const { t } = useI18n();
+  const { fieldErrors, handleError, clearErrors } = useFormErrors();
+  const [roles, setRoles] = useState<Role[]>([]);
+
+  const toForm = (settings: TenantSettings) => ({ ...settings, usernamePattern: settings.usernamePattern || '', emailDomains: settings.emailDomains.join(', ') });
+
+  const fetchSettings = async () => {
+    setError(null);
+    try {
+      setForm(toForm(await api.getTenantSettings()));
+    } catch (err) {
+      setError(toApiError(err));
+    }
+  };
+
+  useEffect(() => {
+    fetchSettings();
+    api.getRoles().then(res => setRoles(res.data)).catch(() => setRoles([]));
+  }, []);
+
+  const toggle = <T,>(list: T[], value: T, on: boolean) => on ? [...list, value] : list.filter(v => v !== value);
+  // Picked by code, so one entry covers the same role in every unit; codes no role uses any more stay listed until cleared
+  const mfaRoleCodes = Array.from(new Set([...roles.map(r => r.code), ...(form?.mfaRequiredRoles || [])])).sort();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    setSaving(true);
+    clearErrors();
+    try {
+      const saved = await api.updateTenantSettings({
+        ...form,
+        usernamePattern: form.usernamePattern?.trim() || null,
+        emailDomains: form.emailDomains.split(',').map(d => d.trim()).filter(Boolean),
+      });
+      setForm(toForm(saved));
+      notify('success', t('settings.policy.saved'));
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-6">
+      <h2 className="font-semibold text-slate-900 mb-1">{t('settings.policy.title')}</h2>
+      <p className="text-sm text-slate-500 mb-4">
+        {t('settings.policy.intro', { tenant: tenant?.name || t('settings.policy.thisTenant'), id: auth.tenantId })}
+      </p>
+      {error ? <ErrorState error={error} onRetry={fetchSettings} /> : !form ? <p className="text-sm text-slate-500">{t('common.loading')}</p> : (
+        <form onSubmit={handleSubmit}>
+          <fieldset disabled={!canEdit} className="space-y-4">
+            <div>
+              <div className="text-sm font-medium text-slate-700 mb-2">{t('settings.policy.agentTypes')}</div>
+              <div className="flex flex-wrap gap-4">
+                {AGENT_TYPES.map(type => (
+                  <label key={type} className="flex items-center gap-2 text-sm text-slate-700 select-none">
+                    <input type="checkbox" className="rounded text-indigo-600" checked={form.allowedAgentTypes.includes(type)} onChange={(e) => setForm({ ...form, allowedAgentTypes: toggle(form.allowedAgentTypes, type, e.target.checked) })} />
+                    {t(`agentType.${type}`)}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-slate-500 mt-1">{t('settings.policy.agentTypesHint')}</p>
+            </div>
+            <div>
+              <div className="text-sm font-medium text-slate-700 mb-2">{t('settings.policy.requiredFields')}</div>
+              <div className="flex flex-wrap gap-4">
+                {REQUIRABLE_MEMBER_FIELDS.map(field => (
+                  <label key={field} className="flex items-center gap-2 text-sm text-slate-700 select-none">
+                    <input type="checkbox" className="rounded text-indigo-600" checked={form.requiredMemberFields.includes(field)} onChange={(e) => setForm({ ...form, requiredMemberFields: toggle(form.requiredMemberFields, field, e.target.checked) })} />
+                    {t(`settings.policy.field.${field}`)}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-slate-500 mt-1">{t('settings.policy.requiredFieldsHint')}</p>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+              <Input label={t('settings.policy.usernamePattern')} error={fieldErrors.usernamePattern} value={form.usernamePattern || ''} onChange={(e: any) => setForm({ ...form, usernamePattern: e.target.value })} placeholder={t('settings.policy.usernamePatternPlaceholder')} />
+              <Input label={t('settings.policy.emailDomains')} error={fieldErrors.emailDomains} value={form.emailDomains} onChange={(e: any) => setForm({ ...form, emailDomains: e.target.value })} placeholder={t('settings.policy.emailDomainsPlaceholder')} />
+              <Select
+                label={t('settings.policy.defaultStatus')}
+                value={form.defaultMemberStatus}
+                onChange={(e: any) => setForm({ ...form, defaultMemberStatus: e.target.value })}
+                options={[{ value: 'active', label: t('memberStatus.active') }, { value: 'inactive', label: t('memberStatus.inactive') }]}
+              />
+            </div>
+            <div>
+              <div className="text-sm font-medium text-slate-700 mb-2">{t('settings.policy.mfaRoles')}</div>
+              <div className="flex flex-wrap gap-4">
+                {mfaRoleCodes.map(code => (
+                  <label key={code} className="flex items-center gap-2 text-sm text-slate-700 select-none" title={roles.find(r => r.code === code)?.name}>
+                    <input type="checkbox" className="rounded text-indigo-600" checked={form.mfaRequiredRoles.includes(code)} onChange={(e) => setForm({ ...form, mfaRequiredRoles: toggle(form.mfaRequiredRoles, code, e.target.checked) })} />
+                    <span className="font-mono text-xs">{code}</span>
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-slate-500 mt-1">{t('settings.policy.mfaRolesHint')}</p>
+            </div>
+          </fieldset>
+          {canEdit && (
+            <div className="flex justify-end">
+              <Button type="submit" disabled={saving}>{saving ? t('common.saving') : t('settings.policy.save')}</Button>
+            </div>
+          )}
+        </form>
+      )}
+    </div>
+  );
+};
+
+const EMPTY_IDENTITY_PROVIDER: IdentityProviderInput = {
+  name: '', protocol: 'oidc', issuer: '', authorizationEndpoint: '', tokenEndpoint: null, clientId: '', scopes: ['openid', 'profile', 'email'],
+  claimMapping: { username: 'preferred_username', email: 'email', fullName: 'name', nickname: null, phone: null },
+  jitProvisioning: false, defaultOrgId: null, defaultRoleId: null, enabled: true,
+};
+
+const CLAIM_FIELDS: (keyof IdentityProviderInput['claimMapping'])[] = ['username', 'email', 'fullName', 'nickname', 'phone'];
+
+const IdentityProviderModal = ({ isOpen, provider, orgs, roles, onClose, onSaved }: {
+  isOpen: boolean,
+  provider: IdentityProvider | null,
+  orgs: OrgUnit[],
+  roles: Role[],
+  onClose: () => void,
+  onSaved: () => void,
+}) => {
+  const [form, setForm] = useState({ ...EMPTY_IDENTITY_PROVIDER, scopes: '' });
+  const [saving, setSaving] = useState(false);
+  const { fieldErrors, handleError, clearErrors } = useFormErrors();
+  const { notify } = useToast();
+  const { t } = useI18n();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const { id, ...input } = provider || { id: 0, ...EMPTY_IDENTITY_PROVIDER };
+    setForm({ ...input, scopes: input.scopes.join(' ') });
+    clearErrors();
+  }, [isOpen, provider]);
+
+  const isOidc = form.protocol === 'oidc';
+  const roleOptions = form.defaultOrgId ? applicableRoles(roles, orgs, form.defaultOrgId) : [];
+  const setClaim = (key: keyof IdentityProviderInput['claimMapping'], value: string) =>
+    setForm({ ...form, claimMapping: { ...form.claimMapping, [key]: value.trim() || null } });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const body: IdentityProviderInput = {
+        ...form,
+        tokenEndpoint: isOidc ? form.tokenEndpoint?.trim() || null : null,
+        scopes: isOidc ? form.scopes.split(/[\s,]+/).filter(Boolean) : [],
+      };
+      if (provider) await api.updateIdentityProvider(provider.id, body);
+      else await api.createIdentityProvider(body);
+      notify('success', t('idp.saved', { name: form.name }));
+      onSaved();
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={provider ? t('idp.form.editTitle') : t('idp.form.addTitle')} wide>
+      <form onSubmit={handleSubmit}>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+          <Input label={t('common.name')} required error={fieldErrors.name} value={form.name} onChange={(e: any) => setForm({ ...form, name: e.target.value })} placeholder={t('idp.form.namePlaceholder')} />
+          <Select
+            label={t('idp.form.protocol')}
+            value={form.protocol}
+            onChange={(e: any) => setForm({ ...form, protocol: e.target.value })}
+            options={[{ value: 'oidc', label: 'OpenID Connect' }, { value: 'saml', label: 'SAML 2.0' }]}
+          />
+          <Input label={isOidc ? t('idp.form.issuer') : t('idp.form.idpEntityId')} required error={fieldErrors.issuer} value={form.issuer} onChange={(e: any) => setForm({ ...form, issuer: e.target.value })} />
+          <Input label={isOidc ? t('idp.form.clientId') : t('idp.form.spEntityId')} required error={fieldErrors.clientId} value={form.clientId} onChange={(e: any) => setForm({ ...form, clientId: e.target.value })} />
+          <Input
+            label={isOidc ? t('idp.form.authorizationEndpoint') : t('idp.form.signInUrl')}
+            required
+            error={fieldErrors.authorizationEndpoint}
+            value={form.authorizationEndpoint}
+            onChange={(e: any) => setForm({ ...form, authorizationEndpoint: e.target.value })}
+            hint={isOidc ? undefined : t('idp.form.signInUrlHint')}
+          />
+          {isOidc && <Input label={t('idp.form.tokenEndpoint')} error={fieldErrors.tokenEndpoint} value={form.tokenEndpoint || ''} onChange={(e: any) => setForm({ ...form, tokenEndpoint: e.target.value })} hint={t('idp.form.tokenEndpointHint')} />}
+          {isOidc && <Input label={t('idp.form.scopes')} error={fieldErrors.scopes} value={form.scopes} onChange={(e: any) => setForm({ ...form, scopes: e.target.value })} placeholder="openid profile email" />}
+        </div>
+
+        <div className="text-sm font-medium text-slate-700 mb-2">{isOidc ? t('idp.form.claimMapping') : t('idp.form.attributeMapping')}</div>
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-x-4 p-3 border border-slate-200 rounded-md mb-1">
+          {CLAIM_FIELDS.map(key => (
+            <Input key={key} label={t(`idp.claim.${key}`)} required={key === 'username' || key === 'email'} value={form.claimMapping[key] || ''} onChange={(e: any) => setClaim(key, e.target.value)} placeholder={key === 'username' || key === 'email' ? undefined : t('idp.form.notMapped')} />
+          ))}
+        </div>
+        <FieldError error={fieldErrors.claimMapping} />
+        <p className="text-xs text-slate-500 mb-4">{t('idp.form.matchHint')}</p>
+
+        <label className="flex items-center gap-2 text-sm text-slate-700 select-none mb-3">
+          <input type="checkbox" checked={form.jitProvisioning} onChange={(e) => setForm({ ...form, jitProvisioning: e.target.checked })} className="rounded text-indigo-600" />
+          {t('idp.form.jit')}
+        </label>
+        {form.jitProvisioning && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4">
+            <Select
+              label={t('idp.form.defaultOrg')}
+              error={fieldErrors.defaultOrgId}
+              value={form.defaultOrgId ?? ''}
+              onChange={(e: any) => setForm({ ...form, defaultOrgId: e.target.value ? Number(e.target.value) : null, defaultRoleId: null })}
+              options={[{ value: '', label: t('common.none') }, ...orgs.map(o => ({ value: o.id, label: orgPathLabel(orgs, o.id) }))]}
+            />
+            <Select
+              label={t('idp.form.defaultRole')}
+              error={fieldErrors.defaultRoleId}
+              value={form.defaultRoleId ?? ''}
+              disabled={!form.defaultOrgId}
+              onChange={(e: any) => setForm({ ...form, defaultRoleId: e.target.value ? Number(e.target.value) : null })}
+              options={[{ value: '', label: t('common.noRole') }, ...roleOptions.map(r => ({ value: r.id, label: r.name }))]}
+            />
+          </div>
+        )}
+        <label className="flex items-center gap-2 text-sm text-slate-700 select-none">
+          <input type="checkbox" checked={form.enabled} onChange={(e) => setForm({ ...form, enabled: e.target.checked })} className="rounded text-indigo-600" />
+          {t('idp.form.enabled')}
+        </label>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <Button type="button" variant="secondary" onClick={onClose}>{t('common.cancel')}</Button>
+          <Button type="submit" disabled={saving}>{saving ? t('common.saving') : t('idp.form.save')}</Button>
         </div>
-        {children}
-      </div>
-    </div>
+      </form>
+    </Modal>
   );
 };
 
-// --- Pages ---
+const IdentityProviders = () => {
+  const auth = useContext(AuthContext)!;
+  // Providers decide who can sign in to the whole tenant, so managing them takes tenant-wide member rights
+  const canEdit = auth.can('write', 'members', null);
+  const [providers, setProviders] = useState<IdentityProvider[] | null>(null);
+  const [orgs, setOrgs] = useState<OrgUnit[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [isFormOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<IdentityProvider | null>(null);
+  const { notify, notifyError } = useToast();
+  const { t } = useI18n();
 
-const LoginPage = () => {
-  const auth = useContext(AuthContext);
-  const [loading, setLoading] = useState(false);
-  const [formData, setFormData] = useState({ username: '', password: '', tenantId: '1' });
+  const fetchProviders = async () => {
+    setError(null);
+    try {
+      setProviders((await api.getIdentityProviders()).data);
+    } catch (err) {
+      setError(toApiError(err));
+    }
+  };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setLoading(true);
+  useEffect(() => {
+    fetchProviders();
+    api.getOrgs().then(res => setOrgs(res.data)).catch(notifyError);
+    api.getRoles().then(res => setRoles(res.data)).catch(notifyError);
+  }, []);
+
+  const openForm = (provider: IdentityProvider | null) => {
+    setEditing(provider);
+    setFormOpen(true);
+  };
+
+  const remove = async (provider: IdentityProvider) => {
     try {
-      await auth?.login(formData);
-    } catch (e) {
-      alert('Login failed');
-    } finally {
-      setLoading(false);
+      await api.deleteIdentityProvider(provider.id);
+      notify('success', t('idp.removed', { name: provider.name }));
+      fetchProviders();
+    } catch (err) {
+      notifyError(err);
     }
   };
 
+  const redirectUri = `${window.location.origin}${SSO_CALLBACK_PATH}`;
+
   return (
-    <div className="min-h-screen bg-slate-100 flex items-center justify-center p-4">
-      <div className="bg-white rounded-xl shadow-lg max-w-md w-full p-8 space-y-6">
-        <div className="text-center">
-          <div className="bg-indigo-600 w-12 h-12 rounded-lg flex items-center justify-center mx-auto mb-4">
-            <Shield className="text-white" />
-          </div>
-          <h1 className="text-2xl font-bold text-slate-900">Welcome Back</h1>
-          <p className="text-slate-500">Sign in to your organization</p>
-        </div>
-        
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <Input 
-            label="Username" 
-            value={formData.username} 
-            onChange={(e: any) => setFormData({...formData, username: e.target.value})} 
-            placeholder="Enter username"
-            required
-          />
-          <Input 
-            label="Password" 
-            type="password" 
-            value={formData.password} 
-            onChange={(e: any) => setFormData({...formData, password: e.target.value})} 
-            placeholder="••••••••"
-            required
-          />
-          <Input 
-            label="Tenant ID" 
-            type="number" 
-            value={formData.tenantId} 
-            onChange={(e: any) => setFormData({...formData, tenantId: e.target.value})} 
-          />
-          
-          <Button type="submit" className="w-full h-10" disabled={loading}>
-            {loading ? 'Signing in...' : 'Sign In'}
-          </Button>
-        </form>
-        <div className="text-center text-xs text-slate-400">
-          System Version v2.4.0
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-6">
+      <div className="flex justify-between items-start gap-4 mb-4">
+        <div>
+          <h2 className="font-semibold text-slate-900 mb-1">{t('idp.title')}</h2>
+          <p className="text-sm text-slate-500 break-all">{t('idp.intro', { uri: redirectUri })}</p>
         </div>
+        {canEdit && <Button variant="secondary" className="gap-2 flex-shrink-0" onClick={() => openForm(null)}><Plus size={16} /> {t('idp.add')}</Button>}
       </div>
+
+      {error ? <ErrorState error={error} onRetry={fetchProviders} /> : !providers ? <p className="text-sm text-slate-500">{t('common.loading')}</p> : providers.length === 0 ? (
+        <p className="text-sm text-slate-500">{t('idp.empty')}</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 border border-slate-200 rounded-md">
+          {providers.map(provider => (
+            <li key={provider.id} className="px-4 py-3 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <div className="flex flex-wrap items-center gap-2 text-sm font-medium text-slate-900">
+                  {provider.name}
+                  <Badge type="neutral" text={provider.protocol.toUpperCase()} />
+                  {!provider.enabled && <Badge type="warning" text={t('idp.hidden')} />}
+                  {provider.jitProvisioning && <Badge type="success" text={t('idp.jit')} />}
+                </div>
+                <div className="font-mono text-xs text-slate-500 break-all">{provider.issuer}</div>
+              </div>
+              {canEdit && (
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <button onClick={() => openForm(provider)} className="p-1.5 text-slate-400 hover:text-indigo-600" title={t('idp.edit')}><Pencil size={16} /></button>
+                  <button onClick={() => remove(provider)} className="p-1.5 text-slate-400 hover:text-rose-600" title={t('idp.remove')}><Trash2 size={16} /></button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <IdentityProviderModal
+        isOpen={isFormOpen}
+        provider={editing}
+        orgs={orgs}
+        roles={roles}
+        onClose={() => setFormOpen(false)}
+        onSaved={() => { setFormOpen(false); fetchProviders(); }}
+      />
     </div>
   );
 };
 
-const MembersPage = () => {
-  const [members, setMembers] = useState<Member[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [filter, setFilter] = useState('all');
-  const [search, setSearch] = useState('');
-  const [isCreateOpen, setCreateOpen] = useState(false);
-  const [newMember, setNewMember] = useState({ 
-    username: '', fullName: '', email: '', isVirtual: false, agentType: 'llm', status: 'active' 
-  });
+// Self-service two-factor setup; the member policy decides whether it may be turned off
+const MfaSettings = ({ username }: { username: string }) => {
+  const { t, formatDate } = useI18n();
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  // Which code-protected action the code field is for, if any
+  const [action, setAction] = useState<'confirm' | 'regenerate' | 'disable' | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const { fieldErrors, handleError, clearErrors } = useFormErrors();
+  const { notify, notifyError } = useToast();
 
-  const fetchMembers = async () => {
-    setLoading(true);
+  const fetchStatus = async () => {
+    setError(null);
     try {
-      const res = await api.getMembers({ 
-        status: filter !== 'all' ? filter : undefined,
-        keyword: search || undefined
-      });
-      setMembers(res.data);
-    } finally {
-      setLoading(false);
+      setStatus(await api.getMfaStatus());
+    } catch (err) {
+      setError(toApiError(err));
     }
   };
 
   useEffect(() => {
-    fetchMembers();
-  }, [filter]);
+    fetchStatus();
+  }, []);
 
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    fetchMembers();
+  const openAction = (next: typeof action) => {
+    setAction(next);
+    setCode('');
+    clearErrors();
   };
 
-  const handleCreate = async (e: React.FormEvent) => {
+  const startEnrollment = async () => {
+    setBusy(true);
+    try {
+      setEnrollment(await api.startMfaEnrollment());
+      setRecoveryCodes(null);
+      openAction('confirm');
+    } catch (err) {
+      notifyError(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    await api.createMember(newMember);
-    setCreateOpen(false);
-    fetchMembers();
+    setBusy(true);
+    try {
+      if (action === 'confirm') {
+        setRecoveryCodes((await api.confirmMfaEnrollment({ code })).recoveryCodes);
+        setEnrollment(null);
+        notify('success', t('mfa.enabled'));
+      } else if (action === 'regenerate') {
+        setRecoveryCodes((await api.regenerateRecoveryCodes({ code })).recoveryCodes);
+      } else if (action === 'disable') {
+        await api.disableMfa({ code });
+        setRecoveryCodes(null);
+        notify('success', t('mfa.disabled'));
+      }
+      setAction(null);
+      await fetchStatus();
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setBusy(false);
+    }
   };
 
-  return (
-    <div className="space-y-6">
-      {/* Header */}
-      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
-        <h1 className="text-2xl font-bold text-slate-900">Members</h1>
-        <Button onClick={() => setCreateOpen(true)} className="gap-2 w-full sm:w-auto">
-          <Plus size={18} /> <span className="sm:inline">Add Member</span>
-        </Button>
-      </div>
+  const cancel = () => {
+    setAction(null);
+    setEnrollment(null);
+  };
 
-      {/* Filters */}
-      <div className="bg-white p-4 rounded-lg border border-slate-200 shadow-sm flex flex-col sm:flex-row gap-4 items-center">
-        <div className="relative flex-1 w-full">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" size={18} />
-          <input 
-            className="w-full pl-10 pr-4 py-2 border border-slate-300 rounded-md focus:ring-indigo-500 focus:border-indigo-500"
-            placeholder="Search by name, email, or username..."
-            value={search}
-            onChange={(e) => setSearch(e.target.value)}
-            onKeyDown={(e) => e.key === 'Enter' && fetchMembers()}
-          />
-        </div>
-        <div className="flex items-center gap-2 w-full sm:w-auto">
-          <Filter size={18} className="text-slate-500 flex-shrink-0" />
-          <select 
-            className="w-full sm:w-auto px-3 py-2 border border-slate-300 rounded-md focus:ring-indigo-500 text-sm"
-            value={filter}
-            onChange={(e) => setFilter(e.target.value)}
-          >
-            <option value="all">All Status</option>
-            <option value="active">Active</option>
-            <option value="inactive">Inactive</option>
-            <option value="suspended">Suspended</option>
-          </select>
-        </div>
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-6">
+      <div className="flex items-center justify-between gap-4 mb-1">
+        <h2 className="font-semibold text-slate-900">{t('mfa.title')}</h2>
+        {status && <Badge type={status.enabled ? 'success' : status.required ? 'warning' : 'neutral'} text={status.enabled ? t('mfa.on') : t('mfa.off')} />}
       </div>
+      <p className="text-sm text-slate-500 mb-4">{t('mfa.description')}</p>
 
-      {/* Table */}
-      <div className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
-        <div className="overflow-x-auto">
-          <table className="w-full text-left text-sm whitespace-nowrap">
-            <thead className="bg-slate-50 border-b border-slate-200">
-              <tr>
-                <th className="px-6 py-3 font-semibold text-slate-700">User</th>
-                <th className="px-6 py-3 font-semibold text-slate-700">Type</th>
-                <th className="px-6 py-3 font-semibold text-slate-700">Status</th>
-                <th className="px-6 py-3 font-semibold text-slate-700">Created At</th>
-                <th className="px-6 py-3 font-semibold text-slate-700 text-right">Actions</th>
-              </tr>
-            </thead>
-            <tbody className="divide-y divide-slate-200">
-              {loading ? (
-                <tr><td colSpan={5} className="p-8 text-center text-slate-500">Loading members...</td></tr>
-              ) : members.length === 0 ? (
-                <tr><td colSpan={5} className="p-8 text-center text-slate-500">No members found.</td></tr>
-              ) : (
-                members.map((member) => (
-                  <tr key={member.id} className="hover:bg-slate-50 transition-colors">
-                    <td className="px-6 py-4">
-                      <div className="flex items-center gap-3">
-                        <div className={`w-10 h-10 rounded-full flex-shrink-0 flex items-center justify-center font-bold text-white ${member.isVirtual ? 'bg-purple-500' : 'bg-indigo-500'}`}>
-                          {member.isVirtual ? <Bot size={20} /> : (member.fullName || member.username).substring(0, 2).toUpperCase()}
-                        </div>
-                        <div>
-                          <div className="font-medium text-slate-900">{member.fullName || 'N/A'}</div>
-                          <div className="text-slate-500 text-xs">@{member.username}</div>
-                        </div>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4">
-                      {member.isVirtual ? (
-                        <Badge type="neutral" text={`Agent: ${member.agentType || 'Unknown'}`} />
-                      ) : (
-                        <Badge type="neutral" text="Human" />
-                      )}
-                    </td>
-                    <td className="px-6 py-4">
-                      <Badge 
-                        type={member.status === 'active' ? 'success' : member.status === 'suspended' ? 'danger' : 'warning'} 
-                        text={member.status.toUpperCase()} 
-                      />
-                    </td>
-                    <td className="px-6 py-4 text-slate-500">
-                      {new Date(member.createdAt).toLocaleDateString()}
-                    </td>
-                    <td className="px-6 py-4 text-right">
-                      <button className="text-slate-400 hover:text-indigo-600 transition-colors">
-                        <MoreVertical size={18} />
-                      </button>
-                    </td>
-                  </tr>
-                ))
-              )}
-            </tbody>
-          </table>
-        </div>
-        
-        {/* Pagination (Visual Only for Demo) */}
-        <div className="px-6 py-3 border-t border-slate-200 flex flex-col sm:flex-row items-center justify-between gap-4">
-          <span className="text-sm text-slate-500">Showing {members.length} results</span>
-          <div className="flex gap-1">
-            <button className="p-1 border rounded hover:bg-slate-50 disabled:opacity-50" disabled><ChevronLeft size={16} /></button>
-            <button className="p-1 border rounded hover:bg-slate-50 disabled:opacity-50" disabled><ChevronRight size={16} /></button>
-          </div>
-        </div>
-      </div>
+      {error ? <ErrorState error={error} onRetry={fetchStatus} /> : !status ? <p className="text-sm text-slate-500">{t('common.loading')}</p> : (
+        <div className="space-y-4">
+          {status.enabled ? (
+            <p className="text-sm text-slate-600">
+              {t('mfa.enrolledOn', { date: status.enrolledAt ? formatDate(status.enrolledAt) : '—' })} · {t('mfa.codesLeft', { count: status.recoveryCodesRemaining })}
+            </p>
+          ) : status.required && (
+            <div className="p-3 rounded-md bg-amber-50 border border-amber-200 text-sm text-amber-800">{t('mfa.requiredNotice')}</div>
+          )}
 
-      {/* Create Modal */}
-      <Modal isOpen={isCreateOpen} onClose={() => setCreateOpen(false)} title="Add New Member">
-        <form onSubmit={handleCreate} className="space-y-4">
-          <Input label="Username" required value={newMember.username} onChange={(e:any) => setNewMember({...newMember, username: e.target.value})} />
-          <Input label="Full Name" value={newMember.fullName} onChange={(e:any) => setNewMember({...newMember, fullName: e.target.value})} />
-          <Input label="Email" type="email" required value={newMember.email} onChange={(e:any) => setNewMember({...newMember, email: e.target.value})} />
-          
-          <div className="flex items-center gap-2 mb-4">
-            <input 
-              type="checkbox" 
-              id="isVirtual" 
-              checked={newMember.isVirtual} 
-              onChange={(e) => setNewMember({...newMember, isVirtual: e.target.checked})}
-              className="rounded text-indigo-600 focus:ring-indigo-500"
-            />
-            <label htmlFor="isVirtual" className="text-sm text-slate-700 select-none">Is Virtual Agent?</label>
-          </div>
+          {recoveryCodes && <RecoveryCodeList codes={recoveryCodes} username={username} />}
+          {enrollment && <MfaSetup enrollment={enrollment} />}
 
-          {newMember.isVirtual && (
-            <Select 
-              label="Agent Type" 
-              value={newMember.agentType} 
-              onChange={(e:any) => setNewMember({...newMember, agentType: e.target.value})}
-              options={[
-                { value: 'llm', label: 'LLM Model' },
-                { value: 'workflow', label: 'Workflow Automation' },
-                { value: 'bot', label: 'Simple Bot' }
-              ]}
-            />
+          {action ? (
+            <form onSubmit={handleSubmit} className="max-w-xs">
+              <MfaCodeInput value={code} onChange={setCode} error={fieldErrors.code} allowRecovery={action === 'disable'} />
+              <div className="flex gap-2">
+                <Button type="submit" disabled={busy || !code.trim()} variant={action === 'disable' ? 'danger' : 'primary'}>
+                  {busy ? t('mfa.verifying') : t(action === 'confirm' ? 'mfa.confirm' : action === 'regenerate' ? 'mfa.regenerate' : 'mfa.turnOff')}
+                </Button>
+                <Button type="button" variant="secondary" onClick={cancel}>{t('common.cancel')}</Button>
+              </div>
+            </form>
+          ) : status.enabled ? (
+            <div className="flex flex-wrap gap-2">
+              <Button variant="secondary" className="gap-2" onClick={() => openAction('regenerate')}><RefreshCw size={16} /> {t('mfa.regenerate')}</Button>
+              {!status.required && <Button variant="secondary" className="gap-2" onClick={() => openAction('disable')}><PowerOff size={16} /> {t('mfa.turnOff')}</Button>}
+            </div>
+          ) : (
+            <Button className="gap-2" disabled={busy} onClick={startEnrollment}><Smartphone size={16} /> {t('mfa.setUp')}</Button>
           )}
-
-          <Select 
-            label="Status" 
-            value={newMember.status} 
-            onChange={(e:any) => setNewMember({...newMember, status: e.target.value})}
-            options={[
-              { value: 'active', label: 'Active' },
-              { value: 'inactive', label: 'Inactive' }
-            ]}
-          />
-          
-          <div className="flex justify-end gap-3 mt-6">
-            <Button type="button" variant="secondary" onClick={() => setCreateOpen(false)}>Cancel</Button>
-            <Button type="submit">Create Member</Button>
-          </div>
-        </form>
-      </Modal>
+          {status.enabled && status.required && !action && <p className="text-xs text-slate-500">{t('mfa.requiredCannotDisable')}</p>}
+        </div>
+      )}
     </div>
   );
 };
 
-const RolesPage = () => {
-  const [roles, setRoles] = useState<Role[]>([]);
-  const [loading, setLoading] = useState(true);
+const ProfilePage = () => {
+  const { t } = useI18n();
+  const [user, setUser] = useState<CurrentUser | null>(null);
+  const { notifyError } = useToast();
 
   useEffect(() => {
-    api.getRoles().then(res => {
-      setRoles(res.data);
-      setLoading(false);
-    });
+    api.getCurrentUser().then(setUser).catch(notifyError);
   }, []);
 
   return (
-    <div className="space-y-6">
-       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
-        <h1 className="text-2xl font-bold text-slate-900">Roles & Permissions</h1>
-        <Button className="gap-2 w-full sm:w-auto"><Plus size={18} /> Create Role</Button>
-      </div>
-      
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {loading ? <p>Loading...</p> : roles.map(role => (
-          <div key={role.id} className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm hover:shadow-md transition-shadow">
-            <div className="flex justify-between items-start mb-3">
-              <div className={`p-2 rounded-lg ${role.is_position ? 'bg-blue-100 text-blue-600' : 'bg-orange-100 text-orange-600'}`}>
-                {role.is_position ? <Users size={20} /> : <Shield size={20} />}
-              </div>
-              <Badge type={role.active ? 'success' : 'neutral'} text={role.active ? 'Active' : 'Inactive'} />
-            </div>
-            <h3 className="font-bold text-lg text-slate-900 mb-1">{role.name}</h3>
-            <p className="text-sm text-slate-500 mb-4 h-10 line-clamp-2">{role.description || 'No description provided.'}</p>
-            <div className="flex flex-wrap gap-2 mb-4">
-              <span className="text-xs bg-slate-100 px-2 py-1 rounded text-slate-600 font-mono">{role.code}</span>
-              <span className="text-xs bg-slate-100 px-2 py-1 rounded text-slate-600">Org: {role.org_id === 0 ? 'Global' : role.org_id}</span>
-            </div>
-            <Button variant="secondary" className="w-full text-xs">Manage Permissions</Button>
+    <div className="space-y-6 max-w-3xl">
+      <h1 className="text-2xl font-bold text-slate-900">{t('profile.title')}</h1>
+      {user && (
+        <div className="bg-white rounded-lg border border-slate-200 shadow-sm p-6 flex items-center gap-4">
+          <div className="w-12 h-12 rounded-full bg-indigo-500 flex-shrink-0 flex items-center justify-center font-bold text-white">
+            {(user.fullName || user.username).substring(0, 2).toUpperCase()}
           </div>
-        ))}
-      </div>
+          <div>
+            <div className="font-medium text-slate-900">{user.fullName || user.username}</div>
+            <div className="text-sm text-slate-500">@{user.username} · {t('profile.permissions', { count: user.permissions.length })}</div>
+          </div>
+        </div>
+      )}
+      {user && <MfaSettings username={user.username} />}
     </div>
   );
 };
 
-const OrgsPage = () => {
-  const [orgs, setOrgs] = useState<OrgUnit[]>([]);
-  const [loading, setLoading] = useState(true);
+const SettingsPage = () => {
+  const { t } = useI18n();
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <h1 className="text-2xl font-bold text-slate-900">{t('settings.title')}</h1>
+      <ConnectionProfiles />
+      <TenantSettingsForm />
+      <IdentityProviders />
+    </div>
+  );
+};
 
-  useEffect(() => {
-    api.getOrgs().then(res => {
-      setOrgs(res.data);
-      setLoading(false);
-    });
-  }, []);
+// --- Layout & Routing ---
 
+const TenantSwitcher = () => {
+  const auth = useContext(AuthContext);
+  const { t } = useI18n();
+  if (!auth) return null;
+  const current = auth.tenants.find(tenant => tenant.id === auth.tenantId);
+  const label = (
+    <>
+      <Building2 size={16} className="text-slate-400" />
+      <span className="truncate max-w-[10rem]">{current?.name || t('nav.tenant')}</span>
+      <span className="font-mono text-xs text-slate-400">#{auth.tenantId}</span>
+      {auth.tenants.length > 1 && <ChevronDown size={14} className="text-slate-400" />}
+    </>
+  );
+  if (auth.tenants.length <= 1) return <div className="hidden sm:flex items-center gap-2 text-sm text-slate-700">{label}</div>;
   return (
-    <div className="space-y-6">
-      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
-        <h1 className="text-2xl font-bold text-slate-900">Organization Structure</h1>
-        <Button className="gap-2 w-full sm:w-auto"><Plus size={18} /> Add Unit</Button>
-      </div>
+    <DropdownMenu
+      triggerClassName="flex items-center gap-2 px-2 py-1 text-sm text-slate-700 rounded-md hover:bg-slate-100"
+      trigger={label}
+      items={auth.tenants.map(tenant => ({
+        label: `${tenant.id === auth.tenantId ? '✓ ' : ''}${tenant.name} (#${tenant.id})`,
+        onClick: () => tenant.id !== auth.tenantId && auth.switchTenant(tenant.id),
+      }))}
+    />
+  );
+};
 
-      <div className="bg-white rounded-lg border border-slate-200 shadow-sm">
-        {loading ? <div className="p-8 text-center">Loading...</div> : (
-          <ul className="divide-y divide-slate-100">
-            {orgs.map(org => (
-              <li key={org.id} className="p-4 flex flex-col sm:flex-row sm:items-center justify-between hover:bg-slate-50 gap-4">
-                <div className="flex items-center gap-4">
-                  <div className="bg-slate-100 p-3 rounded-lg text-slate-500 flex-shrink-0">
-                    <Building2 size={24} />
-                  </div>
-                  <div>
-                    <div className="font-medium text-slate-900 text-lg">{org.name}</div>
-                    <div className="text-sm text-slate-500">{org.type.toUpperCase()} • ID: {org.id}</div>
-                  </div>
-                </div>
-                <div className="flex flex-col sm:flex-row sm:items-center gap-4 w-full sm:w-auto">
-                   <div className="text-sm text-slate-400 truncate max-w-xs">{org.description}</div>
-                   <Button variant="secondary" className="py-1 px-3 text-xs w-full sm:w-auto">Details</Button>
-                </div>
-              </li>
+// Developer controls for Mock API Mode; settings and data both persist in this browser
+const MockServerPanel = ({ isOpen, onClose, onReset }: { isOpen: boolean, onClose: () => void, onReset: () => void }) => {
+  const [settings, setSettings] = useState(mockServer.getSettings());
+  const [confirmReset, setConfirmReset] = useState(false);
+  const { notify } = useToast();
+  const { t } = useI18n();
+
+  const update = (patch: Partial<MockSettings>) => setSettings(mockServer.updateSettings(patch));
+
+  const toggleScenario = (id: string) => update({
+    scenarios: settings.scenarios.includes(id) ? settings.scenarios.filter(s => s !== id) : [...settings.scenarios, id],
+  });
+
+  const handleReset = () => {
+    mockServer.reset();
+    setConfirmReset(false);
+    onReset();
+    notify('success', t('mockServer.resetDone'));
+  };
+
+  return (
+    <Drawer isOpen={isOpen} onClose={onClose} title={t('mockServer.title')}>
+      <div className="space-y-6">
+        <Select
+          label={t('mockServer.latency')}
+          value={settings.latencyMs}
+          onChange={(e: any) => update({ latencyMs: Number(e.target.value) })}
+          options={MOCK_LATENCY_OPTIONS.map(ms => ({ value: ms, label: ms ? t('mockServer.latencyMs', { ms }) : t('common.none') }))}
+        />
+        <div>
+          <h4 className="text-sm font-medium text-slate-700 mb-1">{t('mockServer.scenarios')}</h4>
+          <p className="text-xs text-slate-500 mb-3">{t('mockServer.scenariosHint')}</p>
+          <div className="space-y-2">
+            {MOCK_SCENARIOS.map(scenario => (
+              <label key={scenario.id} className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer select-none">
+                <input type="checkbox" checked={settings.scenarios.includes(scenario.id)} onChange={() => toggleScenario(scenario.id)} className="rounded text-indigo-600" />
+                {t(`mockServer.scenario.${scenario.id}`)}
+              </label>
             ))}
-          </ul>
-        )}
+          </div>
+        </div>
+        <div className="pt-6 border-t border-slate-200">
+          <h4 className="text-sm font-medium text-slate-700 mb-1">{t('mockServer.data')}</h4>
+          <p className="text-xs text-slate-500 mb-3">{t('mockServer.dataHint')}</p>
+          {confirmReset ? (
+            <div className="flex items-center gap-2">
+              <Button variant="danger" onClick={handleReset}>{t('mockServer.resetAll')}</Button>
+              <Button variant="secondary" onClick={() => setConfirmReset(false)}>{t('common.cancel')}</Button>
+            </div>
+          ) : (
+            <Button variant="secondary" onClick={() => setConfirmReset(true)}>
+              <RotateCcw size={16} className="mr-2" /> {t('mockServer.reset')}
+            </Button>
+          )}
+        </div>
       </div>
-    </div>
+    </Drawer>
   );
 };
 
-// --- Layout & Routing ---
+interface AppRoute {
+  path: string;
+  pattern: RegExp;
+  // Sidebar entry the route belongs to; also resets the page's error boundary when it changes
+  section: string;
+  // Routes of a permissioned resource need its read grant; the sidebar hides the entry without it
+  resource?: PermissionResource;
+  render: (params: Record<string, number>) => React.ReactNode;
+}
+
+const appRoute = (path: string, section: string, render: AppRoute['render'], resource?: PermissionResource): AppRoute =>
+  ({ path, pattern: compileRoutePath(path), section, resource, render });
+
+const APP_ROUTES: AppRoute[] = [
+  appRoute('/', 'dashboard', () => <DashboardPage />),
+  appRoute('/members', 'members', () => <MembersPage />, 'members'),
+  appRoute('/members/:id', 'members', ({ id }) => <MemberDetailPage memberId={id} />, 'members'),
+  appRoute('/invitations', 'invitations', () => <InvitationsPage />, 'members'),
+  appRoute('/roles', 'roles', () => <RolesPage />, 'roles'),
+  appRoute('/roles/:id', 'roles', ({ id }) => <RolesPage roleId={id} />, 'roles'),
+  appRoute('/orgs', 'orgs', () => <OrgsPage />, 'orgs'),
+  appRoute('/orgs/:id', 'orgs', ({ id }) => <OrgsPage orgId={id} />, 'orgs'),
+  appRoute('/agents', 'agents', () => <AgentsPage />, 'agents'),
+  appRoute('/localization', 'localization', () => <LocalizationPage />),
+  appRoute('/audit', 'audit', () => <AuditLogsPage />),
+  appRoute('/settings', 'settings', () => <SettingsPage />),
+  appRoute('/profile', 'profile', () => <ProfilePage />),
+];
+
+const matchAppRoute = (pathname: string) => {
+  for (const route of APP_ROUTES) {
+    const params = matchRoutePath(route.pattern, pathname);
+    if (params) return { route, params };
+  }
+  return null;
+};
 
 const AppLayout = () => {
   const auth = useContext(AuthContext);
-  const [activeTab, setActiveTab] = useState('dashboard');
+  const { t } = useI18n();
+  const { pathname } = useLocation();
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [mockPanelOpen, setMockPanelOpen] = useState(false);
+  const [mockRevision, setMockRevision] = useState(0);
+  const match = matchAppRoute(pathname);
+  const section = match?.route.section;
+  const closeSidebar = () => setSidebarOpen(false);
+  const canRead = (resource: PermissionResource) => !!auth?.can('read', resource);
 
-  // Simple view router
-  const renderContent = () => {
-    switch(activeTab) {
-      case 'members': return <MembersPage />;
-      case 'roles': return <RolesPage />;
-      case 'orgs': return <OrgsPage />;
-      default: return (
-        <div className="p-4 sm:p-8 text-center bg-white rounded-xl border border-slate-200 border-dashed">
-          <LayoutDashboard className="mx-auto text-slate-300 mb-4" size={48} />
-          <h2 className="text-xl font-medium text-slate-700">Dashboard Dashboard</h2>
-          <p className="text-slate-500 mt-2">Welcome to the V2.4 Membership Management System.</p>
-          <div className="mt-8 grid grid-cols-1 sm:grid-cols-3 gap-6 max-w-2xl mx-auto text-left">
-             <div className="p-4 bg-indigo-50 rounded-lg border border-indigo-100">
-                <div className="text-2xl font-bold text-indigo-700">1,240</div>
-                <div className="text-sm text-indigo-600">Total Members</div>
-             </div>
-             <div className="p-4 bg-emerald-50 rounded-lg border border-emerald-100">
-                <div className="text-2xl font-bold text-emerald-700">45</div>
-                <div className="text-sm text-emerald-600">Active Agents</div>
-             </div>
-             <div className="p-4 bg-amber-50 rounded-lg border border-amber-100">
-                <div className="text-2xl font-bold text-amber-700">12</div>
-                <div className="text-sm text-amber-600">Pending Requests</div>
-             </div>
-          </div>
-        </div>
-      );
-    }
-  };
-
-  const handleNavClick = (tab: string) => {
-    setActiveTab(tab);
-    setSidebarOpen(false);
+  const renderPage = () => {
+    if (!match) return <StatusPage code={404} />;
+    const { route, params } = match;
+    if (route.resource && !auth?.permissions) return <div className="p-8 text-center text-slate-500">{t('common.loading')}</div>;
+    if (route.resource && !canRead(route.resource)) return <StatusPage code={403} />;
+    return route.render(params);
   };
 
   return (
@@ -687,19 +9172,20 @@ const AppLayout = () => {
         </div>
         
         <nav className="flex-1 py-6 space-y-1 overflow-y-auto">
-          <SidebarItem icon={LayoutDashboard} label="Dashboard" active={activeTab === 'dashboard'} onClick={() => handleNavClick('dashboard')} />
-          <SidebarItem icon={Users} label="Members" active={activeTab === 'members'} onClick={() => handleNavClick('members')} />
-          <SidebarItem icon={Shield} label="Roles & Perms" active={activeTab === 'roles'} onClick={() => handleNavClick('roles')} />
-          <SidebarItem icon={Building2} label="Organizations" active={activeTab === 'orgs'} onClick={() => handleNavClick('orgs')} />
-          <div className="pt-6 pb-2 px-4 text-xs font-semibold text-slate-400 uppercase tracking-wider">System</div>
-          <SidebarItem icon={Bot} label="AI Agents" onClick={() => {}} />
-          <SidebarItem icon={Globe} label="Localization" onClick={() => {}} />
-          <SidebarItem icon={FileText} label="Audit Logs" onClick={() => {}} />
-          <SidebarItem icon={SettingsIcon} label="Settings" onClick={() => {}} />
+          <SidebarItem icon={LayoutDashboard} label={t('nav.dashboard')} to="/" active={section === 'dashboard'} onClick={closeSidebar} />
+          {canRead('members') && <SidebarItem icon={Users} label={t('nav.members')} to="/members" active={section === 'members'} onClick={closeSidebar} />}
+          {canRead('members') && <SidebarItem icon={Mail} label={t('nav.invitations')} to="/invitations" active={section === 'invitations'} onClick={closeSidebar} />}
+          {canRead('roles') && <SidebarItem icon={Shield} label={t('nav.roles')} to="/roles" active={section === 'roles'} onClick={closeSidebar} />}
+          {canRead('orgs') && <SidebarItem icon={Building2} label={t('nav.orgs')} to="/orgs" active={section === 'orgs'} onClick={closeSidebar} />}
+          <div className="pt-6 pb-2 px-4 text-xs font-semibold text-slate-400 uppercase tracking-wider">{t('nav.system')}</div>
+          {canRead('agents') && <SidebarItem icon={Bot} label={t('nav.agents')} to="/agents" active={section === 'agents'} onClick={closeSidebar} />}
+          <SidebarItem icon={Globe} label={t('nav.localization')} to="/localization" active={section === 'localization'} onClick={closeSidebar} />
+          <SidebarItem icon={FileText} label={t('nav.audit')} to="/audit" active={section === 'audit'} onClick={closeSidebar} />
+          <SidebarItem icon={SettingsIcon} label={t('nav.settings')} to="/settings" active={section === 'settings'} onClick={closeSidebar} />
         </nav>
 
         <div className="p-4 border-t border-slate-200">
-           <div className="flex items-center gap-3 mb-4">
+           <Link to="/profile" onClick={closeSidebar} title={t('nav.profile')} className={`flex items-center gap-3 mb-4 -mx-2 px-2 py-1.5 rounded-md hover:bg-slate-50 ${section === 'profile' ? 'bg-slate-50' : ''}`}>
               <div className="w-8 h-8 rounded-full bg-slate-200 flex items-center justify-center text-xs font-bold text-slate-600">
                 {auth?.user?.username?.substring(0,2).toUpperCase()}
               </div>
@@ -707,9 +9193,9 @@ const AppLayout = () => {
                 <div className="text-sm font-medium text-slate-900 truncate">{auth?.user?.fullName}</div>
                 <div className="text-xs text-slate-500 truncate">@{auth?.user?.username}</div>
               </div>
-           </div>
+           </Link>
            <button onClick={auth?.logout} className="w-full flex items-center justify-center gap-2 text-sm text-slate-500 hover:text-rose-600 transition-colors py-2">
-             <LogOut size={16} /> Sign Out
+             <LogOut size={16} /> {t('nav.signOut')}
            </button>
         </div>
       </aside>
@@ -725,14 +9211,21 @@ const AppLayout = () => {
               >
                 <Menu size={24} />
               </button>
-              <div className="text-sm text-slate-500 hidden sm:block">Tenant ID: <span className="font-mono font-medium text-slate-700">1</span></div>
+              <TenantSwitcher />
            </div>
            <div className="flex items-center gap-4">
+              <LanguagePicker className="hidden sm:inline-flex" />
               <label className="flex items-center gap-2 text-xs text-slate-500 cursor-pointer select-none">
                 <input type="checkbox" checked={auth?.isMock} onChange={(e) => auth?.setMock(e.target.checked)} className="rounded text-indigo-600" />
-                <span className="hidden sm:inline">Mock API Mode</span>
-                <span className="sm:hidden">Mock</span>
+                <span className="hidden sm:inline">{t('nav.mockMode')}</span>
+                <span className="sm:hidden">{t('nav.mockModeShort')}</span>
               </label>
+              {auth?.isMock && (
+                <button onClick={() => setMockPanelOpen(true)} title="Mock server" className="p-2 text-slate-400 hover:bg-slate-100 rounded-full relative">
+                  {mockServer.getSettings().scenarios.length > 0 && <span className="absolute top-2 right-2 w-2 h-2 bg-amber-500 rounded-full"></span>}
+                  <FlaskConical size={20} />
+                </button>
+              )}
               <button className="p-2 text-slate-400 hover:bg-slate-100 rounded-full relative">
                 <span className="absolute top-2 right-2 w-2 h-2 bg-rose-500 rounded-full"></span>
                 <Activity size={20} />
@@ -740,24 +9233,45 @@ const AppLayout = () => {
            </div>
         </header>
 
-        <main className="flex-1 overflow-y-auto p-4 sm:p-8">
-          {renderContent()}
+        {/* Keyed by tenant and mock data resets so every page remounts and refetches */}
+        <main key={`${auth?.tenantId}:${mockRevision}`} className="flex-1 overflow-y-auto p-4 sm:p-8">
+          <ErrorBoundary key={section}>
+            {renderPage()}
+          </ErrorBoundary>
         </main>
       </div>
+
+      <MockServerPanel isOpen={mockPanelOpen} onClose={() => setMockPanelOpen(false)} onReset={() => setMockRevision(r => r + 1)} />
     </div>
   );
 };
 
 const App = () => {
   const auth = useContext(AuthContext);
+  const { pathname } = useLocation();
+  const { t } = useI18n();
   if (!auth) return null;
+  if (auth.restoring) {
+    return <div className="min-h-screen flex items-center justify-center text-slate-500">{t('login.restoring')}</div>;
+  }
+  // Reachable signed in or out, so an invitation opened in a browser with a session still lands here
+  if (pathname === '/accept-invite') return <AcceptInvitePage />;
+  if (pathname === '/request-access' && !auth.user) return <RequestAccessPage />;
+  if (pathname === SSO_CALLBACK_PATH) return <SsoCallbackPage />;
+  if (pathname === MOCK_IDP_AUTHORIZE_PATH && auth.isMock) return <MockIdpPage />;
+  // Mock mode never asks for a session, so the sign-in screen is only reachable there by its path
+  if (pathname === LOGIN_PATH && !auth.user) return <LoginPage />;
   return auth.user || auth.isMock ? <AppLayout /> : <LoginPage />;
 };
 
 // Main Entry
 const root = createRoot(document.getElementById('root')!);
 root.render(
-  <AuthProvider>
-    <App />
-  </AuthProvider>
+  <ToastProvider>
+    <AuthProvider>
+      <I18nProvider>
+        <App />
+      </I18nProvider>
+    </AuthProvider>
+  </ToastProvider>
 );
\ No newline at end of file
@@ -0,0 +1,179 @@
+// Generates api.generated.ts from openapi.json: domain types (camelCase), wire
+// types for schemas whose JSON uses other names, the raw schemas for runtime
+// validation and a typed client base class. Run with `npm run generate:api`.
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const spec = JSON.parse(readFileSync(resolve(root, 'openapi.json'), 'utf8'));
+const schemas = spec.components.schemas;
+
+const camel = (name) => name.replace(/_([a-z0-9])/g, (_, c) => c.toUpperCase());
+const pascal = (name) => camel(name).replace(/^./, (c) => c.toUpperCase());
+const refName = (ref) => ref.split('/').pop();
+const doc = (text, indent = '') => (text ? `${indent}/** ${text} */\n` : '');
+
+// Schemas whose wire JSON differs from the camelCase domain type, directly or through a $ref
+const wireOnly = new Set();
+const differs = (schema, seen = new Set()) => {
+  if (schema.$ref) {
+    const name = refName(schema.$ref);
+    if (seen.has(name)) return false;
+    seen.add(name);
+    return differs(schemas[name], seen);
+  }
+  if (schema.allOf) return schema.allOf.some((s) => differs(s, seen));
+  if (schema.items) return differs(schema.items, seen);
+  return Object.entries(schema.properties || {}).some(([key, s]) => camel(key) !== key || differs(s, seen));
+};
+for (const name of Object.keys(schemas)) if (differs({ $ref: `#/components/schemas/${name}` })) wireOnly.add(name);
+
+const tsType = (schema, wire) => {
+  let type;
+  if (schema.$ref) {
+    const name = refName(schema.$ref);
+    type = wire && wireOnly.has(name) ? `Wire.${name}` : name;
+  } else if (schema.enum) type = schema.enum.map((v) => `'${v}'`).join(' | ');
+  else if (schema.type === 'array') {
+    const item = tsType(schema.items, wire);
+    type = /[ |]/.test(item) ? `(${item})[]` : `${item}[]`;
+  } else if (schema.type === 'object') type = schema.properties ? objectType(schema, wire, '') : 'Record<string, any>';
+  else type = { integer: 'number', number: 'number', string: 'string', boolean: 'boolean' }[schema.type] || 'unknown';
+  return schema.nullable ? `${type} | null` : type;
+};
+
+const members = (schema, wire, indent) => {
+  const required = new Set(schema.required || []);
+  return Object.entries(schema.properties || {})
+    .map(([key, s]) => {
+      const name = wire ? key : camel(key);
+      return `${doc(s.description, indent)}${indent}${name}${required.has(key) ? '' : '?'}: ${tsType(s, wire)};\n`;
+    })
+    .join('');
+};
+const objectType = (schema, wire, indent) => `{\n${members(schema, wire, indent + '  ')}${indent}}`;
+
+const declaration = (name, schema, wire, indent = '') => {
+  const head = doc(schema.description, indent);
+  if (schema.allOf) {
+    const bases = schema.allOf.filter((s) => s.$ref).map((s) => tsType(s, wire));
+    const own = schema.allOf.filter((s) => !s.$ref);
+    return `${head}${indent}export interface ${name} extends ${bases.join(', ')} {\n${own.map((s) => members(s, wire, indent + '  ')).join('')}${indent}}\n`;
+  }
+  if (schema.type === 'object') return `${head}${indent}export interface ${name} ${objectType(schema, wire, indent)}\n`;
+  return `${head}${indent}export type ${name} = ${tsType(schema, wire)};\n`;
+};
+
+let out = '// Generated from openapi.json by scripts/generate-api.mjs. Do not edit by hand.\n\n';
+
+for (const [name, schema] of Object.entries(schemas)) out += declaration(name, schema, false) + '\n';
+
+out += '/** Shapes as they appear on the wire, for schemas that use snake_case */\n';
+out += 'export namespace Wire {\n';
+out += [...wireOnly].map((name) => declaration(name, schemas[name], true, '  ')).join('\n');
+out += '}\n\n';
+
+const operations = [];
+for (const [path, methods] of Object.entries(spec.paths)) {
+  for (const [method, op] of Object.entries(methods)) {
+    const params = op.parameters || [];
+    const body = op.requestBody?.content?.['application/json']?.schema;
+    const success = Object.entries(op.responses).find(([code]) => code.startsWith('2'))[1];
+    const response = success.content?.['application/json']?.schema;
+    operations.push({
+      id: op.operationId,
+      summary: op.summary,
+      method: method.toUpperCase(),
+      path,
+      pathParams: params.filter((p) => p.in === 'path'),
+      queryParams: params.filter((p) => p.in === 'query'),
+      body: body && refName(body.$ref),
+      response: response && refName(response.$ref),
+    });
+  }
+}
+
+for (const op of operations.filter((o) => o.queryParams.length)) {
+  out += `export interface ${pascal(op.id)}Query {\n`;
+  out += op.queryParams.map((p) => `${doc(p.description, '  ')}  ${camel(p.name)}?: ${tsType(p.schema, false)};\n`).join('');
+  out += '}\n\n';
+}
+
+out += `export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  $ref?: string;
+  allOf?: JsonSchema[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: (string | number)[];
+  format?: string;
+  nullable?: boolean;
+  description?: string;
+  minimum?: number;
+  maximum?: number;
+}
+
+export type SchemaName = ${Object.keys(schemas).map((n) => `'${n}'`).join(' | ')};
+
+export const SCHEMAS: Record<SchemaName, JsonSchema> = ${JSON.stringify(schemas, null, 2)};
+
+export type OperationId =
+${operations.map((o) => `  | '${o.id}'`).join('\n')};
+
+export interface Operation {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  path: string;
+  /** camelCase query param name to its wire name */
+  query: Record<string, string>;
+  body: SchemaName | null;
+  response: SchemaName | null;
+}
+
+export const OPERATIONS: Record<OperationId, Operation> = {
+${operations
+  .map((o) => {
+    const query = o.queryParams.map((p) => `${camel(p.name)}: '${p.name}'`).join(', ');
+    const body = o.body ? `'${o.body}'` : 'null';
+    const response = o.response ? `'${o.response}'` : 'null';
+    return `  ${o.id}: { method: '${o.method}', path: '${o.path}', query: { ${query} }, body: ${body}, response: ${response} },`;
+  })
+  .join('\n')
+  .replace(/query: \{  \}/g, 'query: {}')}
+};
+
+export interface CallArgs {
+  path?: Record<string, string | number>;
+  query?: object;
+  body?: unknown;
+}
+
+/** One method per operation; subclasses implement transport, casing and validation in \`call\` */
+export abstract class GeneratedApiClient {
+  protected abstract call(operationId: OperationId, args?: CallArgs): Promise<any>;
+`;
+
+for (const op of operations) {
+  const params = op.pathParams.map((p) => `${camel(p.name)}: number`);
+  const args = [];
+  if (op.pathParams.length) args.push(`path: { ${op.pathParams.map((p) => p.name === camel(p.name) ? p.name : `${p.name}: ${camel(p.name)}`).join(', ')} }`);
+  if (op.body) {
+    params.push(`body: ${op.body}`);
+    args.push('body');
+  }
+  if (op.queryParams.length) {
+    params.push(`query: ${pascal(op.id)}Query = {}`);
+    args.push('query');
+  }
+  const result = op.response || 'void';
+  out += `\n${doc(`${op.method} ${op.path}: ${op.summary}`, '  ')}`;
+  out += `  ${op.id}(${params.join(', ')}): Promise<${result}> {\n`;
+  out += `    return this.call('${op.id}'${args.length ? `, { ${args.join(', ')} }` : ''});\n`;
+  out += '  }\n';
+}
+out += '}\n';
+
+writeFileSync(resolve(root, 'api.generated.ts'), out);
+console.log(`api.generated.ts: ${Object.keys(schemas).length} schemas, ${operations.length} operations`);